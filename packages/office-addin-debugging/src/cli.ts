@@ -6,6 +6,7 @@
 import { Command } from "commander";
 import { logErrorMessage } from "office-addin-usage-data";
 import * as commands from "./commands";
+import { defaultLogLineCount } from "./logs";
 
 /* global process */
 
@@ -15,11 +16,14 @@ commander.name("office-addin-debugging");
 commander.version(process.env.npm_package_version || "(version not available)");
 
 commander
-  .command("start <manifest-path> [platform]")
+  .command("start [manifest-path] [platform]")
   .option("--app <app>", "Specify which Office app to use.")
   .option("--debug-method <method>", "The debug method to use.")
   .option("--dev-server <command>", "Run the dev server.")
   .option("--dev-server-port <port>", "Verify the dev server is running using this port.")
+  .option("--dev-server-url <url>", "Verify the dev server is running by requesting this url.")
+  .option("--dev-server-status <status>", "The status code when the dev server is running.")
+  .option("--dev-server-timeout <milliseconds>", "How long to wait for the dev server to run.")
   .option("--document <document>", "Document to be used for sideloading.")
   .option("--no-debug", "Start without debugging.")
   .option("--no-live-reload", "Do not enable live-reload.")
@@ -29,17 +33,39 @@ commander
   .option("--packager-host <host>")
   .option("--packager-port <port>")
   .option("--prod", "Specifies that debugging session is for production mode. Default is dev mode.")
+  .option("--registration <id>", "The registration id used to register the add-in.")
+  .option("--watch-manifest", "Register and sideload the add-in again when the manifest changes.")
   .option("--source-bundle-url-host <host>")
   .option("--source-bundle-url-port <port>")
   .option("--source-bundle-url-path <path>")
   .option("--source-bundle-url-extension <extension>")
+  .option("--config <path>", "The configuration file with the profiles.")
+  .option("--profile <name>", "Use the options of the profile in the configuration file.")
   .action(commands.start);
 
 commander
   .command("stop <manifest-path> [platform]")
+  .option("--app <app>", "Only stop debugging the Office app.")
   .option("--prod", "Specifies production mode.")
   .action(commands.stop);
 
+commander
+  .command("logs [session-id]")
+  .description("Show the output of the dev server and the packager of a debugging session.")
+  .option("-f, --follow", "Keep showing the output as it is written.")
+  .option(
+    "-n, --lines <count>",
+    `The number of lines at the end of the output to show. Default is ${defaultLogLineCount}.`
+  )
+  .action(commands.logs);
+
+commander
+  .command("sessions")
+  .description("List the debugging sessions.")
+  .option("--stop <session-id>", "Stop the debugging session.")
+  .option("--stop-all", "Stop all the debugging sessions.")
+  .action(commands.sessions);
+
 // if the command is not known, display an error
 commander.on("command:*", function () {
   logErrorMessage(`The command syntax is not valid.\n`);
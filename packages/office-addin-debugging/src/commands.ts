@@ -1,18 +1,22 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT license.
 
-import { OptionValues } from "commander";
+import { Command, OptionValues } from "commander";
 import fs from "fs";
 import { parseNumber, getPackageJsonScript } from "office-addin-cli";
 import { logErrorMessage } from "office-addin-usage-data";
 import * as devSettings from "office-addin-dev-settings";
 import { OfficeApp, parseOfficeApp } from "office-addin-manifest";
 import { AppType, parseDebuggingMethod, parsePlatform, Platform, startDebugging } from "./start";
-import { stopDebugging } from "./stop";
+import { loadStartProfile, mergeStartOptions } from "./config";
+import { IDebuggingSession, readSessions } from "./debugInfo";
+import { defaultLogLineCount, followLogFile, readLastLogLines } from "./logs";
+import { describeSession } from "./sessions";
+import { stopAllSessions, stopDebugging, stopSession } from "./stop";
 import { usageDataObject } from "./defaults";
 import { ExpectedError } from "office-addin-usage-data";
 
-/* global process */
+/* global console process */
 
 function determineManifestPath(platform: Platform, dev: boolean): string {
   let manifestPath = process.env.npm_package_config_manifest_location || "";
@@ -45,12 +49,34 @@ function parseDevServerPort(optionValue: any): number | undefined {
   return devServerPort;
 }
 
+function parseNonNegativeInteger(optionValue: any, option: string): number | undefined {
+  const value = parseNumber(optionValue, `${option} should specify a number.`);
+
+  if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+    throw new ExpectedError(`${option} should be an integer of 0 or more.`);
+  }
+
+  return value;
+}
+
 export async function start(
-  manifestPath: string,
+  manifestPath: string | undefined,
   platform: string | undefined,
-  options: OptionValues
+  options: OptionValues,
+  command?: Command
 ) {
   try {
+    const profile = loadStartProfile(options.config, options.profile);
+    if (profile) {
+      manifestPath = manifestPath || profile.manifest;
+      platform = platform || profile.platform;
+      options = mergeStartOptions(
+        options,
+        profile,
+        (name) => command?.getOptionValueSource(name) === "cli"
+      );
+    }
+
     const appPlatformToDebug: Platform | undefined = parsePlatform(
       platform || process.env.npm_package_config_app_platform_to_debug || Platform.Win32
     );
@@ -67,8 +93,20 @@ export async function start(
     const devServerPort = parseDevServerPort(
       options.devServerPort || process.env.npm_package_config_dev_server_port
     );
+    const devServerUrl: string | undefined =
+      options.devServerUrl || process.env.npm_package_config_dev_server_url;
+    const devServerExpectedStatus = parseNonNegativeInteger(
+      options.devServerStatus,
+      "--dev-server-status"
+    );
+    const devServerTimeout = parseNonNegativeInteger(
+      options.devServerTimeout,
+      "--dev-server-timeout"
+    );
     const document: string | undefined =
       options.document || process.env.npm_package_config_document;
+    const registration: string | undefined = options.registration;
+    const watchManifest: boolean = options.watchManifest === true;
     const enableDebugging: boolean = options.debug;
     const enableLiveReload: boolean = options.liveReload === true;
     const enableSideload: boolean = options.sideload !== false; // enable if true or undefined; only disable if false
@@ -76,12 +114,12 @@ export async function start(
     const packager: string | undefined =
       options.packager || (await getPackageJsonScript("packager"));
     const packagerHost: string | undefined =
-      options.PackagerHost || process.env.npm_package_config_packager_host;
+      options.packagerHost || process.env.npm_package_config_packager_host;
     const packagerPort: string | undefined =
-      options.PackagerPort || process.env.npm_package_config_packager_port;
+      options.packagerPort?.toString() || process.env.npm_package_config_packager_port;
     const sourceBundleUrlComponents = new devSettings.SourceBundleUrlComponents(
       options.sourceBundleUrlHost,
-      options.sourceBundleUrlPort,
+      options.sourceBundleUrlPort?.toString(),
       options.sourceBundleUrlPath,
       options.sourceBundleUrlExtension
     );
@@ -111,6 +149,9 @@ export async function start(
       sourceBundleUrlComponents,
       devServerCommandLine: devServer,
       devServerPort,
+      devServerUrl,
+      devServerExpectedStatus,
+      devServerTimeout,
       packagerCommandLine: packager,
       packagerHost,
       packagerPort,
@@ -119,6 +160,8 @@ export async function start(
       enableSideload,
       openDevTools,
       document,
+      registration,
+      watchManifest,
     });
 
     usageDataObject.reportSuccess("start");
@@ -138,15 +181,105 @@ export async function stop(
       platform || process.env.npm_package_config_app_plaform_to_debug || Platform.Win32
     );
     const dev: boolean = options.prod ? false : true;
+    const appToStop: string | undefined =
+      options.app || process.env.npm_package_config_app_to_debug;
+    const app: OfficeApp | undefined = appToStop ? parseOfficeApp(appToStop) : undefined;
 
     if (manifestPath === "" && appPlatformToDebug !== undefined) {
       manifestPath = determineManifestPath(appPlatformToDebug, dev);
     }
 
-    await stopDebugging(manifestPath);
+    await stopDebugging(manifestPath, app);
     usageDataObject.reportSuccess("stop");
   } catch (err: any) {
     usageDataObject.reportException("stop", err);
     logErrorMessage(`Unable to stop debugging.\n${err}`);
   }
 }
+
+export async function sessions(options: OptionValues) {
+  try {
+    if (options.stopAll) {
+      await stopAllSessions();
+    } else if (options.stop) {
+      const session = readSessions().find((session) => session.id === options.stop);
+      if (!session) {
+        throw new ExpectedError(`The debugging session ${options.stop} was not found.`);
+      }
+      await stopSession(session);
+    } else {
+      const debuggingSessions = readSessions();
+      if (debuggingSessions.length === 0) {
+        console.log("There are no debugging sessions.");
+      } else {
+        console.log(debuggingSessions.map(describeSession).join("\n\n"));
+      }
+    }
+    usageDataObject.reportSuccess("sessions");
+  } catch (err: any) {
+    usageDataObject.reportException("sessions", err);
+    logErrorMessage(`Unable to manage the debugging sessions.\n${err}`);
+  }
+}
+
+function getSessionForLogs(sessionId: string | undefined): IDebuggingSession {
+  const debuggingSessions = readSessions();
+  if (sessionId) {
+    const session = debuggingSessions.find((session) => session.id === sessionId);
+    if (!session) {
+      throw new ExpectedError(`The debugging session ${sessionId} was not found.`);
+    }
+    return session;
+  }
+
+  switch (debuggingSessions.length) {
+    case 0:
+      throw new ExpectedError("There are no debugging sessions.");
+    case 1:
+      return debuggingSessions[0];
+    default:
+      throw new ExpectedError(
+        `Please specify the debugging session: ${debuggingSessions
+          .map((session) => session.id)
+          .join(", ")}.`
+      );
+  }
+}
+
+export async function logs(sessionId: string | undefined, options: OptionValues) {
+  try {
+    const session = getSessionForLogs(sessionId);
+    const lineCount = parseNonNegativeInteger(options.lines, "--lines");
+    const logFiles = [
+      { name: "dev server", path: session.devServer.logPath },
+      { name: "packager", path: session.packager.logPath },
+    ].filter((logFile) => logFile.path !== undefined) as Array<{ name: string; path: string }>;
+
+    if (logFiles.length === 0) {
+      console.log(
+        `The debugging session ${session.id} did not start the dev server or the packager.`
+      );
+    }
+    logFiles.forEach((logFile) => {
+      console.log(`${logFile.name} log: ${logFile.path}`);
+      readLastLogLines(logFile.path, lineCount ?? defaultLogLineCount).forEach((line) =>
+        console.log(line)
+      );
+    });
+
+    if (options.follow && logFiles.length > 0) {
+      const stopFollowing = logFiles.map((logFile) =>
+        followLogFile(logFile.path, (text) => process.stdout.write(text))
+      );
+      // follow the logs until the command is stopped
+      process.once("SIGINT", () => {
+        stopFollowing.forEach((stop) => stop());
+        process.exit();
+      });
+    }
+    usageDataObject.reportSuccess("logs");
+  } catch (err: any) {
+    usageDataObject.reportException("logs", err);
+    logErrorMessage(`Unable to show the logs.\n${err}`);
+  }
+}
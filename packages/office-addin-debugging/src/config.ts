@@ -0,0 +1,254 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { OptionValues } from "commander";
+import fs from "fs";
+import path from "path";
+import { ExpectedError } from "office-addin-usage-data";
+
+/* global process require */
+
+/**
+ * The names of the configuration file, in the order they are looked for.
+ */
+export const configFileNames = ["office-addin.config.json", "office-addin.config.js"];
+
+/**
+ * Options of the start command which can be specified in a profile of the configuration file.
+ * The names are the same as the command-line options, in camel case.
+ */
+export interface StartProfile {
+  manifest?: string;
+  platform?: string;
+  app?: string;
+  debugMethod?: string;
+  devServer?: string;
+  devServerPort?: number;
+  devServerUrl?: string;
+  devServerStatus?: number;
+  devServerTimeout?: number;
+  document?: string;
+  debug?: boolean;
+  liveReload?: boolean;
+  sideload?: boolean;
+  devTools?: boolean;
+  packager?: string;
+  packagerHost?: string;
+  packagerPort?: number | string;
+  prod?: boolean;
+  registration?: string;
+  watchManifest?: boolean;
+  sourceBundleUrlHost?: string;
+  sourceBundleUrlPort?: number | string;
+  sourceBundleUrlPath?: string;
+  sourceBundleUrlExtension?: string;
+}
+
+/**
+ * The contents of the configuration file.
+ */
+export interface OfficeAddinConfig {
+  /**
+   * The profile used when no profile is specified.
+   */
+  defaultProfile?: string;
+
+  /**
+   * The profiles, by name.
+   */
+  profiles: { [name: string]: StartProfile };
+}
+
+type PropertyType = "boolean" | "number" | "string";
+
+const profileSchema: { [name in keyof StartProfile]-?: PropertyType[] } = {
+  manifest: ["string"],
+  platform: ["string"],
+  app: ["string"],
+  debugMethod: ["string"],
+  devServer: ["string"],
+  devServerPort: ["number"],
+  devServerUrl: ["string"],
+  devServerStatus: ["number"],
+  devServerTimeout: ["number"],
+  document: ["string"],
+  debug: ["boolean"],
+  liveReload: ["boolean"],
+  sideload: ["boolean"],
+  devTools: ["boolean"],
+  packager: ["string"],
+  packagerHost: ["string"],
+  packagerPort: ["number", "string"],
+  prod: ["boolean"],
+  registration: ["string"],
+  watchManifest: ["boolean"],
+  sourceBundleUrlHost: ["string"],
+  sourceBundleUrlPort: ["number", "string"],
+  sourceBundleUrlPath: ["string"],
+  sourceBundleUrlExtension: ["string"],
+};
+
+// profile options which are paths, resolved relative to the configuration file
+const pathOptions: Array<keyof StartProfile> = ["manifest", "document"];
+
+function isObject(value: any): boolean {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Returns the problems found in the configuration.
+ * @param config The contents of the configuration file
+ * @returns A message for each problem, or an empty array if the configuration is valid.
+ */
+export function validateConfig(config: any): string[] {
+  if (!isObject(config)) {
+    return ["The configuration should be an object."];
+  }
+
+  const problems: string[] = [];
+
+  for (const name of Object.keys(config)) {
+    if (name !== "defaultProfile" && name !== "profiles") {
+      problems.push(`"${name}" is not a known property.`);
+    }
+  }
+
+  if (!isObject(config.profiles)) {
+    problems.push(`"profiles" should be an object.`);
+    return problems;
+  }
+
+  for (const [profileName, profile] of Object.entries<any>(config.profiles)) {
+    if (!isObject(profile)) {
+      problems.push(`"profiles.${profileName}" should be an object.`);
+      continue;
+    }
+    for (const [name, value] of Object.entries(profile)) {
+      const types: PropertyType[] | undefined = (profileSchema as any)[name];
+      if (!types) {
+        problems.push(`"profiles.${profileName}.${name}" is not a known option.`);
+      } else if (!types.includes(typeof value as PropertyType)) {
+        problems.push(`"profiles.${profileName}.${name}" should be a ${types.join(" or a ")}.`);
+      }
+    }
+  }
+
+  if (config.defaultProfile !== undefined) {
+    if (typeof config.defaultProfile !== "string") {
+      problems.push(`"defaultProfile" should be a string.`);
+    } else if (!Object.prototype.hasOwnProperty.call(config.profiles, config.defaultProfile)) {
+      problems.push(`"defaultProfile" is "${config.defaultProfile}", which is not a profile.`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Returns the path of the configuration file in the directory.
+ * @param directory The directory. Default: the current directory.
+ * @returns The path, or undefined if there is no configuration file.
+ */
+export function findConfigFile(directory: string = process.cwd()): string | undefined {
+  return configFileNames
+    .map((fileName) => path.join(directory, fileName))
+    .find((filePath) => fs.existsSync(filePath));
+}
+
+/**
+ * Reads and validates the configuration file.
+ * @param configPath Path to the configuration file, either JSON or a JavaScript module which exports the configuration.
+ */
+export function readConfigFile(configPath: string): OfficeAddinConfig {
+  if (!fs.existsSync(configPath)) {
+    throw new ExpectedError(`The configuration file does not exist: ${configPath}.`);
+  }
+
+  let config: any;
+  try {
+    if (path.extname(configPath).toLowerCase() === ".js") {
+      config = require(path.resolve(configPath));
+    } else {
+      config = JSON.parse(fs.readFileSync(configPath, "utf8"));
+    }
+  } catch (err) {
+    throw new ExpectedError(`Unable to read the configuration file ${configPath}.\n${err}`);
+  }
+
+  const problems = validateConfig(config);
+  if (problems.length > 0) {
+    throw new ExpectedError(
+      `The configuration file ${configPath} is not valid:\n${problems.join("\n")}`
+    );
+  }
+
+  return config;
+}
+
+/**
+ * Returns the profile of the start options from the configuration file.
+ * @param configPath Path to the configuration file. If not provided, the configuration file is looked for in the current directory.
+ * @param profileName The name of the profile. If not provided, the default profile of the configuration file is used.
+ * @returns The profile, with paths resolved relative to the configuration file, or undefined if there is no profile to use.
+ */
+export function loadStartProfile(
+  configPath?: string,
+  profileName?: string
+): StartProfile | undefined {
+  const filePath = configPath ?? findConfigFile();
+  if (!filePath) {
+    if (profileName) {
+      throw new ExpectedError(
+        `The profile "${profileName}" was specified, but there is no configuration file (${configFileNames.join(
+          " or "
+        )}).`
+      );
+    }
+    return undefined;
+  }
+
+  const config = readConfigFile(filePath);
+  const name = profileName ?? config.defaultProfile;
+  if (name === undefined) {
+    return undefined;
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(config.profiles, name)) {
+    const profileNames = Object.keys(config.profiles);
+    throw new ExpectedError(
+      `The profile "${name}" was not found in ${filePath}. Profiles: ${
+        profileNames.length > 0 ? profileNames.join(", ") : "(none)"
+      }.`
+    );
+  }
+
+  const resolved: StartProfile = { ...config.profiles[name] };
+  for (const option of pathOptions) {
+    const value = resolved[option];
+    if (typeof value === "string" && !/^[a-z][a-z0-9+.-]*:\/\//i.test(value)) {
+      (resolved as any)[option] = path.resolve(path.dirname(filePath), value);
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Returns the start options with the options of the profile, except for the options specified on the command line.
+ * @param options The options of the start command
+ * @param profile The profile
+ * @param isSetOnCommandLine Returns whether the option was specified on the command line
+ */
+export function mergeStartOptions(
+  options: OptionValues,
+  profile: StartProfile,
+  isSetOnCommandLine: (name: string) => boolean
+): OptionValues {
+  const merged: OptionValues = { ...options };
+  for (const [name, value] of Object.entries(profile)) {
+    // the manifest and platform are arguments of the start command
+    if (name !== "manifest" && name !== "platform" && !isSetOnCommandLine(name)) {
+      merged[name] = value;
+    }
+  }
+  return merged;
+}
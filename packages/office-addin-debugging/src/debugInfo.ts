@@ -12,11 +12,43 @@ const processIdFile = "office-addin-debugging.json";
 const processIdFilePath = path.join(os.tmpdir(), processIdFile);
 
 export interface IDebuggingInfo {
+  /** The dev server of the last debugging session which was started. */
   devServer: IDevServerInfo;
+  sessions?: IDebuggingSession[];
 }
 
 export interface IDevServerInfo {
   processId: number | undefined;
+  port?: number;
+  /** The file which has the output of the dev server. */
+  logPath?: string;
+}
+
+export interface IPackagerInfo {
+  processId: number | undefined;
+  url?: string;
+  /** The file which has the output of the packager. */
+  logPath?: string;
+}
+
+/**
+ * A debugging session, for an Office Add-in in an Office app.
+ */
+export interface IDebuggingSession {
+  /** The session id, from the manifest id and the Office app. */
+  id: string;
+  manifestId: string;
+  manifestPath: string;
+  app?: string;
+  appType?: string;
+  devServer: IDevServerInfo;
+  packager: IPackagerInfo;
+  /** The document used for sideloading. */
+  document?: string;
+  /** The registration id used for sideloading. */
+  registration?: string;
+  /** When the session was started, as an ISO date. */
+  startTime: string;
 }
 
 export function getDebuggingInfoPath(): string {
@@ -64,13 +96,47 @@ function readDebuggingInfo(pathToFile: string): any {
   return JSON.parse(json.toString());
 }
 
+/**
+ * Read the DebuggingInfo object, or create it if the json file is missing or is not valid
+ */
+function readOrCreateDebuggingInfo(): IDebuggingInfo {
+  let debuggingInfo: any;
+  try {
+    debuggingInfo = fs.existsSync(processIdFilePath)
+      ? readDebuggingInfo(processIdFilePath)
+      : undefined;
+  } catch {
+    debuggingInfo = undefined;
+  }
+  if (typeof debuggingInfo !== "object" || debuggingInfo === null) {
+    return createDebuggingInfo();
+  }
+  return {
+    ...debuggingInfo,
+    devServer: debuggingInfo.devServer ?? { processId: undefined },
+    sessions: Array.isArray(debuggingInfo.sessions) ? debuggingInfo.sessions : [],
+  };
+}
+
+/**
+ * Write the DebuggingInfo to the json file, or delete the json file if there is no dev server or session
+ * @param debuggingInfo DebuggingInfo object
+ */
+function updateDebuggingInfo(debuggingInfo: IDebuggingInfo) {
+  if (debuggingInfo.devServer.processId || (debuggingInfo.sessions ?? []).length > 0) {
+    writeDebuggingInfo(debuggingInfo, processIdFilePath);
+  } else if (fs.existsSync(processIdFilePath)) {
+    fs.unlinkSync(processIdFilePath);
+  }
+}
+
 /**
  * Saves the process id of the dev server
  * @param id process id
  */
 export async function saveDevServerProcessId(id: number): Promise<void> {
   process.env.OfficeAddinDevServerProcessId = id.toString();
-  const debuggingInfo = createDebuggingInfo();
+  const debuggingInfo = readOrCreateDebuggingInfo();
   setDevServerProcessId(debuggingInfo, id);
   writeDebuggingInfo(debuggingInfo, processIdFilePath);
 }
@@ -95,11 +161,60 @@ export function readDevServerProcessId(): number | undefined {
 
 /**
  * Deletes the environment variable containing process id
- * and deletes the debug info json file if it exists
+ * and deletes the debug info json file if it does not have any debugging sessions
  */
 export function clearDevServerProcessId() {
-  if (fs.existsSync(processIdFilePath)) {
-    fs.unlinkSync(processIdFilePath);
-  }
+  const debuggingInfo = readOrCreateDebuggingInfo();
+  debuggingInfo.devServer = { processId: undefined };
+  updateDebuggingInfo(debuggingInfo);
   delete process.env.OfficeAddinDevServerProcessId;
 }
+
+/**
+ * Returns the id of the debugging session for an Office Add-in in an Office app
+ * @param manifestId The id of the Office Add-in in the manifest
+ * @param app The Office app (Optional)
+ */
+export function getSessionId(manifestId: string, app?: string): string {
+  return app ? `${manifestId}:${app}` : manifestId;
+}
+
+/**
+ * Returns the debugging sessions which were started and not stopped
+ */
+export function readSessions(): IDebuggingSession[] {
+  return readOrCreateDebuggingInfo().sessions ?? [];
+}
+
+/**
+ * Returns the debugging sessions of an Office Add-in
+ * @param manifestId The id of the Office Add-in in the manifest
+ * @param app If provided, only returns the session for the Office app
+ */
+export function findSessions(manifestId: string, app?: string): IDebuggingSession[] {
+  return readSessions().filter(
+    (session) => session.manifestId === manifestId && (app === undefined || session.app === app)
+  );
+}
+
+/**
+ * Saves a debugging session, replacing the session with the same id
+ * @param session The debugging session
+ */
+export function saveSession(session: IDebuggingSession) {
+  const debuggingInfo = readOrCreateDebuggingInfo();
+  debuggingInfo.sessions = (debuggingInfo.sessions ?? [])
+    .filter((existing) => existing.id !== session.id)
+    .concat(session);
+  updateDebuggingInfo(debuggingInfo);
+}
+
+/**
+ * Deletes a debugging session
+ * @param id The session id
+ */
+export function removeSession(id: string) {
+  const debuggingInfo = readOrCreateDebuggingInfo();
+  debuggingInfo.sessions = (debuggingInfo.sessions ?? []).filter((session) => session.id !== id);
+  updateDebuggingInfo(debuggingInfo);
+}
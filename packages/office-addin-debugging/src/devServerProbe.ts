@@ -0,0 +1,119 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import fs from "fs";
+import http from "http";
+import https from "https";
+import { ManifestInfo } from "office-addin-manifest";
+import os from "os";
+import path from "path";
+import tls from "tls";
+
+/* global Buffer URL */
+
+/**
+ * How to check that the dev server is ready.
+ */
+export interface DevServerProbe {
+  /**
+   * The url requested from the dev server.
+   */
+  url: string;
+
+  /**
+   * The status code of the response when the dev server is ready. Default: 200.
+   */
+  expectedStatus?: number;
+
+  /**
+   * Milliseconds to wait for the response. Default: 5000.
+   */
+  requestTimeout?: number;
+
+  /**
+   * If provided, path to a CA certificate which is trusted in addition to the root certificates,
+   * such as the CA certificate of the dev certs.
+   */
+  caCertificatePath?: string;
+}
+
+const defaultExpectedStatus = 200;
+const defaultRequestTimeout = 5000;
+const localHostNames = ["localhost", "127.0.0.1", "[::1]"];
+
+// where office-addin-dev-certs installs the CA certificate
+const devCertsDirectoryName = ".office-addin-dev-certs";
+const devCertsCaCertificateFileName = "ca.crt";
+
+/**
+ * Returns the path of the CA certificate installed by office-addin-dev-certs.
+ */
+export function getDevCertsCaCertificatePath(): string {
+  return path.join(os.homedir(), devCertsDirectoryName, devCertsCaCertificateFileName);
+}
+
+/**
+ * Returns the source location of the manifest if the add-in is served from the local computer.
+ * @param manifest The manifest info
+ */
+export function getDevServerUrl(manifest: ManifestInfo): string | undefined {
+  const sourceLocation = manifest.defaultSettings?.sourceLocation;
+  if (sourceLocation) {
+    try {
+      const url = new URL(sourceLocation);
+      if (localHostNames.includes(url.hostname)) {
+        return url.toString();
+      }
+    } catch {
+      // not a url
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the certificates trusted by the probe: the root certificates and the CA certificate, if it exists.
+ */
+function getTrustedCertificates(caCertificatePath?: string): Array<string | Buffer> {
+  const certificates: Array<string | Buffer> = [...tls.rootCertificates];
+  if (caCertificatePath && fs.existsSync(caCertificatePath)) {
+    certificates.push(fs.readFileSync(caCertificatePath));
+  }
+  return certificates;
+}
+
+/**
+ * Requests the url and returns true if the response has the expected status code.
+ * @param probe The url, expected status code and timeout
+ * @returns false if the request fails or times out, or the response has a different status code.
+ */
+export function isDevServerReady(probe: DevServerProbe): Promise<boolean> {
+  const expectedStatus = probe.expectedStatus ?? defaultExpectedStatus;
+  const timeout = probe.requestTimeout ?? defaultRequestTimeout;
+
+  return new Promise((resolve) => {
+    let url: URL;
+    try {
+      url = new URL(probe.url);
+    } catch {
+      resolve(false);
+      return;
+    }
+
+    const onResponse = (response: http.IncomingMessage) => {
+      response.resume();
+      resolve(response.statusCode === expectedStatus);
+    };
+    const request =
+      url.protocol === "https:"
+        ? https.get(
+            url,
+            { ca: getTrustedCertificates(probe.caCertificatePath), timeout },
+            onResponse
+          )
+        : http.get(url, { timeout }, onResponse);
+
+    request.on("timeout", () => request.destroy());
+    request.on("error", () => resolve(false));
+  });
+}
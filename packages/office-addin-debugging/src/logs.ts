@@ -0,0 +1,107 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+/* global Buffer */
+
+const logDirectoryName = "office-addin-debugging-logs";
+
+/**
+ * The number of log lines shown when the dev server or the packager is not running.
+ */
+export const defaultLogLineCount = 20;
+
+/**
+ * The processes started for a debugging session, which log to a file.
+ */
+export type LoggedProcess = "dev-server" | "packager";
+
+/**
+ * Returns the directory of the log files
+ */
+export function getLogDirectory(): string {
+  return path.join(os.tmpdir(), logDirectoryName);
+}
+
+/**
+ * Returns the path of the log file of a process started for a debugging session
+ * @param sessionId The session id
+ * @param loggedProcess The dev server or the packager
+ */
+export function getLogFilePath(sessionId: string, loggedProcess: LoggedProcess): string {
+  // session ids have characters, such as ":", which are not valid in file names on Windows
+  const fileName = sessionId.replace(/[^A-Za-z0-9._-]/g, "_");
+  return path.join(getLogDirectory(), `${fileName}.${loggedProcess}.log`);
+}
+
+/**
+ * Returns the last lines of a log file
+ * @param logFilePath Path to the log file
+ * @param count The number of lines. Default: 20.
+ * @returns The lines, or an empty array if the log file does not exist.
+ */
+export function readLastLogLines(
+  logFilePath: string,
+  count: number = defaultLogLineCount
+): string[] {
+  if (!fs.existsSync(logFilePath)) {
+    return [];
+  }
+  const lines = fs.readFileSync(logFilePath, "utf8").split(/\r?\n/);
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return count > 0 ? lines.slice(-count) : [];
+}
+
+/**
+ * Returns a description of the last lines of a log file, to add to an error message.
+ * @param name The name of the process, such as "dev server"
+ * @param logFilePath Path to the log file
+ */
+export function describeLastLogLines(name: string, logFilePath: string | undefined): string {
+  const lines = logFilePath ? readLastLogLines(logFilePath) : [];
+  if (lines.length === 0) {
+    return "";
+  }
+  return `\nLast lines of the ${name} log (${logFilePath}):\n${lines.join("\n")}`;
+}
+
+/**
+ * Calls the callback with the text added to a log file, until the returned function is called.
+ * @param logFilePath Path to the log file
+ * @param onText Called with the text added to the log file
+ * @param interval Milliseconds between checks of the log file. Default: 500.
+ * @returns A function which stops following the log file.
+ */
+export function followLogFile(
+  logFilePath: string,
+  onText: (text: string) => void,
+  interval: number = 500
+): () => void {
+  let position = fs.existsSync(logFilePath) ? fs.statSync(logFilePath).size : 0;
+
+  const listener = (current: fs.Stats) => {
+    if (current.size < position) {
+      // the log file was replaced when the process was started again
+      position = 0;
+    }
+    if (current.size > position) {
+      const buffer = Buffer.alloc(current.size - position);
+      const file = fs.openSync(logFilePath, "r");
+      try {
+        fs.readSync(file, buffer, 0, buffer.length, position);
+      } finally {
+        fs.closeSync(file);
+      }
+      position = current.size;
+      onText(buffer.toString("utf8"));
+    }
+  };
+
+  fs.watchFile(logFilePath, { interval }, listener);
+  return () => fs.unwatchFile(logFilePath, listener);
+}
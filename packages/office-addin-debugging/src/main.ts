@@ -1,7 +1,12 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT license.
 
+export * from "./config";
+export { IDebuggingSession, readSessions } from "./debugInfo";
+export * from "./devServerProbe";
+export * from "./logs";
 export * from "./port";
 export * from "./process";
+export * from "./sessions";
 export * from "./start";
 export * from "./stop";
@@ -0,0 +1,54 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import fs from "fs";
+
+/* global console */
+
+/**
+ * Watches the manifest file and calls the callback when it changes. When the manifest changes while
+ * the callback is running, the callback is called again after it completes.
+ * @param manifestPath Path to the manifest file
+ * @param onChange Called when the manifest changes
+ * @param interval Milliseconds between checks of the manifest file. Default: 500.
+ * @returns A function which stops watching the manifest file.
+ */
+export function watchManifestFile(
+  manifestPath: string,
+  onChange: () => Promise<void>,
+  interval: number = 500
+): () => void {
+  let isRunning = false;
+  let hasChanged = false;
+
+  const run = async () => {
+    hasChanged = true;
+    if (isRunning) {
+      return;
+    }
+    isRunning = true;
+    try {
+      while (hasChanged) {
+        hasChanged = false;
+        try {
+          await onChange();
+        } catch (err) {
+          console.log(`Unable to reload the manifest. ${err}`);
+        }
+      }
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  const listener = (current: fs.Stats, previous: fs.Stats) => {
+    // editors can delete the file before writing it again
+    const exists = current.mtimeMs !== 0;
+    if (exists && (current.mtimeMs !== previous.mtimeMs || current.size !== previous.size)) {
+      run();
+    }
+  };
+
+  fs.watchFile(manifestPath, { interval }, listener);
+  return () => fs.unwatchFile(manifestPath, listener);
+}
@@ -1,15 +1,71 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT license.
 
-import { ChildProcess } from "child_process";
+import childProcess, { ChildProcess } from "child_process";
+import fs from "fs";
 import * as devSettings from "office-addin-dev-settings";
+import path from "path";
+
+/* global console process */
 
 export async function startProcess(commandLine: string, verbose: boolean = false): Promise<void> {
   await devSettings.startProcess(commandLine, verbose);
 }
 
-export function startDetachedProcess(commandLine: string, verbose: boolean = false): ChildProcess {
-  return devSettings.startDetachedProcess(commandLine, verbose);
+/**
+ * Starts a process which keeps running after this process exits
+ * @param commandLine The command to run
+ * @param verbose If true, logs the command
+ * @param logFilePath If provided, the output of the process is written to the file, which is replaced
+ */
+export function startDetachedProcess(
+  commandLine: string,
+  verbose: boolean = false,
+  logFilePath?: string
+): ChildProcess {
+  if (!logFilePath) {
+    return devSettings.startDetachedProcess(commandLine, verbose);
+  }
+
+  if (verbose) {
+    console.log(`Starting: ${commandLine}`);
+  }
+
+  fs.mkdirSync(path.dirname(logFilePath), { recursive: true });
+  const logFile = fs.openSync(logFilePath, "w");
+  let subprocess: ChildProcess;
+  try {
+    subprocess = childProcess.spawn(commandLine, [], {
+      detached: true,
+      shell: true,
+      stdio: ["ignore", logFile, logFile],
+      windowsHide: false,
+    });
+  } finally {
+    // the process has its own handle to the log file
+    fs.closeSync(logFile);
+  }
+
+  subprocess.on("error", (err) => {
+    console.log(`Unable to run command: ${commandLine}.\n${err}`);
+  });
+
+  subprocess.unref();
+  return subprocess;
+}
+
+/**
+ * Returns true if the process is running
+ * @param processId process id
+ */
+export function isProcessRunning(processId: number): boolean {
+  try {
+    // signal 0 checks that the process exists without stopping it
+    process.kill(processId, 0);
+    return true;
+  } catch (err: any) {
+    return err.code === "EPERM";
+  }
 }
 
 export function stopProcess(processId: number): void {
@@ -0,0 +1,46 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { IDebuggingSession } from "./debugInfo";
+import { isProcessRunning } from "./process";
+
+function describeProcess(processId: number | undefined, location?: string | number): string {
+  if (!processId) {
+    return "not started";
+  }
+  const status = isProcessRunning(processId) ? "running" : "not running";
+  return `process id ${processId} (${status})${location !== undefined ? `, ${location}` : ""}`;
+}
+
+/**
+ * Returns a description of a debugging session, with its processes and whether they are running
+ * @param session The debugging session
+ */
+export function describeSession(session: IDebuggingSession): string {
+  const lines = [
+    session.id,
+    `  Manifest: ${session.manifestPath}`,
+    `  App: ${session.app ?? "(not specified)"}${session.appType ? ` (${session.appType})` : ""}`,
+    `  Dev server: ${describeProcess(
+      session.devServer.processId,
+      session.devServer.port !== undefined ? `port ${session.devServer.port}` : undefined
+    )}`,
+  ];
+  if (session.devServer.logPath) {
+    lines.push(`  Dev server log: ${session.devServer.logPath}`);
+  }
+  if (session.packager.processId || session.packager.url) {
+    lines.push(`  Packager: ${describeProcess(session.packager.processId, session.packager.url)}`);
+  }
+  if (session.packager.logPath) {
+    lines.push(`  Packager log: ${session.packager.logPath}`);
+  }
+  if (session.document) {
+    lines.push(`  Document: ${session.document}`);
+  }
+  if (session.registration) {
+    lines.push(`  Registration: ${session.registration}`);
+  }
+  lines.push(`  Started: ${session.startTime}`);
+  return lines.join("\n");
+}
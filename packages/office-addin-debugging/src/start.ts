@@ -9,9 +9,25 @@ import * as devCerts from "office-addin-dev-certs";
 import * as devSettings from "office-addin-dev-settings";
 import os from "os";
 import { DebuggingMethod, sideloadAddIn } from "office-addin-dev-settings";
-import { OfficeApp, OfficeAddinManifest } from "office-addin-manifest";
+import {
+  getOfficeAppsForManifestHosts,
+  ManifestInfo,
+  ManifestType,
+  ManifestValidation,
+  OfficeApp,
+  OfficeAddinManifest,
+  validateManifest,
+} from "office-addin-manifest";
 import * as nodeDebugger from "office-addin-node-debugger";
 import * as debugInfo from "./debugInfo";
+import {
+  DevServerProbe,
+  getDevCertsCaCertificatePath,
+  getDevServerUrl,
+  isDevServerReady,
+} from "./devServerProbe";
+import { describeLastLogLines, getLogFilePath } from "./logs";
+import { watchManifestFile } from "./manifestWatcher";
 import { getProcessIdsForPort } from "./port";
 import { startDetachedProcess } from "./process";
 import { usageDataObject } from "./defaults";
@@ -43,7 +59,23 @@ function delay(milliseconds: number): Promise<void> {
   });
 }
 
-export async function isDevServerRunning(port: number): Promise<boolean> {
+/**
+ * Returns true if the dev server is running. If there is a probe, the dev server is requested;
+ * otherwise, the processes using the port are checked.
+ * @param port Port of the dev server
+ * @param probe If provided, the url requested from the dev server and the expected response
+ */
+export async function isDevServerRunning(
+  port: number | undefined,
+  probe?: DevServerProbe
+): Promise<boolean> {
+  if (probe) {
+    return isDevServerReady(probe);
+  }
+  if (port === undefined) {
+    return false;
+  }
+
   // isPortInUse(port) will return false when webpack-dev-server is running.
   // it should be fixed, but for now, use getProcessIdsForPort(port)
   const processIds = await getProcessIdsForPort(port);
@@ -100,11 +132,29 @@ export function parsePlatform(text: string): Platform | undefined {
   }
 }
 
-export async function runDevServer(commandLine: string, port?: number): Promise<void> {
+/**
+ * Starts the dev server if it is not running
+ * @param commandLine The command to run the dev server
+ * @param port If provided, port to verify that the dev server is running
+ * @param probe If provided, the url requested to verify that the dev server is running, instead of the port
+ * @param timeout Milliseconds to wait until the dev server is running. Default: 30000.
+ * @param logFilePath If provided, the file which has the output of the dev server
+ * @returns The process id of the dev server, if it was started
+ */
+export async function runDevServer(
+  commandLine: string,
+  port?: number,
+  probe?: DevServerProbe,
+  timeout?: number,
+  logFilePath?: string
+): Promise<number | undefined> {
   if (commandLine) {
+    const canVerify = port !== undefined || probe !== undefined;
+    const location = probe ? `at ${probe.url}` : `on port ${port}`;
+
     // if the dev server is running
-    if (port !== undefined && (await isDevServerRunning(port))) {
-      console.log(`The dev server is already running on port ${port}.`);
+    if (canVerify && (await isDevServerRunning(port, probe))) {
+      console.log(`The dev server is already running ${location}.`);
     } else {
       // On non-Windows platforms, prompt for installing the dev certs before starting the dev server.
       // This is a workaround for the fact that the detached process does not show a window on Mac,
@@ -117,23 +167,38 @@ export async function runDevServer(commandLine: string, port?: number): Promise<
 
       // start the dev server
       console.log(`Starting the dev server... (${commandLine})`);
-      const devServerProcess = startDetachedProcess(commandLine);
+      const devServerProcess = startDetachedProcess(commandLine, false, logFilePath);
       await debugInfo.saveDevServerProcessId(devServerProcess.pid);
+      if (logFilePath) {
+        console.log(`The dev server output is written to ${logFilePath}.`);
+      }
 
-      if (port !== undefined) {
+      if (canVerify) {
         // wait until the dev server is running
-        const isRunning: boolean = await waitUntilDevServerIsRunning(port);
+        const retryDelay = 1000;
+        const retryCount = timeout !== undefined ? Math.ceil(timeout / retryDelay) : 30;
+        const isRunning: boolean = await waitUntilDevServerIsRunning(
+          port,
+          retryCount,
+          retryDelay,
+          probe
+        );
 
         if (isRunning) {
-          console.log(
-            `The dev server is running on port ${port}. Process id: ${devServerProcess.pid}`
-          );
+          console.log(`The dev server is running ${location}. Process id: ${devServerProcess.pid}`);
         } else {
-          throw new Error(`The dev server is not running on port ${port}.`);
+          throw new Error(
+            `The dev server is not running ${location}.${describeLastLogLines(
+              "dev server",
+              logFilePath
+            )}`
+          );
         }
       }
+      return devServerProcess.pid;
     }
   }
+  return undefined;
 }
 
 export async function runNodeDebugger(host?: string, port?: string): Promise<void> {
@@ -142,11 +207,20 @@ export async function runNodeDebugger(host?: string, port?: string): Promise<voi
   console.log("The node debugger is running.");
 }
 
+/**
+ * Starts the packager if it is not running
+ * @param commandLine The command to run the packager
+ * @param host Host name of the packager
+ * @param port Port of the packager
+ * @param logFilePath If provided, the file which has the output of the packager
+ * @returns The process id of the packager, if it was started
+ */
 export async function runPackager(
   commandLine: string,
   host: string = "localhost",
-  port: string = "8081"
-): Promise<void> {
+  port: string = "8081",
+  logFilePath?: string
+): Promise<number | undefined> {
   if (commandLine) {
     // eslint-disable-next-line @microsoft/sdl/no-insecure-url
     const packagerUrl: string = `http://${host}:${port}`;
@@ -158,16 +232,23 @@ export async function runPackager(
     } else {
       // start the packager
       console.log(`Starting the packager... (${commandLine})`);
-      await startDetachedProcess(commandLine);
+      const packagerProcess = startDetachedProcess(commandLine, false, logFilePath);
 
       // wait until the packager is running
       if (await waitUntilPackagerIsRunning(statusUrl)) {
         console.log(`The packager is running. ${packagerUrl}`);
       } else {
-        throw new Error(`The packager is not running. ${packagerUrl}`);
+        throw new Error(
+          `The packager is not running. ${packagerUrl}${describeLastLogLines(
+            "packager",
+            logFilePath
+          )}`
+        );
       }
+      return packagerProcess.pid;
     }
   }
+  return undefined;
 }
 
 /**
@@ -205,6 +286,22 @@ export interface StartDebuggingOptions {
    */
   devServerPort?: number;
 
+  /**
+   * The url requested to verify that the dev server is running.
+   * Default: the source location in the manifest, if it is on the local computer.
+   */
+  devServerUrl?: string;
+
+  /**
+   * The status code of the response when the dev server is running. Default: 200.
+   */
+  devServerExpectedStatus?: number;
+
+  /**
+   * Milliseconds to wait until the dev server is running. Default: 30000.
+   */
+  devServerTimeout?: number;
+
   /**
    *  If provided, starts the packager.
    */
@@ -246,6 +343,17 @@ export interface StartDebuggingOptions {
    * If provided, the document to open for sideloading to web.
    */
   document?: string;
+
+  /**
+   * If provided, the registration id used to register the add-in for sideloading.
+   */
+  registration?: string;
+
+  /**
+   * Watch the manifest file. When it changes, the manifest is validated, and the add-in is registered
+   * and sideloaded again. The dev server and the packager keep running.
+   */
+  watchManifest?: boolean;
 }
 
 /**
@@ -260,6 +368,9 @@ export async function startDebugging(manifestPath: string, options: StartDebuggi
     sourceBundleUrlComponents,
     devServerCommandLine,
     devServerPort,
+    devServerUrl,
+    devServerExpectedStatus,
+    devServerTimeout,
     packagerCommandLine,
     packagerHost,
     packagerPort,
@@ -268,6 +379,8 @@ export async function startDebugging(manifestPath: string, options: StartDebuggi
     enableSideload,
     openDevTools,
     document,
+    registration,
+    watchManifest,
   } = {
     // Supplied Options
     ...options,
@@ -279,6 +392,9 @@ export async function startDebugging(manifestPath: string, options: StartDebuggi
     enableLiveReload: options.enableLiveReload ?? true,
   };
 
+  // the manifest which is watched, which can be a zip file
+  const watchedManifestPath = manifestPath;
+
   try {
     if (appType === undefined) {
       throw new ExpectedError("Please specify the application type to debug.");
@@ -371,20 +487,47 @@ export async function startDebugging(manifestPath: string, options: StartDebuggi
     }
 
     // Run packager and dev server at the same time and wait for them to complete.
-    let packagerPromise: Promise<void> | undefined;
-    let devServerPromise: Promise<void> | undefined;
+    let packagerPromise: Promise<number | undefined> | undefined;
+    let devServerPromise: Promise<number | undefined> | undefined;
+    let packagerProcessId: number | undefined;
+    let devServerProcessId: number | undefined;
+
+    // the processes started for the session write their output to log files
+    const sessionApp = app ?? getSingleOfficeApp(manifestInfo);
+    const sessionId = debugInfo.getSessionId(manifestInfo.id, sessionApp);
+    const packagerLogPath = getLogFilePath(sessionId, "packager");
+    const devServerLogPath = getLogFilePath(sessionId, "dev-server");
 
     if (packagerCommandLine && isProxyDebuggingMethod && isDesktopAppType) {
-      packagerPromise = runPackager(packagerCommandLine, packagerHost, packagerPort);
+      packagerPromise = runPackager(
+        packagerCommandLine,
+        packagerHost,
+        packagerPort,
+        packagerLogPath
+      );
     }
 
     if (devServerCommandLine) {
-      devServerPromise = runDevServer(devServerCommandLine, devServerPort);
+      const probeUrl = devServerUrl ?? getDevServerUrl(manifestInfo);
+      const probe: DevServerProbe | undefined = probeUrl
+        ? {
+            url: probeUrl,
+            expectedStatus: devServerExpectedStatus,
+            caCertificatePath: getDevCertsCaCertificatePath(),
+          }
+        : undefined;
+      devServerPromise = runDevServer(
+        devServerCommandLine,
+        devServerPort,
+        probe,
+        devServerTimeout,
+        devServerLogPath
+      );
     }
 
     if (packagerPromise !== undefined) {
       try {
-        await packagerPromise;
+        packagerProcessId = await packagerPromise;
       } catch (err) {
         console.log(`Unable to start the packager. ${err}`);
       }
@@ -392,7 +535,7 @@ export async function startDebugging(manifestPath: string, options: StartDebuggi
 
     if (devServerPromise !== undefined) {
       try {
-        await devServerPromise;
+        devServerProcessId = await devServerPromise;
       } catch (err) {
         console.log(`Unable to start the dev server. ${err}`);
       }
@@ -406,10 +549,31 @@ export async function startDebugging(manifestPath: string, options: StartDebuggi
       }
     }
 
+    // save the session before sideloading, so that it can be stopped if sideloading fails
+    saveDebuggingSession(manifestPath, manifestInfo, {
+      app: sessionApp,
+      appType,
+      document,
+      registration,
+      devServer: {
+        processId: devServerProcessId,
+        port: devServerPort,
+        logPath: devServerProcessId ? devServerLogPath : undefined,
+      },
+      packager: {
+        processId: packagerProcessId,
+        logPath: packagerProcessId ? packagerLogPath : undefined,
+        url: packagerPromise
+          ? // eslint-disable-next-line @microsoft/sdl/no-insecure-url
+            `http://${packagerHost ?? "localhost"}:${packagerPort ?? "8081"}`
+          : undefined,
+      },
+    });
+
     if (enableSideload) {
       try {
         console.log(`Sideloading the Office Add-in...`);
-        await sideloadAddIn(manifestPath, app, true, appType, document);
+        await sideloadAddIn(manifestPath, app, true, appType, document, registration);
       } catch (err) {
         throw new Error(`Unable to sideload the Office Add-in. \n${err}`);
       }
@@ -417,6 +581,26 @@ export async function startDebugging(manifestPath: string, options: StartDebuggi
 
     console.log(enableDebugging ? "Debugging started." : "Started.");
 
+    if (watchManifest) {
+      const manifestId = manifestInfo.id;
+      const stopWatching = watchManifestFile(watchedManifestPath, () =>
+        reloadManifest(watchedManifestPath, manifestId, {
+          app: sessionApp,
+          appType,
+          document,
+          enableSideload,
+          registration,
+        })
+      );
+      process.once("SIGINT", () => {
+        stopWatching();
+        process.exit();
+      });
+      console.log(
+        `Watching the manifest for changes: ${watchedManifestPath}. Press Ctrl+C to stop.`
+      );
+    }
+
     usageDataObject.reportSuccess("startDebugging()", {
       app: app,
       document: document,
@@ -432,6 +616,121 @@ export async function startDebugging(manifestPath: string, options: StartDebuggi
   }
 }
 
+/**
+ * Returns the Office app of the manifest if it only has one
+ */
+function getSingleOfficeApp(manifestInfo: ManifestInfo): OfficeApp | undefined {
+  const apps = getOfficeAppsForManifestHosts(manifestInfo.hosts);
+  return apps.length === 1 ? apps[0] : undefined;
+}
+
+/**
+ * Saves the debugging session for the add-in and the Office app. When the dev server or the packager
+ * was already running, the session uses the process and the log file of the session which started it.
+ */
+function saveDebuggingSession(
+  manifestPath: string,
+  manifestInfo: ManifestInfo,
+  session: Omit<debugInfo.IDebuggingSession, "id" | "manifestId" | "manifestPath" | "startTime">
+) {
+  const manifestId = manifestInfo.id || "";
+  const sessions = debugInfo.readSessions();
+  if (session.devServer.processId === undefined && session.devServer.port !== undefined) {
+    const existing = sessions.find((other) => other.devServer.port === session.devServer.port);
+    session.devServer.processId = existing?.devServer.processId;
+    session.devServer.logPath = existing?.devServer.logPath;
+  }
+  if (session.packager.processId === undefined && session.packager.url !== undefined) {
+    const existing = sessions.find((other) => other.packager.url === session.packager.url);
+    session.packager.processId = existing?.packager.processId;
+    session.packager.logPath = existing?.packager.logPath;
+  }
+  debugInfo.saveSession({
+    ...session,
+    id: debugInfo.getSessionId(manifestId, session.app),
+    manifestId,
+    manifestPath: fspath.resolve(manifestPath),
+    startTime: new Date().toISOString(),
+  });
+}
+
+/**
+ * Validates the manifest which changed, then unregisters the add-in, and registers and sideloads it again.
+ * The dev server and the packager keep running.
+ * @param manifestPath Path to the manifest file, or the zip file which has the manifest
+ * @param manifestId The id of the add-in when debugging was started
+ * @param options The options used to start debugging
+ */
+async function reloadManifest(
+  manifestPath: string,
+  manifestId: string,
+  options: Pick<
+    StartDebuggingOptions,
+    "app" | "appType" | "document" | "enableSideload" | "registration"
+  >
+) {
+  console.log("The manifest has changed.");
+  if (manifestPath.endsWith(".zip")) {
+    manifestPath = await extractManifest(manifestPath);
+  }
+
+  const manifestInfo = await OfficeAddinManifest.readManifestFile(manifestPath);
+  if (manifestInfo.id !== manifestId) {
+    console.log(
+      "The id of the add-in in the manifest has changed. Stop and start debugging again to use it."
+    );
+    return;
+  }
+
+  // xml manifests are validated without the validation service, so that it is fast
+  const isOffline: boolean = manifestInfo.manifestType !== ManifestType.JSON;
+  const validation: ManifestValidation = await validateManifest(manifestPath, false, isOffline);
+  const errors = validation.report?.errors ?? [];
+  if (!validation.isValid && !isOffline) {
+    console.log("The manifest is not valid, so the add-in was not loaded again.");
+    errors.forEach((error) => {
+      console.log(`  ${error.title}: ${error.content}`);
+    });
+    return;
+  }
+  if (!validation.isValid) {
+    // offline validation approximates the schema, so it doesn't prevent the reload
+    console.log(
+      'Warning: the manifest may not be valid. Run "office-addin-manifest validate" to check it with the validation service.'
+    );
+    errors.forEach((error) => {
+      console.log(`  ${error.title}: ${error.content}`);
+    });
+  }
+
+  // the add-in is only registered for the desktop app type; web sideloading uses the manifest directly
+  if (options.appType === AppType.Desktop) {
+    await devSettings.unregisterAddIn(manifestPath);
+    console.log("The Office Add-in has been unregistered.");
+  }
+
+  if (options.enableSideload) {
+    // registers the add-in for the desktop app type, and opens the Office app with it again
+    console.log("Sideloading the Office Add-in again...");
+    await sideloadAddIn(
+      manifestPath,
+      options.app,
+      true,
+      options.appType,
+      options.document,
+      options.registration
+    );
+    console.log("The Office Add-in has been sideloaded again.");
+  } else if (options.appType === AppType.Desktop) {
+    await devSettings.registerAddIn(manifestPath, options.registration);
+    console.log(
+      "The Office Add-in has been registered again. Reload the add-in in Office to use the changed manifest."
+    );
+  } else {
+    console.log("Sideload the add-in again to use the changed manifest.");
+  }
+}
+
 export async function waitUntil(
   callback: () => Promise<boolean>,
   retryCount: number,
@@ -449,11 +748,12 @@ export async function waitUntil(
 }
 
 export async function waitUntilDevServerIsRunning(
-  port: number,
+  port: number | undefined,
   retryCount: number = 30,
-  retryDelay: number = 1000
+  retryDelay: number = 1000,
+  probe?: DevServerProbe
 ): Promise<boolean> {
-  return waitUntil(async () => await isDevServerRunning(port), retryCount, retryDelay);
+  return waitUntil(async () => await isDevServerRunning(port, probe), retryCount, retryDelay);
 }
 
 export async function waitUntilPackagerIsRunning(
@@ -467,6 +767,8 @@ export async function waitUntilPackagerIsRunning(
 async function extractManifest(zipPath: string): Promise<string> {
   const targetPath: string = fspath.join(process.env.TEMP as string, "addinManifest");
   const zip = new AdmZip(zipPath); // reading archives
+  // remove the files extracted before, such as when the manifest is reloaded
+  fs.rmSync(targetPath, { recursive: true, force: true });
   zip.extractAllTo(targetPath, true); // overwrite
 
   const manifestPath = fspath.join(targetPath, "manifest.json");
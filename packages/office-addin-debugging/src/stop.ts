@@ -2,7 +2,7 @@
 // Licensed under the MIT license.
 
 import { clearDevSettings, unregisterAddIn } from "office-addin-dev-settings";
-import { OfficeAddinManifest } from "office-addin-manifest";
+import { OfficeAddinManifest, OfficeApp } from "office-addin-manifest";
 import * as debugInfo from "./debugInfo";
 import { stopProcess } from "./process";
 import { usageDataObject } from "./defaults";
@@ -10,34 +10,106 @@ import { ExpectedError } from "office-addin-usage-data";
 
 /* global console process */
 
-export async function stopDebugging(manifestPath: string) {
+/**
+ * Clears the dev settings and unregisters the add-in
+ * @param manifestId The id of the Office Add-in in the manifest
+ * @param manifestPath Path to the manifest file
+ */
+async function stopAddIn(manifestId: string, manifestPath: string) {
+  // clear dev settings
+  if (process.platform === "win32") {
+    await clearDevSettings(manifestId);
+  }
+
+  // unregister
+  try {
+    await unregisterAddIn(manifestPath);
+  } catch (err) {
+    console.log(`Unable to unregister the Office Add-in. ${err}`);
+  }
+}
+
+/**
+ * Stops a debugging session. The add-in is unregistered when it has no other session, and the dev server
+ * and the packager are stopped when no other session uses them.
+ * @param session The debugging session
+ */
+export async function stopSession(session: debugInfo.IDebuggingSession) {
+  debugInfo.removeSession(session.id);
+  const otherSessions = debugInfo.readSessions();
+
+  if (!otherSessions.some((other) => other.manifestId === session.manifestId)) {
+    await stopAddIn(session.manifestId, session.manifestPath);
+  }
+
+  const devServerProcessId = session.devServer.processId;
+  if (
+    devServerProcessId &&
+    !otherSessions.some((other) => other.devServer.processId === devServerProcessId)
+  ) {
+    stopProcess(devServerProcessId);
+    console.log(`Stopped dev server. Process id: ${devServerProcessId}`);
+    if (debugInfo.readDevServerProcessId() === devServerProcessId) {
+      debugInfo.clearDevServerProcessId();
+    }
+  }
+
+  const packagerProcessId = session.packager.processId;
+  if (
+    packagerProcessId &&
+    !otherSessions.some((other) => other.packager.processId === packagerProcessId)
+  ) {
+    stopProcess(packagerProcessId);
+    console.log(`Stopped packager. Process id: ${packagerProcessId}`);
+  }
+
+  console.log(`Stopped debugging session ${session.id}.`);
+}
+
+/**
+ * Stops all the debugging sessions
+ */
+export async function stopAllSessions() {
+  for (const session of debugInfo.readSessions()) {
+    await stopSession(session);
+  }
+}
+
+/**
+ * Stops debugging the add-in
+ * @param manifestPath Path to the manifest file
+ * @param app If provided, only stops the debugging session for the Office app
+ */
+export async function stopDebugging(manifestPath: string, app?: OfficeApp) {
   try {
     console.log("Debugging is being stopped...");
 
-    const isWindowsPlatform = process.platform === "win32";
     const manifestInfo = await OfficeAddinManifest.readManifestFile(manifestPath);
 
     if (!manifestInfo.id) {
       throw new ExpectedError("Manifest does not contain the id for the Office Add-in.");
     }
 
-    // clear dev settings
-    if (isWindowsPlatform) {
-      await clearDevSettings(manifestInfo.id);
-    }
-
-    // unregister
-    try {
-      await unregisterAddIn(manifestPath);
-    } catch (err) {
-      console.log(`Unable to unregister the Office Add-in. ${err}`);
-    }
+    const sessions = debugInfo.findSessions(manifestInfo.id, app);
+    if (sessions.length > 0) {
+      for (const session of sessions) {
+        await stopSession(session);
+      }
+    } else if (debugInfo.findSessions(manifestInfo.id).length === 0) {
+      // debugging was started without a session
+      await stopAddIn(manifestInfo.id, manifestPath);
 
-    const processId = debugInfo.readDevServerProcessId();
-    if (processId) {
-      stopProcess(processId);
-      console.log(`Stopped dev server. Process id: ${processId}`);
+      const processId = debugInfo.readDevServerProcessId();
+      const isUsedBySession = debugInfo
+        .readSessions()
+        .some((session) => session.devServer.processId === processId);
+      if (processId && !isUsedBySession) {
+        stopProcess(processId);
+        console.log(`Stopped dev server. Process id: ${processId}`);
+      }
       debugInfo.clearDevServerProcessId();
+    } else {
+      console.log(`There is no debugging session for ${app}.`);
     }
 
     console.log("Debugging has been stopped.");
@@ -2,14 +2,26 @@
 // Licensed under the MIT license.
 
 import assert from "assert";
+import childProcess from "child_process";
 import express from "express";
 import fs from "fs";
 import http from "http";
-import { after, before, describe, it } from "mocha";
+import https from "https";
+import { after, afterEach, before, describe, it } from "mocha";
+import * as devCerts from "office-addin-dev-certs";
+import os from "os";
+import path from "path";
+import { findConfigFile, loadStartProfile, mergeStartOptions, validateConfig } from "../src/config";
 import * as debugInfo from "../src/debugInfo";
+import { getDevServerUrl, isDevServerReady } from "../src/devServerProbe";
 import * as port from "../src/port";
+import { describeLastLogLines, followLogFile, getLogFilePath, readLastLogLines } from "../src/logs";
+import { watchManifestFile } from "../src/manifestWatcher";
+import { isProcessRunning, startDetachedProcess } from "../src/process";
+import { describeSession } from "../src/sessions";
+import { stopSession } from "../src/stop";
 
-/* global console process */
+/* global console process setTimeout */
 
 function startServer(serverPort: number): http.Server {
   const server = http.createServer(express());
@@ -126,3 +138,391 @@ describe("start/stop functions", function () {
     debugInfo.clearDevServerProcessId();
   });
 });
+
+describe("debugging sessions", function () {
+  function createSession(app: string, devServerProcessId?: number): debugInfo.IDebuggingSession {
+    return {
+      id: debugInfo.getSessionId("add-in-id", app),
+      manifestId: "add-in-id",
+      manifestPath: "manifest.xml",
+      app,
+      appType: "desktop",
+      devServer: { processId: devServerProcessId, port: 3000 },
+      packager: { processId: undefined },
+      startTime: "2024-01-01T00:00:00.000Z",
+    };
+  }
+
+  function startSleepingProcess(): childProcess.ChildProcess {
+    return childProcess.spawn(process.execPath, ["-e", "setTimeout(() => {}, 60000)"]);
+  }
+
+  function waitForExit(subprocess: childProcess.ChildProcess): Promise<void> {
+    return new Promise((resolve) => {
+      if (subprocess.exitCode !== null || subprocess.signalCode !== null) {
+        resolve();
+      } else {
+        subprocess.on("exit", () => resolve());
+      }
+    });
+  }
+
+  afterEach(function () {
+    debugInfo.readSessions().forEach((session) => debugInfo.removeSession(session.id));
+    debugInfo.clearDevServerProcessId();
+  });
+  it("saves a session for each app", async function () {
+    debugInfo.saveSession(createSession("excel", 1234));
+    debugInfo.saveSession(createSession("word", 5678));
+    debugInfo.saveSession(createSession("excel", 4321));
+
+    assert.deepStrictEqual(
+      debugInfo.readSessions().map((session) => [session.id, session.devServer.processId]),
+      [
+        ["add-in-id:word", 5678],
+        ["add-in-id:excel", 4321],
+      ]
+    );
+    assert.strictEqual(debugInfo.findSessions("add-in-id").length, 2);
+    assert.strictEqual(debugInfo.findSessions("add-in-id", "word")[0].devServer.processId, 5678);
+    assert.strictEqual(debugInfo.findSessions("other-id").length, 0);
+  });
+  it("keeps the sessions when the dev server process id is cleared", async function () {
+    debugInfo.saveSession(createSession("excel", 1234));
+    await debugInfo.saveDevServerProcessId(1234);
+    debugInfo.clearDevServerProcessId();
+
+    assert.strictEqual(debugInfo.readDevServerProcessId(), undefined);
+    assert.strictEqual(debugInfo.readSessions().length, 1);
+    debugInfo.removeSession("add-in-id:excel");
+    assert.strictEqual(fs.existsSync(debugInfo.getDebuggingInfoPath()), false);
+  });
+  it("describes a session", async function () {
+    const session = createSession("excel");
+    session.document = "Book.xlsx";
+
+    assert.strictEqual(
+      describeSession(session),
+      [
+        "add-in-id:excel",
+        "  Manifest: manifest.xml",
+        "  App: excel (desktop)",
+        "  Dev server: not started",
+        "  Document: Book.xlsx",
+        "  Started: 2024-01-01T00:00:00.000Z",
+      ].join("\n")
+    );
+  });
+  it("stops the dev server when no other session uses it", async function () {
+    const devServer = startSleepingProcess();
+    debugInfo.saveSession(createSession("excel", devServer.pid));
+    debugInfo.saveSession(createSession("word", devServer.pid));
+
+    await stopSession(debugInfo.findSessions("add-in-id", "excel")[0]);
+    assert.strictEqual(isProcessRunning(devServer.pid!), true);
+    assert.deepStrictEqual(
+      debugInfo.readSessions().map((session) => session.id),
+      ["add-in-id:word"]
+    );
+
+    await stopSession(debugInfo.findSessions("add-in-id", "word")[0]);
+    await waitForExit(devServer);
+    assert.strictEqual(debugInfo.readSessions().length, 0);
+  });
+});
+
+describe("dev server probe", function () {
+  let serverPort: number;
+  let server: http.Server;
+  let certificateDir: string;
+  let httpsPort: number;
+  let httpsServer: https.Server;
+
+  before(async function () {
+    this.timeout(60000);
+    serverPort = await port.randomPortNotInUse();
+    server = startServer(serverPort);
+
+    certificateDir = fs.mkdtempSync(path.join(os.tmpdir(), "office-addin-debugging-"));
+    const caCertificatePath = path.join(certificateDir, "ca.crt");
+    const certificatePath = path.join(certificateDir, "localhost.crt");
+    const keyPath = path.join(certificateDir, "localhost.key");
+    await devCerts.generateCertificates(caCertificatePath, certificatePath, keyPath);
+    httpsPort = await port.randomPortNotInUse();
+    httpsServer = https.createServer(
+      { cert: fs.readFileSync(certificatePath), key: fs.readFileSync(keyPath) },
+      express()
+        .get("/taskpane.html", (req, res) => res.send("taskpane"))
+        .get("/starting.html", (req, res) => res.sendStatus(503))
+    );
+    await new Promise<void>((resolve) => httpsServer.listen(httpsPort, resolve));
+  });
+  after(function () {
+    server.close();
+    httpsServer.close();
+    fs.rmSync(certificateDir, { recursive: true, force: true });
+  });
+  it("uses the source location on the local computer", async function () {
+    const manifest = { defaultSettings: { sourceLocation: "https://localhost:3000/taskpane.html" } };
+    assert.strictEqual(getDevServerUrl(manifest), "https://localhost:3000/taskpane.html");
+    assert.strictEqual(
+      getDevServerUrl({ defaultSettings: { sourceLocation: "https://contoso.com/taskpane.html" } }),
+      undefined
+    );
+    assert.strictEqual(getDevServerUrl({}), undefined);
+  });
+  it("trusts the CA certificate", async function () {
+    const url = `https://localhost:${httpsPort}/taskpane.html`;
+    const caCertificatePath = path.join(certificateDir, "ca.crt");
+    assert.strictEqual(await isDevServerReady({ url, caCertificatePath }), true);
+    assert.strictEqual(await isDevServerReady({ url }), false);
+  });
+  it("checks the status code", async function () {
+    const caCertificatePath = path.join(certificateDir, "ca.crt");
+    const url = `https://localhost:${httpsPort}/starting.html`;
+    assert.strictEqual(await isDevServerReady({ url, caCertificatePath }), false);
+    assert.strictEqual(
+      await isDevServerReady({ url, caCertificatePath, expectedStatus: 503 }),
+      true
+    );
+    assert.strictEqual(
+      await isDevServerReady({ url: `http://localhost:${serverPort}/`, expectedStatus: 404 }),
+      true
+    );
+  });
+  it("is not ready when the server is not running", async function () {
+    const portNotInUse = await port.randomPortNotInUse();
+    assert.strictEqual(await isDevServerReady({ url: `https://localhost:${portNotInUse}/` }), false);
+  });
+});
+
+describe("logs", function () {
+  let logDir: string;
+
+  before(function () {
+    logDir = fs.mkdtempSync(path.join(os.tmpdir(), "office-addin-debugging-"));
+  });
+  after(function () {
+    fs.rmSync(logDir, { recursive: true, force: true });
+  });
+  it("has a log file for each session and process", async function () {
+    const logFilePath = getLogFilePath("add-in-id:excel", "dev-server");
+    assert.strictEqual(path.basename(logFilePath), "add-in-id_excel.dev-server.log");
+    assert.notStrictEqual(logFilePath, getLogFilePath("add-in-id:excel", "packager"));
+  });
+  it("reads the last lines", async function () {
+    const logFilePath = path.join(logDir, "lines.log");
+    fs.writeFileSync(logFilePath, "one\r\ntwo\nthree\n");
+
+    assert.deepStrictEqual(readLastLogLines(logFilePath, 2), ["two", "three"]);
+    assert.deepStrictEqual(readLastLogLines(logFilePath), ["one", "two", "three"]);
+    assert.deepStrictEqual(readLastLogLines(path.join(logDir, "missing.log")), []);
+    assert.strictEqual(
+      describeLastLogLines("dev server", logFilePath),
+      `\nLast lines of the dev server log (${logFilePath}):\none\ntwo\nthree`
+    );
+    assert.strictEqual(describeLastLogLines("dev server", undefined), "");
+  });
+  it("writes the output of a process to the log file", async function () {
+    const logFilePath = path.join(logDir, "process", "output.log");
+    const subprocess = startDetachedProcess(
+      `"${process.execPath}" -e "console.log('ready'); console.error('warning')"`,
+      false,
+      logFilePath
+    );
+    await new Promise((resolve) => subprocess.on("exit", resolve));
+
+    assert.deepStrictEqual(readLastLogLines(logFilePath).sort(), ["ready", "warning"]);
+  });
+  it("follows the log file", async function () {
+    const logFilePath = path.join(logDir, "follow.log");
+    fs.writeFileSync(logFilePath, "before\n");
+    let followed = "";
+    const stopFollowing = followLogFile(logFilePath, (text) => (followed += text), 10);
+
+    try {
+      // the log file is watched from its first check
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      fs.appendFileSync(logFilePath, "after\n");
+      for (let retry = 0; followed === "" && retry < 50; retry++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+    } finally {
+      stopFollowing();
+    }
+    assert.strictEqual(followed, "after\n");
+  });
+});
+
+describe("watchManifestFile()", function () {
+  let manifestDir: string;
+
+  function delay(milliseconds: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, milliseconds));
+  }
+
+  before(function () {
+    manifestDir = fs.mkdtempSync(path.join(os.tmpdir(), "office-addin-debugging-"));
+  });
+  after(function () {
+    fs.rmSync(manifestDir, { recursive: true, force: true });
+  });
+  it("calls the callback when the manifest changes", async function () {
+    const manifestPath = path.join(manifestDir, "manifest.xml");
+    fs.writeFileSync(manifestPath, "<OfficeApp/>");
+    let changeCount = 0;
+    const stopWatching = watchManifestFile(manifestPath, async () => {
+      changeCount++;
+    }, 10);
+
+    try {
+      await delay(50);
+      assert.strictEqual(changeCount, 0);
+      fs.writeFileSync(manifestPath, "<OfficeApp></OfficeApp>");
+      await delay(100);
+      assert.strictEqual(changeCount, 1);
+    } finally {
+      stopWatching();
+    }
+  });
+  it("calls the callback again when the manifest changes while it runs", async function () {
+    const manifestPath = path.join(manifestDir, "busy.xml");
+    fs.writeFileSync(manifestPath, "<OfficeApp/>");
+    const contents: string[] = [];
+    let running = 0;
+    let maxRunning = 0;
+    const stopWatching = watchManifestFile(manifestPath, async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      contents.push(fs.readFileSync(manifestPath, "utf8"));
+      await delay(100);
+      running--;
+    }, 10);
+
+    try {
+      await delay(50);
+      fs.writeFileSync(manifestPath, "<OfficeApp>1</OfficeApp>");
+      await delay(50);
+      fs.writeFileSync(manifestPath, "<OfficeApp>12</OfficeApp>");
+      await delay(50);
+      fs.writeFileSync(manifestPath, "<OfficeApp>123</OfficeApp>");
+      await delay(400);
+      assert.strictEqual(maxRunning, 1);
+      assert.strictEqual(contents[0], "<OfficeApp>1</OfficeApp>");
+      assert.strictEqual(contents[contents.length - 1], "<OfficeApp>123</OfficeApp>");
+      assert.ok(contents.length < 4);
+    } finally {
+      stopWatching();
+    }
+  });
+});
+
+describe("configuration file", function () {
+  let configDir: string;
+  const config = {
+    defaultProfile: "desktop-excel",
+    profiles: {
+      "desktop-excel": {
+        manifest: "manifest.xml",
+        platform: "desktop",
+        app: "excel",
+        devServer: "npm run dev-server",
+        devServerPort: 3000,
+      },
+      "web-word": {
+        platform: "web",
+        app: "word",
+        document: "https://contoso.sharepoint.com/Test.docx",
+        liveReload: false,
+      },
+    },
+  };
+
+  before(function () {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), "office-addin-debugging-"));
+    fs.writeFileSync(path.join(configDir, "office-addin.config.json"), JSON.stringify(config));
+  });
+  after(function () {
+    fs.rmSync(configDir, { recursive: true, force: true });
+  });
+  describe("validateConfig()", function () {
+    it("valid configuration", async function () {
+      assert.deepStrictEqual(validateConfig(config), []);
+    });
+    it("unknown options and wrong types", async function () {
+      const problems = validateConfig({
+        profiles: { web: { devServerPort: "3000", port: 3000, packagerPort: "8081" } },
+        defaultProfile: "desktop",
+      });
+      assert.deepStrictEqual(problems, [
+        `"profiles.web.devServerPort" should be a number.`,
+        `"profiles.web.port" is not a known option.`,
+        `"defaultProfile" is "desktop", which is not a profile.`,
+      ]);
+    });
+    it("profiles is required", async function () {
+      assert.deepStrictEqual(validateConfig({ app: "excel" }), [
+        `"app" is not a known property.`,
+        `"profiles" should be an object.`,
+      ]);
+    });
+  });
+  describe("loadStartProfile()", function () {
+    it("finds the configuration file in the directory", async function () {
+      assert.strictEqual(
+        findConfigFile(configDir),
+        path.join(configDir, "office-addin.config.json")
+      );
+      assert.strictEqual(findConfigFile(os.tmpdir()), undefined);
+    });
+    it("default profile, with paths relative to the configuration file", async function () {
+      const profile = loadStartProfile(path.join(configDir, "office-addin.config.json"));
+      assert.strictEqual(profile?.manifest, path.join(configDir, "manifest.xml"));
+      assert.strictEqual(profile?.app, "excel");
+    });
+    it("named profile, with a url document", async function () {
+      const profile = loadStartProfile(
+        path.join(configDir, "office-addin.config.json"),
+        "web-word"
+      );
+      assert.strictEqual(profile?.document, "https://contoso.sharepoint.com/Test.docx");
+      assert.strictEqual(profile?.liveReload, false);
+    });
+    it("JavaScript configuration file", async function () {
+      const configPath = path.join(configDir, "office-addin.config.js");
+      fs.writeFileSync(configPath, `module.exports = { profiles: { prod: { prod: true } } };`);
+      assert.deepStrictEqual(loadStartProfile(configPath, "prod"), { prod: true });
+      assert.strictEqual(loadStartProfile(configPath), undefined);
+    });
+    it("profile not found", async function () {
+      assert.throws(
+        () => loadStartProfile(path.join(configDir, "office-addin.config.json"), "prod"),
+        /The profile "prod" was not found in .*\. Profiles: desktop-excel, web-word\./
+      );
+    });
+    it("invalid configuration file", async function () {
+      const configPath = path.join(configDir, "invalid.json");
+      fs.writeFileSync(configPath, JSON.stringify({ profiles: { web: { debug: "false" } } }));
+      assert.throws(
+        () => loadStartProfile(configPath, "web"),
+        /is not valid:\n"profiles.web.debug" should be a boolean\./
+      );
+    });
+  });
+  describe("mergeStartOptions()", function () {
+    it("options on the command line take precedence over the profile", async function () {
+      const options = { app: "word", devServerPort: "8080", debug: true, sideload: true };
+      const merged = mergeStartOptions(
+        options,
+        { manifest: "manifest.xml", app: "excel", devServerPort: 3000, debug: false },
+        (name) => name === "app" || name === "devServerPort"
+      );
+      assert.deepStrictEqual(merged, {
+        app: "word",
+        devServerPort: "8080",
+        debug: false,
+        sideload: true,
+      });
+    });
+  });
+});
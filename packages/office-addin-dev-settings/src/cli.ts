@@ -36,6 +36,16 @@ commander
   .description("Configure debugging for the Office Add-in.")
   .action(commands.debugging);
 
+commander
+  .command("export <manifest-path>")
+  .description("Display the developer settings for the Office Add-in as a profile.")
+  .action(commands.exportSettings);
+
+commander
+  .command("import <manifest-path> <profile-path>")
+  .description("Change the developer settings for the Office Add-in to those of the profile.")
+  .action(commands.importSettings);
+
 commander
   .command("live-reload <manifest-path>")
   .option("--enable", `Enable live-reload for the add-in.`)
@@ -74,6 +84,18 @@ commander
   )
   .option("-d,--document <document>", `The file path or url of the Office document to open.`)
   .option("--registration <registration>", `Id of the registered add-in`)
+  .option(
+    "--add-ins <manifest-paths...>",
+    `Paths to the manifests of more add-ins to register and load with the add-in. (desktop only)`
+  )
+  .option(
+    "--allowed-hosts <hosts>",
+    `Comma-separated host names of dev servers to allow for sideload to web, in addition to localhost. ("*.domain" allows any subdomain)`
+  )
+  .option(
+    "--tunnel-url <url>",
+    `Public url which forwards to the dev server. For sideload to web, a copy of the manifest which uses the url is sideloaded.`
+  )
   .action(commands.sideload)
   .on("--help", () => {
     console.log("\n[app-type] specifies the type of Office app::\n");
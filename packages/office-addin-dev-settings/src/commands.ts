@@ -2,6 +2,7 @@
 // Licensed under the MIT license.
 
 import { OptionValues } from "commander";
+import fs from "fs";
 import { logErrorMessage } from "office-addin-usage-data";
 import {
   ManifestInfo,
@@ -18,7 +19,8 @@ import {
 } from "./appcontainer";
 import { AppType, parseAppType } from "./appType";
 import * as devSettings from "./dev-settings";
-import { sideloadAddIn } from "./sideload";
+import { DevSettingsProfile, exportDevSettings, importDevSettings } from "./dev-settings-profile";
+import { sideloadAddIn, WebSideloadOptions } from "./sideload";
 import { usageDataObject } from "./defaults";
 import { ExpectedError } from "office-addin-usage-data";
 import { AccountOperation, updateM365Account } from "./publish";
@@ -204,6 +206,22 @@ export async function enableRuntimeLogging(path?: string) {
   }
 }
 
+export async function exportSettings(manifestPath: string) {
+  try {
+    const manifest = await OfficeAddinManifest.readManifestFile(manifestPath);
+
+    validateManifestId(manifest);
+
+    const profile: DevSettingsProfile = await exportDevSettings(manifest.id!);
+
+    console.log(JSON.stringify(profile, null, 2));
+    usageDataObject.reportSuccess("export");
+  } catch (err: any) {
+    usageDataObject.reportException("export", err);
+    logErrorMessage(err);
+  }
+}
+
 export async function getSourceBundleUrl(manifestPath: string) {
   try {
     const manifest = await OfficeAddinManifest.readManifestFile(manifestPath);
@@ -222,6 +240,33 @@ export async function getSourceBundleUrl(manifestPath: string) {
   }
 }
 
+export async function importSettings(manifestPath: string, profilePath: string) {
+  try {
+    const manifest = await OfficeAddinManifest.readManifestFile(manifestPath);
+
+    validateManifestId(manifest);
+
+    if (!fs.existsSync(profilePath)) {
+      throw new ExpectedError(`The profile file does not exist: ${profilePath}.`);
+    }
+
+    let profile: DevSettingsProfile;
+    try {
+      profile = JSON.parse(fs.readFileSync(profilePath, "utf8"));
+    } catch (err) {
+      throw new ExpectedError(`Unable to read the profile file ${profilePath}.\n${err}`);
+    }
+
+    await importDevSettings(manifest.id!, profile);
+
+    console.log("Developer settings have been imported.");
+    usageDataObject.reportSuccess("import");
+  } catch (err: any) {
+    usageDataObject.reportException("import", err);
+    logErrorMessage(err);
+  }
+}
+
 export async function isDebuggingEnabled(manifestPath: string) {
   try {
     const manifest = await OfficeAddinManifest.readManifestFile(manifestPath);
@@ -403,8 +448,38 @@ export async function sideload(
       type || process.env.npm_package_config_app_platform_to_debug
     );
     const registration: string = options.registration;
-
-    await sideloadAddIn(manifestPath, app, canPrompt, appType, document, registration);
+    const allowedHosts: string | undefined =
+      options.allowedHosts ?? process.env.npm_package_config_allowed_dev_server_hosts;
+    const webOptions: WebSideloadOptions = {
+      allowedHosts: allowedHosts
+        ? allowedHosts
+            .split(",")
+            .map((host) => host.trim())
+            .filter((host) => host)
+        : undefined,
+      tunnelUrl: options.tunnelUrl,
+    };
+
+    const manifestPaths: string[] = [manifestPath, ...(options.addIns ?? [])];
+
+    const manifestServer = await sideloadAddIn(
+      manifestPaths,
+      app,
+      canPrompt,
+      appType,
+      document,
+      registration,
+      webOptions
+    );
+    if (manifestServer) {
+      const stop = () => {
+        manifestServer.close();
+        process.exit();
+      };
+      process.once("SIGINT", stop);
+      process.once("SIGTERM", stop);
+      console.log("Press Ctrl+C to stop serving the manifest.");
+    }
     usageDataObject.reportSuccess("sideload");
   } catch (err: any) {
     usageDataObject.reportException("sideload", err);
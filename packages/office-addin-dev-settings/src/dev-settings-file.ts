@@ -0,0 +1,269 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import fs from "fs-extra";
+import { OfficeAddinManifest } from "office-addin-manifest";
+import os from "os";
+import path from "path";
+import {
+  DebuggingMethod,
+  RegisteredAddin,
+  SourceBundleUrlComponents,
+  WebViewType,
+} from "./dev-settings";
+import { ExpectedError } from "office-addin-usage-data";
+
+const devSettingsDirectoryName = ".office-addin-dev-settings";
+const devSettingsFileName = "dev-settings.json";
+
+/**
+ * The developer settings for an add-in, with the same meaning as the registry values on Windows.
+ */
+interface AddInDevSettings {
+  useDirectDebugger?: boolean;
+  useProxyDebugger?: boolean;
+  openDevTools?: boolean;
+  useLiveReload?: boolean;
+  sourceBundleHost?: string;
+  sourceBundlePort?: string;
+  sourceBundlePath?: string;
+  sourceBundleExtension?: string;
+  webViewSelection?: string;
+}
+
+/**
+ * The contents of the developer settings file.
+ */
+interface DevSettingsFile {
+  /**
+   * The manifest paths of the registered add-ins, by add-in id.
+   */
+  registeredAddIns: { [addinId: string]: string };
+
+  /**
+   * The developer settings, by add-in id.
+   */
+  addIns: { [addinId: string]: AddInDevSettings };
+
+  runtimeLoggingPath?: string;
+}
+
+/**
+ * Returns the path of the file which stores the developer settings, in the home directory of the user.
+ */
+export function getDevSettingsFilePath(): string {
+  return path.join(os.homedir(), devSettingsDirectoryName, devSettingsFileName);
+}
+
+function readDevSettingsFile(): DevSettingsFile {
+  const filePath = getDevSettingsFilePath();
+  const contents: Partial<DevSettingsFile> = fs.existsSync(filePath)
+    ? fs.readJsonSync(filePath)
+    : {};
+  return {
+    ...contents,
+    registeredAddIns: contents.registeredAddIns || {},
+    addIns: contents.addIns || {},
+  };
+}
+
+function writeDevSettingsFile(contents: DevSettingsFile) {
+  fs.outputJsonSync(getDevSettingsFilePath(), contents, { spaces: 2 });
+}
+
+function checkAddInId(addinId: string) {
+  if (!addinId) {
+    throw new ExpectedError("The addIn parameter is required.");
+  }
+  if (typeof addinId !== "string") {
+    throw new ExpectedError("The addIn parameter should be a string.");
+  }
+}
+
+function readAddInDevSettings(addinId: string): AddInDevSettings {
+  checkAddInId(addinId);
+  return readDevSettingsFile().addIns[addinId] || {};
+}
+
+/**
+ * Changes the developer settings for an add-in, and removes the settings which are undefined.
+ */
+function updateAddInDevSettings(addinId: string, changes: Partial<AddInDevSettings>) {
+  checkAddInId(addinId);
+  const contents = readDevSettingsFile();
+  const settings: any = { ...contents.addIns[addinId], ...changes };
+  for (const name of Object.keys(settings)) {
+    if (settings[name] === undefined) {
+      delete settings[name];
+    }
+  }
+  contents.addIns[addinId] = settings;
+  writeDevSettingsFile(contents);
+}
+
+export async function clearDevSettings(addinId: string): Promise<void> {
+  checkAddInId(addinId);
+  const contents = readDevSettingsFile();
+  if (contents.addIns[addinId]) {
+    delete contents.addIns[addinId];
+    writeDevSettingsFile(contents);
+  }
+}
+
+export async function disableRuntimeLogging(): Promise<void> {
+  const contents = readDevSettingsFile();
+  delete contents.runtimeLoggingPath;
+  writeDevSettingsFile(contents);
+}
+
+export async function enableDebugging(
+  addinId: string,
+  enable: boolean = true,
+  method: DebuggingMethod = DebuggingMethod.Proxy,
+  openDevTools: boolean = false
+): Promise<void> {
+  updateAddInDevSettings(addinId, {
+    useDirectDebugger: enable && method === DebuggingMethod.Direct,
+    useProxyDebugger: enable && method === DebuggingMethod.Proxy,
+    openDevTools: enable && openDevTools ? true : undefined,
+  });
+}
+
+export async function enableLiveReload(addinId: string, enable: boolean = true): Promise<void> {
+  updateAddInDevSettings(addinId, { useLiveReload: enable });
+}
+
+export async function enableRuntimeLogging(path: string): Promise<void> {
+  const contents = readDevSettingsFile();
+  contents.runtimeLoggingPath = path;
+  writeDevSettingsFile(contents);
+}
+
+export async function getEnabledDebuggingMethods(addinId: string): Promise<DebuggingMethod[]> {
+  const settings = readAddInDevSettings(addinId);
+  const methods: DebuggingMethod[] = [];
+
+  if (settings.useDirectDebugger) {
+    methods.push(DebuggingMethod.Direct);
+  }
+
+  if (settings.useProxyDebugger) {
+    methods.push(DebuggingMethod.Proxy);
+  }
+
+  return methods;
+}
+
+export async function getOpenDevTools(addinId: string): Promise<boolean> {
+  return readAddInDevSettings(addinId).openDevTools === true;
+}
+
+export async function getRegisteredAddIns(): Promise<RegisteredAddin[]> {
+  const registeredAddIns = readDevSettingsFile().registeredAddIns;
+  return Object.keys(registeredAddIns).map(
+    (addinId) => new RegisteredAddin(addinId, registeredAddIns[addinId])
+  );
+}
+
+export async function getRuntimeLoggingPath(): Promise<string | undefined> {
+  return readDevSettingsFile().runtimeLoggingPath;
+}
+
+export async function getSourceBundleUrl(addinId: string): Promise<SourceBundleUrlComponents> {
+  const settings = readAddInDevSettings(addinId);
+  return new SourceBundleUrlComponents(
+    settings.sourceBundleHost,
+    settings.sourceBundlePort,
+    settings.sourceBundlePath,
+    settings.sourceBundleExtension
+  );
+}
+
+export async function getWebView(addinId: string): Promise<WebViewType | undefined> {
+  const webViewSelection = readAddInDevSettings(addinId).webViewSelection;
+  return Object.values(WebViewType).find((webViewType) => webViewType === webViewSelection);
+}
+
+export async function isDebuggingEnabled(addinId: string): Promise<boolean> {
+  const settings = readAddInDevSettings(addinId);
+  return settings.useDirectDebugger === true || settings.useProxyDebugger === true;
+}
+
+export async function isLiveReloadEnabled(addinId: string): Promise<boolean> {
+  return readAddInDevSettings(addinId).useLiveReload === true;
+}
+
+export async function registerAddIn(manifestPath: string): Promise<void> {
+  const manifest = await OfficeAddinManifest.readManifestFile(manifestPath);
+
+  if (!manifest.id) {
+    throw new ExpectedError("The manifest file doesn't contain the id of the Office Add-in.");
+  }
+
+  const contents = readDevSettingsFile();
+  contents.registeredAddIns[manifest.id] = manifestPath;
+  writeDevSettingsFile(contents);
+}
+
+export async function setSourceBundleUrl(
+  addinId: string,
+  components: SourceBundleUrlComponents
+): Promise<void> {
+  const changes: Partial<AddInDevSettings> = {};
+
+  // undefined keeps the setting; an empty string clears it
+  if (components.host !== undefined) {
+    changes.sourceBundleHost = components.host || undefined;
+  }
+  if (components.port !== undefined) {
+    changes.sourceBundlePort = components.port || undefined;
+  }
+  if (components.path !== undefined) {
+    changes.sourceBundlePath = components.path || undefined;
+  }
+  if (components.extension !== undefined) {
+    changes.sourceBundleExtension = components.extension || undefined;
+  }
+
+  updateAddInDevSettings(addinId, changes);
+}
+
+export async function setWebView(
+  addinId: string,
+  webViewType: WebViewType | undefined
+): Promise<void> {
+  switch (webViewType) {
+    case undefined:
+    case WebViewType.Default:
+      updateAddInDevSettings(addinId, { webViewSelection: undefined });
+      break;
+    case WebViewType.IE:
+    case WebViewType.Edge:
+    case WebViewType.EdgeChromium:
+      updateAddInDevSettings(addinId, { webViewSelection: webViewType });
+      break;
+    default:
+      throw new ExpectedError(`The webViewType ${webViewType} is not supported.`);
+  }
+}
+
+export async function unregisterAddIn(addinId: string, manifestPath: string): Promise<void> {
+  const contents = readDevSettingsFile();
+
+  for (const registeredAddinId of Object.keys(contents.registeredAddIns)) {
+    if (
+      registeredAddinId === addinId ||
+      contents.registeredAddIns[registeredAddinId] === manifestPath
+    ) {
+      delete contents.registeredAddIns[registeredAddinId];
+    }
+  }
+
+  writeDevSettingsFile(contents);
+}
+
+export async function unregisterAllAddIns(): Promise<void> {
+  const contents = readDevSettingsFile();
+  contents.registeredAddIns = {};
+  writeDevSettingsFile(contents);
+}
@@ -0,0 +1,214 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import {
+  DebuggingMethod,
+  enableDebugging,
+  enableLiveReload,
+  enableRuntimeLogging,
+  getEnabledDebuggingMethods,
+  getOpenDevTools,
+  getRuntimeLoggingPath,
+  getSourceBundleUrl,
+  getWebView,
+  isLiveReloadEnabled,
+  setSourceBundleUrl,
+  setWebView,
+  SourceBundleUrlComponents,
+  WebViewType,
+} from "./dev-settings";
+import { ExpectedError } from "office-addin-usage-data";
+
+/**
+ * The developer settings for an add-in, which can be exported to a file and imported again.
+ * When a profile is imported, the settings which are not specified are not changed.
+ */
+export interface DevSettingsProfile {
+  debugging?: {
+    enabled: boolean;
+    method?: "direct" | "proxy";
+    openDevTools?: boolean;
+  };
+  liveReload?: boolean;
+
+  /**
+   * The web view type, or "Default" to remove any preference.
+   */
+  webView?: string;
+
+  /**
+   * The components of the source bundle url. The components which are not specified use the default.
+   */
+  sourceBundleUrl?: {
+    host?: string;
+    port?: string;
+    path?: string;
+    extension?: string;
+  };
+
+  /**
+   * The runtime log file, which is used for all add-ins. Runtime logging is not disabled when the profile is imported.
+   */
+  runtimeLogPath?: string;
+}
+
+const debuggingMethodNames: string[] = ["direct", "proxy"];
+const sourceBundleUrlComponentNames: string[] = ["host", "port", "path", "extension"];
+
+function isObject(value: any): boolean {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateDebugging(debugging: any, problems: string[]) {
+  if (!isObject(debugging)) {
+    problems.push(`"debugging" should be an object.`);
+    return;
+  }
+  if (typeof debugging.enabled !== "boolean") {
+    problems.push(`"debugging.enabled" should be true or false.`);
+  }
+  if (debugging.method !== undefined && !debuggingMethodNames.includes(debugging.method)) {
+    problems.push(`"debugging.method" should be "direct" or "proxy".`);
+  }
+  if (debugging.openDevTools !== undefined && typeof debugging.openDevTools !== "boolean") {
+    problems.push(`"debugging.openDevTools" should be true or false.`);
+  }
+}
+
+function validateSourceBundleUrl(sourceBundleUrl: any, problems: string[]) {
+  if (!isObject(sourceBundleUrl)) {
+    problems.push(`"sourceBundleUrl" should be an object.`);
+    return;
+  }
+  for (const [name, value] of Object.entries(sourceBundleUrl)) {
+    if (!sourceBundleUrlComponentNames.includes(name)) {
+      problems.push(`"sourceBundleUrl.${name}" is not a known setting.`);
+    } else if (typeof value !== "string") {
+      problems.push(`"sourceBundleUrl.${name}" should be a string.`);
+    }
+  }
+}
+
+/**
+ * Returns the problems found in the profile.
+ * @param profile The contents of the profile file.
+ * @returns A message for each problem, or an empty array if the profile is valid.
+ */
+export function validateDevSettingsProfile(profile: any): string[] {
+  if (!isObject(profile)) {
+    return ["The profile should be an object."];
+  }
+
+  const problems: string[] = [];
+
+  for (const [name, value] of Object.entries(profile)) {
+    switch (name) {
+      case "debugging":
+        validateDebugging(value, problems);
+        break;
+      case "liveReload":
+        if (typeof value !== "boolean") {
+          problems.push(`"liveReload" should be true or false.`);
+        }
+        break;
+      case "webView":
+        if (!Object.values<any>(WebViewType).includes(value)) {
+          problems.push(
+            `"webView" should be one of: ${Object.values(WebViewType)
+              .map((webViewType) => `"${webViewType}"`)
+              .join(", ")}.`
+          );
+        }
+        break;
+      case "sourceBundleUrl":
+        validateSourceBundleUrl(value, problems);
+        break;
+      case "runtimeLogPath":
+        if (typeof value !== "string" || !value) {
+          problems.push(`"runtimeLogPath" should be the path to a file.`);
+        }
+        break;
+      default:
+        problems.push(`"${name}" is not a known setting.`);
+        break;
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Returns the developer settings for the add-in.
+ * @param addinId The id of the add-in.
+ */
+export async function exportDevSettings(addinId: string): Promise<DevSettingsProfile> {
+  const methods = await getEnabledDebuggingMethods(addinId);
+  const components = await getSourceBundleUrl(addinId);
+  const runtimeLogPath = await getRuntimeLoggingPath();
+  const profile: DevSettingsProfile = {
+    debugging:
+      methods.length > 0
+        ? {
+            enabled: true,
+            method: methods[0] === DebuggingMethod.Direct ? "direct" : "proxy",
+            openDevTools: await getOpenDevTools(addinId),
+          }
+        : { enabled: false },
+    liveReload: await isLiveReloadEnabled(addinId),
+    webView: (await getWebView(addinId)) ?? WebViewType.Default,
+    sourceBundleUrl: {
+      host: components.host,
+      port: components.port,
+      path: components.path,
+      extension: components.extension,
+    },
+  };
+
+  if (runtimeLogPath) {
+    profile.runtimeLogPath = runtimeLogPath;
+  }
+
+  return profile;
+}
+
+/**
+ * Changes the developer settings for the add-in to the settings of the profile.
+ * @param addinId The id of the add-in.
+ * @param profile The profile, which is validated before any setting is changed.
+ */
+export async function importDevSettings(addinId: string, profile: DevSettingsProfile) {
+  const problems = validateDevSettingsProfile(profile);
+  if (problems.length > 0) {
+    throw new ExpectedError(`The profile is not valid:\n${problems.join("\n")}`);
+  }
+
+  if (profile.debugging) {
+    await enableDebugging(
+      addinId,
+      profile.debugging.enabled,
+      profile.debugging.method === "proxy" ? DebuggingMethod.Proxy : DebuggingMethod.Direct,
+      profile.debugging.openDevTools === true
+    );
+  }
+
+  if (profile.liveReload !== undefined) {
+    await enableLiveReload(addinId, profile.liveReload);
+  }
+
+  if (profile.webView !== undefined) {
+    await setWebView(addinId, profile.webView as WebViewType);
+  }
+
+  if (profile.sourceBundleUrl) {
+    // an empty string clears the component, so that the default is used
+    const { host, port, path, extension } = profile.sourceBundleUrl;
+    await setSourceBundleUrl(
+      addinId,
+      new SourceBundleUrlComponents(host ?? "", port ?? "", path ?? "", extension ?? "")
+    );
+  }
+
+  if (profile.runtimeLogPath) {
+    await enableRuntimeLogging(profile.runtimeLogPath);
+  }
+}
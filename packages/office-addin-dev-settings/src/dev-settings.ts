@@ -3,7 +3,9 @@
 
 import fs from "fs";
 import { OfficeAddinManifest } from "office-addin-manifest";
+import os from "os";
 import fspath from "path";
+import * as devSettingsFile from "./dev-settings-file";
 import * as devSettingsMac from "./dev-settings-mac";
 import * as devSettingsWindows from "./dev-settings-windows";
 import { ExpectedError } from "office-addin-usage-data";
@@ -12,6 +14,7 @@ import { ExpectedError } from "office-addin-usage-data";
 
 const defaultRuntimeLogFileName = "OfficeAddins.log.txt";
 
+export { getDevSettingsFilePath } from "./dev-settings-file";
 export { toWebViewTypeName } from "./dev-settings-windows";
 
 export enum DebuggingMethod {
@@ -62,15 +65,55 @@ export class SourceBundleUrlComponents {
   }
 }
 
-export async function clearDevSettings(addinId: string): Promise<void> {
+/**
+ * Stores the developer settings and the registered add-ins.
+ */
+export interface DevSettingsStore {
+  clearDevSettings(addinId: string): Promise<void>;
+  disableRuntimeLogging(): Promise<void>;
+  enableDebugging(
+    addinId: string,
+    enable: boolean,
+    method: DebuggingMethod,
+    openDevTools: boolean
+  ): Promise<void>;
+  enableLiveReload(addinId: string, enable: boolean): Promise<void>;
+  enableRuntimeLogging(path: string): Promise<void>;
+  getEnabledDebuggingMethods(addinId: string): Promise<DebuggingMethod[]>;
+  getOpenDevTools(addinId: string): Promise<boolean>;
+  getRegisteredAddIns(): Promise<RegisteredAddin[]>;
+  getRuntimeLoggingPath(): Promise<string | undefined>;
+  getSourceBundleUrl(addinId: string): Promise<SourceBundleUrlComponents>;
+  getWebView(addinId: string): Promise<WebViewType | undefined>;
+  isDebuggingEnabled(addinId: string): Promise<boolean>;
+  isLiveReloadEnabled(addinId: string): Promise<boolean>;
+  registerAddIn(manifestPath: string, registration?: string): Promise<void>;
+  setSourceBundleUrl(addinId: string, components: SourceBundleUrlComponents): Promise<void>;
+  setWebView(addinId: string, webViewType: WebViewType | undefined): Promise<void>;
+  unregisterAddIn(addinId: string, manifestPath: string): Promise<void>;
+  unregisterAllAddIns(): Promise<void>;
+}
+
+/**
+ * Returns the store for the developer settings: the registry on Windows,
+ * and a file in the home directory of the user on other platforms except Mac.
+ * Office for Mac does not read the developer settings, so they are not supported on Mac.
+ */
+export function getDevSettingsStore(): DevSettingsStore {
   switch (process.platform) {
     case "win32":
-      return devSettingsWindows.clearDevSettings(addinId);
-    default:
+      return devSettingsWindows;
+    case "darwin":
       throw new ExpectedError(`Platform not supported: ${process.platform}.`);
+    default:
+      return devSettingsFile;
   }
 }
 
+export async function clearDevSettings(addinId: string): Promise<void> {
+  return getDevSettingsStore().clearDevSettings(addinId);
+}
+
 export async function disableDebugging(addinId: string): Promise<void> {
   return enableDebugging(addinId, false);
 }
@@ -80,12 +123,7 @@ export async function disableLiveReload(addinId: string): Promise<void> {
 }
 
 export async function disableRuntimeLogging(): Promise<void> {
-  switch (process.platform) {
-    case "win32":
-      return devSettingsWindows.disableRuntimeLogging();
-    default:
-      throw new ExpectedError(`Platform not supported: ${process.platform}.`);
-  }
+  return getDevSettingsStore().disableRuntimeLogging();
 }
 
 export async function enableDebugging(
@@ -94,60 +132,48 @@ export async function enableDebugging(
   method: DebuggingMethod = DebuggingMethod.Direct,
   openDevTools = false
 ): Promise<void> {
-  switch (process.platform) {
-    case "win32":
-      return devSettingsWindows.enableDebugging(addinId, enable, method, openDevTools);
-    default:
-      throw new ExpectedError(`Platform not supported: ${process.platform}.`);
-  }
+  return getDevSettingsStore().enableDebugging(addinId, enable, method, openDevTools);
 }
 
 export async function enableLiveReload(addinId: string, enable: boolean = true): Promise<void> {
-  switch (process.platform) {
-    case "win32":
-      return devSettingsWindows.enableLiveReload(addinId, enable);
-    default:
-      throw new ExpectedError(`Platform not supported: ${process.platform}.`);
-  }
+  return getDevSettingsStore().enableLiveReload(addinId, enable);
 }
 
 export async function enableRuntimeLogging(path?: string): Promise<string> {
-  switch (process.platform) {
-    case "win32": {
-      if (!path) {
-        const tempDir = process.env.TEMP;
-        if (!tempDir) {
-          throw new ExpectedError("The TEMP environment variable is not defined.");
-        }
-        path = fspath.normalize(`${tempDir}/${defaultRuntimeLogFileName}`);
-      }
-
-      const pathExists: boolean = fs.existsSync(path);
-      if (pathExists) {
-        const stat = fs.statSync(path);
-        if (stat.isDirectory()) {
-          throw new ExpectedError(
-            `You need to specify the path to a file. This is a directory: "${path}".`
-          );
-        }
-      }
-      try {
-        const file = fs.openSync(path, "a+");
-        fs.closeSync(file);
-      } catch {
-        throw new ExpectedError(
-          pathExists
-            ? `You need to specify the path to a writable file. Unable to write to: "${path}".`
-            : `You need to specify the path where the file can be written. Unable to write to: "${path}".`
-        );
+  if (!path) {
+    if (process.platform === "win32") {
+      const tempDir = process.env.TEMP;
+      if (!tempDir) {
+        throw new ExpectedError("The TEMP environment variable is not defined.");
       }
+      path = fspath.normalize(`${tempDir}/${defaultRuntimeLogFileName}`);
+    } else {
+      path = fspath.join(os.tmpdir(), defaultRuntimeLogFileName);
+    }
+  }
 
-      await devSettingsWindows.enableRuntimeLogging(path);
-      return path;
+  const pathExists: boolean = fs.existsSync(path);
+  if (pathExists) {
+    const stat = fs.statSync(path);
+    if (stat.isDirectory()) {
+      throw new ExpectedError(
+        `You need to specify the path to a file. This is a directory: "${path}".`
+      );
     }
-    default:
-      throw new ExpectedError(`Platform not supported: ${process.platform}.`);
   }
+  try {
+    const file = fs.openSync(path, "a+");
+    fs.closeSync(file);
+  } catch {
+    throw new ExpectedError(
+      pathExists
+        ? `You need to specify the path to a writable file. Unable to write to: "${path}".`
+        : `You need to specify the path where the file can be written. Unable to write to: "${path}".`
+    );
+  }
+
+  await getDevSettingsStore().enableRuntimeLogging(path);
+  return path;
 }
 
 /**
@@ -160,71 +186,36 @@ export async function getRegisteredAddIns(): Promise<RegisteredAddin[]> {
     case "win32":
       return devSettingsWindows.getRegisteredAddIns();
     default:
-      throw new ExpectedError(`Platform not supported: ${process.platform}.`);
+      return devSettingsFile.getRegisteredAddIns();
   }
 }
 
 export async function getEnabledDebuggingMethods(addinId: string): Promise<DebuggingMethod[]> {
-  switch (process.platform) {
-    case "win32":
-      return devSettingsWindows.getEnabledDebuggingMethods(addinId);
-    default:
-      throw new ExpectedError(`Platform not supported: ${process.platform}.`);
-  }
+  return getDevSettingsStore().getEnabledDebuggingMethods(addinId);
 }
 
 export async function getOpenDevTools(addinId: string): Promise<boolean> {
-  switch (process.platform) {
-    case "win32":
-      return devSettingsWindows.getOpenDevTools(addinId);
-    default:
-      throw new ExpectedError(`Platform not supported: ${process.platform}.`);
-  }
+  return getDevSettingsStore().getOpenDevTools(addinId);
 }
 
 export async function getRuntimeLoggingPath(): Promise<string | undefined> {
-  switch (process.platform) {
-    case "win32":
-      return devSettingsWindows.getRuntimeLoggingPath();
-    default:
-      throw new ExpectedError(`Platform not supported: ${process.platform}.`);
-  }
+  return getDevSettingsStore().getRuntimeLoggingPath();
 }
 
 export async function getSourceBundleUrl(addinId: string): Promise<SourceBundleUrlComponents> {
-  switch (process.platform) {
-    case "win32":
-      return devSettingsWindows.getSourceBundleUrl(addinId);
-    default:
-      throw new ExpectedError(`Platform not supported: ${process.platform}.`);
-  }
+  return getDevSettingsStore().getSourceBundleUrl(addinId);
 }
 
 export async function getWebView(addinId: string): Promise<WebViewType | undefined> {
-  switch (process.platform) {
-    case "win32":
-      return devSettingsWindows.getWebView(addinId);
-    default:
-      throw new ExpectedError(`Platform not supported: ${process.platform}.`);
-  }
+  return getDevSettingsStore().getWebView(addinId);
 }
 
 export async function isDebuggingEnabled(addinId: string): Promise<boolean> {
-  switch (process.platform) {
-    case "win32":
-      return devSettingsWindows.isDebuggingEnabled(addinId);
-    default:
-      throw new ExpectedError(`Platform not supported: ${process.platform}.`);
-  }
+  return getDevSettingsStore().isDebuggingEnabled(addinId);
 }
 
 export async function isLiveReloadEnabled(addinId: string): Promise<boolean> {
-  switch (process.platform) {
-    case "win32":
-      return devSettingsWindows.isLiveReloadEnabled(addinId);
-    default:
-      throw new ExpectedError(`Platform not supported: ${process.platform}.`);
-  }
+  return getDevSettingsStore().isLiveReloadEnabled(addinId);
 }
 
 export async function registerAddIn(manifestPath: string, registration?: string): Promise<void> {
@@ -236,7 +227,7 @@ export async function registerAddIn(manifestPath: string, registration?: string)
     case "darwin":
       return devSettingsMac.registerAddIn(manifestPath);
     default:
-      throw new ExpectedError(`Platform not supported: ${process.platform}.`);
+      return devSettingsFile.registerAddIn(fs.realpathSync(manifestPath));
   }
 }
 
@@ -244,21 +235,11 @@ export async function setSourceBundleUrl(
   addinId: string,
   components: SourceBundleUrlComponents
 ): Promise<void> {
-  switch (process.platform) {
-    case "win32":
-      return devSettingsWindows.setSourceBundleUrl(addinId, components);
-    default:
-      throw new ExpectedError(`Platform not supported: ${process.platform}.`);
-  }
+  return getDevSettingsStore().setSourceBundleUrl(addinId, components);
 }
 
 export async function setWebView(addinId: string, webViewType: WebViewType | undefined) {
-  switch (process.platform) {
-    case "win32":
-      return devSettingsWindows.setWebView(addinId, webViewType);
-    default:
-      throw new ExpectedError(`Platform not supported: ${process.platform}.`);
-  }
+  return getDevSettingsStore().setWebView(addinId, webViewType);
 }
 
 export async function unregisterAddIn(manifestPath: string): Promise<void> {
@@ -271,7 +252,7 @@ export async function unregisterAddIn(manifestPath: string): Promise<void> {
       return devSettingsWindows.unregisterAddIn(manifest.id || "", realManifestPath);
     }
     default:
-      throw new ExpectedError(`Platform not supported: ${process.platform}.`);
+      return devSettingsFile.unregisterAddIn(manifest.id || "", fs.realpathSync(manifestPath));
   }
 }
 
@@ -282,6 +263,6 @@ export async function unregisterAllAddIns(): Promise<void> {
     case "win32":
       return devSettingsWindows.unregisterAllAddIns();
     default:
-      throw new ExpectedError(`Platform not supported: ${process.platform}.`);
+      return devSettingsFile.unregisterAllAddIns();
   }
 }
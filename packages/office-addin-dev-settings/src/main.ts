@@ -4,6 +4,8 @@
 export * from "./appcontainer";
 export * from "./appType";
 export * from "./dev-settings";
+export * from "./dev-settings-profile";
+export * from "./manifest-server";
 export * from "./process";
 export * from "./sideload";
 export { parseWebViewType } from "./commands";
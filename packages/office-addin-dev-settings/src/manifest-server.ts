@@ -0,0 +1,119 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import fs from "fs";
+import https from "https";
+import { AddressInfo, Socket } from "net";
+import os from "os";
+import path from "path";
+import { ExpectedError } from "office-addin-usage-data";
+
+// the certificate for localhost which is installed by office-addin-dev-certs
+const devCertsDirectoryName = ".office-addin-dev-certs";
+const localhostCertificateFileName = "localhost.crt";
+const localhostKeyFileName = "localhost.key";
+
+/**
+ * Serves the manifest from localhost, where Office on the web loads the manifest for sideloading.
+ */
+export interface ManifestServer {
+  /**
+   * The port of the server on localhost.
+   */
+  port: number;
+
+  /**
+   * The url of the manifest.
+   */
+  url: string;
+
+  /**
+   * Stops the server, and deletes the manifest if it was a temporary copy.
+   * The server keeps the process running until it is closed.
+   */
+  close(): void;
+}
+
+/**
+ * Returns the options for an HTTPS server on localhost, using the certificate installed by office-addin-dev-certs.
+ */
+export function getLocalhostServerOptions(): https.ServerOptions {
+  const certificateDirectory = path.join(os.homedir(), devCertsDirectoryName);
+  const certificatePath = path.join(certificateDirectory, localhostCertificateFileName);
+  const keyPath = path.join(certificateDirectory, localhostKeyFileName);
+
+  if (!fs.existsSync(certificatePath) || !fs.existsSync(keyPath)) {
+    throw new ExpectedError(
+      `The certificate for localhost was not found in ${certificateDirectory}. Run "npx office-addin-dev-certs install" to install it.`
+    );
+  }
+
+  return { cert: fs.readFileSync(certificatePath), key: fs.readFileSync(keyPath) };
+}
+
+/**
+ * Starts an HTTPS server on localhost which serves only the manifest.
+ * The manifest is read for each request, so that changes to it are served.
+ * @param manifestPath Path to the manifest file.
+ * @param isTemporaryCopy Specifies whether the manifest is a temporary copy, which is deleted with its folder when the server is closed.
+ * @param serverOptions Options for the HTTPS server. Default: the certificate installed by office-addin-dev-certs.
+ */
+export async function startManifestServer(
+  manifestPath: string,
+  isTemporaryCopy: boolean = false,
+  serverOptions?: https.ServerOptions
+): Promise<ManifestServer> {
+  const options: https.ServerOptions = serverOptions ?? getLocalhostServerOptions();
+  const manifestUrlPath = `/${encodeURIComponent(path.basename(manifestPath))}`;
+  const contentType =
+    path.extname(manifestPath).toLowerCase() === ".json" ? "application/json" : "application/xml";
+
+  const server = https.createServer(options, (request, response) => {
+    // Office on the web requests the manifest from its own origin
+    response.setHeader("Access-Control-Allow-Origin", "*");
+
+    if (request.method === "OPTIONS") {
+      response.writeHead(204);
+      response.end();
+    } else if (request.method === "GET" && request.url?.split("?")[0] === manifestUrlPath) {
+      fs.readFile(manifestPath, (err, data) => {
+        if (err) {
+          response.writeHead(500);
+          response.end();
+        } else {
+          response.writeHead(200, { "Content-Type": contentType });
+          response.end(data);
+        }
+      });
+    } else {
+      response.writeHead(404);
+      response.end();
+    }
+  });
+
+  // the connections are tracked so that close() can end them, since browsers keep them open
+  const sockets = new Set<Socket>();
+  server.on("connection", (socket: Socket) => {
+    sockets.add(socket);
+    socket.once("close", () => sockets.delete(socket));
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(0, "localhost", () => resolve());
+  });
+
+  const port = (server.address() as AddressInfo).port;
+
+  return {
+    port,
+    url: `https://localhost:${port}${manifestUrlPath}`,
+    close: () => {
+      server.close();
+      sockets.forEach((socket) => socket.destroy());
+      if (isTemporaryCopy) {
+        fs.rmSync(path.dirname(manifestPath), { recursive: true, force: true });
+      }
+    },
+  };
+}
@@ -0,0 +1,92 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { RegistryKey, RegistryProvider, RegistryValue } from "./registry";
+
+/**
+ * The registry keys, by key path, with their values by value name.
+ */
+export interface RegistryTree {
+  [keyPath: string]: { [valueName: string]: string };
+}
+
+/**
+ * Reads and writes registry keys and values in memory, so the registry can be used on any platform, such as in tests.
+ * As in the Windows registry, key paths and value names are not case sensitive.
+ */
+export class MemoryRegistryProvider implements RegistryProvider {
+  private keys = new Map<string, Map<string, RegistryValue>>();
+
+  public async addValue(
+    key: RegistryKey,
+    value: string,
+    type: string,
+    data: string
+  ): Promise<void> {
+    let values = this.keys.get(key.path.toLowerCase());
+    if (!values) {
+      values = new Map<string, RegistryValue>();
+      this.keys.set(key.path.toLowerCase(), values);
+    }
+    values.set(value.toLowerCase(), new RegistryValue(key.path, value, type, data));
+  }
+
+  public async deleteKey(key: RegistryKey): Promise<void> {
+    // subkeys are deleted with the key
+    for (const keyPath of this.findKeyPaths(key)) {
+      this.keys.delete(keyPath);
+    }
+  }
+
+  public async deleteValue(key: RegistryKey, value: string): Promise<void> {
+    this.keys.get(key.path.toLowerCase())?.delete(value.toLowerCase());
+  }
+
+  public async doesKeyExist(key: RegistryKey): Promise<boolean> {
+    return this.findKeyPaths(key).length > 0;
+  }
+
+  public async doesValueExist(key: RegistryKey, value: string): Promise<boolean> {
+    return (await this.getValue(key, value)) !== undefined;
+  }
+
+  public async getValue(key: RegistryKey, value: string): Promise<RegistryValue | undefined> {
+    return this.keys.get(key.path.toLowerCase())?.get(value.toLowerCase());
+  }
+
+  public async getValues(key: RegistryKey): Promise<RegistryValue[]> {
+    if (!(await this.doesKeyExist(key))) {
+      throw new Error(`The registry key does not exist: "${key.path}".`);
+    }
+    return [...(this.keys.get(key.path.toLowerCase())?.values() ?? [])];
+  }
+
+  /**
+   * Returns the keys which have values, sorted by key path, with the data of their values.
+   */
+  public getTree(): RegistryTree {
+    const tree: RegistryTree = {};
+    const sortedKeys = [...this.keys.values()]
+      .filter((values) => values.size > 0)
+      .map((values) => [...values.values()])
+      .sort((a, b) => a[0].key.localeCompare(b[0].key));
+
+    for (const values of sortedKeys) {
+      tree[values[0].key] = {};
+      for (const value of values) {
+        tree[value.key][value.name] = value.data;
+      }
+    }
+    return tree;
+  }
+
+  /**
+   * Returns the paths of the key and its subkeys.
+   */
+  private findKeyPaths(key: RegistryKey): string[] {
+    const keyPath = key.path.toLowerCase();
+    return [...this.keys.keys()].filter(
+      (path) => path === keyPath || path.startsWith(`${keyPath}\\`)
+    );
+  }
+}
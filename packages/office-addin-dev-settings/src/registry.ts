@@ -64,31 +64,194 @@ export class RegistryValue {
   }
 }
 
-async function addValue(
-  key: RegistryKey,
-  value: string,
-  type: string,
-  data: string
-): Promise<void> {
-  return new Promise<void>((resolve, reject) => {
-    const onError = (err: any) => {
-      if (err) {
-        reject(
-          new Error(
-            `Unable to set registry value "${value}" to "${data}" (${type}) for key "${key.path}".\n${err}`
-          )
-        );
-      } else {
-        resolve();
+/**
+ * Reads and writes registry keys and values.
+ */
+export interface RegistryProvider {
+  addValue(key: RegistryKey, value: string, type: string, data: string): Promise<void>;
+  deleteKey(key: RegistryKey): Promise<void>;
+  deleteValue(key: RegistryKey, value: string): Promise<void>;
+  doesKeyExist(key: RegistryKey): Promise<boolean>;
+  doesValueExist(key: RegistryKey, value: string): Promise<boolean>;
+  getValue(key: RegistryKey, value: string): Promise<RegistryValue | undefined>;
+  getValues(key: RegistryKey): Promise<RegistryValue[]>;
+}
+
+/**
+ * Reads and writes the Windows registry using reg.exe.
+ */
+export class RegExeRegistryProvider implements RegistryProvider {
+  public async addValue(
+    key: RegistryKey,
+    value: string,
+    type: string,
+    data: string
+  ): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const onError = (err: any) => {
+        if (err) {
+          reject(
+            new Error(
+              `Unable to set registry value "${value}" to "${data}" (${type}) for key "${key.path}".\n${err}`
+            )
+          );
+        } else {
+          resolve();
+        }
+      };
+
+      try {
+        key.winreg.set(value, type, data, onError);
+      } catch (err) {
+        onError(err);
       }
-    };
+    });
+  }
 
-    try {
-      key.winreg.set(value, type, data, onError);
-    } catch (err) {
-      onError(err);
-    }
-  });
+  public async deleteKey(key: RegistryKey): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const onError = (err: any) => {
+        if (err) {
+          reject(new Error(`Unable to delete registry key "${key.path}".\n${err}`));
+        } else {
+          resolve();
+        }
+      };
+
+      try {
+        key.winreg.keyExists((keyExistsError, exists) => {
+          if (exists) {
+            key.winreg.destroy(onError);
+          } else {
+            onError(keyExistsError);
+          }
+        });
+      } catch (err) {
+        onError(err);
+      }
+    });
+  }
+
+  public async deleteValue(key: RegistryKey, value: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const onError = (err: any) => {
+        if (err) {
+          reject(
+            new Error(`Unable to delete registry value "${value}" in key "${key.path}".\n${err}`)
+          );
+        } else {
+          resolve();
+        }
+      };
+
+      try {
+        key.winreg.valueExists(value, (_, exists) => {
+          if (exists) {
+            key.winreg.remove(value, onError);
+          } else {
+            resolve();
+          }
+        });
+      } catch (err) {
+        onError(err);
+      }
+    });
+  }
+
+  public async doesKeyExist(key: RegistryKey): Promise<boolean> {
+    return new Promise<boolean>((resolve, reject) => {
+      const onError = (err: any, exists: boolean = false) => {
+        if (err) {
+          reject(new Error(`Unable to determine if registry key exists: "${key.path}".\n${err}`));
+        } else {
+          resolve(exists);
+        }
+      };
+
+      try {
+        key.winreg.keyExists(onError);
+      } catch (err) {
+        onError(err);
+      }
+    });
+  }
+
+  public async doesValueExist(key: RegistryKey, value: string): Promise<boolean> {
+    return new Promise<boolean>((resolve, reject) => {
+      const onError = (err: any, exists: boolean = false) => {
+        if (err) {
+          reject(
+            new Error(
+              `Unable to determine if registry value "${value}" exists for key "${key.path}".\n${err}`
+            )
+          );
+        } else {
+          resolve(exists);
+        }
+      };
+
+      try {
+        key.winreg.valueExists(value, onError);
+      } catch (err) {
+        onError(err);
+      }
+    });
+  }
+
+  public async getValue(key: RegistryKey, value: string): Promise<RegistryValue | undefined> {
+    return new Promise<RegistryValue | undefined>((resolve) => {
+      const onError = (err: any, item?: winreg.RegistryItem) => {
+        if (err) {
+          resolve(undefined);
+        } else {
+          resolve(item ? new RegistryValue(key.path, item.name, item.type, item.value) : undefined);
+        }
+      };
+
+      try {
+        key.winreg.get(value, onError);
+      } catch (err) {
+        onError(err);
+      }
+    });
+  }
+
+  public async getValues(key: RegistryKey): Promise<RegistryValue[]> {
+    return new Promise<RegistryValue[]>((resolve, reject) => {
+      const callback = (err: Error, items: winreg.RegistryItem[]) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(
+            items.map((item) => new RegistryValue(key.path, item.name, item.type, item.value))
+          );
+        }
+      };
+
+      try {
+        key.winreg.values(callback);
+      } catch (err) {
+        reject(err);
+      }
+    });
+  }
+}
+
+let registryProvider: RegistryProvider = new RegExeRegistryProvider();
+
+/**
+ * Returns the provider used to read and write the registry.
+ */
+export function getRegistryProvider(): RegistryProvider {
+  return registryProvider;
+}
+
+/**
+ * Sets the provider used to read and write the registry, such as a MemoryRegistryProvider for testing.
+ * @param provider The registry provider.
+ */
+export function setRegistryProvider(provider: RegistryProvider) {
+  registryProvider = provider;
 }
 
 export async function addBooleanValue(
@@ -96,105 +259,31 @@ export async function addBooleanValue(
   value: string,
   data: boolean
 ): Promise<void> {
-  return addValue(key, value, winreg.REG_DWORD, data ? "1" : "0");
+  return registryProvider.addValue(key, value, winreg.REG_DWORD, data ? "1" : "0");
 }
 
 export async function addNumberValue(key: RegistryKey, value: string, data: number): Promise<void> {
-  return addValue(key, value, winreg.REG_DWORD, data.toString());
+  return registryProvider.addValue(key, value, winreg.REG_DWORD, data.toString());
 }
 
 export async function addStringValue(key: RegistryKey, value: string, data: string): Promise<void> {
-  return addValue(key, value, winreg.REG_SZ, data);
+  return registryProvider.addValue(key, value, winreg.REG_SZ, data);
 }
 
 export async function deleteKey(key: RegistryKey): Promise<void> {
-  return new Promise<void>((resolve, reject) => {
-    const onError = (err: any) => {
-      if (err) {
-        reject(new Error(`Unable to delete registry key "${key.path}".\n${err}`));
-      } else {
-        resolve();
-      }
-    };
-
-    try {
-      key.winreg.keyExists((keyExistsError, exists) => {
-        if (exists) {
-          key.winreg.destroy(onError);
-        } else {
-          onError(keyExistsError);
-        }
-      });
-    } catch (err) {
-      onError(err);
-    }
-  });
+  return registryProvider.deleteKey(key);
 }
 
 export async function deleteValue(key: RegistryKey, value: string): Promise<void> {
-  return new Promise<void>((resolve, reject) => {
-    const onError = (err: any) => {
-      if (err) {
-        reject(
-          new Error(`Unable to delete registry value "${value}" in key "${key.path}".\n${err}`)
-        );
-      } else {
-        resolve();
-      }
-    };
-
-    try {
-      key.winreg.valueExists(value, (_, exists) => {
-        if (exists) {
-          key.winreg.remove(value, onError);
-        } else {
-          resolve();
-        }
-      });
-    } catch (err) {
-      onError(err);
-    }
-  });
+  return registryProvider.deleteValue(key, value);
 }
 
 export async function doesKeyExist(key: RegistryKey): Promise<boolean> {
-  return new Promise<boolean>((resolve, reject) => {
-    const onError = (err: any, exists: boolean = false) => {
-      if (err) {
-        reject(new Error(`Unable to determine if registry key exists: "${key.path}".\n${err}`));
-      } else {
-        resolve(exists);
-      }
-    };
-
-    try {
-      key.winreg.keyExists(onError);
-    } catch (err) {
-      onError(err);
-    }
-  });
+  return registryProvider.doesKeyExist(key);
 }
 
 export async function doesValueExist(key: RegistryKey, value: string): Promise<boolean> {
-  return new Promise<boolean>((resolve, reject) => {
-    const onError = (err: any, exists: boolean = false) => {
-      if (err) {
-        reject(
-          new Error(
-            `Unable to determine if registry value "${value}" exists for key "${key.path}".\n${err}`
-          )
-        );
-      } else {
-        resolve(exists);
-      }
-    };
-
-    try {
-      key.winreg.valueExists(value, onError);
-    } catch (err) {
-      onError(err);
-    }
-  });
+  return registryProvider.doesValueExist(key, value);
 }
 
 export async function getNumberValue(key: RegistryKey, value: string): Promise<number | undefined> {
@@ -215,39 +304,11 @@ export async function getValue(
   key: RegistryKey,
   value: string
 ): Promise<RegistryValue | undefined> {
-  return new Promise<RegistryValue | undefined>((resolve) => {
-    const onError = (err: any, item?: winreg.RegistryItem) => {
-      if (err) {
-        resolve(undefined);
-      } else {
-        resolve(item ? new RegistryValue(key.path, item.name, item.type, item.value) : undefined);
-      }
-    };
-
-    try {
-      key.winreg.get(value, onError);
-    } catch (err) {
-      onError(err);
-    }
-  });
+  return registryProvider.getValue(key, value);
 }
 
 export async function getValues(key: RegistryKey): Promise<RegistryValue[]> {
-  return new Promise<RegistryValue[]>((resolve, reject) => {
-    const callback = (err: Error, items: winreg.RegistryItem[]) => {
-      if (err) {
-        reject(err);
-      } else {
-        resolve(items.map((item) => new RegistryValue(key.path, item.name, item.type, item.value)));
-      }
-    };
-
-    try {
-      key.winreg.values(callback);
-    } catch (err) {
-      reject(err);
-    }
-  });
+  return registryProvider.getValues(key);
 }
 
 export function isNumberType(registryType: string) {
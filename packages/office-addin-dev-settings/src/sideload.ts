@@ -18,20 +18,35 @@ import semver = require("semver");
 import os from "os";
 import path from "path";
 import { AppType } from "./appType";
-import { registerAddIn } from "./dev-settings";
+import {
+  DebuggingMethod,
+  getEnabledDebuggingMethods,
+  getOpenDevTools,
+  isLiveReloadEnabled,
+  registerAddIn,
+} from "./dev-settings";
 import { startDetachedProcess } from "./process";
 import { chooseOfficeApp } from "./prompt";
 import * as registry from "./registry";
 import { usageDataObject } from "./defaults";
+import { ManifestServer, startManifestServer } from "./manifest-server";
+import { addTaskPaneAddIns, TaskPaneAddIn } from "./webextension";
 import { ExpectedError } from "office-addin-usage-data";
 
 /* global Buffer console process URL __dirname */
 
+// Outlook on the web, which is opened when the url of a mailbox is not specified
+const outlookWebOrigin = "https://outlook.office.com";
+
+// documents into which add-ins can be inserted
+const openXmlDocumentExtensions = [".docm", ".docx", ".pptm", ".pptx", ".xlsm", ".xlsx"];
+
 /**
  * Create an Office document in the temporary files directory
  * which can be opened to launch the Office app and load the add-in.
  * @param app Office app
  * @param manifest Manifest for the add-in.
+ * @param document If provided, path to the document to open. The add-in is inserted into a copy of the document.
  * @returns Path to the file.
  */
 export async function generateSideloadFile(
@@ -39,21 +54,38 @@ export async function generateSideloadFile(
   manifest: ManifestInfo,
   document?: string
 ): Promise<string> {
-  if (!manifest.id) {
-    throw new ExpectedError("The manifest does not contain the id for the add-in.");
-  }
+  return generateSideloadFileForAddIns(app, [manifest], document);
+}
 
-  if (!manifest.officeAppType) {
-    throw new ExpectedError("The manifest does not contain the OfficeApp xsi:type.");
+/**
+ * Create an Office document in the temporary files directory
+ * which can be opened to launch the Office app and load the add-ins.
+ * @param app Office app
+ * @param manifests Manifests for the add-ins. When there is more than one add-in, they should be task pane add-ins with XML manifests.
+ * @param document If provided, path to the document to open. The add-ins are inserted into a copy of the document.
+ * @returns Path to the file.
+ */
+export async function generateSideloadFileForAddIns(
+  app: OfficeApp,
+  manifests: ManifestInfo[],
+  document?: string
+): Promise<string> {
+  if (manifests.length === 0) {
+    throw new ExpectedError("Please specify the manifest for the add-in.");
   }
 
-  if (!manifest.version) {
-    throw new ExpectedError("The manifest does not contain the version for the add-in.");
-  }
-  const addInType = getAddInTypeForManifestOfficeAppType(manifest.officeAppType);
+  const addInTypes = manifests.map(getSideloadAddInType);
+  const [manifest] = manifests;
+  const [addInType] = addInTypes;
 
-  if (!addInType) {
-    throw new ExpectedError("The manifest contains an unsupported OfficeApp xsi:type.");
+  if (
+    manifests.length > 1 &&
+    (addInTypes.some((type) => type !== AddInType.TaskPane) ||
+      manifests.some((manifest) => manifest.manifestType !== ManifestType.XML))
+  ) {
+    throw new ExpectedError(
+      "Only task pane add-ins with XML manifests can be loaded together in one document."
+    );
   }
 
   const documentWasProvided = document && document !== "";
@@ -62,6 +94,9 @@ export async function generateSideloadFile(
     : getTemplatePath(app, addInType);
 
   if (!templatePath) {
+    if (app === OfficeApp.Word && addInType === AddInType.Content) {
+      throw new ExpectedError("Word does not support content add-ins.");
+    }
     throw new ExpectedError(`Sideload is not supported for apptype: ${addInType}.`);
   }
 
@@ -71,6 +106,7 @@ export async function generateSideloadFile(
     path.join(os.tmpdir(), `${appName} add-in ${manifest.id}${extension}`),
     true
   );
+  const documentFolder = getDocumentFolder(app);
 
   if (!documentWasProvided) {
     const webExtensionPath = getWebExtensionPath(app, addInType);
@@ -89,8 +125,8 @@ export async function generateSideloadFile(
 
     const webExtensionXml = templateZip
       .readAsText(extEntry)
-      .replace(/00000000-0000-0000-0000-000000000000/g, manifest.id)
-      .replace(/1.0.0.0/g, manifest.version);
+      .replace(/00000000-0000-0000-0000-000000000000/g, manifest.id!)
+      .replace(/1.0.0.0/g, manifest.version!);
 
     const webExtensionFolderPath = webExtensionPath.substring(0, webExtensionPath.lastIndexOf("/"));
     templateZip.getEntries().forEach(function (entry) {
@@ -107,8 +143,34 @@ export async function generateSideloadFile(
       }
     });
 
+    if (documentFolder && manifests.length > 1) {
+      addTaskPaneAddIns(outZip, documentFolder, manifests.slice(1).map(toTaskPaneAddIn));
+    }
+
     // Write the file
     await outZip.writeZipPromise(pathToWrite);
+  } else if (
+    documentFolder &&
+    addInType === AddInType.TaskPane &&
+    manifest.manifestType === ManifestType.XML &&
+    openXmlDocumentExtensions.includes(extension.toLowerCase())
+  ) {
+    // insert the add-ins into a copy of the document
+    const documentZip: AdmZip = new AdmZip(templatePath);
+    const outZip: AdmZip = new AdmZip();
+
+    if (
+      !documentZip.getEntries().some((entry) => entry.entryName.startsWith(`${documentFolder}/`))
+    ) {
+      throw new ExpectedError(`The document is not a ${appName} document: ${templatePath}.`);
+    }
+
+    documentZip.getEntries().forEach(function (entry) {
+      outZip.addFile(entry.entryName, entry.getData(), entry.comment, entry.attr);
+    });
+
+    addTaskPaneAddIns(outZip, documentFolder, manifests.map(toTaskPaneAddIn));
+    await outZip.writeZipPromise(pathToWrite);
   } else {
     await fs.promises.copyFile(templatePath, pathToWrite);
   }
@@ -116,21 +178,85 @@ export async function generateSideloadFile(
   return pathToWrite;
 }
 
+/**
+ * Returns the type of add-in, after checking that the manifest has what is needed for sideloading.
+ */
+function getSideloadAddInType(manifest: ManifestInfo): AddInType {
+  if (!manifest.id) {
+    throw new ExpectedError("The manifest does not contain the id for the add-in.");
+  }
+
+  if (!manifest.officeAppType) {
+    throw new ExpectedError("The manifest does not contain the OfficeApp xsi:type.");
+  }
+
+  if (!manifest.version) {
+    throw new ExpectedError("The manifest does not contain the version for the add-in.");
+  }
+  const addInType = getAddInTypeForManifestOfficeAppType(manifest.officeAppType);
+
+  if (!addInType) {
+    throw new ExpectedError("The manifest contains an unsupported OfficeApp xsi:type.");
+  }
+
+  return addInType;
+}
+
+function toTaskPaneAddIn(manifest: ManifestInfo): TaskPaneAddIn {
+  return { id: manifest.id!, version: manifest.version! };
+}
+
+/**
+ * Options for sideloading to Office on the web.
+ */
+export interface WebSideloadOptions {
+  /**
+   * Host names of dev servers which are allowed in the SourceLocation, in addition to localhost and 127.0.0.1.
+   * A host name which starts with "*." allows any subdomain, such as "*.dev.internal".
+   */
+  allowedHosts?: string[];
+
+  /**
+   * Public url which forwards to the dev server, such as a tunnel url.
+   * If provided, a temporary copy of the manifest which uses the url instead of the dev server is sideloaded.
+   */
+  tunnelUrl?: string;
+}
+
+/**
+ * Options for the url which sideloads the add-in to Office on the web.
+ */
+export interface SideloadUrlOptions {
+  /**
+   * Host names of dev servers which are allowed in the SourceLocation, in addition to localhost and 127.0.0.1.
+   */
+  allowedHosts?: string[];
+
+  /**
+   * Port of the server on localhost which serves the manifest, such as from startManifestServer().
+   * Office on the web loads the manifest from localhost, so this is required when the dev server is not on localhost.
+   */
+  manifestServerPort?: number;
+}
+
 /**
  * Create an Office document url with query params which can be opened
  * to register an Office add-in in Office Online.
  * @param manifestPath Path to the manifest file for the Office Add-in.
  * @param documentUrl Office Online document url
  * @param isTest Indicates whether to append test query param to suppress Office Online dialogs.
+ * @param options Options for dev servers which are not on localhost.
  * @returns Document url with query params appended.
  */
 export async function generateSideloadUrl(
   manifestFileName: string,
   manifest: ManifestInfo,
   documentUrl: string,
-  isTest: boolean = false
+  isTest: boolean = false,
+  options: SideloadUrlOptions = {}
 ): Promise<string> {
   const testQueryParam = "&wdaddintest=true";
+  const allowedHosts: string[] = options.allowedHosts ?? [];
 
   if (!manifest.id) {
     throw new ExpectedError("The manifest does not contain the id for the add-in.");
@@ -148,16 +274,31 @@ export async function generateSideloadUrl(
     throw new ExpectedError("The SourceLocation in the manifest does not use the HTTPS protocol.");
   }
 
-  if (
-    sourceLocationUrl.host.indexOf("localhost") === -1 &&
-    sourceLocationUrl.host.indexOf("127.0.0.1") === -1
-  ) {
+  const isLocalhost = isAllowedDevServerHost(sourceLocationUrl.hostname);
+  if (!isLocalhost && !isAllowedDevServerHost(sourceLocationUrl.hostname, allowedHosts)) {
     throw new ExpectedError(
-      "The hostname specified by the SourceLocation in the manifest is not supported for sideload. The hostname should be 'localhost' or 127.0.0.1."
+      allowedHosts.length > 0
+        ? `The hostname specified by the SourceLocation in the manifest is not supported for sideload. The hostname should be 'localhost', 127.0.0.1, or one of the allowed hosts: ${allowedHosts.join(
+            ", "
+          )}.`
+        : "The hostname specified by the SourceLocation in the manifest is not supported for sideload. The hostname should be 'localhost' or 127.0.0.1."
     );
   }
 
-  let queryParms: string = `&wdaddindevserverport=${sourceLocationUrl.port}&wdaddinmanifestfile=${manifestFileName}&wdaddinmanifestguid=${manifest.id}`;
+  // Office on the web loads the manifest from https://localhost:<port>
+  const manifestPort: string | undefined =
+    options.manifestServerPort !== undefined
+      ? options.manifestServerPort.toString()
+      : isLocalhost
+        ? sourceLocationUrl.port || "443"
+        : undefined;
+  if (manifestPort === undefined) {
+    throw new ExpectedError(
+      `Office on the web loads the manifest from localhost, so the manifest for the dev server at ${sourceLocationUrl.hostname} needs to be served from localhost.`
+    );
+  }
+
+  let queryParms: string = `&wdaddindevserverport=${manifestPort}&wdaddinmanifestfile=${manifestFileName}&wdaddinmanifestguid=${manifest.id}`;
 
   if (isTest) {
     queryParms = `${queryParms}${testQueryParam}`;
@@ -166,6 +307,83 @@ export async function generateSideloadUrl(
   return `${documentUrl}${queryParms}`;
 }
 
+/**
+ * Returns the url which opens the add-ins dialog of Outlook on the web, where the manifest file is added to sideload
+ * the add-in. This is the page that https://aka.ms/olksideload opens. Outlook on the web does not have url parameters
+ * which load the manifest, so it needs to be added in the dialog.
+ * @param mailboxUrl If provided, url of Outlook on the web, such as https://outlook.office365.com/mail/. Default: Outlook.com.
+ * @returns The url of the add-ins dialog.
+ */
+export function generateOutlookWebSideloadUrl(mailboxUrl?: string): string {
+  let origin: string = outlookWebOrigin;
+  if (mailboxUrl) {
+    let url: URL;
+    try {
+      url = new URL(mailboxUrl);
+    } catch {
+      throw new ExpectedError(`The Outlook on the web url is not valid: ${mailboxUrl}.`);
+    }
+    if (url.protocol !== "https:") {
+      throw new ExpectedError("The Outlook on the web url does not use the HTTPS protocol.");
+    }
+    origin = url.origin;
+  }
+  return `${origin}/mail/jsmvvmdeeplink/?path=/options/manageapps&bO=4`;
+}
+
+/**
+ * Returns whether the host name is localhost, 127.0.0.1, or one of the allowed hosts.
+ * @param hostname Host name of the dev server.
+ * @param allowedHosts Allowed host names. A host name which starts with "*." allows any subdomain.
+ */
+export function isAllowedDevServerHost(hostname: string, allowedHosts: string[] = []): boolean {
+  const name = hostname.toLowerCase();
+  return ["localhost", "127.0.0.1", ...allowedHosts]
+    .map((host) => host.trim().toLowerCase())
+    .some((host) => (host.startsWith("*.") ? name.endsWith(host.substring(1)) : name === host));
+}
+
+/**
+ * Writes a copy of the manifest to a new temporary folder, where the urls of the dev server in the SourceLocation
+ * are replaced by the tunnel url.
+ * @param manifestPath Path to the manifest file for the Office Add-in.
+ * @param manifest Manifest for the add-in.
+ * @param tunnelUrl Public url which forwards to the dev server.
+ * @returns Path to the copy of the manifest, which has the same file name as the manifest.
+ */
+export async function writeTunnelManifest(
+  manifestPath: string,
+  manifest: ManifestInfo,
+  tunnelUrl: string
+): Promise<string> {
+  let tunnel: URL;
+  try {
+    tunnel = new URL(tunnelUrl);
+  } catch {
+    throw new ExpectedError(`The tunnel url is not valid: ${tunnelUrl}.`);
+  }
+  if (tunnel.protocol !== "https:") {
+    throw new ExpectedError("The tunnel url does not use the HTTPS protocol.");
+  }
+
+  if (!manifest.defaultSettings?.sourceLocation) {
+    throw new ExpectedError("The manifest does not contain the SourceLocation for the add-in");
+  }
+
+  // replace the dev server in all urls, such as for icons and commands, not just the SourceLocation
+  const devServerOrigin = new URL(manifest.defaultSettings.sourceLocation).origin;
+  const manifestText = await fs.promises.readFile(manifestPath, "utf8");
+  const tunnelManifestFolder = await fs.promises.mkdtemp(
+    path.join(os.tmpdir(), "office-addin-manifest-")
+  );
+  const tunnelManifestPath = path.join(tunnelManifestFolder, path.basename(manifestPath));
+  await fs.promises.writeFile(
+    tunnelManifestPath,
+    manifestText.split(devServerOrigin).join(tunnel.origin)
+  );
+  return tunnelManifestPath;
+}
+
 /**
  * Returns the path to the document used as a template for sideloading,
  * or undefined if sideloading is not supported.
@@ -199,6 +417,21 @@ export function getTemplatePath(app: OfficeApp, addInType: AddInType): string |
   }
 }
 
+/**
+ * Returns the folder of the main part of the Office Open XML document for the Office app.
+ * @param app Specifies the Office app.
+ */
+function getDocumentFolder(app: OfficeApp): string | undefined {
+  switch (app) {
+    case OfficeApp.Excel:
+      return "xl";
+    case OfficeApp.PowerPoint:
+      return "ppt";
+    case OfficeApp.Word:
+      return "word";
+  }
+}
+
 /**
  * Returns the web extension path in the sideload document.
  * @param app Specifies the Office app.
@@ -236,6 +469,7 @@ function isSideloadingSupportedForDesktopHost(app: OfficeApp): boolean {
 function isSideloadingSupportedForWebHost(app: OfficeApp): boolean {
   if (
     app === OfficeApp.Excel ||
+    app === OfficeApp.Outlook ||
     app === OfficeApp.PowerPoint ||
     app === OfficeApp.Project ||
     app === OfficeApp.Word
@@ -321,24 +555,42 @@ function makePathUnique(originalPath: string, tryToDelete: boolean = false): str
 
 /**
  * Starts the Office app and loads the Office Add-in.
- * @param manifestPath Path to the manifest file for the Office Add-in.
+ * @param manifestPath Path to the manifest file for the Office Add-in, or paths to the manifest files for several add-ins
+ * which are loaded together. The Office app is chosen using the first manifest. Several add-ins can only be sideloaded to
+ * the desktop app; each add-in is registered, and task pane add-ins are opened in the same document.
  * @param app Office app to launch.
  * @param canPrompt
+ * @param document Path or url of the document to open. For Outlook on the web, the url of the mailbox.
+ * @param registration Id of the registered add-in, for the first manifest.
+ * @param webOptions Options for sideloading to Office on the web.
+ * @returns For sideload to web, the server which serves the manifest from localhost, if one was needed. It runs until the
+ * caller closes it.
  */
 export async function sideloadAddIn(
-  manifestPath: string,
+  manifestPath: string | string[],
   app?: OfficeApp,
   canPrompt: boolean = false,
   appType?: AppType,
   document?: string,
-  registration?: string
-): Promise<void> {
+  registration?: string,
+  webOptions: WebSideloadOptions = {}
+): Promise<ManifestServer | undefined> {
+  let manifestServer: ManifestServer | undefined;
   try {
     if (appType === undefined) {
       appType = AppType.Desktop;
     }
 
-    const manifest: ManifestInfo = await OfficeAddinManifest.readManifestFile(manifestPath);
+    const manifestPaths: string[] = Array.isArray(manifestPath) ? manifestPath : [manifestPath];
+    if (manifestPaths.length === 0) {
+      throw new ExpectedError("Please specify the manifest for the add-in.");
+    }
+
+    const manifests: ManifestInfo[] = [];
+    for (const filePath of manifestPaths) {
+      manifests.push(await OfficeAddinManifest.readManifestFile(filePath));
+    }
+    const [manifest] = manifests;
     const appsInManifest: OfficeApp[] = getOfficeAppsForManifestHosts(manifest.hosts);
 
     if (app) {
@@ -366,29 +618,40 @@ export async function sideloadAddIn(
       throw new ExpectedError("Please specify the Office app.");
     }
 
+    for (let index = 1; index < manifests.length; ++index) {
+      if (!getOfficeAppsForManifestHosts(manifests[index].hosts).includes(app)) {
+        throw new ExpectedError(
+          `The Office Add-in manifest ${manifestPaths[index]} does not support ${getOfficeAppName(app)}.`
+        );
+      }
+    }
+
     switch (appType) {
       case AppType.Desktop:
-        await registerAddIn(manifestPath, registration);
-        await launchDesktopApp(app, manifest, document);
+        for (let index = 0; index < manifestPaths.length; ++index) {
+          await registerAddIn(manifestPaths[index], index === 0 ? registration : undefined);
+        }
+        await launchDesktopApp(app, manifests, document);
         break;
       case AppType.Web: {
-        if (!document) {
-          throw new ExpectedError(`For sideload to web, you need to specify a document url.`);
+        if (manifests.length > 1) {
+          throw new ExpectedError("Only one add-in at a time can be sideloaded to web.");
         }
-        await launchWebApp(app, manifestPath, manifest, document);
+        manifestServer = await launchWebApp(app, manifestPaths[0], manifest, document, webOptions);
         break;
       }
       default:
         throw new ExpectedError("Sideload is not supported for the specified app type.");
     }
     usageDataObject.reportSuccess("sideloadAddIn()");
+    return manifestServer;
   } catch (err: any) {
     usageDataObject.reportException("sideloadAddIn()", err);
     throw err;
   }
 }
 
-async function launchDesktopApp(app: OfficeApp, manifest: ManifestInfo, document?: string) {
+async function launchDesktopApp(app: OfficeApp, manifests: ManifestInfo[], document?: string) {
   if (!isSideloadingSupportedForDesktopHost(app)) {
     throw new ExpectedError(`Sideload to the ${getOfficeAppName(app)} app is not supported.`);
   }
@@ -403,7 +666,7 @@ async function launchDesktopApp(app: OfficeApp, manifest: ManifestInfo, document
     }
     await launchApp(app, await getOutlookExePath());
   } else {
-    await launchApp(app, await generateSideloadFile(app, manifest, document));
+    await launchApp(app, await generateSideloadFileForAddIns(app, manifests, document));
   }
 }
 
@@ -411,14 +674,132 @@ async function launchWebApp(
   app: OfficeApp,
   manifestPath: string,
   manifest: ManifestInfo,
-  document: string
-) {
+  document: string | undefined,
+  options: WebSideloadOptions
+): Promise<ManifestServer | undefined> {
   if (!isSideloadingSupportedForWebHost(app)) {
     throw new ExpectedError(`Sideload to the ${getOfficeAppName(app)} web app is not supported.`);
   }
-  const manifestFileName: string = path.basename(manifestPath);
-  const isTest: boolean = process.env.WEB_SIDELOAD_TEST !== undefined;
-  await launchApp(app, await generateSideloadUrl(manifestFileName, manifest, document, isTest));
+  if (manifest.id && process.platform !== "darwin") {
+    await logDevSettings(manifest.id);
+  }
+  if (app === OfficeApp.Outlook) {
+    await launchOutlookWebApp(manifestPath, manifest, document, options);
+    return undefined;
+  }
+  if (!document) {
+    throw new ExpectedError(`For sideload to web, you need to specify a document url.`);
+  }
+
+  const allowedHosts: string[] = [...(options.allowedHosts ?? [])];
+  let sideloadManifestPath: string = manifestPath;
+  let sideloadManifest: ManifestInfo = manifest;
+
+  if (options.tunnelUrl) {
+    sideloadManifestPath = await writeTunnelManifest(manifestPath, manifest, options.tunnelUrl);
+    sideloadManifest = await OfficeAddinManifest.readManifestFile(sideloadManifestPath);
+    allowedHosts.push(new URL(options.tunnelUrl).hostname);
+  }
+
+  // Office on the web loads the manifest from localhost, so serve it there if the dev server can't
+  const sourceLocationHost = getSourceLocationHost(sideloadManifest);
+  const needsManifestServer: boolean =
+    options.tunnelUrl !== undefined ||
+    (sourceLocationHost !== undefined &&
+      !isAllowedDevServerHost(sourceLocationHost) &&
+      isAllowedDevServerHost(sourceLocationHost, allowedHosts));
+  let manifestServer: ManifestServer | undefined;
+  let sideloadUrl: string;
+
+  try {
+    if (needsManifestServer) {
+      manifestServer = await startManifestServer(
+        sideloadManifestPath,
+        sideloadManifestPath !== manifestPath
+      );
+    }
+    const isTest: boolean = process.env.WEB_SIDELOAD_TEST !== undefined;
+    sideloadUrl = await generateSideloadUrl(
+      path.basename(sideloadManifestPath),
+      sideloadManifest,
+      document,
+      isTest,
+      { allowedHosts, manifestServerPort: manifestServer?.port }
+    );
+  } catch (err) {
+    manifestServer?.close();
+    if (sideloadManifestPath !== manifestPath) {
+      fs.rmSync(path.dirname(sideloadManifestPath), { recursive: true, force: true });
+    }
+    throw err;
+  }
+
+  if (manifestServer) {
+    console.log(`The manifest is served at ${manifestServer.url} for Office on the web.`);
+  }
+
+  try {
+    await launchApp(app, sideloadUrl);
+  } catch (err) {
+    manifestServer?.close();
+    throw err;
+  }
+  return manifestServer;
+}
+
+/**
+ * Opens the add-ins dialog of Outlook on the web, and shows the manifest file to add there.
+ * Outlook on the web loads the add-in from the browser, so the dev server does not need to be on localhost.
+ */
+async function launchOutlookWebApp(
+  manifestPath: string,
+  manifest: ManifestInfo,
+  mailboxUrl: string | undefined,
+  options: WebSideloadOptions
+) {
+  const sideloadUrl = generateOutlookWebSideloadUrl(mailboxUrl);
+  // the copy of the manifest is kept, since Outlook on the web reads it when it is added in the dialog
+  const sideloadManifestPath: string = options.tunnelUrl
+    ? await writeTunnelManifest(manifestPath, manifest, options.tunnelUrl)
+    : manifestPath;
+
+  console.log(
+    `To sideload the add-in, choose "My add-ins" > "Custom Addins" > "Add a custom add-in" > "Add from File..." in Outlook on the web, and select the manifest: ${sideloadManifestPath}`
+  );
+  console.log(`Launching ${OfficeApp.Outlook} on the web via ${sideloadUrl}`);
+  await open(sideloadUrl, { wait: false });
+}
+
+/**
+ * Returns the host name of the SourceLocation in the manifest, or undefined if it is not a valid url.
+ */
+function getSourceLocationHost(manifest: ManifestInfo): string | undefined {
+  try {
+    return new URL(manifest.defaultSettings?.sourceLocation ?? "").hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Logs the developer settings stored for the add-in, since Office on the web
+ * doesn't read them and the add-in is debugged using the web browser.
+ * @param addinId The id of the add-in.
+ */
+async function logDevSettings(addinId: string) {
+  const settings: string[] = [];
+  const methods = await getEnabledDebuggingMethods(addinId);
+  if (methods.length > 0) {
+    const method = methods[0] === DebuggingMethod.Direct ? "direct" : "proxy";
+    const openDevTools = await getOpenDevTools(addinId);
+    settings.push(`debugging (${method}${openDevTools ? ", open dev tools" : ""})`);
+  }
+  if (await isLiveReloadEnabled(addinId)) {
+    settings.push("live reload");
+  }
+  if (settings.length > 0) {
+    console.log(`Developer settings for the add-in: ${settings.join(", ")}.`);
+  }
 }
 
 async function launchApp(app: OfficeApp, sideloadFile: string) {
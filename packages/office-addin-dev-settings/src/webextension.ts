@@ -0,0 +1,208 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import AdmZip from "adm-zip";
+import crypto from "crypto";
+import path from "path";
+
+/* global Buffer */
+
+const contentTypesPartName = "[Content_Types].xml";
+const rootRelationshipsPartName = "_rels/.rels";
+const taskPanesContentType = "application/vnd.ms-office.webextensiontaskpanes+xml";
+const taskPanesRelationshipType =
+  "http://schemas.microsoft.com/office/2011/relationships/webextensiontaskpanes";
+const webExtensionContentType = "application/vnd.ms-office.webextension+xml";
+const webExtensionRelationshipType =
+  "http://schemas.microsoft.com/office/2011/relationships/webextension";
+const xmlDeclaration = `\ufeff<?xml version="1.0" encoding="utf-8"?>`;
+
+/**
+ * The add-in which is opened in a task pane of the document.
+ */
+export interface TaskPaneAddIn {
+  /**
+   * The id of the add-in in the manifest.
+   */
+  id: string;
+
+  /**
+   * The version of the add-in in the manifest.
+   */
+  version: string;
+}
+
+function readPart(zip: AdmZip, partName: string): string | undefined {
+  const entry = zip.getEntry(partName);
+  return entry ? zip.readAsText(entry) : undefined;
+}
+
+function writePart(zip: AdmZip, partName: string, text: string) {
+  zip.addFile(partName, Buffer.from(text, "utf8"));
+}
+
+function getRelationshipsPartName(partName: string): string {
+  return path.posix.join(
+    path.posix.dirname(partName),
+    "_rels",
+    `${path.posix.basename(partName)}.rels`
+  );
+}
+
+function newRelationshipId(): string {
+  return `R${crypto.randomBytes(8).toString("hex")}`;
+}
+
+/**
+ * Adds the xml before the closing tag of the root element.
+ */
+function appendToRootElement(xml: string, rootElementName: string, content: string): string {
+  const closingTag = `</${rootElementName}>`;
+  const index = xml.lastIndexOf(closingTag);
+  if (index >= 0) {
+    return `${xml.substring(0, index)}${content}${xml.substring(index)}`;
+  }
+  // the root element is empty, such as <Relationships ... />
+  return xml.replace(
+    new RegExp(`<${rootElementName}([^>]*?)\\s*/>`),
+    `<${rootElementName}$1>${content}${closingTag}`
+  );
+}
+
+function addRelationship(
+  zip: AdmZip,
+  relationshipsPartName: string,
+  type: string,
+  target: string
+): string {
+  const id = newRelationshipId();
+  const relationships =
+    readPart(zip, relationshipsPartName) ??
+    `${xmlDeclaration}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>`;
+  writePart(
+    zip,
+    relationshipsPartName,
+    appendToRootElement(
+      relationships,
+      "Relationships",
+      `<Relationship Type="${type}" Target="${target}" Id="${id}" />`
+    )
+  );
+  return id;
+}
+
+function addContentTypeOverride(zip: AdmZip, partName: string, contentType: string) {
+  const contentTypes = readPart(zip, contentTypesPartName);
+  if (contentTypes === undefined || contentTypes.includes(`PartName="/${partName}"`)) {
+    return;
+  }
+  writePart(
+    zip,
+    contentTypesPartName,
+    appendToRootElement(
+      contentTypes,
+      "Types",
+      `<Override PartName="/${partName}" ContentType="${contentType}" />`
+    )
+  );
+}
+
+/**
+ * Returns the name of the task panes part, and adds it to the document if it does not have one.
+ */
+function ensureTaskPanesPart(zip: AdmZip, folder: string): string {
+  const rootRelationships = readPart(zip, rootRelationshipsPartName) ?? "";
+  const relationship = rootRelationships
+    .match(/<Relationship [^>]*>/g)
+    ?.find((element) => element.includes(`Type="${taskPanesRelationshipType}"`));
+  const target = relationship?.match(/Target="([^"]*)"/)?.[1];
+  if (target) {
+    return target.replace(/^\//, "");
+  }
+
+  const partName = `${folder}/webextensions/taskpanes.xml`;
+  writePart(
+    zip,
+    partName,
+    `${xmlDeclaration}<wetp:taskpanes xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:wetp="http://schemas.microsoft.com/office/webextensions/taskpanes/2010/11"></wetp:taskpanes>`
+  );
+  addRelationship(zip, rootRelationshipsPartName, taskPanesRelationshipType, `/${partName}`);
+  addContentTypeOverride(zip, partName, taskPanesContentType);
+  return partName;
+}
+
+/**
+ * Returns the name of a part in the folder which is not in the document.
+ */
+function getUniquePartName(zip: AdmZip, folder: string, baseName: string): string {
+  let partName = `${folder}/${baseName}.xml`;
+  for (let suffix = 2; zip.getEntry(partName); ++suffix) {
+    partName = `${folder}/${baseName}${suffix}.xml`;
+  }
+  return partName;
+}
+
+/**
+ * Returns the name of the web extension part for the add-in, if the document has one.
+ */
+function findWebExtensionPart(zip: AdmZip, folder: string, addInId: string): string | undefined {
+  const reference = new RegExp(`<we:reference [^>]*id="\\{?${addInId}\\}?"`, "i");
+  return zip
+    .getEntries()
+    .map((entry) => entry.entryName)
+    .filter(
+      (partName) => partName.startsWith(`${folder}/webextensions/`) && partName.endsWith(".xml")
+    )
+    .find((partName) => reference.test(readPart(zip, partName) ?? ""));
+}
+
+/**
+ * Adds the add-ins to the document, so that they are opened in task panes when the document is opened.
+ * Add-ins which are already in the document are updated to the version.
+ * @param zip The Office Open XML document, such as a .xlsx, .docx or .pptx file.
+ * @param folder The folder of the main part of the document: "xl", "word" or "ppt".
+ * @param addIns The add-ins.
+ */
+export function addTaskPaneAddIns(zip: AdmZip, folder: string, addIns: TaskPaneAddIn[]) {
+  for (const addIn of addIns) {
+    const existingPartName = findWebExtensionPart(zip, folder, addIn.id);
+    if (existingPartName) {
+      const webExtension = readPart(zip, existingPartName)!;
+      writePart(
+        zip,
+        existingPartName,
+        webExtension.replace(/(<we:reference [^>]*version=")[^"]*"/, `$1${addIn.version}"`)
+      );
+      continue;
+    }
+
+    const taskPanesPartName = ensureTaskPanesPart(zip, folder);
+    const webExtensionPartName = getUniquePartName(zip, `${folder}/webextensions`, "webextension");
+    writePart(
+      zip,
+      webExtensionPartName,
+      `${xmlDeclaration}<we:webextension xmlns:we="http://schemas.microsoft.com/office/webextensions/webextension/2010/11" id="{${crypto
+        .randomUUID()
+        .toUpperCase()}}"><we:reference id="${addIn.id}" version="${addIn.version}" store="developer" storeType="Registry" /><we:alternateReferences /><we:properties></we:properties><we:bindings /></we:webextension>`
+    );
+    addContentTypeOverride(zip, webExtensionPartName, webExtensionContentType);
+
+    const relationshipId = addRelationship(
+      zip,
+      getRelationshipsPartName(taskPanesPartName),
+      webExtensionRelationshipType,
+      `/${webExtensionPartName}`
+    );
+    const taskPanes = readPart(zip, taskPanesPartName)!;
+    const row = (taskPanes.match(/<wetp:taskpane /g)?.length ?? 0) + 1;
+    writePart(
+      zip,
+      taskPanesPartName,
+      appendToRootElement(
+        taskPanes,
+        "wetp:taskpanes",
+        `<wetp:taskpane dockstate="" visibility="1" width="350" row="${row}"><wetp:webextensionref xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" r:id="${relationshipId}" /></wetp:taskpane>`
+      )
+    );
+  }
+}
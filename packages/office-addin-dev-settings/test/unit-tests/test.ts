@@ -1,8 +1,9 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT license.
 
-import { afterEach, before, beforeEach, describe, it } from "mocha";
+import { after, afterEach, before, beforeEach, describe, it } from "mocha";
 import assert from "assert";
+import AdmZip from "adm-zip";
 import fsextra from "fs-extra";
 import { OfficeApp, ManifestInfo, OfficeAddinManifest, AddInType } from "office-addin-manifest";
 import os from "os";
@@ -11,12 +12,22 @@ import sinon from "sinon";
 import * as appcontainer from "../../src/appcontainer";
 import { AppType } from "../../src/appType";
 import * as devSettings from "../../src/dev-settings";
+import * as devSettingsFile from "../../src/dev-settings-file";
+import * as devSettingsManifestServer from "../../src/manifest-server";
+import * as devSettingsProfile from "../../src/dev-settings-profile";
 import * as devSettingsWindows from "../../src/dev-settings-windows";
 import { registerWithTeams } from "../../src/publish";
-import { deleteKey, getStringValue } from "../../src/registry";
+import {
+  deleteKey,
+  getRegistryProvider,
+  getStringValue,
+  RegistryProvider,
+  setRegistryProvider,
+} from "../../src/registry";
+import { MemoryRegistryProvider } from "../../src/registry-memory";
 import * as devSettingsSideload from "../../src/sideload";
 
-/* global process console */
+/* global Buffer process console */
 
 const addinId = "9982ab78-55fb-472d-b969-b52ed294e173";
 const isWindows = process.platform === "win32";
@@ -228,6 +239,251 @@ describe("can specify to open dev tools", function () {
   }
 });
 
+describe("DevSettings in a file", function () {
+  const manifestsFolder = fspath.resolve("test/files/manifests");
+  let homeDir: string;
+  let sandbox: sinon.SinonSandbox;
+
+  beforeEach(function () {
+    homeDir = fsextra.mkdtempSync(fspath.join(os.tmpdir(), "office-addin-dev-settings-"));
+    sandbox = sinon.createSandbox();
+    sandbox.stub(os, "homedir").returns(homeDir);
+  });
+  afterEach(function () {
+    sandbox.restore();
+    fsextra.removeSync(homeDir);
+  });
+  it("file is in the home directory", async function () {
+    assert.strictEqual(
+      devSettingsFile.getDevSettingsFilePath(),
+      fspath.join(homeDir, ".office-addin-dev-settings", "dev-settings.json")
+    );
+  });
+  it("no dev settings", async function () {
+    assert.strictEqual(await devSettingsFile.isDebuggingEnabled(addinId), false);
+    assert.strictEqual(await devSettingsFile.isLiveReloadEnabled(addinId), false);
+    assert.strictEqual(await devSettingsFile.getOpenDevTools(addinId), false);
+    assert.strictEqual(await devSettingsFile.getWebView(addinId), undefined);
+    assert.strictEqual((await devSettingsFile.getSourceBundleUrl(addinId)).url, "http://localhost:8081/{path}.bundle");
+    assert.deepStrictEqual(await devSettingsFile.getRegisteredAddIns(), []);
+    assert.strictEqual(fsextra.existsSync(devSettingsFile.getDevSettingsFilePath()), false);
+  });
+  it("debugging can be enabled and disabled", async function () {
+    await devSettingsFile.enableDebugging(addinId, true, devSettings.DebuggingMethod.Direct, true);
+    assert.strictEqual(await devSettingsFile.isDebuggingEnabled(addinId), true);
+    assert.deepStrictEqual(await devSettingsFile.getEnabledDebuggingMethods(addinId), [devSettings.DebuggingMethod.Direct]);
+    assert.strictEqual(await devSettingsFile.getOpenDevTools(addinId), true);
+    await devSettingsFile.enableDebugging(addinId, true, devSettings.DebuggingMethod.Proxy);
+    assert.deepStrictEqual(await devSettingsFile.getEnabledDebuggingMethods(addinId), [devSettings.DebuggingMethod.Proxy]);
+    assert.strictEqual(await devSettingsFile.getOpenDevTools(addinId), false);
+    await devSettingsFile.enableDebugging(addinId, false);
+    assert.strictEqual(await devSettingsFile.isDebuggingEnabled(addinId), false);
+  });
+  it("live reload can be enabled and disabled", async function () {
+    await devSettingsFile.enableLiveReload(addinId);
+    assert.strictEqual(await devSettingsFile.isLiveReloadEnabled(addinId), true);
+    await devSettingsFile.enableLiveReload(addinId, false);
+    assert.strictEqual(await devSettingsFile.isLiveReloadEnabled(addinId), false);
+  });
+  it("source bundle url components can be set and cleared", async function () {
+    await devSettingsFile.setSourceBundleUrl(addinId, new devSettings.SourceBundleUrlComponents("HOST", "9999", "PATH", ".EXT"));
+    await devSettingsFile.setSourceBundleUrl(addinId, new devSettings.SourceBundleUrlComponents(undefined, "", undefined, undefined));
+    const components = await devSettingsFile.getSourceBundleUrl(addinId);
+    assert.strictEqual(components.host, "HOST");
+    assert.strictEqual(components.port, undefined);
+    assert.strictEqual(components.url, "http://HOST:8081/PATH.EXT");
+  });
+  it("webView can be set and cleared", async function () {
+    await devSettingsFile.setWebView(addinId, devSettings.WebViewType.EdgeChromium);
+    assert.strictEqual(await devSettingsFile.getWebView(addinId), devSettings.WebViewType.EdgeChromium);
+    await devSettingsFile.setWebView(addinId, devSettings.WebViewType.Default);
+    assert.strictEqual(await devSettingsFile.getWebView(addinId), undefined);
+  });
+  it("dev settings can be cleared", async function () {
+    await devSettingsFile.enableLiveReload(addinId);
+    await devSettingsFile.enableRuntimeLogging("/tmp/OfficeAddins.log.txt");
+    await devSettingsFile.clearDevSettings(addinId);
+    assert.strictEqual(await devSettingsFile.isLiveReloadEnabled(addinId), false);
+    assert.strictEqual(await devSettingsFile.getRuntimeLoggingPath(), "/tmp/OfficeAddins.log.txt");
+    await devSettingsFile.disableRuntimeLogging();
+    assert.strictEqual(await devSettingsFile.getRuntimeLoggingPath(), undefined);
+  });
+  it("add-ins can be registered and unregistered", async function () {
+    const firstManifestPath = fspath.resolve(manifestsFolder, "manifest.xml");
+    const secondManifestPath = fspath.resolve(manifestsFolder, "manifest2.xml");
+    await devSettingsFile.registerAddIn(firstManifestPath);
+    await devSettingsFile.registerAddIn(secondManifestPath);
+    assert.deepStrictEqual(await devSettingsFile.getRegisteredAddIns(), [
+      new devSettings.RegisteredAddin("6dd581d2-98d1-4eaf-9506-e0a24be515f5", firstManifestPath),
+      new devSettings.RegisteredAddin("813cfc85-2a0f-49f6-8024-8d942cb73456", secondManifestPath),
+    ]);
+    await devSettingsFile.unregisterAddIn("6dd581d2-98d1-4eaf-9506-e0a24be515f5", firstManifestPath);
+    assert.strictEqual((await devSettingsFile.getRegisteredAddIns()).length, 1);
+    await devSettingsFile.unregisterAllAddIns();
+    assert.deepStrictEqual(await devSettingsFile.getRegisteredAddIns(), []);
+  });
+  if (!isWindows && !isMac) {
+    it("is the dev settings store", async function () {
+      assert.strictEqual(devSettings.getDevSettingsStore(), devSettingsFile);
+      await devSettings.enableDebugging(addinId);
+      assert.strictEqual(await devSettingsFile.isDebuggingEnabled(addinId), true);
+    });
+  }
+  if (isMac) {
+    it("is not supported on Mac", function () {
+      assert.throws(() => devSettings.getDevSettingsStore(), { message: "Platform not supported: darwin." });
+    });
+  }
+});
+
+describe("DevSettings in a registry in memory", function () {
+  const manifestPath = fspath.resolve("test/files/manifests/manifest.xml");
+  const manifestId = "6dd581d2-98d1-4eaf-9506-e0a24be515f5";
+  const developerKeyPath = "HKCU\\SOFTWARE\\Microsoft\\Office\\16.0\\Wef\\Developer";
+  const addinKeyPath = `${developerKeyPath}\\${manifestId}`;
+  let previousProvider: RegistryProvider;
+  let provider: MemoryRegistryProvider;
+
+  before(function () {
+    previousProvider = getRegistryProvider();
+    provider = new MemoryRegistryProvider();
+    setRegistryProvider(provider);
+  });
+  after(function () {
+    setRegistryProvider(previousProvider);
+  });
+  it("add-in can be registered", async function () {
+    await devSettingsWindows.registerAddIn(manifestPath);
+    assert.deepStrictEqual(provider.getTree(), {
+      [developerKeyPath]: { [manifestId]: manifestPath },
+    });
+    assert.deepStrictEqual(await devSettingsWindows.getRegisteredAddIns(), [
+      new devSettings.RegisteredAddin(manifestId, manifestPath),
+    ]);
+  });
+  it("debugging can be enabled", async function () {
+    await devSettingsWindows.enableDebugging(manifestId, true, devSettings.DebuggingMethod.Direct, true);
+    assert.deepStrictEqual(provider.getTree()[addinKeyPath], {
+      UseDirectDebugger: "1",
+      UseWebDebugger: "0",
+      OpenDevTools: "1",
+    });
+    assert.strictEqual(await devSettingsWindows.isDebuggingEnabled(manifestId), true);
+    assert.deepStrictEqual(await devSettingsWindows.getEnabledDebuggingMethods(manifestId), [
+      devSettings.DebuggingMethod.Direct,
+    ]);
+  });
+  it("webView and live reload can be set", async function () {
+    await devSettingsWindows.setWebView(manifestId, devSettings.WebViewType.EdgeChromium);
+    await devSettingsWindows.enableLiveReload(manifestId);
+    assert.deepStrictEqual(provider.getTree()[addinKeyPath], {
+      UseDirectDebugger: "1",
+      UseWebDebugger: "0",
+      OpenDevTools: "1",
+      WebViewSelection: "Edge Chromium",
+      UseLiveReload: "1",
+    });
+    assert.strictEqual(await devSettingsWindows.getWebView(manifestId), devSettings.WebViewType.EdgeChromium);
+    assert.strictEqual(await devSettingsWindows.isLiveReloadEnabled(manifestId), true);
+  });
+  it("source bundle url can be set", async function () {
+    await devSettingsWindows.setSourceBundleUrl(
+      manifestId,
+      new devSettings.SourceBundleUrlComponents("HOST", "9999", undefined, "")
+    );
+    assert.strictEqual(provider.getTree()[addinKeyPath].SourceBundleHost, "HOST");
+    assert.strictEqual((await devSettingsWindows.getSourceBundleUrl(manifestId)).url, "http://HOST:9999/{path}.bundle");
+  });
+  it("dev settings can be cleared", async function () {
+    await devSettingsWindows.clearDevSettings(manifestId);
+    assert.deepStrictEqual(provider.getTree(), {
+      [developerKeyPath]: { [manifestId]: manifestPath },
+    });
+    assert.strictEqual(await devSettingsWindows.isDebuggingEnabled(manifestId), false);
+  });
+  it("add-in can be unregistered", async function () {
+    await devSettingsWindows.unregisterAddIn(manifestId, manifestPath);
+    assert.deepStrictEqual(provider.getTree(), {});
+    assert.deepStrictEqual(await devSettingsWindows.getRegisteredAddIns(), []);
+  });
+  it("key paths and value names are not case sensitive", async function () {
+    const key = devSettingsWindows.getDeveloperSettingsRegistryKey(manifestId);
+    await provider.addValue(key, "UseLiveReload", "REG_DWORD", "1");
+    assert.strictEqual(await devSettingsWindows.isLiveReloadEnabled(manifestId.toUpperCase()), true);
+    await deleteKey(devSettingsWindows.getDeveloperSettingsRegistryKey(manifestId.toUpperCase()));
+    assert.strictEqual(await provider.doesKeyExist(key), false);
+  });
+});
+
+describe("DevSettings profiles", function () {
+  // the dev settings are stored in the registry on Windows, and in a file on other platforms
+  let homeDir: string;
+  let sandbox: sinon.SinonSandbox;
+  let previousProvider: RegistryProvider;
+
+  beforeEach(function () {
+    homeDir = fsextra.mkdtempSync(fspath.join(os.tmpdir(), "office-addin-dev-settings-"));
+    sandbox = sinon.createSandbox();
+    sandbox.stub(os, "homedir").returns(homeDir);
+    previousProvider = getRegistryProvider();
+    setRegistryProvider(new MemoryRegistryProvider());
+  });
+  afterEach(function () {
+    setRegistryProvider(previousProvider);
+    sandbox.restore();
+    fsextra.removeSync(homeDir);
+  });
+  it("export when no dev settings", async function () {
+    assert.deepStrictEqual(await devSettingsProfile.exportDevSettings(addinId), {
+      debugging: { enabled: false },
+      liveReload: false,
+      webView: "Default",
+      sourceBundleUrl: { host: undefined, port: undefined, path: undefined, extension: undefined },
+    });
+  });
+  it("export the imported profile", async function () {
+    const logPath = fspath.join(homeDir, "OfficeAddins.log.txt");
+    const profile: devSettingsProfile.DevSettingsProfile = {
+      debugging: { enabled: true, method: "proxy", openDevTools: true },
+      liveReload: true,
+      webView: "Edge Chromium",
+      sourceBundleUrl: { host: "HOST", port: "9999", path: "PATH", extension: ".EXT" },
+      runtimeLogPath: logPath,
+    };
+    await devSettingsProfile.importDevSettings(addinId, profile);
+    assert.deepStrictEqual(await devSettingsProfile.exportDevSettings(addinId), profile);
+  });
+  it("import only changes the settings in the profile", async function () {
+    await devSettings.enableLiveReload(addinId);
+    await devSettings.setSourceBundleUrl(addinId, new devSettings.SourceBundleUrlComponents("HOST", "9999"));
+    await devSettingsProfile.importDevSettings(addinId, {
+      debugging: { enabled: true },
+      sourceBundleUrl: { port: "8888" },
+    });
+    assert.deepStrictEqual(await devSettings.getEnabledDebuggingMethods(addinId), [devSettings.DebuggingMethod.Direct]);
+    assert.strictEqual(await devSettings.isLiveReloadEnabled(addinId), true);
+    assert.strictEqual((await devSettings.getSourceBundleUrl(addinId)).url, "http://localhost:8888/{path}.bundle");
+  });
+  it("invalid profile is not imported", async function () {
+    const profile: any = {
+      debugging: { enabled: "yes", method: "web" },
+      liveReload: true,
+      webView: "Chrome",
+      sourceBundleUrl: { port: 8081 },
+      theme: "dark",
+    };
+    assert.deepStrictEqual(devSettingsProfile.validateDevSettingsProfile(profile), [
+      `"debugging.enabled" should be true or false.`,
+      `"debugging.method" should be "direct" or "proxy".`,
+      `"webView" should be one of: "Default", "IE", "Edge", "Edge Chromium".`,
+      `"sourceBundleUrl.port" should be a string.`,
+      `"theme" is not a known setting.`,
+    ]);
+    await assert.rejects(devSettingsProfile.importDevSettings(addinId, profile), /The profile is not valid:/);
+    assert.strictEqual(await devSettings.isLiveReloadEnabled(addinId), false);
+  });
+});
+
 describe("Appcontainer", async function () {
   if (isWindows) {
     describe("getAppcontainerName()", function () {
@@ -582,6 +838,20 @@ describe("RuntimeLogging", async function () {
 
 describe("Sideload to Desktop", function () {
   const manifestsFolder = fspath.resolve("test/files/manifests");
+  if (!isWindows) {
+    // the add-in is registered in the dev settings file in the home directory
+    let homeDir: string;
+    let sandbox: sinon.SinonSandbox;
+    before(function () {
+      homeDir = fsextra.mkdtempSync(fspath.join(os.tmpdir(), "office-addin-dev-settings-"));
+      sandbox = sinon.createSandbox();
+      sandbox.stub(os, "homedir").returns(homeDir);
+    });
+    after(function () {
+      sandbox.restore();
+      fsextra.removeSync(homeDir);
+    });
+  }
   const manifestPath = fspath.resolve(manifestsFolder, "manifest.xml");
   it("Verify pathToWrite not undefined", async function () {
     const manifest = await OfficeAddinManifest.readManifestFile(manifestPath);
@@ -611,6 +881,138 @@ describe("Sideload to Desktop", function () {
     assert.ok(error instanceof Error, "should throw an error");
     assert.strictEqual(error.message, "Sideload to the Project app is not supported.");
   });
+  it("Sideload several add-ins when one does not support the app (expect error)'", async function () {
+    const outlookManifestPath = fspath.resolve(manifestsFolder, "manifest.outlook.xml");
+    await assert.rejects(
+      devSettingsSideload.sideloadAddIn(
+        [manifestPath, outlookManifestPath],
+        OfficeApp.Excel,
+        true /* canPrompt */,
+        AppType.Desktop
+      ),
+      { message: `The Office Add-in manifest ${outlookManifestPath} does not support Excel.` }
+    );
+  });
+});
+
+describe("Sideload document", function () {
+  const manifestsFolder = fspath.resolve("test/files/manifests");
+  const firstManifestId = "6dd581d2-98d1-4eaf-9506-e0a24be515f5";
+  const secondManifestId = "813cfc85-2a0f-49f6-8024-8d942cb73456";
+  let documentDir: string;
+
+  function createWordDocument(): string {
+    const documentPath = fspath.join(documentDir, "Document.docx");
+    const zip = new AdmZip();
+    zip.addFile(
+      "[Content_Types].xml",
+      Buffer.from(
+        `<?xml version="1.0" encoding="UTF-8"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>`
+      )
+    );
+    zip.addFile(
+      "_rels/.rels",
+      Buffer.from(
+        `<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`
+      )
+    );
+    zip.addFile(
+      "word/document.xml",
+      Buffer.from(
+        `<?xml version="1.0" encoding="UTF-8"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body><w:p/></w:body></w:document>`
+      )
+    );
+    zip.writeZip(documentPath);
+    return documentPath;
+  }
+
+  function readPart(documentPath: string, partName: string): string {
+    const zip = new AdmZip(documentPath);
+    const entry = zip.getEntry(partName);
+    assert.ok(entry, `${partName} should be in the document`);
+    return zip.readAsText(entry!);
+  }
+
+  before(function () {
+    documentDir = fsextra.mkdtempSync(fspath.join(os.tmpdir(), "office-addin-dev-settings-"));
+  });
+  after(function () {
+    fsextra.removeSync(documentDir);
+  });
+  it("add-in is inserted into the document", async function () {
+    const manifest = await OfficeAddinManifest.readManifestFile(fspath.resolve(manifestsFolder, "manifest.xml"));
+    const documentPath = createWordDocument();
+    const pathToWrite = await devSettingsSideload.generateSideloadFile(OfficeApp.Word, manifest, documentPath);
+    assert.notStrictEqual(pathToWrite, documentPath);
+    assert.strictEqual(fspath.extname(pathToWrite), ".docx");
+
+    assert.ok(readPart(pathToWrite, "_rels/.rels").includes(`Target="/word/webextensions/taskpanes.xml"`));
+    const contentTypes = readPart(pathToWrite, "[Content_Types].xml");
+    assert.ok(contentTypes.includes(`<Override PartName="/word/webextensions/taskpanes.xml"`));
+    assert.ok(contentTypes.includes(`<Override PartName="/word/webextensions/webextension.xml"`));
+    assert.ok(
+      readPart(pathToWrite, "word/webextensions/webextension.xml").includes(
+        `<we:reference id="${firstManifestId}" version="1.2.3.4" store="developer" storeType="Registry" />`
+      )
+    );
+    const relationshipId = readPart(pathToWrite, "word/webextensions/_rels/taskpanes.xml.rels").match(
+      /Target="\/word\/webextensions\/webextension.xml" Id="(\w+)"/
+    )?.[1];
+    assert.ok(relationshipId);
+    assert.ok(readPart(pathToWrite, "word/webextensions/taskpanes.xml").includes(`r:id="${relationshipId}"`));
+    assert.ok(readPart(pathToWrite, "word/document.xml").includes("<w:body>"));
+  });
+  it("add-in which is already in the document is not inserted again", async function () {
+    const manifest = await OfficeAddinManifest.readManifestFile(fspath.resolve(manifestsFolder, "manifest.xml"));
+    const templatePath = devSettingsSideload.getTemplatePath(OfficeApp.Excel, AddInType.TaskPane)!;
+    const sideloadPath = await devSettingsSideload.generateSideloadFile(OfficeApp.Excel, manifest);
+    const documentPath = fspath.join(documentDir, "Workbook.xlsx");
+    fsextra.moveSync(sideloadPath, documentPath);
+    const pathToWrite = await devSettingsSideload.generateSideloadFile(OfficeApp.Excel, manifest, documentPath);
+    const taskPanes = readPart(pathToWrite, "xl/webextensions/taskpanes.xml");
+    assert.strictEqual(taskPanes.match(/<wetp:taskpane /g)?.length, 1);
+    assert.strictEqual(
+      new AdmZip(pathToWrite).getEntries().length,
+      new AdmZip(templatePath).getEntries().length
+    );
+  });
+  it("multiple add-ins in one document", async function () {
+    const manifests = [
+      await OfficeAddinManifest.readManifestFile(fspath.resolve(manifestsFolder, "manifest.xml")),
+      await OfficeAddinManifest.readManifestFile(fspath.resolve(manifestsFolder, "manifest2.xml")),
+    ];
+    const pathToWrite = await devSettingsSideload.generateSideloadFileForAddIns(OfficeApp.PowerPoint, manifests);
+    assert.ok(readPart(pathToWrite, "ppt/webextensions/webextension.xml").includes(`id="${firstManifestId}"`));
+    assert.ok(readPart(pathToWrite, "ppt/webextensions/webextension2.xml").includes(`id="${secondManifestId}"`));
+    const taskPanes = readPart(pathToWrite, "ppt/webextensions/taskpanes.xml");
+    assert.strictEqual(taskPanes.match(/<wetp:taskpane /g)?.length, 2);
+    assert.ok(taskPanes.includes(`row="2"`));
+  });
+  it("document for another Office app (expect error)", async function () {
+    const manifest = await OfficeAddinManifest.readManifestFile(fspath.resolve(manifestsFolder, "manifest.xml"));
+    const documentPath = createWordDocument();
+    await assert.rejects(
+      devSettingsSideload.generateSideloadFile(OfficeApp.Excel, manifest, documentPath),
+      /The document is not a Excel document/
+    );
+  });
+  it("Word content add-in (expect error)", async function () {
+    const manifest: ManifestInfo = { id: firstManifestId, officeAppType: "ContentApp", version: "1.0.0.0" };
+    await assert.rejects(
+      devSettingsSideload.generateSideloadFile(OfficeApp.Word, manifest),
+      /Word does not support content add-ins\./
+    );
+  });
+  it("multiple add-ins which are not task pane add-ins (expect error)", async function () {
+    const manifests: ManifestInfo[] = [
+      { id: firstManifestId, officeAppType: "TaskPaneApp", version: "1.0.0.0" },
+      { id: secondManifestId, officeAppType: "ContentApp", version: "1.0.0.0" },
+    ];
+    await assert.rejects(
+      devSettingsSideload.generateSideloadFileForAddIns(OfficeApp.Excel, manifests),
+      /Only task pane add-ins with XML manifests can be loaded together in one document\./
+    );
+  });
 });
 
 describe("Sideload to web", function () {
@@ -669,21 +1071,145 @@ describe("Sideload to web", function () {
     assert.ok(error instanceof Error, "should throw an error");
     assert.strictEqual(error.message, `For sideload to web, you need to specify a document url.`);
   });
-  it("Sideload unsupported Outlook host (expect error)'", async function () {
+  it("Sideload several add-ins to web (expect error)'", async function () {
+    await assert.rejects(
+      devSettingsSideload.sideloadAddIn(
+        [manifestPath, fspath.resolve(manifestsFolder, "manifest2.xml")],
+        OfficeApp.Excel,
+        true /* canPrompt */,
+        AppType.Web,
+        docurl
+      ),
+      { message: "Only one add-in at a time can be sideloaded to web." }
+    );
+  });
+  it("Get the sideload url for Outlook on the web", function () {
+    const dialogPath = "/mail/jsmvvmdeeplink/?path=/options/manageapps&bO=4";
+    assert.strictEqual(devSettingsSideload.generateOutlookWebSideloadUrl(), `https://outlook.office.com${dialogPath}`);
+    assert.strictEqual(
+      devSettingsSideload.generateOutlookWebSideloadUrl("https://outlook.office365.com/mail/inbox"),
+      `https://outlook.office365.com${dialogPath}`
+    );
+    assert.throws(() => devSettingsSideload.generateOutlookWebSideloadUrl("http://outlook.contoso.com/mail/"), {
+      message: "The Outlook on the web url does not use the HTTPS protocol.",
+    });
+  });
+  it("Sideload with tunnel url which is not https (expect error)'", async function () {
     let error;
-    let manifestPath = fspath.resolve(manifestsFolder, "manifest.outlook.xml");
     try {
       await devSettingsSideload.sideloadAddIn(
         manifestPath,
-        OfficeApp.Outlook,
+        OfficeApp.Excel,
         true /* canPrompt */,
         AppType.Web,
-        docurl
+        docurl,
+        undefined /* registration */,
+        { tunnelUrl: "http://contoso.example.com" }
       );
     } catch (err: any) {
       error = err;
     }
     assert.ok(error instanceof Error, "should throw an error");
-    assert.strictEqual(error.message, `Sideload to the Outlook web app is not supported.`);
+    assert.strictEqual(error.message, "The tunnel url does not use the HTTPS protocol.");
+  });
+  it("Get sideload url with the default HTTPS port", async function () {
+    const manifest: ManifestInfo = {
+      id: "6dd581d2-98d1-4eaf-9506-e0a24be515f5",
+      defaultSettings: { sourceLocation: "https://localhost/taskpane.html" },
+    };
+    const generatedUrl: string = await devSettingsSideload.generateSideloadUrl("manifest.xml", manifest, docurl);
+    assert.strictEqual(
+      generatedUrl,
+      `${docurl}&wdaddindevserverport=443&wdaddinmanifestfile=manifest.xml&wdaddinmanifestguid=6dd581d2-98d1-4eaf-9506-e0a24be515f5`
+    );
+  });
+  it("Get sideload url for allowed dev server host", async function () {
+    const manifest: ManifestInfo = await OfficeAddinManifest.readManifestFile(
+      fspath.resolve(manifestsFolder, "manifest.invalidsourcelocationforweb.xml")
+    );
+    const generatedUrl: string = await devSettingsSideload.generateSideloadUrl(
+      "manifest.invalidsourcelocationforweb.xml",
+      manifest,
+      docurl,
+      false /* isTest */,
+      { allowedHosts: ["addin.dev.internal", "contoso"], manifestServerPort: 50123 }
+    );
+    // the manifest is loaded from the manifest server on localhost, not from the dev server
+    assert.strictEqual(
+      generatedUrl,
+      `${docurl}&wdaddindevserverport=50123&wdaddinmanifestfile=manifest.invalidsourcelocationforweb.xml&wdaddinmanifestguid=05c2e1c9-3e1d-406e-9a91-e9ac64854143`
+    );
+  });
+  it("Get sideload url for allowed dev server host without manifest server (expect error)", async function () {
+    const manifest: ManifestInfo = await OfficeAddinManifest.readManifestFile(
+      fspath.resolve(manifestsFolder, "manifest.invalidsourcelocationforweb.xml")
+    );
+    await assert.rejects(
+      devSettingsSideload.generateSideloadUrl("manifest.xml", manifest, docurl, false, { allowedHosts: ["contoso"] }),
+      {
+        message:
+          "Office on the web loads the manifest from localhost, so the manifest for the dev server at contoso needs to be served from localhost.",
+      }
+    );
+  });
+  it("Get sideload url for dev server host which is not allowed (expect error)", async function () {
+    const manifest: ManifestInfo = await OfficeAddinManifest.readManifestFile(
+      fspath.resolve(manifestsFolder, "manifest.invalidsourcelocationforweb.xml")
+    );
+    await assert.rejects(
+      devSettingsSideload.generateSideloadUrl("manifest.xml", manifest, docurl, false, {
+        allowedHosts: ["addin.dev.internal"],
+      }),
+      {
+        message:
+          "The hostname specified by the SourceLocation in the manifest is not supported for sideload. The hostname should be 'localhost', 127.0.0.1, or one of the allowed hosts: addin.dev.internal.",
+      }
+    );
+  });
+  it("Allowed dev server hosts", function () {
+    assert.strictEqual(devSettingsSideload.isAllowedDevServerHost("localhost"), true);
+    assert.strictEqual(devSettingsSideload.isAllowedDevServerHost("127.0.0.1"), true);
+    assert.strictEqual(devSettingsSideload.isAllowedDevServerHost("localhost.contoso.com"), false);
+    assert.strictEqual(devSettingsSideload.isAllowedDevServerHost("Addin.Dev.Internal", ["addin.dev.internal"]), true);
+    assert.strictEqual(devSettingsSideload.isAllowedDevServerHost("box1.dev.internal", ["*.dev.internal"]), true);
+    assert.strictEqual(devSettingsSideload.isAllowedDevServerHost("dev.internal", ["*.dev.internal"]), false);
+    assert.strictEqual(devSettingsSideload.isAllowedDevServerHost("box1.devinternal", ["*.dev.internal"]), false);
+  });
+  it("Write manifest which uses the tunnel url", async function () {
+    const tempDir = fsextra.mkdtempSync(fspath.join(os.tmpdir(), "office-addin-dev-settings-"));
+    try {
+      const tempManifestPath = fspath.join(tempDir, "manifest.xml");
+      fsextra.copySync(manifestPath, tempManifestPath);
+      const manifest: ManifestInfo = await OfficeAddinManifest.readManifestFile(tempManifestPath);
+      const tunnelManifestPath = await devSettingsSideload.writeTunnelManifest(
+        tempManifestPath,
+        manifest,
+        "https://contoso.example.com/"
+      );
+      assert.strictEqual(fspath.basename(tunnelManifestPath), "manifest.xml");
+      assert.notStrictEqual(fspath.dirname(tunnelManifestPath), tempDir);
+      const tunnelManifest = fsextra.readFileSync(tunnelManifestPath, "utf8");
+      fsextra.removeSync(fspath.dirname(tunnelManifestPath));
+      assert.ok(tunnelManifest.includes(`<SourceLocation DefaultValue="https://contoso.example.com/functions.html"/>`));
+      assert.ok(!tunnelManifest.includes("https://localhost:8080"));
+    } finally {
+      fsextra.removeSync(tempDir);
+    }
+  });
+  it("Manifest server without the certificate for localhost (expect error)", async function () {
+    const sandbox = sinon.createSandbox();
+    const homeDir = fsextra.mkdtempSync(fspath.join(os.tmpdir(), "office-addin-dev-settings-"));
+    sandbox.stub(os, "homedir").returns(homeDir);
+    try {
+      await assert.rejects(devSettingsManifestServer.startManifestServer(manifestPath), {
+        message: `The certificate for localhost was not found in ${fspath.join(
+          homeDir,
+          ".office-addin-dev-certs"
+        )}. Run "npx office-addin-dev-certs install" to install it.`,
+      });
+    } finally {
+      sandbox.restore();
+      fsextra.removeSync(homeDir);
+    }
   });
 });
@@ -25,8 +25,32 @@ commander
 commander
   .command("validate <manifest-path>")
   .option("-p, --production", "Verify the manifest for production environment")
+  .option(
+    "-o, --offline",
+    "Validate the xml manifest using the bundled schemas instead of the validation service"
+  )
+  .option(
+    "-r, --rules [config-path]",
+    "Also check the manifest using the manifest rules. Optionally specify a rules config file."
+  )
+  .option("-f, --format <format>", "Output format: text, json, sarif or junit. Default: text.")
+  .option(
+    "--fail-on <severity>",
+    "The issues which cause a non-zero exit code: error, warning or none. Default: error."
+  )
   .action(commands.validate);
 
+commander
+  .command("diff <first-manifest-path> <second-manifest-path>")
+  .option("-f, --format <format>", "Output format: text or json. Default: text.")
+  .action(commands.diff);
+
+commander
+  .command("transform <manifest-path>")
+  .option("-p, --profile <profile-path>", "The environment profile file.")
+  .option("-o, --output <output-path>", "Where to save the manifest for the environment.")
+  .action(commands.transform);
+
 commander
   .command("export")
   .option(
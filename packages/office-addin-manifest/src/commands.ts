@@ -10,10 +10,29 @@ import {
   ManifestValidation,
   ManifestValidationIssue,
   ManifestValidationProduct,
+  ManifestValidationReport,
   validateManifest,
 } from "./validate";
+import { runManifestRules } from "./rules/ruleEngine";
+import {
+  formatValidation,
+  getValidationForError,
+  isValidationFailure,
+  parseValidationFailureLevel,
+  parseValidationReportFormat,
+  ValidationFailureLevel,
+  ValidationReportFormat,
+} from "./reportFormats";
 import { usageDataObject } from "./defaults";
+import {
+  diffManifests,
+  formatManifestDifferencesAsText,
+  ManifestDiffFormat,
+  ManifestDifference,
+  parseManifestDiffFormat,
+} from "./diff";
 import { exportMetadataPackage } from "./export";
+import { transformManifest } from "./transform";
 
 /* global console process */
 
@@ -138,6 +157,21 @@ function logManifestValidationSupportedProducts(products: ManifestValidationProd
   }
 }
 
+function addManifestRulesReport(
+  validation: ManifestValidation,
+  rulesReport: ManifestValidationReport
+) {
+  const report: ManifestValidationReport = validation.report ?? new ManifestValidationReport();
+  report.errors = [...(report.errors ?? []), ...(rulesReport.errors ?? [])];
+  report.warnings = [...(report.warnings ?? []), ...(rulesReport.warnings ?? [])];
+  report.notes = [...(report.notes ?? []), ...(rulesReport.notes ?? [])];
+  validation.report = report;
+
+  if (rulesReport.errors && rulesReport.errors.length > 0) {
+    validation.isValid = false;
+  }
+}
+
 export async function modify(manifestPath: string, options: OptionValues) {
   try {
     // if the --guid command option is provided without a value, use "" to specify to change to a random guid value.
@@ -154,10 +188,34 @@ export async function modify(manifestPath: string, options: OptionValues) {
 }
 
 export async function validate(manifestPath: string, options: OptionValues) {
+  let format: ValidationReportFormat = ValidationReportFormat.Text;
   try {
     const verifyProduction: boolean = options.production;
-    const validation: ManifestValidation = await validateManifest(manifestPath, verifyProduction);
-    if (validation.status && validation.status != 200) {
+    const offline: boolean = options.offline;
+    if (options.format) {
+      format = parseValidationReportFormat(options.format);
+    }
+    const failOn: ValidationFailureLevel = options.failOn
+      ? parseValidationFailureLevel(options.failOn)
+      : ValidationFailureLevel.Error;
+    const validation: ManifestValidation = await validateManifest(
+      manifestPath,
+      verifyProduction,
+      offline
+    );
+
+    if (options.rules) {
+      const rulesReport: ManifestValidationReport = await runManifestRules(manifestPath, {
+        configPath: getCommandOptionString(options.rules),
+        offline,
+        production: verifyProduction,
+      });
+      addManifestRulesReport(validation, rulesReport);
+    }
+
+    if (format !== ValidationReportFormat.Text) {
+      console.log(formatValidation(validation, manifestPath, format, failOn));
+    } else if (validation.status && validation.status != 200) {
       console.log(
         `Unable to validate the manifest.\n${validation.status}\n${validation.statusText}`
       );
@@ -177,11 +235,76 @@ export async function validate(manifestPath: string, options: OptionValues) {
       }
     }
 
-    process.exitCode = validation.isValid ? 0 : 1;
+    process.exitCode = isValidationFailure(validation, failOn) ? 1 : 0;
     usageDataObject.reportSuccess("validate");
   } catch (err: any) {
     usageDataObject.reportException("validate", err);
+    if (format !== ValidationReportFormat.Text) {
+      // write the failure in the format, for the tools which read it
+      console.log(formatValidation(getValidationForError(err), manifestPath, format));
+    } else {
+      logErrorMessage(err);
+    }
+    process.exitCode = 1;
+  }
+}
+
+export async function transform(manifestPath: string, options: OptionValues) {
+  try {
+    const profilePath: string = options.profile;
+    const outputPath: string = options.output;
+
+    if (!profilePath) {
+      throw new Error("You need to specify the environment profile file.");
+    }
+    if (!outputPath) {
+      throw new Error("You need to specify the output manifest file.");
+    }
+
+    const manifest = await transformManifest(manifestPath, profilePath, outputPath);
+    console.log(`Manifest for the environment saved to ${outputPath}`);
+    console.log(`  Id: ${manifest.id || ""}`);
+    console.log(`  Name: ${manifest.displayName || ""}`);
+    console.log(`  Version: ${manifest.version || ""}`);
+    usageDataObject.reportSuccess("transform");
+  } catch (err: any) {
+    usageDataObject.reportException("transform", err);
+    logErrorMessage(err);
+    process.exitCode = 1;
+  }
+}
+
+export async function diff(
+  firstManifestPath: string,
+  secondManifestPath: string,
+  options: OptionValues
+) {
+  try {
+    const format: ManifestDiffFormat = options.format
+      ? parseManifestDiffFormat(options.format)
+      : ManifestDiffFormat.Text;
+    const differences: ManifestDifference[] = await diffManifests(
+      firstManifestPath,
+      secondManifestPath
+    );
+
+    if (format === ManifestDiffFormat.JSON) {
+      console.log(
+        JSON.stringify(
+          { first: firstManifestPath, second: secondManifestPath, differences },
+          null,
+          2
+        )
+      );
+    } else {
+      console.log(`Comparing ${firstManifestPath} with ${secondManifestPath}\n`);
+      console.log(formatManifestDifferencesAsText(differences));
+    }
+    usageDataObject.reportSuccess("diff");
+  } catch (err: any) {
+    usageDataObject.reportException("diff", err);
     logErrorMessage(err);
+    process.exitCode = 1;
   }
 }
 
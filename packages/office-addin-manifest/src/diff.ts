@@ -0,0 +1,346 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { ExpectedError } from "office-addin-usage-data";
+import { ManifestDocument } from "./manifestDocument/manifestDocument";
+import { ManifestDocumentXml } from "./manifestDocument/manifestDocumentXml";
+import { getManifestHandler } from "./manifestOperations";
+
+export enum ManifestDifferenceKind {
+  Added = "added",
+  Changed = "changed",
+  Removed = "removed",
+}
+
+/**
+ * The output formats for the differences between manifests.
+ */
+export enum ManifestDiffFormat {
+  // the string values should be lowercase
+  JSON = "json",
+  Text = "text",
+}
+
+/**
+ * A difference between two manifests.
+ */
+export interface ManifestDifference {
+  kind: ManifestDifferenceKind;
+  /** What is different, such as "host", "permission" or "command". */
+  category: string;
+  /** The item which is different, such as the host name or command id. */
+  name: string;
+  /** The value in the first manifest, for a change. */
+  before?: string;
+  /** The value in the second manifest, for a change. */
+  after?: string;
+}
+
+interface DiffItem {
+  /** Identifies the same item in both manifests, even when they have different formats. */
+  key: string;
+  name: string;
+  /** Values which are reported as changed when they are different. */
+  values: { [name: string]: string | undefined };
+}
+
+/**
+ * XML host names which are different from the JSON requirement scopes.
+ */
+const hostScopes: { [host: string]: string } = {
+  mailbox: "mail",
+};
+
+/**
+ * XML permissions, by add-in type, as JSON resource-specific permissions.
+ */
+const permissionNames: { [permission: string]: string } = {
+  "mail:restricted": "mailboxitem.restricted.user",
+  "mail:readitem": "mailboxitem.read.user",
+  "mail:readwriteitem": "mailboxitem.readwrite.user",
+  "mail:readwritemailbox": "mailbox.readwrite.user",
+  "document:restricted": "document.restricted.user",
+  "document:readdocument": "document.read.user",
+  "document:readalldocument": "document.readall.user",
+  "document:writedocument": "document.write.user",
+  "document:readwritedocument": "document.readwrite.user",
+};
+
+/**
+ * XML extension point types, as JSON ribbon contexts.
+ */
+const extensionPointContexts: { [type: string]: string } = {
+  appointmentattendeecommandsurface: "meetingDetailsAttendee",
+  appointmentorganizercommandsurface: "meetingDetailsOrganizer",
+  messagecomposecommandsurface: "mailCompose",
+  messagereadcommandsurface: "mailRead",
+  primarycommandsurface: "default",
+};
+
+/**
+ * XML action types, as JSON action types.
+ */
+const actionTypes: { [type: string]: string } = {
+  executefunction: "executefunction",
+  showtaskpane: "openpage",
+};
+
+function normalizeVersion(version: string | undefined): string | undefined {
+  if (version && /^\d+(\.\d+)*$/.test(version)) {
+    const parts = version.split(".").map((part) => parseInt(part, 10));
+    while (parts.length < 4) {
+      parts.push(0);
+    }
+    return parts.join(".");
+  }
+  return version;
+}
+
+function normalizeUrl(url: string): string {
+  return url
+    .replace(/^https?:\/\//i, "")
+    .replace(/\/+$/, "")
+    .toLowerCase();
+}
+
+function isMailManifest(manifestDocument: ManifestDocument): boolean {
+  return manifestDocument instanceof ManifestDocumentXml
+    ? manifestDocument.officeAppType === "MailApp"
+    : manifestDocument.hosts.some((host) => host.toLowerCase() === "mail");
+}
+
+function getHosts(manifestDocument: ManifestDocument): DiffItem[] {
+  return manifestDocument.hosts.map((host) => ({
+    key: hostScopes[host.toLowerCase()] ?? host.toLowerCase(),
+    name: host,
+    values: {},
+  }));
+}
+
+function getPermissions(manifestDocument: ManifestDocument): DiffItem[] {
+  const addInType: string = isMailManifest(manifestDocument) ? "mail" : "document";
+  return manifestDocument.permissions.map((permission) => ({
+    key: permissionNames[`${addInType}:${permission.toLowerCase()}`] ?? permission.toLowerCase(),
+    name: permission,
+    values: {},
+  }));
+}
+
+function getRequirementSets(manifestDocument: ManifestDocument): DiffItem[] {
+  return manifestDocument.requirementSets.map((requirementSet) => ({
+    key: requirementSet.name.toLowerCase(),
+    name: requirementSet.name,
+    values: { "minimum version": requirementSet.minVersion },
+  }));
+}
+
+function getExtensionPoints(manifestDocument: ManifestDocument): DiffItem[] {
+  const items: DiffItem[] = [];
+  manifestDocument.getExtensionPoints().forEach((extensionPoint) => {
+    const type = extensionPoint.type;
+    if (extensionPoint.contexts) {
+      extensionPoint.contexts.forEach((context) => {
+        items.push({
+          key: `${type}:${context}`.toLowerCase(),
+          name: `${type} (${context})`,
+          values: {},
+        });
+      });
+    } else if (type === "ribbon" || type === "contextMenu") {
+      items.push({ key: `${type}:default`.toLowerCase(), name: type, values: {} });
+    } else {
+      const context = extensionPointContexts[type.toLowerCase()];
+      let key: string = type;
+      if (context) {
+        key = `ribbon:${context}`;
+      } else if (type === "ContextMenu") {
+        key = "contextMenu:default";
+      }
+      items.push({ key: key.toLowerCase(), name: type, values: {} });
+    }
+  });
+  return items;
+}
+
+function getCommands(manifestDocument: ManifestDocument): DiffItem[] {
+  return manifestDocument.getCommands().map((command) => {
+    const actionType = command.action?.type.toLowerCase();
+    return {
+      key: command.id,
+      name: command.id,
+      values: {
+        label: command.label,
+        tooltip: command.tooltip,
+        action: actionType ? (actionTypes[actionType] ?? actionType) : undefined,
+        "function name": command.action?.functionName,
+        "source location": command.action?.sourceLocation,
+      },
+    };
+  });
+}
+
+function getRuntimes(manifestDocument: ManifestDocument): DiffItem[] {
+  return manifestDocument.getRuntimes().map((runtime) => ({
+    key: runtime.id,
+    name: runtime.id,
+    values: { lifetime: runtime.lifetime, "source location": runtime.sourceLocation },
+  }));
+}
+
+function getAppDomains(manifestDocument: ManifestDocument): DiffItem[] {
+  return manifestDocument.appDomains.map((appDomain) => ({
+    key: normalizeUrl(appDomain),
+    name: appDomain,
+    values: {},
+  }));
+}
+
+/**
+ * Returns the differences between the items, using the first item for each key.
+ */
+function diffItems(category: string, first: DiffItem[], second: DiffItem[]): ManifestDifference[] {
+  const differences: ManifestDifference[] = [];
+  const firstItems = new Map<string, DiffItem>();
+  const secondItems = new Map<string, DiffItem>();
+  first.forEach((item) => firstItems.set(item.key, firstItems.get(item.key) ?? item));
+  second.forEach((item) => secondItems.set(item.key, secondItems.get(item.key) ?? item));
+
+  firstItems.forEach((item, key) => {
+    const secondItem = secondItems.get(key);
+    if (!secondItem) {
+      differences.push({ kind: ManifestDifferenceKind.Removed, category, name: item.name });
+      return;
+    }
+
+    Object.keys(item.values).forEach((valueName) => {
+      const before = item.values[valueName];
+      const after = secondItem.values[valueName];
+      if (before !== after) {
+        differences.push({
+          kind: ManifestDifferenceKind.Changed,
+          category,
+          name: `${secondItem.name} ${valueName}`,
+          before,
+          after,
+        });
+      }
+    });
+  });
+
+  secondItems.forEach((item, key) => {
+    if (!firstItems.has(key)) {
+      differences.push({ kind: ManifestDifferenceKind.Added, category, name: item.name });
+    }
+  });
+
+  return differences;
+}
+
+function diffValue(
+  name: string,
+  before: string | undefined,
+  after: string | undefined,
+  normalize: (value: string | undefined) => string | undefined = (value) => value
+): ManifestDifference[] {
+  return normalize(before) !== normalize(after)
+    ? [{ kind: ManifestDifferenceKind.Changed, category: name, name, before, after }]
+    : [];
+}
+
+/**
+ * Returns the differences between two manifests, which can have different formats.
+ * @param first The first manifest.
+ * @param second The second manifest.
+ */
+export function diffManifestDocuments(
+  first: ManifestDocument,
+  second: ManifestDocument
+): ManifestDifference[] {
+  const lowerCase = (value: string | undefined) => value?.toLowerCase();
+  const firstWebApplicationInfo = first.webApplicationInfo;
+  const secondWebApplicationInfo = second.webApplicationInfo;
+
+  return [
+    ...diffValue("id", first.id, second.id, lowerCase),
+    ...diffValue("version", first.version, second.version, normalizeVersion),
+    ...diffValue("display name", first.displayName, second.displayName),
+    ...diffValue("description", first.description, second.description),
+    ...diffValue("provider", first.providerName, second.providerName),
+    ...diffValue("default locale", first.defaultLocale, second.defaultLocale, lowerCase),
+    ...diffItems("host", getHosts(first), getHosts(second)),
+    ...diffItems("permission", getPermissions(first), getPermissions(second)),
+    ...diffItems("requirement set", getRequirementSets(first), getRequirementSets(second)),
+    ...diffItems("app domain", getAppDomains(first), getAppDomains(second)),
+    ...diffItems("extension point", getExtensionPoints(first), getExtensionPoints(second)),
+    ...diffItems("command", getCommands(first), getCommands(second)),
+    // runtimes have a url resource id in xml instead of an id, so only compare them for the same format
+    ...(first.manifestType === second.manifestType
+      ? diffItems("runtime", getRuntimes(first), getRuntimes(second))
+      : []),
+    ...diffValue("web application id", firstWebApplicationInfo?.id, secondWebApplicationInfo?.id),
+    ...diffValue(
+      "web application resource",
+      firstWebApplicationInfo?.resource,
+      secondWebApplicationInfo?.resource
+    ),
+  ];
+}
+
+/**
+ * Returns the differences between two manifest files, which can have different formats.
+ * @param firstManifestPath Path to the first manifest file.
+ * @param secondManifestPath Path to the second manifest file.
+ */
+export async function diffManifests(
+  firstManifestPath: string,
+  secondManifestPath: string
+): Promise<ManifestDifference[]> {
+  const first = await (await getManifestHandler(firstManifestPath)).readManifestDocument();
+  const second = await (await getManifestHandler(secondManifestPath)).readManifestDocument();
+  return diffManifestDocuments(first, second);
+}
+
+/**
+ * Converts the string to the ManifestDiffFormat enum value.
+ * @param value string
+ * @throws ExpectedError if the value is not a valid format.
+ */
+export function parseManifestDiffFormat(value: string): ManifestDiffFormat {
+  const format = Object.values(ManifestDiffFormat).find(
+    (item) => item === value.trim().toLowerCase()
+  );
+
+  if (!format) {
+    throw new ExpectedError(
+      `"${value}" is not a valid format. Use one of: ${Object.values(ManifestDiffFormat).join(", ")}.`
+    );
+  }
+
+  return format;
+}
+
+/**
+ * Returns the differences as text, with one line for each difference.
+ * @param differences The differences between the manifests.
+ */
+export function formatManifestDifferencesAsText(differences: ManifestDifference[]): string {
+  if (differences.length === 0) {
+    return "The manifests do not have any differences.";
+  }
+
+  return differences
+    .map((difference) => {
+      const { before, after, category, name } = difference;
+      switch (difference.kind) {
+        case ManifestDifferenceKind.Added:
+          return `+ ${category}: ${name}`;
+        case ManifestDifferenceKind.Removed:
+          return `- ${category}: ${name}`;
+        default: {
+          const changed: string = category === name ? name : `${category} ${name}`;
+          return `~ ${changed}: ${before ?? "(none)"} -> ${after ?? "(none)"}`;
+        }
+      }
+    })
+    .join("\n");
+}
@@ -2,9 +2,20 @@
 // Licensed under the MIT license.
 
 export * from "./addInTypes";
+export * from "./diff";
 export * from "./export";
+export * from "./manifestDocument/manifestDocument";
+export * from "./manifestDocument/manifestDocumentJson";
+export * from "./manifestDocument/manifestDocumentXml";
 export * from "./manifestInfo";
 export * from "./manifestOperations";
 export * from "./officeApp";
+export * from "./reportFormats";
+export * from "./rules/builtInRules";
+export * from "./rules/manifestRule";
+export * from "./rules/ruleEngine";
+export * from "./transform";
 export * from "./validate";
+export * from "./validateOffline";
 export * from "./xml";
+export * from "./xmlDocument";
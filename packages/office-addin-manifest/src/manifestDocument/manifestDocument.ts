@@ -0,0 +1,203 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { ManifestType } from "../manifestInfo";
+
+/**
+ * Matches the values in a manifest which are urls.
+ */
+export const manifestUrlPattern: RegExp = /^https?:\/\/\S+$/i;
+
+export interface ManifestRequirementSet {
+  name: string;
+  minVersion?: string;
+}
+
+export interface ManifestWebApplicationInfo {
+  id: string;
+  resource?: string;
+  /** The scopes are only specified in XML manifests. */
+  scopes?: string[];
+}
+
+/**
+ * A string, url or image which can have a different value for each locale.
+ */
+export interface ManifestLocalizedString {
+  id: string;
+  /** The value used when there is no override for the locale. */
+  value: string;
+  /** Values for specific locales, by locale. */
+  overrides: { [locale: string]: string };
+}
+
+export interface ManifestCommandAction {
+  /** For example, "ShowTaskpane" or "ExecuteFunction" in xml, "openPage" or "executeFunction" in json. */
+  type: string;
+  functionName?: string;
+  sourceLocation?: string;
+}
+
+/**
+ * A ribbon or context menu control, or a menu item.
+ */
+export interface ManifestCommand {
+  id: string;
+  type: string;
+  action?: ManifestCommandAction;
+  /** The type of the extension point which has the command. */
+  extensionPoint: string;
+  label?: string;
+  tooltip?: string;
+}
+
+export interface ManifestCommandChanges {
+  functionName?: string;
+  label?: string;
+  sourceLocation?: string;
+  tooltip?: string;
+}
+
+export interface ManifestExtensionPoint {
+  /** The host type in xml, or the requirement scopes in json. */
+  host: string;
+  type: string;
+  /** The ids of the commands in the extension point. */
+  commands: string[];
+  /** The ribbon contexts, for json manifests. */
+  contexts?: string[];
+  /** The form factor, for xml manifests. */
+  formFactor?: string;
+  /** The VersionOverrides type, for xml manifests. */
+  versionOverrides?: string;
+}
+
+export interface ManifestRuntime {
+  id: string;
+  lifetime?: string;
+  sourceLocation?: string;
+}
+
+export interface ManifestRuntimeChanges {
+  lifetime?: string;
+  sourceLocation?: string;
+}
+
+export interface ManifestVersionOverrides {
+  type: string;
+  namespace: string;
+  hosts: string[];
+  requirementSets: ManifestRequirementSet[];
+}
+
+export interface ManifestVersionOverridesChanges {
+  /**
+   * The hosts to keep. The other hosts are removed along with their extension points. A host
+   * cannot be added, since it would not have any extension points.
+   */
+  hosts?: string[];
+  requirementSets?: ManifestRequirementSet[];
+}
+
+/**
+ * An editable manifest. Changes are made to the parsed document, so the parts of the manifest
+ * which are not changed, including comments and the order of elements, are written as they were read.
+ * Arrays returned by the properties are copies; assign the property to change the manifest.
+ */
+export abstract class ManifestDocument {
+  abstract readonly manifestType: ManifestType;
+
+  abstract get id(): string | undefined;
+  abstract set id(value: string | undefined);
+  abstract get appDomains(): string[];
+  abstract set appDomains(value: string[]);
+  abstract get defaultLocale(): string | undefined;
+  abstract set defaultLocale(value: string | undefined);
+  abstract get description(): string | undefined;
+  abstract set description(value: string | undefined);
+  abstract get displayName(): string | undefined;
+  abstract set displayName(value: string | undefined);
+  abstract get hosts(): string[];
+  abstract set hosts(value: string[]);
+  abstract get permissions(): string[];
+  abstract set permissions(value: string[]);
+  abstract get providerName(): string | undefined;
+  abstract set providerName(value: string | undefined);
+  abstract get requirementSets(): ManifestRequirementSet[];
+  abstract set requirementSets(value: ManifestRequirementSet[]);
+  abstract get version(): string | undefined;
+  abstract set version(value: string | undefined);
+  abstract get webApplicationInfo(): ManifestWebApplicationInfo | undefined;
+  abstract set webApplicationInfo(value: ManifestWebApplicationInfo | undefined);
+
+  abstract getCommands(): ManifestCommand[];
+  abstract getExtensionPoints(): ManifestExtensionPoint[];
+  abstract getLocalizedStrings(): ManifestLocalizedString[];
+  abstract getRuntimes(): ManifestRuntime[];
+
+  /**
+   * Returns the http and https urls in the manifest, in the order they appear.
+   */
+  abstract getUrls(): string[];
+  abstract getVersionOverrides(): ManifestVersionOverrides[];
+
+  /**
+   * Removes the command, and any menu items in it.
+   * @param id The id of the command.
+   */
+  abstract removeCommand(id: string): void;
+
+  /**
+   * Removes the extension points of the type for the host, along with their commands.
+   * @param host The host, as returned by getExtensionPoints().
+   * @param type The type of the extension point.
+   */
+  abstract removeExtensionPoint(host: string, type: string): void;
+
+  /**
+   * Removes the VersionOverrides of the type, including any VersionOverrides inside of it.
+   * @param type The VersionOverrides type, for example, "VersionOverridesV1_0".
+   */
+  abstract removeVersionOverrides(type: string): void;
+
+  /**
+   * Replaces each http and https url in the manifest with the url returned by the callback.
+   * @param replace Returns the url to use instead of the url passed to it.
+   */
+  abstract replaceUrls(replace: (url: string) => string): void;
+
+  /**
+   * Changes the value of a localized string.
+   * @param id The id of the localized string.
+   * @param value The new value.
+   * @param locale If specified, changes the value for the locale instead of the default value.
+   */
+  abstract setLocalizedString(id: string, value: string, locale?: string): void;
+
+  /**
+   * Changes a command. Labels, tooltips and urls are changed where they are defined, so other
+   * parts of the manifest which use the same string or url also change.
+   * @param id The id of the command.
+   * @param changes The changes to make.
+   */
+  abstract updateCommand(id: string, changes: ManifestCommandChanges): void;
+
+  /**
+   * Changes a runtime.
+   * @param id The id of the runtime.
+   * @param changes The changes to make.
+   */
+  abstract updateRuntime(id: string, changes: ManifestRuntimeChanges): void;
+
+  /**
+   * Changes the hosts and requirement sets of the VersionOverrides.
+   * @param type The VersionOverrides type, for example, "VersionOverridesV1_0".
+   * @param changes The changes to make.
+   */
+  abstract updateVersionOverrides(type: string, changes: ManifestVersionOverridesChanges): void;
+
+  /**
+   * Returns the text of the manifest.
+   */
+  abstract toString(): string;
+}
@@ -0,0 +1,493 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { ManifestType } from "../manifestInfo";
+import {
+  ManifestCommand,
+  ManifestCommandChanges,
+  ManifestDocument,
+  ManifestExtensionPoint,
+  ManifestLocalizedString,
+  ManifestRequirementSet,
+  ManifestRuntime,
+  ManifestRuntimeChanges,
+  manifestUrlPattern,
+  ManifestVersionOverrides,
+  ManifestWebApplicationInfo,
+} from "./manifestDocument";
+
+/**
+ * The strings in a JSON manifest which can be localized, by their path in the manifest.
+ */
+const localizableProperties: string[] = [
+  "name.short",
+  "name.full",
+  "description.short",
+  "description.full",
+];
+
+function getProperty(json: any, propertyPath: string): any {
+  return propertyPath.split(".").reduce((value, name) => value?.[name], json);
+}
+
+function setProperty(json: any, propertyPath: string, value: any): void {
+  const names = propertyPath.split(".");
+  const name = names.pop()!;
+  const parent = names.reduce((current, item) => {
+    if (current[item] === undefined) {
+      current[item] = {};
+    }
+    return current[item];
+  }, json);
+
+  if (value === undefined) {
+    delete parent[name];
+  } else {
+    parent[name] = value;
+  }
+}
+
+/**
+ * The properties of an extension which have the extension points, by extension point type.
+ */
+const extensionPointProperties: { [type: string]: string } = {
+  ribbon: "ribbons",
+  contextMenu: "contextMenus",
+};
+
+/**
+ * An editable JSON manifest. The properties are kept in the order they were read. When the
+ * manifest has not changed, it is written exactly as it was read; otherwise, it is written with
+ * the same indentation and line endings.
+ */
+export class ManifestDocumentJson extends ManifestDocument {
+  readonly manifestType = ManifestType.JSON;
+  readonly json: any;
+  private readonly jsonText: string;
+
+  /**
+   * @param jsonText The text of the manifest.
+   */
+  constructor(jsonText: string) {
+    super();
+    this.jsonText = jsonText;
+    this.json = JSON.parse(jsonText);
+  }
+
+  get id(): string | undefined {
+    return this.json.id;
+  }
+
+  set id(value: string | undefined) {
+    setProperty(this.json, "id", value);
+  }
+
+  get appDomains(): string[] {
+    return [...(this.json.validDomains ?? [])];
+  }
+
+  set appDomains(value: string[]) {
+    setProperty(this.json, "validDomains", value.length > 0 ? [...value] : undefined);
+  }
+
+  get defaultLocale(): string | undefined {
+    return getProperty(this.json, "localizationInfo.defaultLanguageTag");
+  }
+
+  set defaultLocale(value: string | undefined) {
+    setProperty(this.json, "localizationInfo.defaultLanguageTag", value);
+  }
+
+  get description(): string | undefined {
+    return getProperty(this.json, "description.short");
+  }
+
+  set description(value: string | undefined) {
+    setProperty(this.json, "description.short", value);
+  }
+
+  get displayName(): string | undefined {
+    return getProperty(this.json, "name.short");
+  }
+
+  set displayName(value: string | undefined) {
+    setProperty(this.json, "name.short", value);
+  }
+
+  get hosts(): string[] {
+    return [...(this.extensions[0]?.requirements?.scopes ?? [])];
+  }
+
+  set hosts(value: string[]) {
+    this.extensions.forEach((extension) =>
+      setProperty(extension, "requirements.scopes", [...value])
+    );
+  }
+
+  get permissions(): string[] {
+    const permissions: any[] =
+      getProperty(this.json, "authorization.permissions.resourceSpecific") ?? [];
+    return permissions.map((permission) => permission.name);
+  }
+
+  set permissions(value: string[]) {
+    const existing: any[] =
+      getProperty(this.json, "authorization.permissions.resourceSpecific") ?? [];
+    setProperty(
+      this.json,
+      "authorization.permissions.resourceSpecific",
+      value.map(
+        (name) =>
+          existing.find((permission) => permission.name === name) ?? { name, type: "Delegated" }
+      )
+    );
+  }
+
+  get providerName(): string | undefined {
+    return getProperty(this.json, "developer.name");
+  }
+
+  set providerName(value: string | undefined) {
+    setProperty(this.json, "developer.name", value);
+  }
+
+  get requirementSets(): ManifestRequirementSet[] {
+    const capabilities: any[] = this.extensions[0]?.requirements?.capabilities ?? [];
+    return capabilities.map((capability) => ({
+      name: capability.name,
+      minVersion: capability.minVersion,
+    }));
+  }
+
+  set requirementSets(value: ManifestRequirementSet[]) {
+    this.extensions.forEach((extension) => {
+      setProperty(
+        extension,
+        "requirements.capabilities",
+        value.map((requirementSet) =>
+          requirementSet.minVersion
+            ? { name: requirementSet.name, minVersion: requirementSet.minVersion }
+            : { name: requirementSet.name }
+        )
+      );
+    });
+  }
+
+  get version(): string | undefined {
+    return this.json.version;
+  }
+
+  set version(value: string | undefined) {
+    setProperty(this.json, "version", value);
+  }
+
+  get webApplicationInfo(): ManifestWebApplicationInfo | undefined {
+    const webApplicationInfo = this.json.webApplicationInfo;
+    return webApplicationInfo
+      ? { id: webApplicationInfo.id, resource: webApplicationInfo.resource }
+      : undefined;
+  }
+
+  set webApplicationInfo(value: ManifestWebApplicationInfo | undefined) {
+    setProperty(
+      this.json,
+      "webApplicationInfo",
+      value
+        ? { ...this.json.webApplicationInfo, id: value.id, resource: value.resource }
+        : undefined
+    );
+  }
+
+  private get extensions(): any[] {
+    return this.json.extensions ?? [];
+  }
+
+  getCommands(): ManifestCommand[] {
+    const commands: ManifestCommand[] = [];
+    this.getControls().forEach(({ control, extensionPoint, runtimes }) => {
+      const action = this.findAction(runtimes, control.actionId);
+      commands.push({
+        id: control.id,
+        type: control.type ?? "menuItem",
+        extensionPoint,
+        label: control.label,
+        tooltip: control.supertip?.description,
+        action: action
+          ? {
+              type: action.action.type,
+              functionName: action.action.type === "executeFunction" ? action.action.id : undefined,
+              sourceLocation:
+                action.action.type === "openPage" ? action.runtime.code?.page : undefined,
+            }
+          : undefined,
+      });
+    });
+    return commands;
+  }
+
+  getExtensionPoints(): ManifestExtensionPoint[] {
+    const extensionPoints: ManifestExtensionPoint[] = [];
+    this.extensions.forEach((extension) => {
+      const host: string = (extension.requirements?.scopes ?? []).join(", ");
+      const addExtensionPoints = (items: any[] | undefined, type: string) => {
+        (items ?? []).forEach((item) => {
+          const commands: string[] = [];
+          this.getItemControls(item).forEach((control) => commands.push(control.id));
+          extensionPoints.push({ host, type, commands, contexts: item.contexts });
+        });
+      };
+      addExtensionPoints(extension.ribbons, "ribbon");
+      addExtensionPoints(extension.contextMenus, "contextMenu");
+    });
+    return extensionPoints;
+  }
+
+  getLocalizedStrings(): ManifestLocalizedString[] {
+    return localizableProperties
+      .filter((propertyPath) => getProperty(this.json, propertyPath) !== undefined)
+      .map((propertyPath) => ({
+        id: propertyPath,
+        value: getProperty(this.json, propertyPath),
+        overrides: {},
+      }));
+  }
+
+  getRuntimes(): ManifestRuntime[] {
+    const runtimes: ManifestRuntime[] = [];
+    this.extensions.forEach((extension) => {
+      (extension.runtimes ?? []).forEach((runtime: any) => {
+        runtimes.push({
+          id: runtime.id,
+          lifetime: runtime.lifetime,
+          sourceLocation: runtime.code?.page,
+        });
+      });
+    });
+    return runtimes;
+  }
+
+  getUrls(): string[] {
+    const urls: string[] = [];
+    this.forEachUrl((url) => {
+      urls.push(url);
+      return url;
+    });
+    return urls;
+  }
+
+  getVersionOverrides(): ManifestVersionOverrides[] {
+    // JSON manifests do not have VersionOverrides
+    return [];
+  }
+
+  removeCommand(id: string): void {
+    let found: boolean = false;
+    const removeControls = (controls: any[] | undefined) => {
+      if (controls) {
+        for (let index = controls.length - 1; index >= 0; --index) {
+          if (controls[index].id === id) {
+            controls.splice(index, 1);
+            found = true;
+          } else {
+            removeControls(controls[index].items);
+          }
+        }
+      }
+    };
+
+    this.extensions.forEach((extension) => {
+      [...(extension.ribbons ?? []), ...(extension.contextMenus ?? [])].forEach((item) => {
+        this.getGroups(item).forEach((group) => removeControls(group.controls));
+        removeControls(item.menus);
+      });
+    });
+
+    if (!found) {
+      throw new Error(`The manifest does not have the command "${id}".`);
+    }
+  }
+
+  removeExtensionPoint(host: string, type: string): void {
+    const propertyName = extensionPointProperties[type];
+    const extensions = this.extensions.filter(
+      (extension) =>
+        propertyName !== undefined &&
+        (extension.requirements?.scopes ?? []).join(", ") === host &&
+        extension[propertyName] !== undefined
+    );
+    if (extensions.length === 0) {
+      throw new Error(
+        `The manifest does not have the extension point "${type}" for the host "${host}".`
+      );
+    }
+    extensions.forEach((extension) => setProperty(extension, propertyName, undefined));
+  }
+
+  removeVersionOverrides(type: string): void {
+    throw new Error(`JSON manifests do not have VersionOverrides, so "${type}" cannot be removed.`);
+  }
+
+  replaceUrls(replace: (url: string) => string): void {
+    this.forEachUrl(replace);
+  }
+
+  setLocalizedString(id: string, value: string, locale?: string): void {
+    if (!localizableProperties.includes(id)) {
+      throw new Error(`The manifest does not have the localized string "${id}".`);
+    }
+    if (locale) {
+      throw new Error(
+        "The localized strings of a JSON manifest are in the files specified by localizationInfo.additionalLanguages."
+      );
+    }
+    setProperty(this.json, id, value);
+  }
+
+  updateCommand(id: string, changes: ManifestCommandChanges): void {
+    const controls = this.getControls().filter(({ control }) => control.id === id);
+    if (controls.length === 0) {
+      throw new Error(`The manifest does not have the command "${id}".`);
+    }
+
+    controls.forEach(({ control, runtimes }) => {
+      const action = this.findAction(runtimes, control.actionId);
+
+      if (changes.label !== undefined) {
+        control.label = changes.label;
+      }
+      if (changes.tooltip !== undefined) {
+        setProperty(control, "supertip.description", changes.tooltip);
+      }
+      if (changes.functionName !== undefined) {
+        if (action?.action.type !== "executeFunction") {
+          throw new Error(`The action for the command "${id}" does not execute a function.`);
+        }
+        this.renameAction(action.action.id, changes.functionName);
+      }
+      if (changes.sourceLocation !== undefined) {
+        if (!action?.runtime.code) {
+          throw new Error(`The command "${id}" does not have a runtime with a page.`);
+        }
+        action.runtime.code.page = changes.sourceLocation;
+      }
+    });
+  }
+
+  updateRuntime(id: string, changes: ManifestRuntimeChanges): void {
+    const runtimes: any[] = [];
+    this.extensions.forEach((extension) => {
+      runtimes.push(...(extension.runtimes ?? []).filter((runtime: any) => runtime.id === id));
+    });
+    if (runtimes.length === 0) {
+      throw new Error(`The manifest does not have the runtime "${id}".`);
+    }
+
+    runtimes.forEach((runtime) => {
+      if (changes.lifetime !== undefined) {
+        runtime.lifetime = changes.lifetime;
+      }
+      if (changes.sourceLocation !== undefined) {
+        setProperty(runtime, "code.page", changes.sourceLocation);
+      }
+    });
+  }
+
+  updateVersionOverrides(type: string): void {
+    throw new Error(`JSON manifests do not have VersionOverrides, so "${type}" cannot be changed.`);
+  }
+
+  toString(): string {
+    if (JSON.stringify(this.json) === JSON.stringify(JSON.parse(this.jsonText))) {
+      return this.jsonText;
+    }
+
+    const indentation = /^[ \t]+(?=")/m.exec(this.jsonText)?.[0] ?? "  ";
+    const lineEnding = this.jsonText.includes("\r\n") ? "\r\n" : "\n";
+    const trailing = /\r?\n$/.test(this.jsonText) ? lineEnding : "";
+    return JSON.stringify(this.json, null, indentation).replace(/\n/g, lineEnding) + trailing;
+  }
+
+  private findAction(
+    runtimes: any[],
+    actionId: string | undefined
+  ): { action: any; runtime: any } | undefined {
+    for (const runtime of runtimes) {
+      const action = (runtime.actions ?? []).find((item: any) => item.id === actionId);
+      if (action) {
+        return { action, runtime };
+      }
+    }
+  }
+
+  /**
+   * Calls the callback for each url in a string value, and sets the value to the url returned.
+   * The "$schema" url identifies the manifest schema, so it is skipped.
+   */
+  private forEachUrl(callback: (url: string) => string): void {
+    const visit = (value: any) => {
+      Object.keys(value).forEach((key) => {
+        const item = value[key];
+        if (typeof item === "string") {
+          if (key !== "$schema" && manifestUrlPattern.test(item)) {
+            value[key] = callback(item);
+          }
+        } else if (item && typeof item === "object") {
+          visit(item);
+        }
+      });
+    };
+    visit(this.json);
+  }
+
+  private getControls(): { control: any; extensionPoint: string; runtimes: any[] }[] {
+    const controls: { control: any; extensionPoint: string; runtimes: any[] }[] = [];
+    this.extensions.forEach((extension) => {
+      const runtimes: any[] = extension.runtimes ?? [];
+      const addControls = (items: any[] | undefined, extensionPoint: string) => {
+        (items ?? []).forEach((item) => {
+          this.getItemControls(item).forEach((control) =>
+            controls.push({ control, extensionPoint, runtimes })
+          );
+        });
+      };
+      addControls(extension.ribbons, "ribbon");
+      addControls(extension.contextMenus, "contextMenu");
+    });
+    return controls;
+  }
+
+  private getGroups(item: any): any[] {
+    const groups: any[] = [];
+    (item.tabs ?? []).forEach((tab: any) => groups.push(...(tab.groups ?? [])));
+    return groups;
+  }
+
+  /**
+   * Returns the controls in a ribbon or context menu, including menu items.
+   */
+  private getItemControls(item: any): any[] {
+    const controls: any[] = [];
+    const addControls = (items: any[] | undefined) => {
+      (items ?? []).forEach((control) => {
+        controls.push(control);
+        addControls(control.items);
+      });
+    };
+    this.getGroups(item).forEach((group) => addControls(group.controls));
+    addControls(item.menus);
+    return controls;
+  }
+
+  private renameAction(actionId: string, newActionId: string): void {
+    this.extensions.forEach((extension) => {
+      (extension.runtimes ?? []).forEach((runtime: any) => {
+        (runtime.actions ?? [])
+          .filter((action: any) => action.id === actionId)
+          .forEach((action: any) => (action.id = newActionId));
+      });
+    });
+    this.getControls()
+      .filter(({ control }) => control.actionId === actionId)
+      .forEach(({ control }) => (control.actionId = newActionId));
+  }
+}
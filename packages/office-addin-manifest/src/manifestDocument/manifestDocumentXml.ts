@@ -0,0 +1,656 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { ManifestType } from "../manifestInfo";
+import { officeAppSchema } from "../schemas/officeAppSchema";
+import { ElementDefinition, ManifestNamespace } from "../schemas/schemaDefinition";
+import {
+  contentVersionOverrides,
+  mailVersionOverrides,
+  taskPaneVersionOverrides,
+} from "../schemas/versionOverridesSchema";
+import { parseXmlDocument, XmlDocument, XmlElement } from "../xmlDocument";
+import {
+  ManifestCommand,
+  ManifestCommandChanges,
+  ManifestDocument,
+  ManifestExtensionPoint,
+  ManifestLocalizedString,
+  ManifestRequirementSet,
+  ManifestRuntime,
+  ManifestRuntimeChanges,
+  manifestUrlPattern,
+  ManifestVersionOverrides,
+  ManifestVersionOverridesChanges,
+  ManifestWebApplicationInfo,
+} from "./manifestDocument";
+
+const resourceCollections: string[] = ["Images", "Urls", "ShortStrings", "LongStrings"];
+
+function getXsiType(element: XmlElement): string | undefined {
+  return element.getAttributeNS(ManifestNamespace.XmlSchemaInstance, "type");
+}
+
+function getAncestor(element: XmlElement, localName: string): XmlElement | undefined {
+  let ancestor = element.parent;
+  while (ancestor && ancestor.localName !== localName) {
+    ancestor = ancestor.parent;
+  }
+  return ancestor;
+}
+
+function getChildOrder(definition: ElementDefinition, xsiType: string | undefined): string[] {
+  const type = (xsiType && definition.type.xsiTypes?.[xsiType]) || definition.type;
+  return (type.children ?? []).map((child) => child.name);
+}
+
+/**
+ * Returns the name to use for a new element in the namespace, with the prefix declared for it.
+ */
+function getQualifiedName(parent: XmlElement, namespace: string, localName: string): string {
+  const prefix = parent.lookupPrefix(namespace);
+  if (prefix === undefined) {
+    throw new Error(`The namespace "${namespace}" is not declared in the manifest.`);
+  }
+  return prefix ? `${prefix}:${localName}` : localName;
+}
+
+/**
+ * Returns the child element, adding it if the parent does not have it. A new element is added
+ * before the first element which comes after it in the order specified.
+ */
+function getOrAddElement(
+  parent: XmlElement,
+  localName: string,
+  order: string[] = [],
+  namespace: string = parent.namespace
+): XmlElement {
+  const existing = parent.element(localName);
+  if (existing) {
+    return existing;
+  }
+
+  const position = order.indexOf(localName);
+  const before = parent
+    .elements()
+    .find((child) => position >= 0 && order.indexOf(child.localName) > position);
+  return parent.addElement(getQualifiedName(parent, namespace, localName), before);
+}
+
+/**
+ * An editable XML manifest.
+ */
+export class ManifestDocumentXml extends ManifestDocument {
+  readonly manifestType = ManifestType.XML;
+  readonly document: XmlDocument;
+
+  /**
+   * @param xmlText The text of the manifest.
+   * @throws XmlParseError if the xml is not well-formed.
+   */
+  constructor(xmlText: string) {
+    super();
+    this.document = parseXmlDocument(xmlText);
+    if (this.officeApp.localName !== "OfficeApp") {
+      throw new Error("The root element of the manifest is not OfficeApp.");
+    }
+  }
+
+  get officeApp(): XmlElement {
+    return this.document.root;
+  }
+
+  get officeAppType(): string | undefined {
+    return getXsiType(this.officeApp);
+  }
+
+  get id(): string | undefined {
+    return this.getElementText("Id");
+  }
+
+  set id(value: string | undefined) {
+    this.setElementText("Id", value);
+  }
+
+  get appDomains(): string[] {
+    const appDomains = this.officeApp.element("AppDomains");
+    return appDomains ? appDomains.elements("AppDomain").map((element) => element.text) : [];
+  }
+
+  set appDomains(value: string[]) {
+    this.setElementList("AppDomains", "AppDomain", value, (element, appDomain) => {
+      element.text = appDomain;
+    });
+  }
+
+  get defaultLocale(): string | undefined {
+    return this.getElementText("DefaultLocale");
+  }
+
+  set defaultLocale(value: string | undefined) {
+    this.setElementText("DefaultLocale", value);
+  }
+
+  get description(): string | undefined {
+    return this.officeApp.element("Description")?.getAttribute("DefaultValue");
+  }
+
+  set description(value: string | undefined) {
+    this.setElementDefaultValue("Description", value);
+  }
+
+  get displayName(): string | undefined {
+    return this.officeApp.element("DisplayName")?.getAttribute("DefaultValue");
+  }
+
+  set displayName(value: string | undefined) {
+    this.setElementDefaultValue("DisplayName", value);
+  }
+
+  get hosts(): string[] {
+    const hosts = this.officeApp.element("Hosts");
+    return hosts ? hosts.elements("Host").map((element) => element.getAttribute("Name") ?? "") : [];
+  }
+
+  set hosts(value: string[]) {
+    this.setElementList("Hosts", "Host", value, (element, host) => {
+      element.setAttribute("Name", host);
+    });
+  }
+
+  get permissions(): string[] {
+    const permissions = this.getElementText("Permissions");
+    return permissions ? [permissions] : [];
+  }
+
+  set permissions(value: string[]) {
+    if (value.length !== 1) {
+      throw new Error("An XML manifest must specify one permission.");
+    }
+    this.setElementText("Permissions", value[0]);
+  }
+
+  get providerName(): string | undefined {
+    return this.getElementText("ProviderName");
+  }
+
+  set providerName(value: string | undefined) {
+    this.setElementText("ProviderName", value);
+  }
+
+  get requirementSets(): ManifestRequirementSet[] {
+    const requirements = this.officeApp.element("Requirements");
+    return requirements ? this.getRequirementSets(requirements) : [];
+  }
+
+  set requirementSets(value: ManifestRequirementSet[]) {
+    if (value.length === 0 && this.officeAppType !== "MailApp") {
+      this.officeApp.element("Requirements")?.remove();
+      return;
+    }
+
+    const requirements = this.getOrAddOfficeAppElement("Requirements");
+    this.setRequirementSets(requirements, value, requirements.namespace);
+  }
+
+  get version(): string | undefined {
+    return this.getElementText("Version");
+  }
+
+  set version(value: string | undefined) {
+    this.setElementText("Version", value);
+  }
+
+  get webApplicationInfo(): ManifestWebApplicationInfo | undefined {
+    const element = this.officeApp.descendants("WebApplicationInfo").pop();
+    if (!element) {
+      return undefined;
+    }
+
+    const scopes = element.element("Scopes");
+    return {
+      id: element.element("Id")?.text ?? "",
+      resource: element.element("Resource")?.text,
+      scopes: scopes ? scopes.elements("Scope").map((scope) => scope.text) : [],
+    };
+  }
+
+  set webApplicationInfo(value: ManifestWebApplicationInfo | undefined) {
+    const versionOverrides = this.getVersionOverridesElements();
+    if (!value) {
+      this.officeApp.descendants("WebApplicationInfo").forEach((element) => element.remove());
+      return;
+    }
+    if (versionOverrides.length === 0) {
+      throw new Error("The manifest does not have VersionOverrides for the WebApplicationInfo.");
+    }
+
+    this.officeApp.descendants("WebApplicationInfo").forEach((element) => element.remove());
+    versionOverrides.forEach((parent) => {
+      const order = getChildOrder(taskPaneVersionOverrides, "VersionOverridesV1_0");
+      const element = getOrAddElement(parent, "WebApplicationInfo", order);
+      element.addElement(getQualifiedName(element, element.namespace, "Id")).text = value.id;
+      if (value.resource) {
+        element.addElement(getQualifiedName(element, element.namespace, "Resource")).text =
+          value.resource;
+      }
+      if (value.scopes && value.scopes.length > 0) {
+        const scopes = element.addElement(getQualifiedName(element, element.namespace, "Scopes"));
+        value.scopes.forEach((scope) => {
+          scopes.addElement(getQualifiedName(scopes, scopes.namespace, "Scope")).text = scope;
+        });
+      }
+    });
+  }
+
+  getCommands(): ManifestCommand[] {
+    return this.getCommandElements().map((element) => {
+      const actionElement = element.element("Action");
+      const command: ManifestCommand = {
+        id: element.getAttribute("id") ?? "",
+        type: getXsiType(element) ?? "MenuItem",
+        extensionPoint: getXsiType(getAncestor(element, "ExtensionPoint")!) ?? "",
+        label: this.getReferencedValue(element.element("Label"), "ShortStrings"),
+        tooltip: this.getReferencedValue(
+          element.element("Supertip")?.element("Description"),
+          "LongStrings"
+        ),
+      };
+
+      if (actionElement) {
+        command.action = {
+          type: getXsiType(actionElement) ?? "",
+          functionName: actionElement.element("FunctionName")?.text,
+          sourceLocation: this.getReferencedValue(actionElement.element("SourceLocation"), "Urls"),
+        };
+      }
+      return command;
+    });
+  }
+
+  getExtensionPoints(): ManifestExtensionPoint[] {
+    return this.officeApp.descendants("ExtensionPoint").map((element) => {
+      const host = getAncestor(element, "Host");
+      const versionOverrides = getAncestor(element, "VersionOverrides");
+      const commands = element
+        .descendants()
+        .filter((child) => child.localName === "Control" || child.localName === "Item")
+        .map((child) => child.getAttribute("id") ?? "");
+
+      return {
+        host: host ? (getXsiType(host) ?? "") : "",
+        type: getXsiType(element) ?? "",
+        commands,
+        formFactor: element.parent !== host ? element.parent?.localName : undefined,
+        versionOverrides: versionOverrides ? getXsiType(versionOverrides) : undefined,
+      };
+    });
+  }
+
+  getLocalizedStrings(): ManifestLocalizedString[] {
+    return this.getResourceElements().map((element) => {
+      const overrides: { [locale: string]: string } = {};
+      element.elements("Override").forEach((override) => {
+        overrides[override.getAttribute("Locale") ?? ""] = override.getAttribute("Value") ?? "";
+      });
+      return {
+        id: element.getAttribute("id") ?? "",
+        value: element.getAttribute("DefaultValue") ?? "",
+        overrides,
+      };
+    });
+  }
+
+  getRuntimes(): ManifestRuntime[] {
+    return this.officeApp.descendants("Runtime").map((element) => ({
+      id: element.getAttribute("resid") ?? "",
+      lifetime: element.getAttribute("lifetime"),
+      sourceLocation: this.getReferencedValue(element, "Urls"),
+    }));
+  }
+
+  getUrls(): string[] {
+    const urls: string[] = [];
+    this.forEachUrl((url) => {
+      urls.push(url);
+      return url;
+    });
+    return urls;
+  }
+
+  getVersionOverrides(): ManifestVersionOverrides[] {
+    return this.getVersionOverridesElements().map((element) => {
+      const hosts = element.element("Hosts");
+      const requirements = element.element("Requirements");
+      return {
+        type: getXsiType(element) ?? "",
+        namespace: element.namespace,
+        hosts: hosts ? hosts.elements("Host").map((host) => getXsiType(host) ?? "") : [],
+        requirementSets: requirements ? this.getRequirementSets(requirements) : [],
+      };
+    });
+  }
+
+  removeCommand(id: string): void {
+    this.getCommandElementsById(id).forEach((element) => element.remove());
+  }
+
+  removeExtensionPoint(host: string, type: string): void {
+    const elements = this.officeApp
+      .descendants("ExtensionPoint")
+      .filter((element) => getXsiType(element) === type)
+      .filter((element) => {
+        const hostElement = getAncestor(element, "Host");
+        return (hostElement ? (getXsiType(hostElement) ?? "") : "") === host;
+      });
+    if (elements.length === 0) {
+      throw new Error(
+        `The manifest does not have the extension point "${type}" for the host "${host}".`
+      );
+    }
+    elements.forEach((element) => element.remove());
+  }
+
+  removeVersionOverrides(type: string): void {
+    this.getVersionOverridesElementsByType(type).forEach((element) => element.remove());
+  }
+
+  replaceUrls(replace: (url: string) => string): void {
+    this.forEachUrl(replace);
+  }
+
+  setLocalizedString(id: string, value: string, locale?: string): void {
+    const elements = this.getResourceElements().filter(
+      (element) => element.getAttribute("id") === id
+    );
+    if (elements.length === 0) {
+      throw new Error(`The manifest does not have the resource "${id}".`);
+    }
+
+    elements.forEach((element) => {
+      if (locale) {
+        const override =
+          element
+            .elements("Override")
+            .find((item) => item.getAttribute("Locale")?.toLowerCase() === locale.toLowerCase()) ??
+          element.addElement(getQualifiedName(element, element.namespace, "Override"));
+        override.setAttribute("Locale", override.getAttribute("Locale") ?? locale);
+        override.setAttribute("Value", value);
+      } else {
+        element.setAttribute("DefaultValue", value);
+      }
+    });
+  }
+
+  updateCommand(id: string, changes: ManifestCommandChanges): void {
+    this.getCommandElementsById(id).forEach((element) => {
+      const action = element.element("Action");
+
+      if (changes.label !== undefined) {
+        this.setReferencedValue(element.element("Label"), "ShortStrings", changes.label);
+      }
+      if (changes.tooltip !== undefined) {
+        const description = element.element("Supertip")?.element("Description");
+        this.setReferencedValue(description, "LongStrings", changes.tooltip);
+      }
+      if (changes.functionName !== undefined) {
+        const functionName = action?.element("FunctionName");
+        if (!functionName) {
+          throw new Error(`The action for the command "${id}" does not have a FunctionName.`);
+        }
+        functionName.text = changes.functionName;
+      }
+      if (changes.sourceLocation !== undefined) {
+        this.setReferencedValue(action?.element("SourceLocation"), "Urls", changes.sourceLocation);
+      }
+    });
+  }
+
+  updateRuntime(id: string, changes: ManifestRuntimeChanges): void {
+    const elements = this.officeApp
+      .descendants("Runtime")
+      .filter((element) => element.getAttribute("resid") === id);
+    if (elements.length === 0) {
+      throw new Error(`The manifest does not have the runtime "${id}".`);
+    }
+
+    elements.forEach((element) => {
+      if (changes.lifetime !== undefined) {
+        element.setAttribute("lifetime", changes.lifetime);
+      }
+      if (changes.sourceLocation !== undefined) {
+        this.setReferencedValue(element, "Urls", changes.sourceLocation);
+      }
+    });
+  }
+
+  updateVersionOverrides(type: string, changes: ManifestVersionOverridesChanges): void {
+    this.getVersionOverridesElementsByType(type).forEach((element) => {
+      if (changes.hosts !== undefined) {
+        const hosts = element.element("Hosts")?.elements("Host") ?? [];
+        const hostTypes = hosts.map((host) => getXsiType(host));
+        const missing = changes.hosts.find((host) => !hostTypes.includes(host));
+        if (missing !== undefined) {
+          throw new Error(`The VersionOverrides "${type}" does not have the host "${missing}".`);
+        }
+        hosts
+          .filter((host) => !changes.hosts!.includes(getXsiType(host) ?? ""))
+          .forEach((host) => host.remove());
+      }
+      if (changes.requirementSets !== undefined) {
+        if (changes.requirementSets.length === 0) {
+          element.element("Requirements")?.remove();
+        } else {
+          const requirements = getOrAddElement(
+            element,
+            "Requirements",
+            getChildOrder(this.getVersionOverridesDefinition(), type)
+          );
+          this.setRequirementSets(
+            requirements,
+            changes.requirementSets,
+            ManifestNamespace.BasicTypes
+          );
+        }
+      }
+    });
+  }
+
+  toString(): string {
+    return this.document.toString();
+  }
+
+  /**
+   * Calls the callback for each url in an attribute value or element text, and sets the value to
+   * the url returned. Namespace declarations are not urls of the add-in, so they are skipped.
+   */
+  private forEachUrl(callback: (url: string) => string): void {
+    [this.officeApp, ...this.officeApp.descendants()].forEach((element) => {
+      element.attributes
+        .filter((attribute) => attribute.name !== "xmlns" && attribute.prefix !== "xmlns")
+        .filter((attribute) => manifestUrlPattern.test(attribute.value))
+        .forEach((attribute) => {
+          const url = callback(attribute.value);
+          if (url !== attribute.value) {
+            attribute.value = url;
+          }
+        });
+
+      if (element.elements().length === 0 && manifestUrlPattern.test(element.text.trim())) {
+        const url = callback(element.text.trim());
+        if (url !== element.text.trim()) {
+          element.text = url;
+        }
+      }
+    });
+  }
+
+  private getCommandElements(): XmlElement[] {
+    return this.officeApp
+      .descendants()
+      .filter(
+        (element) =>
+          (element.localName === "Control" || element.localName === "Item") &&
+          getAncestor(element, "ExtensionPoint") !== undefined
+      );
+  }
+
+  private getCommandElementsById(id: string): XmlElement[] {
+    const elements = this.getCommandElements().filter(
+      (element) => element.getAttribute("id") === id
+    );
+    if (elements.length === 0) {
+      throw new Error(`The manifest does not have the command "${id}".`);
+    }
+    return elements;
+  }
+
+  private getElementText(localName: string): string | undefined {
+    return this.officeApp.element(localName)?.text;
+  }
+
+  private getOrAddOfficeAppElement(localName: string): XmlElement {
+    return getOrAddElement(
+      this.officeApp,
+      localName,
+      getChildOrder(officeAppSchema, this.officeAppType)
+    );
+  }
+
+  /**
+   * Returns the value of the resource referenced by the resid attribute of the element.
+   */
+  private getReferencedValue(
+    element: XmlElement | undefined,
+    collection: string
+  ): string | undefined {
+    return this.getReferencedResource(element, collection)?.getAttribute("DefaultValue");
+  }
+
+  private getReferencedResource(
+    element: XmlElement | undefined,
+    collection: string
+  ): XmlElement | undefined {
+    const resid = element?.getAttribute("resid");
+    const versionOverrides = element ? getAncestor(element, "VersionOverrides") : undefined;
+    if (resid && versionOverrides) {
+      return versionOverrides
+        .element("Resources")
+        ?.element(collection)
+        ?.elements()
+        .find((resource) => resource.getAttribute("id") === resid);
+    }
+  }
+
+  private getRequirementSets(requirements: XmlElement): ManifestRequirementSet[] {
+    const sets = requirements.element("Sets");
+    const defaultMinVersion = sets?.getAttribute("DefaultMinVersion");
+    return sets
+      ? sets.elements("Set").map((element) => ({
+          name: element.getAttribute("Name") ?? "",
+          minVersion: element.getAttribute("MinVersion") ?? defaultMinVersion,
+        }))
+      : [];
+  }
+
+  private getResourceElements(): XmlElement[] {
+    const elements: XmlElement[] = [];
+    this.officeApp.descendants("Resources").forEach((resources) => {
+      resources
+        .elements()
+        .filter((collection) => resourceCollections.includes(collection.localName))
+        .forEach((collection) => elements.push(...collection.elements()));
+    });
+    return elements;
+  }
+
+  private getVersionOverridesDefinition(): ElementDefinition {
+    switch (this.officeAppType) {
+      case "ContentApp":
+        return contentVersionOverrides;
+      case "MailApp":
+        return mailVersionOverrides;
+      default:
+        return taskPaneVersionOverrides;
+    }
+  }
+
+  private getVersionOverridesElements(): XmlElement[] {
+    return this.officeApp.descendants("VersionOverrides");
+  }
+
+  private getVersionOverridesElementsByType(type: string): XmlElement[] {
+    const elements = this.getVersionOverridesElements().filter(
+      (element) => getXsiType(element) === type
+    );
+    if (elements.length === 0) {
+      throw new Error(`The manifest does not have the VersionOverrides "${type}".`);
+    }
+    return elements;
+  }
+
+  private setElementDefaultValue(localName: string, value: string | undefined): void {
+    if (value === undefined) {
+      this.officeApp.element(localName)?.remove();
+    } else {
+      this.getOrAddOfficeAppElement(localName).setAttribute("DefaultValue", value);
+    }
+  }
+
+  private setElementList(
+    localName: string,
+    itemName: string,
+    values: string[],
+    setItem: (element: XmlElement, value: string) => void
+  ): void {
+    if (values.length === 0) {
+      this.officeApp.element(localName)?.remove();
+      return;
+    }
+
+    const list = this.getOrAddOfficeAppElement(localName);
+    list.elements(itemName).forEach((element) => element.remove());
+    values.forEach((value) =>
+      setItem(list.addElement(getQualifiedName(list, list.namespace, itemName)), value)
+    );
+  }
+
+  /**
+   * Replaces the requirement sets. The Sets element is added in the namespace specified if the
+   * requirements do not have it.
+   */
+  private setRequirementSets(
+    requirements: XmlElement,
+    value: ManifestRequirementSet[],
+    setsNamespace: string
+  ): void {
+    const sets = getOrAddElement(requirements, "Sets", [], setsNamespace);
+    const defaultMinVersion = sets.getAttribute("DefaultMinVersion");
+    sets.elements("Set").forEach((element) => element.remove());
+    value.forEach((requirementSet) => {
+      const element = sets.addElement(getQualifiedName(sets, sets.namespace, "Set"));
+      element.setAttribute("Name", requirementSet.name);
+      if (requirementSet.minVersion && requirementSet.minVersion !== defaultMinVersion) {
+        element.setAttribute("MinVersion", requirementSet.minVersion);
+      }
+    });
+  }
+
+  private setElementText(localName: string, value: string | undefined): void {
+    if (value === undefined) {
+      this.officeApp.element(localName)?.remove();
+    } else {
+      this.getOrAddOfficeAppElement(localName).text = value;
+    }
+  }
+
+  private setReferencedValue(element: XmlElement | undefined, collection: string, value: string) {
+    const resource = this.getReferencedResource(element, collection);
+    if (!resource) {
+      throw new Error(
+        `The manifest does not have the resource "${element?.getAttribute("resid") ?? ""}" in ${collection}.`
+      );
+    }
+    resource.setAttribute("DefaultValue", value);
+  }
+}
@@ -1,7 +1,11 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT license.
 
+import fs from "fs";
+import util from "util";
+import { ManifestDocument } from "../manifestDocument/manifestDocument";
 import { ManifestInfo } from "../manifestInfo";
+const writeFileAsync = util.promisify(fs.writeFile);
 
 export abstract class ManifestHandler {
   constructor(manifestPath: string) {
@@ -10,6 +14,15 @@ export abstract class ManifestHandler {
 
   abstract modifyManifest(guid?: string, displayName?: string): Promise<any>;
   abstract parseManifest(): Promise<ManifestInfo>;
+  abstract readManifestDocument(): Promise<ManifestDocument>;
   abstract writeManifestData(manifestData: any): Promise<void>;
   manifestPath: string;
+
+  async writeManifestDocument(manifestDocument: ManifestDocument): Promise<void> {
+    try {
+      await writeFileAsync(this.manifestPath, manifestDocument.toString());
+    } catch (err) {
+      throw new Error(`Unable to write to file. ${this.manifestPath} \n${err}`);
+    }
+  }
 }
@@ -2,8 +2,11 @@
 // Licensed under the MIT license.
 
 import { devPreview, ManifestUtil } from "@microsoft/teams-manifest";
+import fs from "fs";
+import util from "util";
 import { v4 as uuidv4 } from "uuid";
 import { ManifestInfo, ManifestType } from "../manifestInfo";
+import { ManifestDocumentJson } from "../manifestDocument/manifestDocumentJson";
 import { ManifestHandler } from "./manifestHandler";
 
 export class ManifestHandlerJson extends ManifestHandler {
@@ -64,6 +67,17 @@ export class ManifestHandlerJson extends ManifestHandler {
     return manifestInfo;
   }
 
+  async readManifestDocument(): Promise<ManifestDocumentJson> {
+    try {
+      const fileData: string = await util.promisify(fs.readFile)(this.manifestPath, {
+        encoding: "utf8",
+      });
+      return new ManifestDocumentJson(fileData);
+    } catch (err) {
+      throw new Error(`Unable to read data for manifest file: ${this.manifestPath}. \n${err}`);
+    }
+  }
+
   async writeManifestData(manifestData: devPreview.DevPreviewSchema): Promise<void> {
     await ManifestUtil.writeToPath(this.manifestPath, manifestData);
   }
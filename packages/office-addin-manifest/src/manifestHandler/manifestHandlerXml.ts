@@ -7,6 +7,7 @@ import { v4 as uuidv4 } from "uuid";
 import xml2js from "xml2js";
 import * as xmlMethods from "../xml";
 import { DefaultSettings, ManifestInfo, ManifestType } from "../manifestInfo";
+import { ManifestDocumentXml } from "../manifestDocument/manifestDocumentXml";
 import { ManifestHandler } from "./manifestHandler";
 const writeFileAsync = util.promisify(fs.writeFile);
 export type Xml = xmlMethods.Xml;
@@ -88,6 +89,15 @@ export class ManifestHandlerXml extends ManifestHandler {
     });
   }
 
+  async readManifestDocument(): Promise<ManifestDocumentXml> {
+    const fileData = await this.readFromManifestFile();
+    try {
+      return new ManifestDocumentXml(fileData);
+    } catch (err) {
+      throw new Error(`Unable to parse the manifest file: ${this.manifestPath}. \n${err}`);
+    }
+  }
+
   async readFromManifestFile(): Promise<string> {
     try {
       const fileData: string = await util.promisify(fs.readFile)(this.manifestPath, {
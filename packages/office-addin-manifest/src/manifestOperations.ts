@@ -1,7 +1,9 @@
 // copyright (c) Microsoft Corporation. All rights reserved.
 // licensed under the MIT license.
 
+import path from "path";
 import { usageDataObject } from "./defaults";
+import { ManifestDocument } from "./manifestDocument/manifestDocument";
 import { ManifestHandler } from "./manifestHandler/manifestHandler";
 import { ManifestInfo } from "./manifestInfo";
 import { ManifestHandlerJson } from "./manifestHandler/manifestHandlerJson";
@@ -34,6 +36,19 @@ export namespace OfficeAddinManifest {
     }
   }
 
+  /**
+   * Reads the manifest as an editable document.
+   * @param manifestPath Path to the manifest file.
+   */
+  export async function readManifestDocument(manifestPath: string): Promise<ManifestDocument> {
+    if (manifestPath) {
+      const manifestHandler: ManifestHandler = await getManifestHandler(manifestPath);
+      return manifestHandler.readManifestDocument();
+    } else {
+      throw new Error(`Please provide the path to the manifest file.`);
+    }
+  }
+
   export async function readManifestFile(manifestPath: string): Promise<ManifestInfo> {
     if (manifestPath) {
       const manifestHandler: ManifestHandler = await getManifestHandler(manifestPath);
@@ -43,13 +58,41 @@ export namespace OfficeAddinManifest {
       throw new Error(`Please provide the path to the manifest file.`);
     }
   }
+
+  /**
+   * Writes the document to the manifest file.
+   * @param manifestPath Path to the manifest file.
+   * @param manifestDocument The manifest document, which must have the same format as the file.
+   */
+  export async function writeManifestDocument(
+    manifestPath: string,
+    manifestDocument: ManifestDocument
+  ): Promise<void> {
+    if (manifestPath) {
+      const manifestHandler: ManifestHandler = await getManifestHandler(manifestPath);
+      if (path.extname(manifestPath).toLowerCase() !== `.${manifestDocument.manifestType}`) {
+        throw new Error(
+          `The manifest file ${manifestPath} is not a ${manifestDocument.manifestType} file.`
+        );
+      }
+      await manifestHandler.writeManifestDocument(manifestDocument);
+    } else {
+      throw new Error(`Please provide the path to the manifest file.`);
+    }
+  }
 }
 
-async function getManifestHandler(manifestPath: string): Promise<ManifestHandler> {
+/**
+ * Returns the manifest handler for the format of the manifest file.
+ * @param manifestPath Path to the manifest file.
+ */
+export async function getManifestHandler(manifestPath: string): Promise<ManifestHandler> {
+  // the extension is compared ignoring case, as in transformManifest()
+  const manifestExtension: string = path.extname(manifestPath).toLowerCase();
   let manifestHandler: ManifestHandler;
-  if (manifestPath.endsWith(".json")) {
+  if (manifestExtension === ".json") {
     manifestHandler = new ManifestHandlerJson(manifestPath);
-  } else if (manifestPath.endsWith(".xml")) {
+  } else if (manifestExtension === ".xml") {
     manifestHandler = new ManifestHandlerXml(manifestPath);
   } else {
     const extension: string = manifestPath.split(".").pop() ?? "<no extension>";
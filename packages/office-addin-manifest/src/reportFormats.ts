@@ -0,0 +1,305 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import path from "path";
+import xml2js from "xml2js";
+import { ExpectedError } from "office-addin-usage-data";
+import { ManifestValidation, ManifestValidationIssue } from "./validate";
+
+/* global process */
+
+/**
+ * The output formats for the manifest validation results.
+ */
+export enum ValidationReportFormat {
+  // the string values should be lowercase
+  JSON = "json",
+  JUnit = "junit",
+  Sarif = "sarif",
+  Text = "text",
+}
+
+/**
+ * The issues which cause validation to fail.
+ */
+export enum ValidationFailureLevel {
+  // the string values should be lowercase
+  Error = "error",
+  None = "none",
+  Warning = "warning",
+}
+
+type IssueSeverity = "error" | "warning" | "note";
+
+/**
+ * Converts the string to the ValidationReportFormat enum value.
+ * @param value string
+ * @throws ExpectedError if the value is not a valid format.
+ */
+export function parseValidationReportFormat(value: string): ValidationReportFormat {
+  const format = Object.values(ValidationReportFormat).find(
+    (item) => item === value.trim().toLowerCase()
+  );
+
+  if (!format) {
+    throw new ExpectedError(
+      `"${value}" is not a valid format. Use one of: ${Object.values(ValidationReportFormat).join(", ")}.`
+    );
+  }
+
+  return format;
+}
+
+/**
+ * Converts the string to the ValidationFailureLevel enum value.
+ * @param value string
+ * @throws ExpectedError if the value is not a valid failure level.
+ */
+export function parseValidationFailureLevel(value: string): ValidationFailureLevel {
+  const level = Object.values(ValidationFailureLevel).find(
+    (item) => item === value.trim().toLowerCase()
+  );
+
+  if (!level) {
+    throw new ExpectedError(
+      `"${value}" is not a valid severity. Use one of: ${Object.values(ValidationFailureLevel).join(", ")}.`
+    );
+  }
+
+  return level;
+}
+
+/**
+ * Returns whether the validation failed, based on the issues which should cause a failure.
+ * @param validation The manifest validation results.
+ * @param failOn The issues which cause a failure.
+ */
+export function isValidationFailure(
+  validation: ManifestValidation,
+  failOn: ValidationFailureLevel = ValidationFailureLevel.Error
+): boolean {
+  if (validation.status && validation.status != 200) {
+    // the manifest could not be validated
+    return true;
+  }
+
+  switch (failOn) {
+    case ValidationFailureLevel.None:
+      return false;
+    case ValidationFailureLevel.Warning:
+      return !validation.isValid || (validation.report?.warnings ?? []).length > 0;
+    default:
+      return !validation.isValid;
+  }
+}
+
+/**
+ * Returns the validation results for a manifest which could not be validated, such as when the
+ * manifest file cannot be read, so that the failure can be written in any of the formats.
+ * @param err The error which prevented the validation.
+ */
+export function getValidationForError(err: any): ManifestValidation {
+  const validation: ManifestValidation = new ManifestValidation();
+  validation.report = {
+    errors: [
+      {
+        code: "ManifestValidation",
+        title: "Unable to validate the manifest",
+        content: err instanceof Error ? err.message : `${err}`,
+      },
+    ],
+  };
+  return validation;
+}
+
+function getIssues(
+  validation: ManifestValidation
+): { issue: ManifestValidationIssue; severity: IssueSeverity }[] {
+  const report = validation.report;
+  return [
+    ...(report?.errors ?? []).map((issue) => ({ issue, severity: "error" as IssueSeverity })),
+    ...(report?.warnings ?? []).map((issue) => ({ issue, severity: "warning" as IssueSeverity })),
+    ...(report?.notes ?? []).map((issue) => ({ issue, severity: "note" as IssueSeverity })),
+  ];
+}
+
+function getIssueMessage(issue: ManifestValidationIssue): string {
+  return [issue.title, issue.content].filter((text) => text).join(": ");
+}
+
+function getRelativeUri(manifestPath: string): string {
+  return path.relative(process.cwd(), path.resolve(manifestPath)).split(path.sep).join("/");
+}
+
+/**
+ * Returns the validation results as JSON.
+ * @param validation The manifest validation results.
+ * @param manifestPath Path to the manifest file.
+ */
+export function formatValidationAsJson(
+  validation: ManifestValidation,
+  manifestPath: string
+): string {
+  return JSON.stringify({ manifestPath, ...validation }, null, 2);
+}
+
+/**
+ * Returns the validation results in the Static Analysis Results Interchange Format (SARIF) 2.1.0.
+ * @param validation The manifest validation results.
+ * @param manifestPath Path to the manifest file.
+ */
+export function formatValidationAsSarif(
+  validation: ManifestValidation,
+  manifestPath: string
+): string {
+  const issues = getIssues(validation);
+  const rules: any[] = [];
+  const uri: string = getRelativeUri(manifestPath);
+
+  const results = issues.map(({ issue, severity }) => {
+    const ruleId: string = issue.code || "ManifestValidation";
+
+    if (!rules.some((rule) => rule.id === ruleId)) {
+      rules.push({
+        id: ruleId,
+        shortDescription: { text: (issue.code && issue.title) || "Manifest validation" },
+        helpUri: issue.helpUrl,
+      });
+    }
+
+    const region = issue.line ? { startLine: issue.line, startColumn: issue.column } : undefined;
+    return {
+      ruleId,
+      level: severity,
+      message: { text: getIssueMessage(issue) },
+      locations: [{ physicalLocation: { artifactLocation: { uri }, region } }],
+    };
+  });
+
+  if (validation.status && validation.status != 200) {
+    results.push({
+      ruleId: "ManifestValidation",
+      level: "error",
+      message: {
+        text: `Unable to validate the manifest. ${validation.status} ${validation.statusText}`,
+      },
+      locations: [{ physicalLocation: { artifactLocation: { uri }, region: undefined } }],
+    });
+  }
+
+  const sarif = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "office-addin-manifest",
+            informationUri: "https://github.com/OfficeDev/Office-Addin-Scripts",
+            rules,
+          },
+        },
+        results,
+      },
+    ],
+  };
+
+  return JSON.stringify(sarif, null, 2);
+}
+
+/**
+ * Returns the validation results as a JUnit XML report. Each error, and each warning when
+ * warnings cause a failure, is a failed test case.
+ * @param validation The manifest validation results.
+ * @param manifestPath Path to the manifest file.
+ * @param failOn The issues which cause a failure.
+ */
+export function formatValidationAsJUnit(
+  validation: ManifestValidation,
+  manifestPath: string,
+  failOn: ValidationFailureLevel = ValidationFailureLevel.Error
+): string {
+  const uri: string = getRelativeUri(manifestPath);
+  const issues = getIssues(validation).filter(({ severity }) => severity !== "note");
+  const counts = { error: 0, warning: 0, note: 0 };
+  let failures: number = 0;
+
+  const testCases = issues.map(({ issue, severity }) => {
+    const location: string = issue.line ? ` (line ${issue.line}, column ${issue.column})` : "";
+    const number: number = ++counts[severity];
+    const testCase: any = {
+      $: {
+        classname: uri,
+        name: `${severity === "error" ? "Error" : "Warning"} #${number}: ${issue.code || issue.title}${location}`,
+        file: uri,
+        line: issue.line,
+      },
+    };
+    const isFailure: boolean =
+      failOn !== ValidationFailureLevel.None &&
+      (severity === "error" || failOn === ValidationFailureLevel.Warning);
+
+    if (isFailure) {
+      ++failures;
+      testCase.failure = {
+        $: { type: severity, message: getIssueMessage(issue) },
+        _: [getIssueMessage(issue), issue.helpUrl].filter((text) => text).join("\n"),
+      };
+    } else {
+      testCase["system-out"] = getIssueMessage(issue);
+    }
+    return testCase;
+  });
+
+  if (validation.status && validation.status != 200) {
+    ++failures;
+    testCases.push({
+      $: { classname: uri, name: "Manifest validation", file: uri, line: undefined },
+      failure: {
+        $: { type: "error", message: "Unable to validate the manifest." },
+        _: `${validation.status} ${validation.statusText}`,
+      },
+    });
+  } else if (testCases.length === 0) {
+    testCases.push({
+      $: { classname: uri, name: "Manifest validation", file: uri, line: undefined },
+    });
+  }
+
+  const junit = {
+    testsuites: {
+      $: { name: "office-addin-manifest validate", tests: testCases.length, failures },
+      testsuite: {
+        $: { name: uri, tests: testCases.length, failures, errors: 0 },
+        testcase: testCases,
+      },
+    },
+  };
+
+  return new xml2js.Builder().buildObject(junit);
+}
+
+/**
+ * Returns the validation results in the specified format.
+ * @param validation The manifest validation results.
+ * @param manifestPath Path to the manifest file.
+ * @param format Output format. The text format is written by the validate command itself.
+ * @param failOn The issues which cause a failure.
+ */
+export function formatValidation(
+  validation: ManifestValidation,
+  manifestPath: string,
+  format: ValidationReportFormat,
+  failOn: ValidationFailureLevel = ValidationFailureLevel.Error
+): string {
+  switch (format) {
+    case ValidationReportFormat.JSON:
+      return formatValidationAsJson(validation, manifestPath);
+    case ValidationReportFormat.JUnit:
+      return formatValidationAsJUnit(validation, manifestPath, failOn);
+    case ValidationReportFormat.Sarif:
+      return formatValidationAsSarif(validation, manifestPath);
+    default:
+      throw new Error(`The format "${format}" is not supported.`);
+  }
+}
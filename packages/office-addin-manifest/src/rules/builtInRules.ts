@@ -0,0 +1,464 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import fs from "fs";
+import fetch from "node-fetch";
+import path from "path";
+import { ManifestNamespace } from "../schemas/schemaDefinition";
+import { getXmlNodeAttributeValue, getXmlNodeDescendants, XmlNode } from "../xmlNode";
+import {
+  ManifestRule,
+  ManifestRuleContext,
+  ManifestRuleResult,
+  ManifestRuleSeverity,
+} from "./manifestRule";
+
+/* global URL */
+
+/**
+ * A url found in the manifest along with where it was found.
+ */
+interface ManifestUrl {
+  url: string;
+  column?: number;
+  line?: number;
+  location: string;
+  /** True for the SourceLocation of a page of the add-in, whose host does not need to be in AppDomains. */
+  isAddInPage?: boolean;
+}
+
+const outlookExtensionPoints: string[] = [
+  "AppointmentAttendeeCommandSurface",
+  "AppointmentOrganizerCommandSurface",
+  "DetectedEntity",
+  "Events",
+  "LaunchEvent",
+  "MessageComposeCommandSurface",
+  "MessageReadCommandSurface",
+  "MobileLogEventAppointmentAttendee",
+  "MobileMessageReadCommandSurface",
+  "MobileOnlineMeetingCommandSurface",
+  "Module",
+  "OnlineMeetingCommandSurface",
+  "ReportPhishingCommandSurface",
+  "SpamReportingCommandSurface",
+];
+
+const outlookOnlyElements: string[] = ["DisableEntityHighlighting", "FormSettings", "Rule"];
+
+const outlookRibbonContexts: string[] = [
+  "logEventMeetingDetailsAttendee",
+  "mailCompose",
+  "mailRead",
+  "meetingDetailsAttendee",
+  "meetingDetailsOrganizer",
+  "onlineMeetingDetailsOrganizer",
+  "spamReportingOverride",
+];
+
+function getHostName(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+function getAppDomainHostName(appDomain: string): string {
+  return getHostName(appDomain) ?? appDomain.trim().toLowerCase();
+}
+
+function getXsiType(node: XmlNode): string | undefined {
+  const xsiType = getXmlNodeAttributeValue(node, "type", ManifestNamespace.XmlSchemaInstance);
+  return xsiType ? xsiType.split(":").pop() : undefined;
+}
+
+/**
+ * Returns the urls for the DefaultValue and Override values of the element.
+ */
+function getLocalizedXmlUrls(node: XmlNode): ManifestUrl[] {
+  const urls: ManifestUrl[] = [];
+  const defaultValue = getXmlNodeAttributeValue(node, "DefaultValue");
+
+  if (defaultValue) {
+    urls.push({
+      url: defaultValue,
+      line: node.line,
+      column: node.column,
+      location: node.localName,
+    });
+  }
+  node.children
+    .filter((child) => child.localName === "Override")
+    .forEach((override) => {
+      const value = getXmlNodeAttributeValue(override, "Value");
+      if (value) {
+        urls.push({
+          url: value,
+          line: override.line,
+          column: override.column,
+          location: node.localName,
+        });
+      }
+    });
+
+  return urls;
+}
+
+/**
+ * Returns the resources with the specified element name (for example, "Url" or "Image") by resource id.
+ */
+function getXmlResources(root: XmlNode, resourceName: string): Map<string, XmlNode> {
+  const resources = new Map<string, XmlNode>();
+
+  getXmlNodeDescendants(root)
+    .filter(
+      (node) => node.localName === resourceName && node.namespace === ManifestNamespace.BasicTypes
+    )
+    .forEach((node) => {
+      const id = getXmlNodeAttributeValue(node, "id");
+      if (id && node.parent?.parent?.localName === "Resources" && !resources.has(id)) {
+        resources.set(id, node);
+      }
+    });
+
+  return resources;
+}
+
+function hasXmlAncestor(node: XmlNode, localName: string): boolean {
+  for (let ancestor = node.parent; ancestor; ancestor = ancestor.parent) {
+    if (ancestor.localName === localName) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Returns the urls of every SourceLocation. The SourceLocations which are not in VersionOverrides,
+ * such as in DefaultSettings and FormSettings, are the pages of the add-in.
+ */
+function getXmlSourceLocations(root: XmlNode): ManifestUrl[] {
+  const urlResources = getXmlResources(root, "Url");
+  const urls: ManifestUrl[] = [];
+
+  getXmlNodeDescendants(root)
+    .filter((node) => node.localName === "SourceLocation")
+    .forEach((node) => {
+      const resid = getXmlNodeAttributeValue(node, "resid");
+      const resource = resid ? urlResources.get(resid) : undefined;
+      const isAddInPage = !hasXmlAncestor(node, "VersionOverrides");
+      getLocalizedXmlUrls(resource ?? node).forEach((url) => urls.push({ ...url, isAddInPage }));
+    });
+
+  return urls;
+}
+
+function getJsonSourceLocations(json: any): ManifestUrl[] {
+  const urls: ManifestUrl[] = [];
+
+  (json?.extensions ?? []).forEach((extension: any, extensionIndex: number) => {
+    (extension?.runtimes ?? []).forEach((runtime: any, runtimeIndex: number) => {
+      ["page", "script"].forEach((codeProperty) => {
+        const url = runtime?.code?.[codeProperty];
+        if (typeof url === "string") {
+          urls.push({
+            url,
+            location: `extensions[${extensionIndex}].runtimes[${runtimeIndex}].code.${codeProperty}`,
+            // json manifests do not have default settings, so every runtime page is a page of the add-in
+            isAddInPage: codeProperty === "page",
+          });
+        }
+      });
+    });
+  });
+
+  return urls;
+}
+
+/**
+ * Returns all of the string values in the json along with the path to each value.
+ */
+function getJsonStrings(json: any, jsonPath: string = ""): ManifestUrl[] {
+  const strings: ManifestUrl[] = [];
+
+  if (typeof json === "string") {
+    strings.push({ url: json, location: jsonPath });
+  } else if (Array.isArray(json)) {
+    json.forEach((item, index) => strings.push(...getJsonStrings(item, `${jsonPath}[${index}]`)));
+  } else if (json && typeof json === "object") {
+    Object.keys(json).forEach((key) =>
+      strings.push(...getJsonStrings(json[key], jsonPath ? `${jsonPath}.${key}` : key))
+    );
+  }
+
+  return strings;
+}
+
+function toResult(manifestUrl: ManifestUrl, message: string): ManifestRuleResult {
+  return { message, line: manifestUrl.line, column: manifestUrl.column };
+}
+
+export const sourceLocationAppDomainsRule: ManifestRule = {
+  id: "source-location-app-domains",
+  description: "SourceLocation hosts should be listed in AppDomains",
+  severity: ManifestRuleSeverity.Warning,
+  helpUrl: "https://learn.microsoft.com/javascript/api/manifest/appdomains",
+  check(context: ManifestRuleContext): ManifestRuleResult[] {
+    const appDomains: string[] = (context.manifest.appDomains ?? []).map(getAppDomainHostName);
+    const sourceLocations: ManifestUrl[] = context.xml
+      ? getXmlSourceLocations(context.xml)
+      : getJsonSourceLocations(context.json);
+    // the hosts of the pages of the add-in do not need to be listed
+    const addInHostNames = new Set<string | undefined>(
+      sourceLocations
+        .filter((sourceLocation) => sourceLocation.isAddInPage)
+        .map((sourceLocation) => getHostName(sourceLocation.url))
+    );
+    const reported = new Set<string>();
+    const results: ManifestRuleResult[] = [];
+
+    sourceLocations.forEach((sourceLocation) => {
+      const hostName = getHostName(sourceLocation.url);
+      if (
+        hostName &&
+        !addInHostNames.has(hostName) &&
+        !appDomains.includes(hostName) &&
+        !reported.has(hostName)
+      ) {
+        reported.add(hostName);
+        results.push(
+          toResult(
+            sourceLocation,
+            `The host "${hostName}" of the ${sourceLocation.location} "${sourceLocation.url}" is not listed in the AppDomains.`
+          )
+        );
+      }
+    });
+
+    return results;
+  },
+};
+
+export const noHttpUrlsRule: ManifestRule = {
+  id: "no-http-urls",
+  description: "Urls must use https in production",
+  severity: ManifestRuleSeverity.Error,
+  helpUrl:
+    "https://learn.microsoft.com/office/dev/add-ins/concepts/requirements-for-running-office-add-ins",
+  check(context: ManifestRuleContext): ManifestRuleResult[] {
+    if (!context.production) {
+      return [];
+    }
+
+    const isHttpUrl = (value: string) => /^http:\/\//i.test(value.trim());
+    const results: ManifestRuleResult[] = [];
+
+    if (context.xml) {
+      getXmlNodeDescendants(context.xml).forEach((node) => {
+        node.attributes
+          .filter((attribute) => attribute.namespace === "" && isHttpUrl(attribute.value))
+          .forEach((attribute) =>
+            results.push({
+              message: `The ${node.localName} ${attribute.name} "${attribute.value}" does not use https.`,
+              line: node.line,
+              column: node.column,
+            })
+          );
+        if (node.children.length === 0 && isHttpUrl(node.text)) {
+          results.push({
+            message: `The ${node.localName} "${node.text.trim()}" does not use https.`,
+            line: node.line,
+            column: node.column,
+          });
+        }
+      });
+    } else {
+      getJsonStrings(context.json)
+        .filter((item) => !item.location.startsWith("$schema") && isHttpUrl(item.url))
+        .forEach((item) =>
+          results.push({ message: `The ${item.location} "${item.url}" does not use https.` })
+        );
+    }
+
+    return results;
+  },
+};
+
+export const iconUrlsRule: ManifestRule = {
+  id: "icon-urls-reachable",
+  description: "Icon urls must return an image",
+  severity: ManifestRuleSeverity.Warning,
+  helpUrl: "https://learn.microsoft.com/javascript/api/manifest/iconurl",
+  requiresNetwork: true,
+  async check(context: ManifestRuleContext): Promise<ManifestRuleResult[]> {
+    const icons: ManifestUrl[] = [];
+
+    if (context.xml) {
+      getXmlNodeDescendants(context.xml)
+        .filter(
+          (node) =>
+            ((node.localName === "IconUrl" || node.localName === "HighResolutionIconUrl") &&
+              node.namespace === ManifestNamespace.OfficeApp) ||
+            (node.localName === "Image" && node.parent?.localName === "Images")
+        )
+        .forEach((node) => icons.push(...getLocalizedXmlUrls(node)));
+    } else {
+      ["color", "outline"].forEach((name) => {
+        const icon = context.json?.icons?.[name];
+        if (typeof icon === "string") {
+          icons.push({ url: icon, location: `icons.${name}` });
+        }
+      });
+      getJsonStrings(context.json?.extensions, "extensions")
+        .filter((item) => /\.icons\[\d+\]\.url$/.test(item.location))
+        .forEach((item) => icons.push(item));
+    }
+
+    const checked = new Map<string, string | undefined>();
+    const results: ManifestRuleResult[] = [];
+
+    for (const icon of icons) {
+      if (!checked.has(icon.url)) {
+        checked.set(icon.url, await getIconProblem(icon.url, path.dirname(context.manifestPath)));
+      }
+      const problem = checked.get(icon.url);
+      if (problem) {
+        results.push(toResult(icon, `The ${icon.location} "${icon.url}" ${problem}.`));
+      }
+    }
+
+    return results;
+  },
+};
+
+async function getIconProblem(url: string, manifestFolder: string): Promise<string | undefined> {
+  if (!/^https?:\/\//i.test(url)) {
+    const filePath = path.resolve(manifestFolder, url);
+    if (!fs.existsSync(filePath)) {
+      return "does not exist";
+    }
+    return fs.statSync(filePath).size === 0 ? "is empty" : undefined;
+  }
+
+  try {
+    const response = await fetch(url, { timeout: 10000 });
+    if (!response.ok) {
+      return `returned ${response.status} ${response.statusText}`;
+    }
+    const body = await response.buffer();
+    return body.length === 0 ? "returned no content" : undefined;
+  } catch (err) {
+    return `could not be retrieved (${err})`;
+  }
+}
+
+export const uniqueResourceIdsRule: ManifestRule = {
+  id: "unique-resource-ids",
+  description: "Resource ids in VersionOverrides must be unique",
+  severity: ManifestRuleSeverity.Error,
+  helpUrl: "https://learn.microsoft.com/javascript/api/manifest/resources",
+  check(context: ManifestRuleContext): ManifestRuleResult[] {
+    const results: ManifestRuleResult[] = [];
+
+    if (context.xml) {
+      getXmlNodeDescendants(context.xml)
+        .filter((node) => node.localName === "Resources")
+        .forEach((resources) => {
+          resources.children.forEach((collection) => {
+            const ids = new Set<string>();
+            collection.children.forEach((resource) => {
+              const id = getXmlNodeAttributeValue(resource, "id");
+              if (id !== undefined) {
+                if (ids.has(id)) {
+                  results.push({
+                    message: `The resource id "${id}" is used more than once in ${collection.localName}.`,
+                    line: resource.line,
+                    column: resource.column,
+                  });
+                }
+                ids.add(id);
+              }
+            });
+          });
+        });
+    }
+
+    return results;
+  },
+};
+
+export const hostSpecificElementsRule: ManifestRule = {
+  id: "host-specific-elements",
+  description: "Outlook elements can only be used for Outlook add-ins",
+  severity: ManifestRuleSeverity.Error,
+  helpUrl: "https://learn.microsoft.com/javascript/api/manifest/extensionpoint",
+  check(context: ManifestRuleContext): ManifestRuleResult[] {
+    const results: ManifestRuleResult[] = [];
+
+    if (context.xml) {
+      const isMailApp: boolean = context.manifest.officeAppType === "MailApp";
+
+      context.xml.children
+        .filter((node) => !isMailApp && outlookOnlyElements.includes(node.localName))
+        .forEach((node) =>
+          results.push({
+            message: `The ${node.localName} element is only supported for Outlook add-ins.`,
+            line: node.line,
+            column: node.column,
+          })
+        );
+
+      getXmlNodeDescendants(context.xml)
+        .filter((node) => node.localName === "Host" && getXsiType(node) !== undefined)
+        .forEach((host) => {
+          const hostType = getXsiType(host);
+          getXmlNodeDescendants(host)
+            .filter((node) => node.localName === "ExtensionPoint")
+            .forEach((extensionPoint) => {
+              const extensionPointType = getXsiType(extensionPoint) ?? "";
+              if (hostType !== "MailHost" && outlookExtensionPoints.includes(extensionPointType)) {
+                results.push({
+                  message: `The ${extensionPointType} extension point is only supported for Outlook but is used for the ${hostType} host.`,
+                  line: extensionPoint.line,
+                  column: extensionPoint.column,
+                });
+              }
+            });
+        });
+    } else {
+      (context.json?.extensions ?? []).forEach((extension: any, extensionIndex: number) => {
+        const scopes: string[] = extension?.requirements?.scopes ?? [];
+        if (scopes.length > 0 && !scopes.includes("mail")) {
+          (extension?.ribbons ?? []).forEach((ribbon: any, ribbonIndex: number) => {
+            (ribbon?.contexts ?? [])
+              .filter((ribbonContext: string) => outlookRibbonContexts.includes(ribbonContext))
+              .forEach((ribbonContext: string) =>
+                results.push({
+                  message: `The ribbon context "${ribbonContext}" in extensions[${extensionIndex}].ribbons[${ribbonIndex}] is only supported for Outlook but the scopes are: ${scopes.join(", ")}.`,
+                })
+              );
+          });
+          if (extension?.autoRunEvents) {
+            results.push({
+              message: `The autoRunEvents in extensions[${extensionIndex}] are only supported for Outlook but the scopes are: ${scopes.join(", ")}.`,
+            });
+          }
+        }
+      });
+    }
+
+    return results;
+  },
+};
+
+/**
+ * The rules which are run by default.
+ */
+export const builtInRules: ManifestRule[] = [
+  sourceLocationAppDomainsRule,
+  noHttpUrlsRule,
+  iconUrlsRule,
+  uniqueResourceIdsRule,
+  hostSpecificElementsRule,
+];
@@ -0,0 +1,51 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { ManifestInfo } from "../manifestInfo";
+import { XmlNode } from "../xmlNode";
+
+export enum ManifestRuleSeverity {
+  Error = "error",
+  Warning = "warning",
+  Info = "info",
+  Off = "off",
+}
+
+/**
+ * The manifest data that rules check.
+ */
+export interface ManifestRuleContext {
+  /** The parsed manifest info. */
+  manifest: ManifestInfo;
+  manifestPath: string;
+  /** The parsed JSON, for a JSON manifest. */
+  json?: any;
+  /** Rules which need network access are not run when true. */
+  offline: boolean;
+  /** The manifest is checked for use in production. */
+  production: boolean;
+  /** The root element, with line and column numbers, for an XML manifest. */
+  xml?: XmlNode;
+}
+
+/**
+ * A problem found by a manifest rule.
+ */
+export interface ManifestRuleResult {
+  message: string;
+  column?: number;
+  line?: number;
+}
+
+export interface ManifestRule {
+  /** Unique identifier for the rule, such as "no-http-urls". */
+  id: string;
+  /** Short description of what the rule checks. */
+  description: string;
+  /** The severity used when not specified in the rules config. */
+  severity: ManifestRuleSeverity;
+  helpUrl?: string;
+  /** The rule makes network requests. */
+  requiresNetwork?: boolean;
+  check(context: ManifestRuleContext): ManifestRuleResult[] | Promise<ManifestRuleResult[]>;
+}
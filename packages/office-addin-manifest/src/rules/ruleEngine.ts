@@ -0,0 +1,211 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import fs from "fs";
+import path from "path";
+import util from "util";
+import { ManifestInfo, ManifestType } from "../manifestInfo";
+import { OfficeAddinManifest } from "../manifestOperations";
+import { ManifestValidationIssue, ManifestValidationReport } from "../validate";
+import { parseXmlNodes } from "../xmlNode";
+import { builtInRules } from "./builtInRules";
+import {
+  ManifestRule,
+  ManifestRuleContext,
+  ManifestRuleResult,
+  ManifestRuleSeverity,
+} from "./manifestRule";
+
+/* global require */
+
+const readFileAsync = util.promisify(fs.readFile);
+
+/**
+ * The contents of a manifest rules config file.
+ * @example
+ * {
+ *   "rules": { "icon-urls-reachable": "off", "source-location-app-domains": "error" },
+ *   "customRules": ["./manifest-rules/my-rule.js"]
+ * }
+ */
+export interface ManifestRulesConfig {
+  /** The severity for each rule id. Use "off" to not run a rule. */
+  rules?: { [id: string]: ManifestRuleSeverity };
+  /** Paths, relative to the config file, to modules which export additional rules. */
+  customRules?: string[];
+}
+
+export interface ManifestRuleOptions {
+  /** Path to a rules config file. */
+  configPath?: string;
+  /** Do not run rules which need network access. */
+  offline?: boolean;
+  /** Check the manifest for use in production. */
+  production?: boolean;
+  /** Rules to run instead of the built-in rules. */
+  rules?: ManifestRule[];
+}
+
+function isManifestRule(value: any): value is ManifestRule {
+  return value && typeof value.id === "string" && typeof value.check === "function";
+}
+
+function isValidSeverity(value: any): value is ManifestRuleSeverity {
+  return Object.values(ManifestRuleSeverity).includes(value);
+}
+
+/**
+ * Loads the rules exported by a module. The module can export an array of rules, a single rule,
+ * or an object with a "rules" property which is an array of rules.
+ * @param modulePath Path to the module.
+ */
+export function loadCustomRules(modulePath: string): ManifestRule[] {
+  const exported = require(path.resolve(modulePath));
+  const candidate = exported?.rules ?? exported?.default ?? exported;
+  const rules: any[] = Array.isArray(candidate) ? candidate : [candidate];
+
+  if (rules.length === 0 || !rules.every(isManifestRule)) {
+    throw new Error(`The module "${modulePath}" does not export manifest rules.`);
+  }
+
+  return rules;
+}
+
+/**
+ * Reads a manifest rules config file.
+ * @param configPath Path to the config file.
+ */
+export async function readManifestRulesConfig(configPath: string): Promise<ManifestRulesConfig> {
+  let config: ManifestRulesConfig;
+
+  try {
+    config = JSON.parse(await readFileAsync(configPath, { encoding: "utf8" }));
+  } catch (err) {
+    throw new Error(`Unable to read the manifest rules config file: ${configPath}.\n${err}`);
+  }
+
+  Object.keys(config.rules ?? {}).forEach((id) => {
+    const severity = config.rules![id];
+    if (!isValidSeverity(severity)) {
+      throw new Error(
+        `The severity "${severity}" for the rule "${id}" is not valid. Use one of: ${Object.values(ManifestRuleSeverity).join(", ")}.`
+      );
+    }
+  });
+
+  return config;
+}
+
+/**
+ * Returns the rules to run, with the severity from the config file.
+ */
+async function getConfiguredRules(
+  options: ManifestRuleOptions
+): Promise<{ rule: ManifestRule; severity: ManifestRuleSeverity }[]> {
+  const rules: ManifestRule[] = [...(options.rules ?? builtInRules)];
+  let config: ManifestRulesConfig = {};
+
+  if (options.configPath) {
+    config = await readManifestRulesConfig(options.configPath);
+    const configFolder = path.dirname(path.resolve(options.configPath));
+    (config.customRules ?? []).forEach((modulePath) =>
+      rules.push(...loadCustomRules(path.resolve(configFolder, modulePath)))
+    );
+  }
+
+  const ids = new Set<string>();
+  rules.forEach((rule) => {
+    if (ids.has(rule.id)) {
+      throw new Error(`There is more than one manifest rule with the id "${rule.id}".`);
+    }
+    ids.add(rule.id);
+  });
+
+  Object.keys(config.rules ?? {}).forEach((id) => {
+    if (!ids.has(id)) {
+      throw new Error(`The rules config specifies the unknown rule "${id}".`);
+    }
+  });
+
+  return rules
+    .map((rule) => ({ rule, severity: config.rules?.[rule.id] ?? rule.severity }))
+    .filter(({ rule, severity }) => {
+      return severity !== ManifestRuleSeverity.Off && !(options.offline && rule.requiresNetwork);
+    });
+}
+
+async function getManifestRuleContext(
+  manifestPath: string,
+  options: ManifestRuleOptions
+): Promise<ManifestRuleContext> {
+  const manifest: ManifestInfo = await OfficeAddinManifest.readManifestFile(manifestPath);
+  const text: string = await readFileAsync(manifestPath, { encoding: "utf8" });
+  const context: ManifestRuleContext = {
+    manifest,
+    manifestPath,
+    offline: options.offline ?? false,
+    production: options.production ?? false,
+  };
+
+  if (manifest.manifestType === ManifestType.JSON) {
+    context.json = JSON.parse(text);
+  } else {
+    context.xml = parseXmlNodes(text);
+  }
+
+  return context;
+}
+
+function toIssue(rule: ManifestRule, result: ManifestRuleResult): ManifestValidationIssue {
+  const issue: ManifestValidationIssue = new ManifestValidationIssue();
+  issue.code = rule.id;
+  issue.title = rule.description;
+  issue.content = result.message;
+  issue.helpUrl = rule.helpUrl;
+  issue.line = result.line;
+  issue.column = result.column;
+  return issue;
+}
+
+/**
+ * Runs the manifest rules and returns the issues found as a validation report.
+ * @param manifestPath Path to the manifest file.
+ * @param options Rule options.
+ */
+export async function runManifestRules(
+  manifestPath: string,
+  options: ManifestRuleOptions = {}
+): Promise<ManifestValidationReport> {
+  const rules = await getConfiguredRules(options);
+  const context: ManifestRuleContext = await getManifestRuleContext(manifestPath, options);
+  const report: ManifestValidationReport = new ManifestValidationReport();
+  report.errors = [];
+  report.warnings = [];
+  report.notes = [];
+
+  for (const { rule, severity } of rules) {
+    let results: ManifestRuleResult[];
+
+    try {
+      results = await rule.check(context);
+    } catch (err) {
+      throw new Error(`The manifest rule "${rule.id}" failed.\n${err}`);
+    }
+
+    const issues: ManifestValidationIssue[] = results.map((result) => toIssue(rule, result));
+    switch (severity) {
+      case ManifestRuleSeverity.Error:
+        report.errors.push(...issues);
+        break;
+      case ManifestRuleSeverity.Warning:
+        report.warnings.push(...issues);
+        break;
+      default:
+        report.notes.push(...issues);
+        break;
+    }
+  }
+
+  report.status = report.errors.length === 0 ? "Accepted" : "Rejected";
+  return report;
+}
@@ -0,0 +1,240 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import {
+  anyType,
+  booleanType,
+  cultureNameType,
+  ElementDefinition,
+  enumerationType,
+  guidType,
+  localizableType,
+  longStringType,
+  ManifestNamespace,
+  shortStringType,
+  stringType,
+  TypeDefinition,
+  unbounded,
+  unsignedIntType,
+  urlType,
+  versionType,
+} from "./schemaDefinition";
+import {
+  contentVersionOverrides,
+  mailVersionOverrides,
+  taskPaneVersionOverrides,
+} from "./versionOverridesSchema";
+
+const hostNameType = enumerationType("HostName", [
+  "Database",
+  "Document",
+  "Mailbox",
+  "Notebook",
+  "Presentation",
+  "Project",
+  "Workbook",
+]);
+
+const requirementsType: TypeDefinition = {
+  children: [
+    {
+      name: "Sets",
+      minOccurs: 0,
+      type: {
+        attributes: [{ name: "DefaultMinVersion", type: versionType }],
+        children: [
+          {
+            name: "Set",
+            maxOccurs: unbounded,
+            type: {
+              attributes: [
+                { name: "Name", required: true, type: stringType("Name", 125) },
+                { name: "MinVersion", type: versionType },
+              ],
+            },
+          },
+        ],
+      },
+    },
+    {
+      name: "Methods",
+      minOccurs: 0,
+      type: {
+        children: [
+          {
+            name: "Method",
+            maxOccurs: unbounded,
+            type: { attributes: [{ name: "Name", required: true, type: stringType("Name", 125) }] },
+          },
+        ],
+      },
+    },
+  ],
+};
+
+/**
+ * Elements which are common to all types of Office Add-ins and appear before the type specific elements.
+ */
+const officeAppBaseChildren: ElementDefinition[] = [
+  { name: "Id", type: { text: guidType } },
+  { name: "AlternateId", minOccurs: 0, type: { text: stringType("AlternateId", 255) } },
+  { name: "Version", type: { text: versionType } },
+  { name: "ProviderName", type: { text: shortStringType } },
+  { name: "DefaultLocale", type: { text: cultureNameType } },
+  { name: "DisplayName", type: localizableType(shortStringType) },
+  { name: "Description", type: localizableType(longStringType) },
+  { name: "IconUrl", minOccurs: 0, type: localizableType(urlType) },
+  { name: "HighResolutionIconUrl", minOccurs: 0, type: localizableType(urlType) },
+  { name: "SupportUrl", minOccurs: 0, type: localizableType(urlType) },
+  {
+    name: "AppDomains",
+    minOccurs: 0,
+    type: {
+      children: [
+        { name: "AppDomain", minOccurs: 0, maxOccurs: unbounded, type: { text: urlType } },
+      ],
+    },
+  },
+  {
+    name: "Hosts",
+    minOccurs: 0,
+    type: {
+      children: [
+        {
+          name: "Host",
+          maxOccurs: unbounded,
+          type: { attributes: [{ name: "Name", required: true, type: hostNameType }] },
+        },
+      ],
+    },
+  },
+];
+
+const documentPermissionsType = enumerationType("Permissions", [
+  "Restricted",
+  "ReadDocument",
+  "ReadAllDocument",
+  "WriteDocument",
+  "ReadWriteDocument",
+]);
+
+const mailPermissionsType = enumerationType("Permissions", [
+  "Restricted",
+  "ReadItem",
+  "ReadWriteItem",
+  "ReadWriteMailbox",
+]);
+
+const extendedOverrides: ElementDefinition = {
+  name: "ExtendedOverrides",
+  minOccurs: 0,
+  type: {
+    attributes: [
+      { name: "Url", required: true, type: urlType },
+      { name: "ResourceUrl", type: urlType },
+    ],
+    lax: true,
+  },
+};
+
+const contentAppChildren: ElementDefinition[] = [
+  { name: "Requirements", minOccurs: 0, type: requirementsType },
+  {
+    name: "DefaultSettings",
+    type: {
+      children: [
+        { name: "SourceLocation", type: localizableType(urlType) },
+        { name: "RequestedWidth", minOccurs: 0, type: { text: unsignedIntType } },
+        { name: "RequestedHeight", minOccurs: 0, type: { text: unsignedIntType } },
+      ],
+    },
+  },
+  { name: "Permissions", type: { text: documentPermissionsType } },
+  { name: "AllowSnapshot", minOccurs: 0, type: { text: booleanType } },
+  contentVersionOverrides,
+];
+
+const mailFormSettingsType: TypeDefinition = {
+  children: [
+    { name: "SourceLocation", type: localizableType(urlType) },
+    { name: "RequestedHeight", minOccurs: 0, type: { text: unsignedIntType } },
+  ],
+};
+
+const mailAppChildren: ElementDefinition[] = [
+  { name: "Requirements", type: requirementsType },
+  {
+    name: "FormSettings",
+    minOccurs: 0,
+    type: {
+      children: [
+        {
+          name: "Form",
+          maxOccurs: unbounded,
+          type: {
+            xsiTypes: {
+              ItemEdit: {
+                children: [
+                  { name: "DesktopSettings", type: mailFormSettingsType },
+                  { name: "TabletSettings", minOccurs: 0, type: mailFormSettingsType },
+                  { name: "PhoneSettings", minOccurs: 0, type: mailFormSettingsType },
+                ],
+              },
+              ItemRead: {
+                children: [
+                  { name: "DesktopSettings", type: mailFormSettingsType },
+                  { name: "TabletSettings", minOccurs: 0, type: mailFormSettingsType },
+                  { name: "PhoneSettings", minOccurs: 0, type: mailFormSettingsType },
+                ],
+              },
+            },
+          },
+        },
+      ],
+    },
+  },
+  { name: "Permissions", type: { text: mailPermissionsType } },
+  {
+    name: "Rule",
+    minOccurs: 0,
+    type: {
+      xsiTypes: {
+        ItemHasAttachment: anyType(),
+        ItemHasKnownEntity: anyType(),
+        ItemHasRegularExpressionMatch: anyType(),
+        ItemIs: anyType(),
+        RuleCollection: anyType(),
+      },
+    },
+  },
+  { name: "DisableEntityHighlighting", minOccurs: 0, type: { text: booleanType } },
+  mailVersionOverrides,
+  extendedOverrides,
+];
+
+const taskPaneAppChildren: ElementDefinition[] = [
+  { name: "Requirements", minOccurs: 0, type: requirementsType },
+  {
+    name: "DefaultSettings",
+    type: { children: [{ name: "SourceLocation", type: localizableType(urlType) }] },
+  },
+  { name: "Permissions", type: { text: documentPermissionsType } },
+  { name: "Dictionary", minOccurs: 0, type: anyType() },
+  taskPaneVersionOverrides,
+  extendedOverrides,
+];
+
+/**
+ * The root element of an Office Add-in XML manifest, for TaskPaneApp, MailApp and ContentApp manifests.
+ */
+export const officeAppSchema: ElementDefinition = {
+  name: "OfficeApp",
+  namespace: ManifestNamespace.OfficeApp,
+  type: {
+    xsiTypes: {
+      ContentApp: { children: [...officeAppBaseChildren, ...contentAppChildren] },
+      MailApp: { children: [...officeAppBaseChildren, ...mailAppChildren] },
+      TaskPaneApp: { children: [...officeAppBaseChildren, ...taskPaneAppChildren] },
+    },
+  },
+};
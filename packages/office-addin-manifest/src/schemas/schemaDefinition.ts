@@ -0,0 +1,164 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+/**
+ * Namespaces used by Office Add-in XML manifests.
+ */
+export enum ManifestNamespace {
+  OfficeApp = "http://schemas.microsoft.com/office/appforoffice/1.1",
+  BasicTypes = "http://schemas.microsoft.com/office/officeappbasictypes/1.0",
+  ContentVersionOverrides = "http://schemas.microsoft.com/office/contentappversionoverrides",
+  MailVersionOverrides = "http://schemas.microsoft.com/office/mailappversionoverrides",
+  MailVersionOverrides1_0 = "http://schemas.microsoft.com/office/mailappversionoverrides/1.0",
+  MailVersionOverrides1_1 = "http://schemas.microsoft.com/office/mailappversionoverrides/1.1",
+  TaskPaneVersionOverrides = "http://schemas.microsoft.com/office/taskpaneappversionoverrides",
+  XmlSchemaInstance = "http://www.w3.org/2001/XMLSchema-instance",
+}
+
+/**
+ * The namespaces of the bundled schemas. Elements in any other namespace (for example, an xml signature)
+ * are not validated, the same as an xs:any element with lax processing.
+ */
+export const schemaNamespaces: string[] = [
+  ManifestNamespace.OfficeApp,
+  ManifestNamespace.BasicTypes,
+  ManifestNamespace.ContentVersionOverrides,
+  ManifestNamespace.MailVersionOverrides,
+  ManifestNamespace.MailVersionOverrides1_0,
+  ManifestNamespace.MailVersionOverrides1_1,
+  ManifestNamespace.TaskPaneVersionOverrides,
+];
+
+/**
+ * A simple type restricts the text value of an element or attribute.
+ */
+export interface SimpleType {
+  name: string;
+  enumeration?: string[];
+  maxLength?: number;
+  minLength?: number;
+  pattern?: RegExp;
+}
+
+export interface AttributeDefinition {
+  name: string;
+  required?: boolean;
+  type?: SimpleType;
+}
+
+/**
+ * Describes the content allowed for an element.
+ */
+export interface TypeDefinition {
+  attributes?: AttributeDefinition[];
+  /** Child elements, in the order they must appear unless `unordered` is set. */
+  children?: ElementDefinition[];
+  /** Child elements which are not defined are allowed and are not validated. */
+  lax?: boolean;
+  /** Text content of the element. */
+  text?: SimpleType;
+  /** Child elements may appear in any order. */
+  unordered?: boolean;
+  /** Types derived from this type which can be specified using the xsi:type attribute. */
+  xsiTypes?: { [name: string]: TypeDefinition };
+}
+
+export interface ElementDefinition {
+  name: string;
+  maxOccurs?: number;
+  minOccurs?: number;
+  /** The namespace of the element. If not specified, it is the same as the parent element. */
+  namespace?: string;
+  type: TypeDefinition;
+}
+
+export const unbounded: number = Number.POSITIVE_INFINITY;
+
+/**
+ * Returns a simple type which is a string with a maximum length.
+ */
+export function stringType(name: string, maxLength: number, minLength: number = 1): SimpleType {
+  return { name, maxLength, minLength };
+}
+
+/**
+ * Returns a simple type which only allows the specified values.
+ */
+export function enumerationType(name: string, values: string[]): SimpleType {
+  return { name, enumeration: values };
+}
+
+export const booleanType: SimpleType = enumerationType("boolean", ["true", "false", "1", "0"]);
+export const cultureNameType: SimpleType = {
+  name: "CultureName",
+  pattern: /^[a-zA-Z]{1,8}(-[a-zA-Z0-9]{1,8})*$/,
+};
+export const guidType: SimpleType = {
+  name: "UUID",
+  pattern: /^\{?[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}\}?$/,
+};
+export const idType: SimpleType = stringType("ShortString", 125);
+export const longStringType: SimpleType = stringType("LongString", 250);
+export const residType: SimpleType = stringType("ShortResourceId", 32);
+export const shortStringType: SimpleType = stringType("ShortString", 125);
+export const unsignedIntType: SimpleType = { name: "unsignedInt", pattern: /^\d+$/ };
+export const urlType: SimpleType = stringType("URL", 2048);
+export const versionType: SimpleType = {
+  name: "Version",
+  pattern: /^\d{1,5}(\.\d{1,5}){0,3}$/,
+};
+
+/**
+ * Returns a type for an element whose value is specified by the DefaultValue attribute
+ * and which can be localized using Override elements.
+ */
+export function localizableType(valueType: SimpleType): TypeDefinition {
+  return {
+    attributes: [{ name: "DefaultValue", required: true, type: valueType }],
+    children: [
+      {
+        name: "Override",
+        minOccurs: 0,
+        maxOccurs: unbounded,
+        type: {
+          attributes: [
+            { name: "Locale", required: true, type: cultureNameType },
+            { name: "Value", required: true, type: valueType },
+          ],
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Returns a type for an element which refers to a resource using the resid attribute.
+ */
+export function resourceReferenceType(): TypeDefinition {
+  return { attributes: [{ name: "resid", required: true, type: residType }] };
+}
+
+/**
+ * Returns a type which allows any content.
+ */
+export function anyType(attributes?: AttributeDefinition[]): TypeDefinition {
+  return { attributes, lax: true, unordered: true };
+}
+
+/**
+ * Returns the message explaining why the value is not valid for the simple type, or undefined if it is valid.
+ */
+export function checkSimpleTypeValue(value: string, type: SimpleType): string | undefined {
+  if (type.enumeration && !type.enumeration.includes(value)) {
+    return `The value '${value}' is not one of the allowed values: ${type.enumeration.join(", ")}.`;
+  }
+  if (type.minLength !== undefined && value.length < type.minLength) {
+    return `The value '${value}' is shorter than the minimum length of ${type.minLength}.`;
+  }
+  if (type.maxLength !== undefined && value.length > type.maxLength) {
+    return `The value '${value}' is longer than the maximum length of ${type.maxLength}.`;
+  }
+  if (type.pattern && !type.pattern.test(value)) {
+    return `The value '${value}' is not a valid ${type.name}.`;
+  }
+}
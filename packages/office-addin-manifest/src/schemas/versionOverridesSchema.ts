@@ -0,0 +1,379 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import {
+  anyType,
+  ElementDefinition,
+  idType,
+  longStringType,
+  ManifestNamespace,
+  residType,
+  resourceReferenceType,
+  shortStringType,
+  stringType,
+  TypeDefinition,
+  unbounded,
+  unsignedIntType,
+  urlType,
+  versionType,
+} from "./schemaDefinition";
+
+function resourceType(valueType = urlType): TypeDefinition {
+  return {
+    attributes: [
+      { name: "id", required: true, type: residType },
+      { name: "DefaultValue", required: true, type: valueType },
+    ],
+    children: [
+      {
+        name: "Override",
+        minOccurs: 0,
+        maxOccurs: unbounded,
+        type: {
+          attributes: [
+            { name: "Locale", required: true },
+            { name: "Value", required: true, type: valueType },
+          ],
+        },
+      },
+    ],
+  };
+}
+
+function resourceCollection(
+  name: string,
+  itemName: string,
+  itemType: TypeDefinition
+): ElementDefinition {
+  return {
+    name,
+    minOccurs: 0,
+    namespace: ManifestNamespace.BasicTypes,
+    type: { children: [{ name: itemName, minOccurs: 0, maxOccurs: unbounded, type: itemType }] },
+  };
+}
+
+const resourcesType: TypeDefinition = {
+  children: [
+    resourceCollection("Images", "Image", resourceType()),
+    resourceCollection("Urls", "Url", resourceType()),
+    resourceCollection("ShortStrings", "String", resourceType(shortStringType)),
+    resourceCollection("LongStrings", "String", resourceType(longStringType)),
+  ],
+  unordered: true,
+};
+
+const requirementsType: TypeDefinition = {
+  children: [
+    {
+      name: "Sets",
+      minOccurs: 0,
+      namespace: ManifestNamespace.BasicTypes,
+      type: {
+        attributes: [{ name: "DefaultMinVersion", type: versionType }],
+        children: [
+          {
+            name: "Set",
+            maxOccurs: unbounded,
+            type: {
+              attributes: [
+                { name: "Name", required: true, type: stringType("Name", 125) },
+                { name: "MinVersion", type: versionType },
+              ],
+            },
+          },
+        ],
+      },
+    },
+  ],
+  lax: true,
+};
+
+const iconType: TypeDefinition = {
+  children: [
+    {
+      name: "Image",
+      maxOccurs: unbounded,
+      namespace: ManifestNamespace.BasicTypes,
+      type: {
+        attributes: [
+          { name: "size", required: true, type: unsignedIntType },
+          { name: "resid", required: true, type: residType },
+        ],
+      },
+    },
+  ],
+};
+
+const supertipType: TypeDefinition = {
+  children: [
+    { name: "Title", type: resourceReferenceType() },
+    { name: "Description", type: resourceReferenceType() },
+  ],
+};
+
+const actionType: TypeDefinition = {
+  xsiTypes: {
+    ExecuteFunction: {
+      children: [{ name: "FunctionName", type: { text: stringType("FunctionName", 125) } }],
+      lax: true,
+      unordered: true,
+    },
+    ShowTaskpane: {
+      children: [
+        { name: "TaskpaneId", minOccurs: 0, type: { text: stringType("TaskpaneId", 125) } },
+        { name: "SourceLocation", type: resourceReferenceType() },
+        { name: "Title", minOccurs: 0, type: resourceReferenceType() },
+      ],
+      lax: true,
+      unordered: true,
+    },
+  },
+};
+
+function controlChildren(...names: string[]): ElementDefinition[] {
+  const children: ElementDefinition[] = [
+    { name: "Label", type: resourceReferenceType() },
+    { name: "Supertip", minOccurs: 0, type: supertipType },
+    { name: "Icon", minOccurs: 0, type: iconType },
+    { name: "Action", type: actionType },
+    { name: "Items", type: anyType() },
+  ];
+  return children.filter((child) => names.includes(child.name));
+}
+
+const controlType: TypeDefinition = {
+  attributes: [{ name: "id", required: true, type: idType }],
+  xsiTypes: {
+    Button: {
+      children: controlChildren("Label", "Supertip", "Icon", "Action"),
+      lax: true,
+      unordered: true,
+    },
+    Menu: {
+      children: controlChildren("Label", "Supertip", "Icon", "Items"),
+      lax: true,
+      unordered: true,
+    },
+    MobileButton: {
+      children: controlChildren("Label", "Icon", "Action"),
+      lax: true,
+      unordered: true,
+    },
+  },
+};
+
+const groupType: TypeDefinition = {
+  attributes: [{ name: "id", required: true, type: idType }],
+  children: [
+    { name: "Label", type: resourceReferenceType() },
+    { name: "Icon", minOccurs: 0, type: iconType },
+    { name: "Control", minOccurs: 0, maxOccurs: unbounded, type: controlType },
+  ],
+  lax: true,
+  unordered: true,
+};
+
+const commandSurfaceType: TypeDefinition = {
+  children: [
+    {
+      name: "OfficeTab",
+      minOccurs: 0,
+      maxOccurs: unbounded,
+      type: {
+        attributes: [{ name: "id", required: true, type: idType }],
+        children: [{ name: "Group", maxOccurs: unbounded, type: groupType }],
+        lax: true,
+        unordered: true,
+      },
+    },
+    {
+      name: "CustomTab",
+      minOccurs: 0,
+      maxOccurs: unbounded,
+      type: {
+        attributes: [{ name: "id", required: true, type: idType }],
+        children: [
+          { name: "Group", minOccurs: 0, maxOccurs: unbounded, type: groupType },
+          { name: "Label", minOccurs: 0, type: resourceReferenceType() },
+        ],
+        lax: true,
+        unordered: true,
+      },
+    },
+    {
+      name: "OfficeMenu",
+      minOccurs: 0,
+      maxOccurs: unbounded,
+      type: {
+        attributes: [{ name: "id", required: true, type: idType }],
+        children: [{ name: "Control", maxOccurs: unbounded, type: controlType }],
+      },
+    },
+  ],
+  lax: true,
+  unordered: true,
+};
+
+const extensionPointType: TypeDefinition = {
+  xsiTypes: {
+    AppointmentAttendeeCommandSurface: commandSurfaceType,
+    AppointmentOrganizerCommandSurface: commandSurfaceType,
+    ContentPlaceholder: anyType(),
+    ContextMenu: commandSurfaceType,
+    CustomFunctions: anyType(),
+    DetectedEntity: anyType(),
+    Events: anyType(),
+    LaunchEvent: anyType(),
+    MessageComposeCommandSurface: commandSurfaceType,
+    MessageReadCommandSurface: commandSurfaceType,
+    MobileLogEventAppointmentAttendee: anyType(),
+    MobileMessageReadCommandSurface: anyType(),
+    MobileOnlineMeetingCommandSurface: anyType(),
+    Module: anyType(),
+    OnlineMeetingCommandSurface: anyType(),
+    PrimaryCommandSurface: commandSurfaceType,
+    ReportPhishingCommandSurface: anyType(),
+    SpamReportingCommandSurface: anyType(),
+  },
+};
+
+const extensionPoints: ElementDefinition = {
+  name: "ExtensionPoint",
+  minOccurs: 0,
+  maxOccurs: unbounded,
+  type: extensionPointType,
+};
+
+const formFactorType: TypeDefinition = {
+  children: [
+    {
+      name: "GetStarted",
+      minOccurs: 0,
+      type: {
+        children: [
+          { name: "Title", type: resourceReferenceType() },
+          { name: "Description", type: resourceReferenceType() },
+          { name: "LearnMoreUrl", minOccurs: 0, type: resourceReferenceType() },
+        ],
+        unordered: true,
+      },
+    },
+    { name: "FunctionFile", minOccurs: 0, type: resourceReferenceType() },
+    extensionPoints,
+  ],
+  lax: true,
+  unordered: true,
+};
+
+const hostType: TypeDefinition = {
+  children: [
+    { name: "AllFormFactors", minOccurs: 0, type: { children: [extensionPoints], lax: true } },
+    { name: "DesktopFormFactor", minOccurs: 0, type: formFactorType },
+    { name: "MobileFormFactor", minOccurs: 0, type: formFactorType },
+    { name: "Runtimes", minOccurs: 0, type: anyType() },
+  ],
+  lax: true,
+  unordered: true,
+};
+
+function hostsType(hostTypes: string[]): TypeDefinition {
+  const xsiTypes: { [name: string]: TypeDefinition } = {};
+  hostTypes.forEach((name) => (xsiTypes[name] = hostType));
+  return { children: [{ name: "Host", maxOccurs: unbounded, type: { xsiTypes } }] };
+}
+
+function versionOverridesChildren(hostTypes: string[]): ElementDefinition[] {
+  return [
+    { name: "Description", minOccurs: 0, type: resourceReferenceType() },
+    { name: "Requirements", minOccurs: 0, type: requirementsType },
+    { name: "Hosts", type: hostsType(hostTypes) },
+    { name: "Resources", minOccurs: 0, type: resourcesType },
+    { name: "WebApplicationInfo", minOccurs: 0, type: anyType() },
+    { name: "EquivalentAddins", minOccurs: 0, type: anyType() },
+  ];
+}
+
+const taskPaneHostTypes: string[] = ["Document", "Notebook", "Presentation", "Project", "Workbook"];
+
+/**
+ * VersionOverrides 1.0 for task pane add-ins.
+ */
+export const taskPaneVersionOverrides: ElementDefinition = {
+  name: "VersionOverrides",
+  minOccurs: 0,
+  namespace: ManifestNamespace.TaskPaneVersionOverrides,
+  type: {
+    xsiTypes: {
+      VersionOverridesV1_0: {
+        children: versionOverridesChildren(taskPaneHostTypes),
+        unordered: true,
+      },
+    },
+  },
+};
+
+/**
+ * VersionOverrides 1.1 for mail add-ins, which is specified inside of VersionOverrides 1.0.
+ */
+const mailVersionOverridesV1_1: ElementDefinition = {
+  name: "VersionOverrides",
+  minOccurs: 0,
+  namespace: ManifestNamespace.MailVersionOverrides1_1,
+  type: {
+    xsiTypes: {
+      VersionOverridesV1_1: {
+        children: [
+          ...versionOverridesChildren(["MailHost"]),
+          { name: "ExtendedPermissions", minOccurs: 0, type: anyType() },
+        ],
+        unordered: true,
+      },
+    },
+  },
+};
+
+/**
+ * VersionOverrides 1.0 and 1.1 for mail add-ins.
+ */
+export const mailVersionOverrides: ElementDefinition = {
+  name: "VersionOverrides",
+  minOccurs: 0,
+  namespace: ManifestNamespace.MailVersionOverrides,
+  type: {
+    xsiTypes: {
+      VersionOverridesV1_0: {
+        children: [
+          ...versionOverridesChildren(["MailHost"]),
+          mailVersionOverridesV1_1,
+          // VersionOverrides 1.1 is also accepted without its own namespace
+          { ...mailVersionOverridesV1_1, namespace: undefined },
+        ],
+        unordered: true,
+      },
+    },
+  },
+};
+
+/**
+ * VersionOverrides 1.0 for content add-ins.
+ */
+export const contentVersionOverrides: ElementDefinition = {
+  name: "VersionOverrides",
+  minOccurs: 0,
+  namespace: ManifestNamespace.ContentVersionOverrides,
+  type: {
+    xsiTypes: {
+      VersionOverridesV1_0: {
+        children: [
+          { name: "Description", minOccurs: 0, type: resourceReferenceType() },
+          { name: "Requirements", minOccurs: 0, type: requirementsType },
+          { name: "Resources", minOccurs: 0, type: resourcesType },
+          { name: "WebApplicationInfo", minOccurs: 0, type: anyType() },
+        ],
+        lax: true,
+        unordered: true,
+      },
+    },
+  },
+};
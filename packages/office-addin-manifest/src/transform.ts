@@ -0,0 +1,175 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import fs from "fs";
+import path from "path";
+import util from "util";
+import { ManifestDocument } from "./manifestDocument/manifestDocument";
+import { OfficeAddinManifest } from "./manifestOperations";
+
+/* global URL */
+
+const readFileAsync = util.promisify(fs.readFile);
+
+const localhostNames: string[] = ["localhost", "127.0.0.1", "[::1]"];
+
+/**
+ * The changes to make to a manifest for an environment, such as staging or production.
+ * @example
+ * {
+ *   "production": true,
+ *   "baseUrls": { "https://localhost:3000": "https://www.contoso.com/addin" },
+ *   "idSuffix": "0002",
+ *   "displayNameSuffix": " (Staging)",
+ *   "version": "1.2.0.0",
+ *   "appDomains": ["https://login.contoso.com"]
+ * }
+ */
+export interface ManifestEnvironmentProfile {
+  /** Urls which start with a base url are changed to start with the new base url instead. */
+  baseUrls?: { [baseUrl: string]: string };
+  /** Hexadecimal digits which replace the end of the add-in id, so that each environment has a different id. */
+  idSuffix?: string;
+  displayNameSuffix?: string;
+  version?: string;
+  /** The app domains for the environment, which replace the app domains in the manifest. */
+  appDomains?: string[];
+  /** The manifest is for production, so it must not have localhost urls. */
+  production?: boolean;
+}
+
+/**
+ * Reads an environment profile file.
+ * @param profilePath Path to the profile file.
+ */
+export async function readEnvironmentProfile(
+  profilePath: string
+): Promise<ManifestEnvironmentProfile> {
+  let profile: ManifestEnvironmentProfile;
+
+  try {
+    profile = JSON.parse(await readFileAsync(profilePath, { encoding: "utf8" }));
+  } catch (err) {
+    throw new Error(`Unable to read the environment profile file: ${profilePath}.\n${err}`);
+  }
+
+  if (profile.idSuffix !== undefined && !/^[0-9a-fA-F]{1,12}$/.test(profile.idSuffix)) {
+    throw new Error(
+      `The idSuffix "${profile.idSuffix}" is not valid. Specify from 1 to 12 hexadecimal digits.`
+    );
+  }
+
+  return profile;
+}
+
+function isLocalhostUrl(url: string): boolean {
+  try {
+    return localhostNames.includes(new URL(url).hostname.toLowerCase());
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the localhost urls in the manifest.
+ * @param manifestDocument The manifest.
+ */
+export function getLocalhostUrls(manifestDocument: ManifestDocument): string[] {
+  const urls: string[] = manifestDocument.getUrls().filter(isLocalhostUrl);
+  return urls.filter((url, index) => urls.indexOf(url) === index);
+}
+
+/**
+ * Returns the url with the base url replaced, or the url if it does not start with any of the base urls.
+ * When more than one base url matches, the longest one is used.
+ */
+function replaceBaseUrl(url: string, baseUrls: { [baseUrl: string]: string }): string {
+  const trimSlash = (value: string) => value.replace(/\/+$/, "");
+  const baseUrl = Object.keys(baseUrls)
+    .sort((first, second) => second.length - first.length)
+    .find((item) => {
+      const base = trimSlash(item).toLowerCase();
+      const rest = url.substring(base.length);
+      return url.toLowerCase().startsWith(base) && (rest === "" || "/?#".includes(rest[0]));
+    });
+
+  return baseUrl ? trimSlash(baseUrls[baseUrl]) + url.substring(trimSlash(baseUrl).length) : url;
+}
+
+function replaceIdSuffix(id: string | undefined, idSuffix: string): string {
+  if (
+    !id ||
+    !/^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/.test(id)
+  ) {
+    throw new Error(`The add-in id "${id ?? ""}" is not a guid, so the idSuffix cannot be used.`);
+  }
+  return id.substring(0, id.length - idSuffix.length) + idSuffix.toLowerCase();
+}
+
+/**
+ * Changes the manifest for the environment.
+ * @param manifestDocument The manifest.
+ * @param profile The environment profile.
+ * @throws Error if the profile is for production and the changed manifest has localhost urls.
+ */
+export function transformManifestDocument(
+  manifestDocument: ManifestDocument,
+  profile: ManifestEnvironmentProfile
+): void {
+  const baseUrls = profile.baseUrls;
+  if (baseUrls && Object.keys(baseUrls).length > 0) {
+    manifestDocument.replaceUrls((url) => replaceBaseUrl(url, baseUrls));
+  }
+  if (profile.idSuffix) {
+    manifestDocument.id = replaceIdSuffix(manifestDocument.id, profile.idSuffix);
+  }
+  if (profile.displayNameSuffix) {
+    manifestDocument.displayName = (manifestDocument.displayName ?? "") + profile.displayNameSuffix;
+  }
+  if (profile.version) {
+    manifestDocument.version = profile.version;
+  }
+  if (profile.appDomains) {
+    manifestDocument.appDomains = profile.appDomains.map((appDomain) =>
+      baseUrls ? replaceBaseUrl(appDomain, baseUrls) : appDomain
+    );
+  }
+
+  if (profile.production) {
+    const localhostUrls = getLocalhostUrls(manifestDocument);
+    if (localhostUrls.length > 0) {
+      throw new Error(
+        `The manifest for production has localhost urls:\n${localhostUrls.map((url) => `  ${url}`).join("\n")}\nAdd base urls to the environment profile to replace them.`
+      );
+    }
+  }
+}
+
+/**
+ * Writes a manifest for an environment, such as staging or production.
+ * @param manifestPath Path to the manifest file.
+ * @param profile The environment profile, or the path to the profile file.
+ * @param outputPath Path to write the changed manifest to. It must have the same format as the manifest.
+ * @returns The changed manifest.
+ */
+export async function transformManifest(
+  manifestPath: string,
+  profile: ManifestEnvironmentProfile | string,
+  outputPath: string
+): Promise<ManifestDocument> {
+  if (path.extname(manifestPath).toLowerCase() !== path.extname(outputPath).toLowerCase()) {
+    throw new Error(
+      `The output file must have the same extension as the manifest: ${manifestPath}.`
+    );
+  }
+
+  const environmentProfile: ManifestEnvironmentProfile =
+    typeof profile === "string" ? await readEnvironmentProfile(profile) : profile;
+  const manifestDocument: ManifestDocument =
+    await OfficeAddinManifest.readManifestDocument(manifestPath);
+
+  transformManifestDocument(manifestDocument, environmentProfile);
+  await OfficeAddinManifest.writeManifestDocument(outputPath, manifestDocument);
+
+  return manifestDocument;
+}
@@ -4,8 +4,10 @@
 import { createReadStream } from "fs";
 import { ManifestUtil, devPreview } from "@microsoft/teams-manifest";
 import fetch from "node-fetch";
+import { ManifestType } from "./manifestInfo";
 import { OfficeAddinManifest } from "./manifestOperations";
 import { usageDataObject } from "./defaults";
+import { validateXmlManifestOffline } from "./validateOffline";
 
 export class ManifestValidationDetails {
   public adminInstallOnly?: boolean;
@@ -65,15 +67,22 @@ export class ManifestValidation {
 
 export async function validateManifest(
   manifestPath: string,
-  verifyProduction: boolean = false
+  verifyProduction: boolean = false,
+  offline: boolean = false
 ): Promise<ManifestValidation> {
   try {
-    const validation: ManifestValidation = new ManifestValidation();
+    let validation: ManifestValidation = new ManifestValidation();
 
     // read the manifest file to ensure the file path is valid
-    await OfficeAddinManifest.readManifestFile(manifestPath);
+    const manifestInfo = await OfficeAddinManifest.readManifestFile(manifestPath);
+    const isJsonManifest: boolean = manifestInfo.manifestType === ManifestType.JSON;
 
-    if (manifestPath.endsWith(".json")) {
+    if (offline) {
+      if (isJsonManifest) {
+        throw new Error("Offline validation is only supported for xml manifests.");
+      }
+      validation = await validateXmlManifestOffline(manifestPath);
+    } else if (isJsonManifest) {
       const manifest: devPreview.DevPreviewSchema = await ManifestUtil.loadFromPath(manifestPath);
       const validationResult: string[] = await ManifestUtil.validateManifest(manifest);
       if (validationResult.length !== 0) {
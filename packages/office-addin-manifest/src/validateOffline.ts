@@ -0,0 +1,313 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import fs from "fs";
+import util from "util";
+import {
+  checkSimpleTypeValue,
+  ElementDefinition,
+  ManifestNamespace,
+  schemaNamespaces,
+  TypeDefinition,
+} from "./schemas/schemaDefinition";
+import { officeAppSchema } from "./schemas/officeAppSchema";
+import { getXmlNodeAttributeValue, parseXmlNodes, XmlNode, XmlParseError } from "./xmlNode";
+import { ManifestValidation, ManifestValidationIssue, ManifestValidationReport } from "./validate";
+
+const readFileAsync = util.promisify(fs.readFile);
+
+const xmlnsNamespace = "http://www.w3.org/2000/xmlns/";
+const xmlNamespace = "http://www.w3.org/XML/1998/namespace";
+
+/**
+ * Validates an XML manifest against the bundled OfficeApp schemas without contacting the validation service.
+ * @param manifestPath Path to the XML manifest file.
+ */
+export async function validateXmlManifestOffline(
+  manifestPath: string
+): Promise<ManifestValidation> {
+  const xmlText: string = await readFileAsync(manifestPath, { encoding: "utf8" });
+  return validateXmlManifestText(xmlText);
+}
+
+/**
+ * Validates the text of an XML manifest against the bundled OfficeApp schemas.
+ * @param xmlText The XML manifest text.
+ */
+export function validateXmlManifestText(xmlText: string): ManifestValidation {
+  const validation: ManifestValidation = new ManifestValidation();
+  const report: ManifestValidationReport = new ManifestValidationReport();
+  const errors: ManifestValidationIssue[] = [];
+
+  try {
+    const root: XmlNode = parseXmlNodes(xmlText);
+
+    if (root.localName !== officeAppSchema.name || root.namespace !== officeAppSchema.namespace) {
+      errors.push(
+        createIssue(
+          root,
+          `The root element must be '${officeAppSchema.name}' in namespace '${officeAppSchema.namespace}'.`
+        )
+      );
+    } else {
+      validateElement(root, officeAppSchema.type, officeAppSchema.namespace!, errors);
+    }
+  } catch (err) {
+    if (err instanceof XmlParseError) {
+      errors.push(createIssue(err, `The manifest is not well-formed xml. ${err.message}`));
+    } else {
+      throw err;
+    }
+  }
+
+  report.errors = errors;
+  report.warnings = [];
+  report.notes = [
+    {
+      title: "Offline validation",
+      content:
+        "The manifest was validated against the bundled XML schemas. Checks done by the Office Add-in validation service were not performed.",
+    },
+  ];
+  report.status = errors.length === 0 ? "Accepted" : "Rejected";
+
+  validation.report = report;
+  validation.isValid = errors.length === 0;
+
+  return validation;
+}
+
+function createIssue(
+  position: { line: number; column: number },
+  content: string
+): ManifestValidationIssue {
+  const issue: ManifestValidationIssue = new ManifestValidationIssue();
+  issue.code = "XmlSchemaValidation";
+  issue.title = "Schema validation error";
+  issue.content = content;
+  issue.line = position.line;
+  issue.column = position.column;
+  return issue;
+}
+
+function getEffectiveType(
+  node: XmlNode,
+  type: TypeDefinition,
+  errors: ManifestValidationIssue[]
+): TypeDefinition | undefined {
+  if (!type.xsiTypes) {
+    return type;
+  }
+
+  const xsiType: string | undefined = getXmlNodeAttributeValue(
+    node,
+    "type",
+    ManifestNamespace.XmlSchemaInstance
+  );
+  const validTypes: string = Object.keys(type.xsiTypes).join(", ");
+
+  if (xsiType === undefined) {
+    errors.push(
+      createIssue(
+        node,
+        `The element '${node.localName}' requires the 'xsi:type' attribute. Valid types: ${validTypes}.`
+      )
+    );
+    return undefined;
+  }
+
+  // the type name may have a namespace prefix
+  const typeName: string = xsiType.split(":").pop()!;
+  const derivedType: TypeDefinition | undefined = type.xsiTypes[typeName];
+
+  if (!derivedType) {
+    errors.push(
+      createIssue(
+        node,
+        `The 'xsi:type' value '${xsiType}' is not valid for the element '${node.localName}'. Valid types: ${validTypes}.`
+      )
+    );
+    return undefined;
+  }
+
+  return {
+    ...derivedType,
+    attributes: [...(type.attributes ?? []), ...(derivedType.attributes ?? [])],
+  };
+}
+
+function validateAttributes(
+  node: XmlNode,
+  type: TypeDefinition,
+  errors: ManifestValidationIssue[]
+) {
+  const definitions = type.attributes ?? [];
+
+  for (const definition of definitions) {
+    const value: string | undefined = getXmlNodeAttributeValue(node, definition.name);
+
+    if (value === undefined) {
+      if (definition.required) {
+        errors.push(
+          createIssue(
+            node,
+            `The element '${node.localName}' is missing the required attribute '${definition.name}'.`
+          )
+        );
+      }
+    } else if (definition.type) {
+      const message: string | undefined = checkSimpleTypeValue(value, definition.type);
+      if (message) {
+        errors.push(
+          createIssue(node, `The '${definition.name}' attribute is not valid. ${message}`)
+        );
+      }
+    }
+  }
+
+  if (type.attributes && !type.lax) {
+    for (const attribute of node.attributes) {
+      const isSchemaAttribute: boolean = [
+        xmlnsNamespace,
+        xmlNamespace,
+        ManifestNamespace.XmlSchemaInstance,
+      ].includes(attribute.namespace);
+      const isDeclared: boolean = definitions.some(
+        (definition) => definition.name === attribute.name
+      );
+
+      if (!isSchemaAttribute && !isDeclared && attribute.namespace === "") {
+        errors.push(
+          createIssue(
+            node,
+            `The '${attribute.name}' attribute is not declared for the element '${node.localName}'.`
+          )
+        );
+      }
+    }
+  }
+}
+
+function validateChildren(
+  node: XmlNode,
+  type: TypeDefinition,
+  namespace: string,
+  errors: ManifestValidationIssue[]
+) {
+  const definitions: ElementDefinition[] = type.children ?? [];
+  const counts: number[] = definitions.map(() => 0);
+  const children: XmlNode[] = node.children.filter((child) =>
+    schemaNamespaces.includes(child.namespace)
+  );
+  let position: number = 0;
+
+  const findDefinition = (child: XmlNode, start: number): number => {
+    for (let index = start; index < definitions.length; ++index) {
+      const definition = definitions[index];
+      if (
+        definition.name === child.localName &&
+        (definition.namespace ?? namespace) === child.namespace
+      ) {
+        return index;
+      }
+    }
+    return -1;
+  };
+
+  const getExpectedNames = (start: number): string => {
+    const names: string[] = [];
+    for (let index = type.unordered ? 0 : start; index < definitions.length; ++index) {
+      const definition = definitions[index];
+      if (counts[index] < (definition.maxOccurs ?? 1) && !names.includes(definition.name)) {
+        names.push(definition.name);
+      }
+      if (!type.unordered && counts[index] < (definition.minOccurs ?? 1)) {
+        break;
+      }
+    }
+    return names.join(", ");
+  };
+
+  for (const child of children) {
+    const index: number = findDefinition(child, type.unordered ? 0 : position);
+
+    if (index < 0) {
+      if (!type.lax || findDefinition(child, 0) >= 0) {
+        errors.push(
+          createIssue(
+            child,
+            `The element '${node.localName}' has invalid child element '${child.localName}'. List of possible elements expected: ${getExpectedNames(position)}.`
+          )
+        );
+      }
+      continue;
+    }
+
+    if (!type.unordered) {
+      for (let skipped = position; skipped < index; ++skipped) {
+        reportMissingElement(node, child, definitions[skipped], counts[skipped], errors);
+      }
+      position = index;
+    }
+
+    const definition = definitions[index];
+    ++counts[index];
+
+    if (counts[index] > (definition.maxOccurs ?? 1)) {
+      errors.push(
+        createIssue(
+          child,
+          `The element '${child.localName}' can only appear ${definition.maxOccurs ?? 1} time(s) in the element '${node.localName}'.`
+        )
+      );
+    }
+
+    validateElement(child, definition.type, definition.namespace ?? namespace, errors);
+  }
+
+  for (let index = type.unordered ? 0 : position; index < definitions.length; ++index) {
+    reportMissingElement(node, node, definitions[index], counts[index], errors);
+  }
+}
+
+function reportMissingElement(
+  parent: XmlNode,
+  position: XmlNode,
+  definition: ElementDefinition,
+  count: number,
+  errors: ManifestValidationIssue[]
+) {
+  if (count < (definition.minOccurs ?? 1)) {
+    errors.push(
+      createIssue(
+        position,
+        `The element '${parent.localName}' is missing the required child element '${definition.name}'.`
+      )
+    );
+  }
+}
+
+function validateElement(
+  node: XmlNode,
+  type: TypeDefinition,
+  namespace: string,
+  errors: ManifestValidationIssue[]
+) {
+  const effectiveType: TypeDefinition | undefined = getEffectiveType(node, type, errors);
+
+  if (effectiveType) {
+    validateAttributes(node, effectiveType, errors);
+
+    if (effectiveType.text) {
+      const message: string | undefined = checkSimpleTypeValue(
+        node.text.trim(),
+        effectiveType.text
+      );
+      if (message) {
+        errors.push(createIssue(node, `The element '${node.localName}' is not valid. ${message}`));
+      }
+    }
+
+    validateChildren(node, effectiveType, namespace, errors);
+  }
+}
@@ -0,0 +1,570 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import sax from "sax";
+import { XmlParseError } from "./xmlNode";
+
+const xmlnsNamespace: string = "http://www.w3.org/2000/xmlns/";
+
+const entities: { [name: string]: string } = {
+  amp: "&",
+  apos: "'",
+  gt: ">",
+  lt: "<",
+  quot: '"',
+};
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, name: string) => {
+    if (name.startsWith("#x")) {
+      return String.fromCodePoint(parseInt(name.substring(2), 16));
+    } else if (name.startsWith("#")) {
+      return String.fromCodePoint(parseInt(name.substring(1), 10));
+    } else {
+      return entities[name] ?? match;
+    }
+  });
+}
+
+function encodeXml(text: string, quote?: string): string {
+  let encoded = text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  if (quote === '"') {
+    encoded = encoded.replace(/"/g, "&quot;");
+  } else if (quote === "'") {
+    encoded = encoded.replace(/'/g, "&apos;");
+  }
+  return encoded;
+}
+
+function getLocalName(name: string): string {
+  return name.substring(name.indexOf(":") + 1);
+}
+
+function getPrefix(name: string): string {
+  const index = name.indexOf(":");
+  return index >= 0 ? name.substring(0, index) : "";
+}
+
+/**
+ * An attribute of an xml element. The text between attributes and the quote character are
+ * kept so that the xml is written as it was read.
+ */
+export class XmlAttribute {
+  constructor(
+    public name: string,
+    public rawValue: string,
+    public quote: string = '"',
+    public leading: string = " ",
+    public separator: string = "="
+  ) {}
+
+  get localName(): string {
+    return getLocalName(this.name);
+  }
+
+  get prefix(): string {
+    return getPrefix(this.name);
+  }
+
+  get value(): string {
+    return decodeXml(this.rawValue);
+  }
+
+  set value(value: string) {
+    this.rawValue = encodeXml(value, this.quote);
+  }
+
+  toString(): string {
+    return `${this.leading}${this.name}${this.separator}${this.quote}${this.rawValue}${this.quote}`;
+  }
+}
+
+/**
+ * Text inside of an element. Whitespace between elements is also kept as text.
+ */
+export class XmlText {
+  readonly kind = "text";
+  parent?: XmlElement;
+
+  constructor(public rawText: string) {}
+
+  get value(): string {
+    return decodeXml(this.rawText);
+  }
+
+  set value(value: string) {
+    this.rawText = encodeXml(value);
+  }
+
+  isWhitespace(): boolean {
+    return this.rawText.trim() === "";
+  }
+
+  toString(): string {
+    return this.rawText;
+  }
+}
+
+/**
+ * Xml markup which is kept as it was read: comments, CDATA sections, processing instructions
+ * (such as the xml declaration) and document type declarations.
+ */
+export class XmlMarkup {
+  readonly kind: "cdata" | "comment" | "declaration" | "instruction";
+  parent?: XmlElement;
+
+  constructor(
+    kind: "cdata" | "comment" | "declaration" | "instruction",
+    public rawText: string
+  ) {
+    this.kind = kind;
+  }
+
+  /**
+   * The text of a comment or CDATA section, without the markup delimiters.
+   */
+  get value(): string {
+    switch (this.kind) {
+      case "cdata":
+        return this.rawText.slice("<![CDATA[".length, -"]]>".length);
+      case "comment":
+        return this.rawText.slice("<!--".length, -"-->".length);
+      default:
+        return this.rawText;
+    }
+  }
+
+  toString(): string {
+    return this.rawText;
+  }
+}
+
+export type XmlContent = XmlElement | XmlMarkup | XmlText;
+
+/**
+ * An xml element which keeps the comments, whitespace and order of its content.
+ */
+export class XmlElement {
+  readonly kind = "element";
+  attributes: XmlAttribute[] = [];
+  children: XmlContent[] = [];
+  /** The text between the name and the ">" of the end tag. */
+  endTagTrailing: string = "";
+  parent?: XmlElement;
+  selfClosing: boolean = false;
+  /** The text after the attributes, before the ">" or "/>" of the start tag. */
+  startTagTrailing: string = "";
+
+  constructor(public name: string) {}
+
+  get localName(): string {
+    return getLocalName(this.name);
+  }
+
+  get namespace(): string {
+    return this.lookupNamespace(getPrefix(this.name)) ?? "";
+  }
+
+  get prefix(): string {
+    return getPrefix(this.name);
+  }
+
+  /**
+   * The text of the element. Setting the text replaces the content of the element.
+   */
+  get text(): string {
+    return this.children
+      .map((child) => {
+        if (child instanceof XmlElement) {
+          return child.text;
+        }
+        return child.kind === "text" || child.kind === "cdata" ? child.value : "";
+      })
+      .join("");
+  }
+
+  set text(value: string) {
+    const text = new XmlText("");
+    text.value = value;
+    text.parent = this;
+    this.children = [text];
+    this.selfClosing = false;
+  }
+
+  /**
+   * Returns the namespace for the prefix, or undefined if the prefix is not declared.
+   * @param prefix Namespace prefix; "" for the default namespace.
+   */
+  lookupNamespace(prefix: string): string | undefined {
+    if (prefix === "xml") {
+      return "http://www.w3.org/XML/1998/namespace";
+    } else if (prefix === "xmlns") {
+      return xmlnsNamespace;
+    }
+
+    const attributeName: string = prefix ? `xmlns:${prefix}` : "xmlns";
+    for (let element: XmlElement | undefined = this; element; element = element.parent) {
+      const value = element.getAttribute(attributeName);
+      if (value !== undefined) {
+        return value;
+      }
+    }
+    return prefix ? undefined : "";
+  }
+
+  /**
+   * Returns the prefix declared for the namespace, or undefined if the namespace is not declared.
+   * @param namespace Namespace uri.
+   */
+  lookupPrefix(namespace: string): string | undefined {
+    const prefixes = new Set<string>([""]);
+    for (let element: XmlElement | undefined = this; element; element = element.parent) {
+      element.attributes
+        .filter((attribute) => attribute.prefix === "xmlns")
+        .forEach((attribute) => prefixes.add(attribute.localName));
+    }
+
+    // a prefix declared for the namespace could be declared again for another namespace
+    return Array.from(prefixes).find((prefix) => this.lookupNamespace(prefix) === namespace);
+  }
+
+  getAttribute(name: string): string | undefined {
+    return this.attributes.find((attribute) => attribute.name === name)?.value;
+  }
+
+  /**
+   * Returns the value of the attribute with the namespace and local name, whichever prefix is used.
+   * @param namespace Namespace uri. Attributes without a prefix do not have a namespace.
+   * @param localName Attribute name without the prefix.
+   */
+  getAttributeNS(namespace: string, localName: string): string | undefined {
+    return this.attributes.find(
+      (attribute) =>
+        attribute.localName === localName &&
+        (attribute.prefix ? this.lookupNamespace(attribute.prefix) : "") === namespace
+    )?.value;
+  }
+
+  /**
+   * Sets the value of an attribute. A new attribute is added after the existing attributes.
+   */
+  setAttribute(name: string, value: string): void {
+    let attribute = this.attributes.find((item) => item.name === name);
+    if (!attribute) {
+      attribute = new XmlAttribute(name, "");
+      this.attributes.push(attribute);
+    }
+    attribute.value = value;
+  }
+
+  removeAttribute(name: string): void {
+    this.attributes = this.attributes.filter((attribute) => attribute.name !== name);
+  }
+
+  /**
+   * Returns the first child element with the local name, or undefined.
+   * @param localName Element name without the prefix.
+   * @param namespace If specified, the element must also have this namespace.
+   */
+  element(localName: string, namespace?: string): XmlElement | undefined {
+    return this.elements(localName, namespace)[0];
+  }
+
+  /**
+   * Returns the child elements, or only those with the local name.
+   * @param localName Element name without the prefix.
+   * @param namespace If specified, the elements must also have this namespace.
+   */
+  elements(localName?: string, namespace?: string): XmlElement[] {
+    return this.children.filter(
+      (child): child is XmlElement =>
+        child instanceof XmlElement &&
+        (localName === undefined || child.localName === localName) &&
+        (namespace === undefined || child.namespace === namespace)
+    );
+  }
+
+  /**
+   * Returns the elements inside of this element, in document order.
+   * @param localName If specified, only elements with this local name are returned.
+   */
+  descendants(localName?: string): XmlElement[] {
+    const elements: XmlElement[] = [];
+    this.elements().forEach((child) => {
+      if (localName === undefined || child.localName === localName) {
+        elements.push(child);
+      }
+      elements.push(...child.descendants(localName));
+    });
+    return elements;
+  }
+
+  /**
+   * Returns the whitespace used to indent the element.
+   */
+  getIndentation(): string {
+    const siblings = this.parent ? this.parent.children : [];
+    const previous = siblings[siblings.indexOf(this) - 1];
+    if (previous instanceof XmlText && previous.isWhitespace()) {
+      return previous.rawText.substring(previous.rawText.lastIndexOf("\n") + 1);
+    }
+    return "";
+  }
+
+  private getChildIndentation(): string {
+    const lastElement = this.elements().pop();
+    if (lastElement) {
+      return lastElement.getIndentation();
+    }
+
+    // use the same indentation step as the parent element
+    const indentation = this.getIndentation();
+    const parentIndentation = this.parent ? this.parent.getIndentation() : "";
+    const step = indentation.startsWith(parentIndentation)
+      ? indentation.substring(parentIndentation.length)
+      : "";
+    return indentation + (step || "  ");
+  }
+
+  /**
+   * Adds a new element, indented like the other child elements.
+   * @param name Element name, including the prefix.
+   * @param before The new element is added before this child element. When not specified,
+   *   the new element is added after the last child element.
+   */
+  addElement(name: string, before?: XmlElement): XmlElement {
+    const element = new XmlElement(name);
+    const indentation = this.getChildIndentation();
+    element.parent = this;
+    element.selfClosing = true;
+
+    if (before) {
+      let index = this.children.indexOf(before);
+      if (index < 0) {
+        throw new Error(`The <${before.name}> element is not inside of <${this.name}>.`);
+      }
+
+      // keep comments just before an element with the element
+      const isComment = (content: XmlContent) =>
+        content instanceof XmlMarkup && content.kind === "comment";
+      const isWhitespace = (content: XmlContent) =>
+        content instanceof XmlText && content.isWhitespace();
+      while (
+        index >= 2 &&
+        isWhitespace(this.children[index - 1]) &&
+        isComment(this.children[index - 2])
+      ) {
+        index -= 2;
+      }
+      const whitespace = new XmlText(`\n${indentation}`);
+      whitespace.parent = this;
+      this.children.splice(index, 0, element, whitespace);
+    } else {
+      const lastElement = this.elements().pop();
+      const whitespace = new XmlText(`\n${indentation}`);
+      whitespace.parent = this;
+
+      if (lastElement) {
+        this.children.splice(this.children.indexOf(lastElement) + 1, 0, whitespace, element);
+      } else {
+        const closing = new XmlText(`\n${this.getIndentation()}`);
+        closing.parent = this;
+        if (this.children.every((child) => child instanceof XmlText && child.isWhitespace())) {
+          this.children = [];
+        }
+        this.children.push(whitespace, element, closing);
+      }
+      this.selfClosing = false;
+    }
+
+    return element;
+  }
+
+  /**
+   * Removes the element, along with the whitespace used to indent it.
+   */
+  remove(): void {
+    if (this.parent) {
+      const siblings = this.parent.children;
+      const index = siblings.indexOf(this);
+      const previous = siblings[index - 1];
+      const removeCount = previous instanceof XmlText && previous.isWhitespace() ? 2 : 1;
+      siblings.splice(index - removeCount + 1, removeCount);
+      this.parent = undefined;
+    }
+  }
+
+  toString(): string {
+    const startTag = `<${this.name}${this.attributes.join("")}${this.startTagTrailing}`;
+    if (this.selfClosing) {
+      return `${startTag}/>`;
+    }
+    return `${startTag}>${this.children.join("")}</${this.name}${this.endTagTrailing}>`;
+  }
+}
+
+/**
+ * An xml document which is written exactly as it was read, except for the changes made to it.
+ */
+export class XmlDocument {
+  constructor(
+    public root: XmlElement,
+    public children: XmlContent[]
+  ) {}
+
+  toString(): string {
+    return this.children.join("");
+  }
+}
+
+const startTagPattern = /^<([^\s/>]+)/;
+const attributePattern = /(\s+)([^\s=/>]+)(\s*=\s*)(?:"([^"]*)"|'([^']*)')/y;
+const startTagEndPattern = /(\s*)(\/?)>$/y;
+const endTagTrailingPattern = /(\s*)>$/;
+// sax does not report empty comments
+const emptyComment = "<!---->";
+
+/**
+ * Parses the xml text into a document which keeps comments, whitespace and the order of elements
+ * and attributes. The xml is parsed with sax, and the text of each node is taken from the xml text
+ * so that it is written exactly as it was read. Line and column numbers in errors start at 1.
+ * @param xmlText The xml text.
+ * @throws XmlParseError if the xml is not well-formed.
+ */
+export function parseXmlDocument(xmlText: string): XmlDocument {
+  const parser = sax.parser(true, { position: true });
+  const documentChildren: XmlContent[] = [];
+  const openElements: XmlElement[] = [];
+  let root: XmlElement | undefined;
+  let parseError: XmlParseError | undefined;
+  // the end of the xml text which has been added to the document
+  let offset = 0;
+
+  const fail = (message: string, errorOffset: number) => {
+    if (!parseError) {
+      const lines = xmlText.substring(0, errorOffset).split("\n");
+      parseError = new XmlParseError(message, lines.length, lines[lines.length - 1].length + 1);
+    }
+  };
+  const addContent = (content: XmlContent) => {
+    const parent = openElements[openElements.length - 1];
+    if (parent) {
+      content.parent = parent;
+      parent.children.push(content);
+    } else {
+      documentChildren.push(content);
+    }
+  };
+  // Adds the text before the specified offset, along with the empty comments in it.
+  const readText = (end: number) => {
+    let start = xmlText.indexOf(emptyComment, offset);
+    while (start >= 0 && start < end) {
+      if (start > offset) {
+        addContent(new XmlText(xmlText.substring(offset, start)));
+      }
+      addContent(new XmlMarkup("comment", emptyComment));
+      offset = start + emptyComment.length;
+      start = xmlText.indexOf(emptyComment, offset);
+    }
+    if (end > offset) {
+      addContent(new XmlText(xmlText.substring(offset, end)));
+    }
+    offset = end;
+  };
+  // Adds the text before the markup which ends at the specified offset, and returns the markup.
+  // Text cannot contain "<", so the markup starts at the next "<" which is not an empty comment.
+  const readMarkup = (end: number): string => {
+    let start = xmlText.indexOf("<", offset);
+    while (xmlText.startsWith(emptyComment, start)) {
+      start = xmlText.indexOf("<", start + emptyComment.length);
+    }
+    readText(start);
+    offset = end;
+    return xmlText.substring(start, end);
+  };
+  // Once the xml is not well-formed, the events do not match the xml text, so they are ignored.
+  const handle =
+    (handler: () => void): (() => void) =>
+    () => {
+      if (!parseError) {
+        handler();
+      }
+    };
+
+  parser.onopentag = handle(() => {
+    const start = xmlText.indexOf("<", offset);
+    const startTag = readMarkup(parser.position);
+    const element = new XmlElement(startTagPattern.exec(startTag)![1]);
+
+    // the end of the name, then of each attribute
+    let attributesEnd = element.name.length + 1;
+    attributePattern.lastIndex = attributesEnd;
+    let match: RegExpExecArray | null;
+    while ((match = attributePattern.exec(startTag))) {
+      const [, leading, name, separator, doubleQuoted, singleQuoted] = match;
+      if (element.attributes.some((attribute) => attribute.name === name)) {
+        fail(`The attribute "${name}" is specified more than once.`, start + match.index);
+      }
+      const quote = doubleQuoted !== undefined ? '"' : "'";
+      element.attributes.push(
+        new XmlAttribute(name, doubleQuoted ?? singleQuoted, quote, leading, separator)
+      );
+      attributesEnd = attributePattern.lastIndex;
+    }
+    startTagEndPattern.lastIndex = attributesEnd;
+    const [, trailing, selfClosing] = startTagEndPattern.exec(startTag)!;
+    element.startTagTrailing = trailing;
+    element.selfClosing = selfClosing === "/";
+
+    if (!openElements.length) {
+      if (root) {
+        fail("There is more than one root element.", start);
+      }
+      root = element;
+    }
+    addContent(element);
+    openElements.push(element);
+  });
+  parser.onclosetag = handle(() => {
+    const element = openElements[openElements.length - 1];
+    if (!element.selfClosing) {
+      element.endTagTrailing = endTagTrailingPattern.exec(readMarkup(parser.position))![1];
+    }
+    openElements.pop();
+  });
+  parser.oncomment = handle(() => {
+    // the comment is reported before its closing ">" is read
+    addContent(new XmlMarkup("comment", readMarkup(parser.position + 1)));
+  });
+  parser.onclosecdata = handle(() => {
+    addContent(new XmlMarkup("cdata", readMarkup(parser.position)));
+  });
+  parser.onprocessinginstruction = handle(() => {
+    addContent(new XmlMarkup("instruction", readMarkup(parser.position)));
+  });
+  parser.ondoctype = handle(() => {
+    addContent(new XmlMarkup("declaration", readMarkup(parser.position)));
+  });
+  parser.onerror = (err: Error) => {
+    if (!parseError) {
+      parseError = new XmlParseError(
+        err.message.split("\n")[0],
+        parser.line + 1,
+        parser.column + 1
+      );
+    }
+    parser.resume();
+  };
+
+  parser.write(xmlText).close();
+
+  if (parseError) {
+    throw parseError;
+  }
+  if (!root) {
+    throw new XmlParseError("The xml does not have a root element.", 1, 1);
+  }
+  readText(xmlText.length);
+
+  return new XmlDocument(root, documentChildren);
+}
@@ -0,0 +1,153 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import sax from "sax";
+
+/**
+ * An xml element along with its position in the xml text.
+ */
+export interface XmlNode {
+  attributes: XmlNodeAttribute[];
+  children: XmlNode[];
+  column: number;
+  line: number;
+  localName: string;
+  name: string;
+  namespace: string;
+  parent?: XmlNode;
+  text: string;
+}
+
+export interface XmlNodeAttribute {
+  localName: string;
+  name: string;
+  namespace: string;
+  value: string;
+}
+
+export class XmlParseError extends Error {
+  constructor(
+    message: string,
+    public line: number,
+    public column: number
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Parses the xml text and returns the root element. Line and column numbers start at 1.
+ * @param xmlText The xml text.
+ * @throws XmlParseError if the xml is not well-formed.
+ */
+export function parseXmlNodes(xmlText: string): XmlNode {
+  const parser = sax.parser(true, { position: true, xmlns: true });
+  const lineStarts: number[] = [0];
+  let root: XmlNode | undefined;
+  let current: XmlNode | undefined;
+  let parseError: XmlParseError | undefined;
+
+  for (let index = 0; index < xmlText.length; ++index) {
+    if (xmlText[index] === "\n") {
+      lineStarts.push(index + 1);
+    }
+  }
+
+  const getPosition = (offset: number): { line: number; column: number } => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+
+  parser.onopentag = (tag: sax.QualifiedTag) => {
+    // startTagPosition is the position just after the "<" character.
+    const position = getPosition(parser.startTagPosition - 1);
+    const node: XmlNode = {
+      attributes: Object.values(tag.attributes).map((attribute) => ({
+        localName: attribute.local,
+        name: attribute.name,
+        namespace: attribute.uri,
+        value: attribute.value,
+      })),
+      children: [],
+      column: position.column,
+      line: position.line,
+      localName: tag.local,
+      name: tag.name,
+      namespace: tag.uri,
+      parent: current,
+      text: "",
+    };
+
+    if (current) {
+      current.children.push(node);
+    } else {
+      root = node;
+    }
+    current = node;
+  };
+  parser.onclosetag = () => {
+    current = current?.parent;
+  };
+  parser.ontext = parser.oncdata = (text: string) => {
+    if (current) {
+      current.text += text;
+    }
+  };
+  parser.onerror = (err: Error) => {
+    if (!parseError) {
+      parseError = new XmlParseError(
+        err.message.split("\n")[0],
+        parser.line + 1,
+        parser.column + 1
+      );
+    }
+    parser.resume();
+  };
+
+  parser.write(xmlText).close();
+
+  if (parseError) {
+    throw parseError;
+  }
+  if (!root) {
+    throw new XmlParseError("The xml does not have a root element.", 1, 1);
+  }
+
+  return root;
+}
+
+/**
+ * Returns the value of the attribute with the specified name, or undefined.
+ * @param node The xml element.
+ * @param localName The name of the attribute without a namespace prefix.
+ * @param namespace The namespace of the attribute. Attributes without a prefix do not have a namespace.
+ */
+export function getXmlNodeAttributeValue(
+  node: XmlNode,
+  localName: string,
+  namespace: string = ""
+): string | undefined {
+  const attribute = node.attributes.find(
+    (item) => item.localName === localName && item.namespace === namespace
+  );
+  return attribute ? attribute.value : undefined;
+}
+
+/**
+ * Returns the element and all of the elements inside of it, in document order.
+ * @param node The xml element.
+ */
+export function getXmlNodeDescendants(node: XmlNode): XmlNode[] {
+  const nodes: XmlNode[] = [node];
+  node.children.forEach((child) => nodes.push(...getXmlNodeDescendants(child)));
+  return nodes;
+}
@@ -0,0 +1,14 @@
+module.exports = {
+  rules: [
+    {
+      id: "provider-name",
+      description: "The provider name must not be Contoso",
+      severity: "warning",
+      check(context) {
+        return context.manifest.providerName === "Contoso"
+          ? [{ message: "The provider name is Contoso." }]
+          : [];
+      },
+    },
+  ],
+};
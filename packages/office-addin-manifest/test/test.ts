@@ -5,6 +5,7 @@ import AdmZip from "adm-zip";
 import assert from "assert";
 import fs from "fs";
 import { afterEach, beforeEach, describe, it } from "mocha";
+import os from "os";
 import path from "path";
 import { v1 as uuidv1 } from "uuid";
 import { isUUID } from "validator";
@@ -29,8 +30,31 @@ import {
   toOfficeApp,
 } from "../src/officeApp";
 import { validateManifest } from "../src/validate";
+import { validateXmlManifestText } from "../src/validateOffline";
+import { iconUrlsRule } from "../src/rules/builtInRules";
+import { runManifestRules } from "../src/rules/ruleEngine";
+import {
+  formatValidationAsJUnit,
+  formatValidationAsSarif,
+  getValidationForError,
+  isValidationFailure,
+  parseValidationFailureLevel,
+  parseValidationReportFormat,
+  ValidationFailureLevel,
+  ValidationReportFormat,
+} from "../src/reportFormats";
+import {
+  diffManifestDocuments,
+  diffManifests,
+  formatManifestDifferencesAsText,
+  ManifestDifferenceKind,
+} from "../src/diff";
 import { exportMetadataPackage } from "../src/export";
-import { ManifestInfo } from "../src/manifestInfo";
+import { getLocalhostUrls, readEnvironmentProfile, transformManifest, transformManifestDocument } from "../src/transform";
+import { ManifestInfo, ManifestType } from "../src/manifestInfo";
+import { ManifestDocumentXml } from "../src/manifestDocument/manifestDocumentXml";
+import { parseXmlDocument } from "../src/xmlDocument";
+import { XmlParseError } from "../src/xmlNode";
 
 /* global require */
 
@@ -707,6 +731,253 @@ describe("Unit Tests", function () {
       });
     });
   });
+  describe("manifestDocument", function () {
+    describe("readManifestDocument() XML", function () {
+      it("should write an unchanged manifest as it was read", async function () {
+        const manifestFiles = fs.readdirSync(manifestOriginalFolder).filter((file) => file.endsWith(".xml"));
+        for (const file of manifestFiles) {
+          const manifestPath = path.join(manifestOriginalFolder, file);
+          const manifestDocument = await OfficeAddinManifest.readManifestDocument(manifestPath);
+          assert.strictEqual(manifestDocument.toString(), fs.readFileSync(manifestPath, "utf8"), file);
+        }
+      });
+      it("should keep empty comments", async function () {
+        const xmlText = "<!---->\n<a><!---->x<!----><b/></a><!---->\n";
+        assert.strictEqual(parseXmlDocument(xmlText).toString(), xmlText);
+      });
+      it("should report an error for a manifest which is not well-formed", async function () {
+        const xmlText = fs.readFileSync("test/manifests/invalid/incorrect-end-tag.manifest.xml", "utf8");
+        assert.throws(
+          () => new ManifestDocumentXml(xmlText),
+          (err: any) => err instanceof XmlParseError && err.line === 9 && err.column === 47
+        );
+      });
+      it("should read the manifest document", async function () {
+        const manifestDocument = await OfficeAddinManifest.readManifestDocument("test/manifests/TaskPane.Outlook.manifest.xml");
+        assert.strictEqual(manifestDocument.manifestType, ManifestType.XML);
+        assert.strictEqual(manifestDocument.id, "05c2e1c9-3e1d-406e-9a91-e9ac64854143");
+        assert.strictEqual(manifestDocument.displayName, "Contoso Task Pane Add-in");
+        assert.deepStrictEqual(manifestDocument.hosts, ["Mailbox"]);
+        assert.deepStrictEqual(manifestDocument.permissions, ["ReadWriteItem"]);
+        assert.deepStrictEqual(manifestDocument.requirementSets, [{ name: "Mailbox", minVersion: "1.1" }]);
+        assert.deepStrictEqual(manifestDocument.getVersionOverrides()[0].requirementSets, [{ name: "Mailbox", minVersion: "1.3" }]);
+        assert.deepStrictEqual(manifestDocument.getExtensionPoints(), [
+          {
+            host: "MailHost",
+            type: "MessageReadCommandSurface",
+            commands: ["msgReadOpenPaneButton", "ActionButton"],
+            formFactor: "DesktopFormFactor",
+            versionOverrides: "VersionOverridesV1_0",
+          },
+        ]);
+        assert.deepStrictEqual(manifestDocument.getCommands()[1], {
+          id: "ActionButton",
+          type: "Button",
+          extensionPoint: "MessageReadCommandSurface",
+          label: "Perform an action",
+          tooltip: "Perform an action when clicked.",
+          action: { type: "ExecuteFunction", functionName: "action", sourceLocation: undefined },
+        });
+        assert.strictEqual(manifestDocument.webApplicationInfo, undefined);
+      });
+      it("should change the manifest and keep comments and the order of elements", async function () {
+        const manifestPath = "test/manifests/TaskPane.manifest.xml";
+        const xml = fs.readFileSync(manifestPath, "utf8").replace("<Hosts>", "<!-- hosts -->\n  <Hosts>");
+        const manifestDocument = new ManifestDocumentXml(xml);
+        manifestDocument.appDomains = [];
+        manifestDocument.appDomains = ["contoso.com", "fabrikam.com"];
+        manifestDocument.hosts = ["Workbook", "Document"];
+        manifestDocument.displayName = "Contoso & Fabrikam";
+        manifestDocument.setLocalizedString("Contoso.GetStarted.Title", "Los geht's", "de-DE");
+
+        const text = manifestDocument.toString();
+        assert.ok(
+          text.includes(
+            `  <AppDomains>\n    <AppDomain>contoso.com</AppDomain>\n    <AppDomain>fabrikam.com</AppDomain>\n  </AppDomains>\n  <!-- hosts -->\n  <Hosts>`
+          )
+        );
+        assert.ok(text.includes(`<Host Name="Workbook"/>`));
+        assert.ok(text.includes(`<DisplayName DefaultValue="Contoso &amp; Fabrikam"/>`));
+        assert.ok(text.includes(`<bt:Override Locale="de-DE" Value="Los geht's"/>`));
+
+        const changed = new ManifestDocumentXml(text);
+        assert.deepStrictEqual(changed.hosts, ["Workbook", "Document"]);
+        assert.strictEqual(changed.displayName, "Contoso & Fabrikam");
+        assert.deepStrictEqual(
+          changed.getLocalizedStrings().find((item) => item.id === "Contoso.GetStarted.Title")!.overrides,
+          { "de-DE": "Los geht's" }
+        );
+      });
+      it("should change commands through the resources", async function () {
+        const manifestDocument = await OfficeAddinManifest.readManifestDocument("test/manifests/TaskPane.Outlook.manifest.xml");
+        manifestDocument.updateCommand("msgReadOpenPaneButton", {
+          label: "Open",
+          sourceLocation: "https://www.contoso.com/taskpane.html",
+        });
+        manifestDocument.removeCommand("ActionButton");
+        assert.deepStrictEqual(
+          manifestDocument.getCommands().map((command) => [command.id, command.label, command.action!.sourceLocation]),
+          [["msgReadOpenPaneButton", "Open", "https://www.contoso.com/taskpane.html"]]
+        );
+        assert.throws(() => manifestDocument.removeCommand("ActionButton"), {
+          message: `The manifest does not have the command "ActionButton".`,
+        });
+      });
+      it("should change the VersionOverrides and extension points", async function () {
+        const manifestDocument = await OfficeAddinManifest.readManifestDocument("test/manifests/TaskPane.Excel.manifest.xml");
+        manifestDocument.updateVersionOverrides("VersionOverridesV1_0", {
+          requirementSets: [{ name: "AddinCommands", minVersion: "1.1" }],
+        });
+        assert.ok(
+          manifestDocument
+            .toString()
+            .includes(
+              `xsi:type="VersionOverridesV1_0">\n    <Requirements>\n      <bt:Sets>\n        <bt:Set Name="AddinCommands" MinVersion="1.1"/>\n      </bt:Sets>\n    </Requirements>\n    <Hosts>`
+            )
+        );
+        assert.throws(() => manifestDocument.updateVersionOverrides("VersionOverridesV1_0", { hosts: ["Workbook", "Document"] }), {
+          message: `The VersionOverrides "VersionOverridesV1_0" does not have the host "Document".`,
+        });
+
+        manifestDocument.removeExtensionPoint("Workbook", "PrimaryCommandSurface");
+        assert.deepStrictEqual(manifestDocument.getExtensionPoints(), []);
+        assert.deepStrictEqual(manifestDocument.getCommands(), []);
+        manifestDocument.updateVersionOverrides("VersionOverridesV1_0", { hosts: [] });
+
+        const changed = new ManifestDocumentXml(manifestDocument.toString());
+        assert.deepStrictEqual(changed.getVersionOverrides(), [
+          {
+            type: "VersionOverridesV1_0",
+            namespace: "http://schemas.microsoft.com/office/taskpaneappversionoverrides",
+            hosts: [],
+            requirementSets: [{ name: "AddinCommands", minVersion: "1.1" }],
+          },
+        ]);
+        changed.removeVersionOverrides("VersionOverridesV1_0");
+        assert.deepStrictEqual(changed.getVersionOverrides(), []);
+        assert.throws(() => changed.removeVersionOverrides("VersionOverridesV1_0"), {
+          message: `The manifest does not have the VersionOverrides "VersionOverridesV1_0".`,
+        });
+      });
+    });
+    describe("readManifestDocument() JSON", function () {
+      it("should read and change the manifest document", async function () {
+        const manifestDocument = await OfficeAddinManifest.readManifestDocument("test/manifests/manifest.json");
+        assert.strictEqual(manifestDocument.toString(), fs.readFileSync("test/manifests/manifest.json", "utf8"));
+        assert.deepStrictEqual(manifestDocument.hosts, ["mail"]);
+        assert.deepStrictEqual(manifestDocument.requirementSets, [{ name: "Mailbox", minVersion: "1.3" }]);
+        assert.deepStrictEqual(
+          manifestDocument.getRuntimes().map((runtime) => runtime.id),
+          ["TaskPaneRuntime", "CommandsRuntime"]
+        );
+
+        manifestDocument.updateCommand("ActionButton", { label: "Run", functionName: "run" });
+        manifestDocument.updateRuntime("TaskPaneRuntime", { sourceLocation: "https://www.contoso.com/taskpane.html" });
+        const json = JSON.parse(manifestDocument.toString());
+        assert.deepStrictEqual(Object.keys(json), Object.keys(JSON.parse(fs.readFileSync("test/manifests/manifest.json", "utf8"))));
+        assert.strictEqual(json.extensions[0].runtimes[1].actions[0].id, "run");
+        assert.deepStrictEqual(manifestDocument.getCommands()[1].action, {
+          type: "executeFunction",
+          functionName: "run",
+          sourceLocation: undefined,
+        });
+        assert.strictEqual(manifestDocument.getCommands()[0].action!.sourceLocation, "https://www.contoso.com/taskpane.html");
+
+        manifestDocument.removeExtensionPoint("mail", "ribbon");
+        assert.deepStrictEqual(manifestDocument.getExtensionPoints(), []);
+        assert.strictEqual(JSON.parse(manifestDocument.toString()).extensions[0].ribbons, undefined);
+      });
+    });
+    describe("writeManifestDocument()", function () {
+      beforeEach(async function () {
+        await _createManifestTestFolder(manifestTestFolder);
+      });
+      afterEach(async function () {
+        await _deleteFolder(manifestTestFolder);
+      });
+      it("should write the manifest document", async function () {
+        const manifestDocument = await OfficeAddinManifest.readManifestDocument(testManifestXml);
+        manifestDocument.version = "2.0.0.0";
+        await OfficeAddinManifest.writeManifestDocument(testManifestXml, manifestDocument);
+        const info = await OfficeAddinManifest.readManifestFile(testManifestXml);
+        assert.strictEqual(info.version, "2.0.0.0");
+      });
+      it("should not write a document to a manifest with another format", async function () {
+        const manifestDocument = await OfficeAddinManifest.readManifestDocument(testManifestXml);
+        let result: string = "";
+        try {
+          await OfficeAddinManifest.writeManifestDocument(testManifestJson, manifestDocument);
+        } catch (err: any) {
+          result = err.message;
+        }
+        assert.strictEqual(result, `The manifest file ${testManifestJson} is not a xml file.`);
+      });
+    });
+  });
+  describe("transform.ts", function () {
+    describe("transformManifestDocument()", function () {
+      it("should change the manifest for the environment", async function () {
+        const manifestDocument = await OfficeAddinManifest.readManifestDocument("test/manifests/TaskPane.manifest.xml");
+        const profile = await readEnvironmentProfile("test/manifests/transform/staging.json");
+        transformManifestDocument(manifestDocument, profile);
+
+        assert.strictEqual(manifestDocument.id, "6c883c79-9b2a-45a3-b3d1-3dbd08000002");
+        assert.strictEqual(manifestDocument.displayName, "Contoso Task Pane Add-in (Staging)");
+        assert.strictEqual(manifestDocument.version, "1.2.0.0");
+        assert.deepStrictEqual(manifestDocument.appDomains, ["https://login.contoso.com"]);
+        assert.deepStrictEqual(getLocalhostUrls(manifestDocument), []);
+        assert.ok(manifestDocument.getUrls().includes("https://staging.contoso.com/addin/taskpane.html"));
+        assert.ok(manifestDocument.toString().includes(`xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"`));
+      });
+      it("should change the urls in a json manifest", async function () {
+        const manifestDocument = await OfficeAddinManifest.readManifestDocument("test/manifests/manifest.json");
+        transformManifestDocument(manifestDocument, { baseUrls: { "https://localhost:3000/": "https://www.contoso.com" } });
+        const json = JSON.parse(manifestDocument.toString());
+
+        assert.strictEqual(json.$schema, "https://developer.microsoft.com/json-schemas/teams/v1.17/MicrosoftTeams.schema.json");
+        assert.strictEqual(json.extensions[0].runtimes[0].code.page, "https://www.contoso.com/taskpane.html");
+        assert.deepStrictEqual(getLocalhostUrls(manifestDocument), []);
+      });
+      it("should not allow localhost urls for production", async function () {
+        const manifestDocument = await OfficeAddinManifest.readManifestDocument("test/manifests/TaskPane.Outlook.manifest.xml");
+        const profile = await readEnvironmentProfile("test/manifests/transform/production.json");
+        assert.throws(() => transformManifestDocument(manifestDocument, profile), {
+          message:
+            "The manifest for production has localhost urls:\n  https://localhost:3000/taskpane.html\n  https://localhost:3000/commands.html\nAdd base urls to the environment profile to replace them.",
+        });
+      });
+    });
+    describe("transformManifest()", function () {
+      beforeEach(async function () {
+        await _createManifestTestFolder(manifestTestFolder);
+      });
+      afterEach(async function () {
+        await _deleteFolder(manifestTestFolder);
+      });
+      it("should write the manifest for the environment", async function () {
+        const outputPath = path.join(manifestTestFolder, "manifest.staging.xml");
+        await transformManifest(testManifestXml, "test/manifests/transform/staging.json", outputPath);
+        const info = await OfficeAddinManifest.readManifestFile(outputPath);
+        assert.strictEqual(info.displayName, "Contoso Task Pane Add-in (Staging)");
+        assert.strictEqual(info.defaultSettings!.sourceLocation, "https://staging.contoso.com/addin/taskpane.html");
+      });
+      it("should write the manifest when the extension is in upper case", async function () {
+        const outputPath = path.join(manifestTestFolder, "Manifest.Staging.XML");
+        await transformManifest(testManifestXml, "test/manifests/transform/staging.json", outputPath);
+        const info = await OfficeAddinManifest.readManifestFile(outputPath);
+        assert.strictEqual(info.displayName, "Contoso Task Pane Add-in (Staging)");
+      });
+      it("should not change the format of the manifest", async function () {
+        let result: string = "";
+        try {
+          await transformManifest(testManifestXml, {}, path.join(manifestTestFolder, "manifest.staging.json"));
+        } catch (err: any) {
+          result = err.message;
+        }
+        assert.strictEqual(result, `The output file must have the same extension as the manifest: ${testManifestXml}.`);
+      });
+    });
+  });
   describe("validate.ts", function () {
     describe("validateManifest() XML", function () {
       this.slow(5000);
@@ -821,6 +1092,358 @@ describe("Unit Tests", function () {
         assert.strictEqual(result.indexOf("ENOENT: no such file or directory") >= 0, true);
       });
     });
+    describe("validateManifest() offline", function () {
+      it("valid manifests", async function () {
+        const manifests: string[] = [
+          "Attachments.Outlook.manifest.xml",
+          "ExcelCustomFunctions.manifest.xml",
+          "ScriptLab-v1.3.2.0.manifest.xml",
+          "TaskPane.Excel.manifest.xml",
+          "TaskPane.OneNote.manifest.xml",
+          "TaskPane.Outlook.manifest.xml",
+          "TaskPane.PowerPoint.manifest.xml",
+          "TaskPane.Project.manifest.xml",
+          "TaskPane.Word.manifest.xml",
+        ];
+        for (const manifest of manifests) {
+          const validation = await validateManifest(`test/manifests/${manifest}`, false, true);
+          assert.strictEqual(validation.isValid, true, manifest);
+          assert.strictEqual(validation.status, undefined);
+          assert.strictEqual(validation.report!.status, "Accepted");
+          assert.strictEqual(validation.report!.errors!.length, 0);
+          assert.strictEqual(validation.report!.warnings!.length, 0);
+          assert.strictEqual(validation.report!.notes!.length, 1);
+        }
+      });
+      it("missing required element", async function () {
+        const validation = await validateManifest("test/manifests/invalid/no-description.manifest.xml", false, true);
+        assert.strictEqual(validation.isValid, false);
+        assert.strictEqual(validation.report!.status, "Rejected");
+        assert.strictEqual(validation.report!.errors!.length, 1);
+        const error = validation.report!.errors![0];
+        assert.strictEqual(error.content, "The element 'OfficeApp' is missing the required child element 'Description'.");
+        assert.strictEqual(error.line, 12);
+        assert.strictEqual(error.column, 2);
+      });
+      it("invalid xsi:type and resource id length", async function () {
+        const validation = await validateManifest(
+          "test/manifests/invalid/invalid-resid-length.manifest.xml",
+          false,
+          true
+        );
+        assert.strictEqual(validation.isValid, false);
+        assert.strictEqual(validation.report!.errors!.length, 2);
+        const [typeError, lengthError] = validation.report!.errors!;
+        assert.strictEqual(typeError.content!.startsWith("The 'xsi:type' value 'Button!!!"), true);
+        assert.strictEqual(typeError.line, 77);
+        assert.strictEqual(typeError.column, 33);
+        assert.strictEqual(lengthError.content!.endsWith("is longer than the maximum length of 32."), true);
+        assert.strictEqual(lengthError.line, 117);
+      });
+      it("element out of order", async function () {
+        const manifestText = fs
+          .readFileSync("test/manifests/TaskPane.Project.manifest.xml", "utf8")
+          .replace("<Version>1.0.0.0</Version>", "")
+          .replace("</OfficeApp>", "<Version>1.0.0.0</Version></OfficeApp>");
+        const validation = validateXmlManifestText(manifestText);
+        assert.strictEqual(validation.isValid, false);
+        assert.strictEqual(
+          validation.report!.errors!.some((error) => error.content === "The element 'OfficeApp' is missing the required child element 'Version'."),
+          true
+        );
+      });
+      it("root element", async function () {
+        const validation = await validateManifest("test/manifests/invalid/officeapp-empty.manifest.xml", false, true);
+        assert.strictEqual(validation.isValid, false);
+        assert.strictEqual(
+          validation.report!.errors![0].content,
+          "The root element must be 'OfficeApp' in namespace 'http://schemas.microsoft.com/office/appforoffice/1.1'."
+        );
+      });
+      it("json manifest", async function () {
+        let result: string = "";
+        try {
+          await validateManifest("test/manifests/manifest.json", false, true);
+        } catch (err: any) {
+          result = err.message;
+        }
+        assert.strictEqual(result, "Offline validation is only supported for xml manifests.");
+      });
+      it("json manifest with an upper case extension", async function () {
+        const folder = fs.mkdtempSync(path.join(os.tmpdir(), "manifest-"));
+        const manifestPath = path.join(folder, "manifest.JSON");
+        fs.copyFileSync("test/manifests/manifest.json", manifestPath);
+        let result: string = "";
+        try {
+          await validateManifest(manifestPath, false, true);
+        } catch (err: any) {
+          result = err.message;
+        } finally {
+          fs.rmSync(folder, { recursive: true, force: true });
+        }
+        assert.strictEqual(result, "Offline validation is only supported for xml manifests.");
+      });
+    });
+  });
+  describe("ruleEngine.ts", function () {
+    describe("runManifestRules()", function () {
+      it("no issues for a valid manifest", async function () {
+        const report = await runManifestRules("test/manifests/TaskPane.manifest.xml", { offline: true, production: true });
+        assert.strictEqual(report.status, "Accepted");
+        assert.strictEqual(report.errors!.length, 0);
+        assert.strictEqual(report.warnings!.length, 0);
+      });
+      it("built-in rules", async function () {
+        const report = await runManifestRules("test/manifests/rules/rules.manifest.xml", { offline: true });
+        assert.strictEqual(report.status, "Rejected");
+        assert.deepStrictEqual(
+          report.errors!.map((issue) => [issue.code, issue.line]),
+          [
+            ["unique-resource-ids", 78],
+            ["host-specific-elements", 63],
+          ]
+        );
+        assert.strictEqual(report.warnings!.length, 1);
+        const warning = report.warnings![0];
+        assert.strictEqual(warning.code, "source-location-app-domains");
+        assert.strictEqual(
+          warning.content,
+          `The host "cdn.contoso.net" of the Url "https://cdn.contoso.net/taskpane.html" is not listed in the AppDomains.`
+        );
+        assert.strictEqual(warning.helpUrl, "https://learn.microsoft.com/javascript/api/manifest/appdomains");
+        assert.strictEqual(warning.line, 77);
+        assert.strictEqual(warning.column, 9);
+      });
+      it("hosts of every SourceLocation of the add-in pages do not need to be in AppDomains", async function () {
+        await _createManifestTestFolder(manifestTestFolder);
+        try {
+          const manifestPath = path.join(manifestTestFolder, "rules.manifest.xml");
+          const xml = fs
+            .readFileSync("test/manifests/rules/rules.manifest.xml", "utf8")
+            .replace(
+              `<SourceLocation DefaultValue="https://localhost:3000/taskpane.html"/>`,
+              `<SourceLocation DefaultValue="https://localhost:3000/taskpane.html">\n      <Override Locale="de-DE" Value="https://www.fabrikam.com/taskpane.html"/>\n    </SourceLocation>`
+            );
+          fs.writeFileSync(manifestPath, xml);
+          const report = await runManifestRules(manifestPath, { offline: true });
+          assert.deepStrictEqual(
+            report.warnings!.map((issue) => issue.content),
+            [`The host "cdn.contoso.net" of the Url "https://cdn.contoso.net/taskpane.html" is not listed in the AppDomains.`]
+          );
+        } finally {
+          await _deleteFolder(manifestTestFolder);
+        }
+      });
+      it("hosts of every runtime page of a json manifest do not need to be in AppDomains", async function () {
+        await _createManifestTestFolder(manifestTestFolder);
+        try {
+          const json = JSON.parse(fs.readFileSync(testManifestJson, "utf8"));
+          json.extensions[0].runtimes[1].code = {
+            page: "https://www.fabrikam.com/commands.html",
+            script: "https://cdn.contoso.net/commands.js",
+          };
+          fs.writeFileSync(testManifestJson, JSON.stringify(json));
+          const report = await runManifestRules(testManifestJson, { offline: true });
+          assert.deepStrictEqual(
+            report.warnings!.filter((issue) => issue.code === "source-location-app-domains").map((issue) => issue.content),
+            [
+              `The host "cdn.contoso.net" of the extensions[0].runtimes[1].code.script "https://cdn.contoso.net/commands.js" is not listed in the AppDomains.`,
+            ]
+          );
+        } finally {
+          await _deleteFolder(manifestTestFolder);
+        }
+      });
+      it("http urls in production", async function () {
+        const report = await runManifestRules("test/manifests/rules/rules.manifest.xml", {
+          offline: true,
+          production: true,
+        });
+        const httpErrors = report.errors!.filter((issue) => issue.code === "no-http-urls");
+        assert.strictEqual(httpErrors.length, 1);
+        assert.strictEqual(httpErrors[0].content, `The SupportUrl DefaultValue "http://www.contoso.com/help" does not use https.`);
+        assert.strictEqual(httpErrors[0].line, 14);
+      });
+      it("outlook ribbon context in a json manifest for other hosts", async function () {
+        await _createManifestTestFolder(manifestTestFolder);
+        try {
+          const json = JSON.parse(fs.readFileSync(testManifestJson, "utf8"));
+          json.extensions[0].requirements.scopes = ["workbook"];
+          fs.writeFileSync(testManifestJson, JSON.stringify(json));
+          const report = await runManifestRules(testManifestJson, { offline: true });
+          assert.deepStrictEqual(
+            report.errors!.map((issue) => issue.code),
+            ["host-specific-elements"]
+          );
+        } finally {
+          await _deleteFolder(manifestTestFolder);
+        }
+      });
+      it("icon files which do not exist", async function () {
+        const report = await runManifestRules("test/manifests/manifest.local.json", { rules: [iconUrlsRule] });
+        const missingIcons = report.warnings!.filter((issue) => issue.content!.endsWith("does not exist."));
+        assert.deepStrictEqual(
+          missingIcons.map((issue) => issue.content),
+          [`The icons.color "assets/color.png" does not exist.`, `The icons.outline "assets/outline.png" does not exist.`]
+        );
+      });
+      it("rules which need the network are not run offline", async function () {
+        const report = await runManifestRules("test/manifests/manifest.local.json", { offline: true, rules: [iconUrlsRule] });
+        assert.strictEqual(report.warnings!.length, 0);
+      });
+      it("rules config and custom rules", async function () {
+        const report = await runManifestRules("test/manifests/rules/rules.manifest.xml", {
+          configPath: "test/manifests/rules/rules-config.json",
+        });
+        assert.deepStrictEqual(
+          report.errors!.map((issue) => issue.code),
+          ["source-location-app-domains", "unique-resource-ids", "host-specific-elements"]
+        );
+        assert.deepStrictEqual(
+          report.warnings!.map((issue) => [issue.code, issue.content]),
+          [["provider-name", "The provider name is Contoso."]]
+        );
+      });
+      it("invalid rules config", async function () {
+        await _createManifestTestFolder(manifestTestFolder);
+        const configPath = path.join(manifestTestFolder, "rules-config.json");
+        let result: string = "";
+        try {
+          fs.writeFileSync(configPath, JSON.stringify({ rules: { "no-such-rule": "error" } }));
+          await runManifestRules("test/manifests/TaskPane.manifest.xml", { configPath });
+        } catch (err: any) {
+          result = err.message;
+        } finally {
+          await _deleteFolder(manifestTestFolder);
+        }
+        assert.strictEqual(result, `The rules config specifies the unknown rule "no-such-rule".`);
+      });
+    });
+  });
+  describe("reportFormats.ts", function () {
+    describe("parseValidationReportFormat()", function () {
+      it("valid formats", function () {
+        assert.strictEqual(parseValidationReportFormat("json"), ValidationReportFormat.JSON);
+        assert.strictEqual(parseValidationReportFormat("SARIF"), ValidationReportFormat.Sarif);
+        assert.strictEqual(parseValidationFailureLevel("Warning"), ValidationFailureLevel.Warning);
+      });
+      it("invalid format", function () {
+        assert.throws(() => parseValidationReportFormat("html"), {
+          message: `"html" is not a valid format. Use one of: json, junit, sarif, text.`,
+        });
+        assert.throws(() => parseValidationFailureLevel("info"), {
+          message: `"info" is not a valid severity. Use one of: error, none, warning.`,
+        });
+      });
+    });
+    describe("isValidationFailure()", function () {
+      it("fail on errors, warnings or none", async function () {
+        const validation = await validateManifest("test/manifests/rules/rules.manifest.xml", false, true);
+        validation.report!.warnings = (await runManifestRules("test/manifests/rules/rules.manifest.xml", { offline: true })).warnings;
+        assert.strictEqual(validation.isValid, true);
+        assert.strictEqual(isValidationFailure(validation, ValidationFailureLevel.Error), false);
+        assert.strictEqual(isValidationFailure(validation, ValidationFailureLevel.Warning), true);
+        assert.strictEqual(isValidationFailure(validation, ValidationFailureLevel.None), false);
+      });
+    });
+    describe("formatValidationAsSarif()", function () {
+      it("results have the line and column", async function () {
+        const manifestPath = "test/manifests/rules/rules.manifest.xml";
+        const validation = await validateManifest(manifestPath, false, true);
+        validation.report!.errors = (await runManifestRules(manifestPath, { offline: true })).errors;
+        const sarif = JSON.parse(formatValidationAsSarif(validation, manifestPath));
+        const results = sarif.runs[0].results.filter((result: any) => result.level === "error");
+        assert.strictEqual(sarif.version, "2.1.0");
+        assert.deepStrictEqual(
+          results.map((result: any) => result.ruleId),
+          ["unique-resource-ids", "host-specific-elements"]
+        );
+        assert.deepStrictEqual(results[0].locations[0].physicalLocation, {
+          artifactLocation: { uri: manifestPath },
+          region: { startLine: 78, startColumn: 9 },
+        });
+      });
+    });
+    describe("formatValidationAsJUnit()", function () {
+      it("failures depend on fail on", async function () {
+        const manifestPath = "test/manifests/rules/rules.manifest.xml";
+        const validation = await validateManifest(manifestPath, false, true);
+        const report = await runManifestRules(manifestPath, { offline: true });
+        validation.report!.errors = report.errors;
+        validation.report!.warnings = report.warnings;
+        const errorsOnly = formatValidationAsJUnit(validation, manifestPath, ValidationFailureLevel.Error);
+        const warnings = formatValidationAsJUnit(validation, manifestPath, ValidationFailureLevel.Warning);
+        assert.ok(errorsOnly.includes(`<testsuite name="${manifestPath}" tests="3" failures="2" errors="0">`));
+        assert.ok(warnings.includes(`<testsuite name="${manifestPath}" tests="3" failures="3" errors="0">`));
+      });
+    });
+    describe("getValidationForError()", function () {
+      it("the failure is written in each format", function () {
+        const manifestPath = "test/manifests/missing.manifest.xml";
+        const validation = getValidationForError(new Error("The manifest file does not exist."));
+        assert.strictEqual(validation.isValid, false);
+        assert.strictEqual(isValidationFailure(validation, ValidationFailureLevel.None), false);
+        assert.strictEqual(isValidationFailure(validation), true);
+        const sarif = JSON.parse(formatValidationAsSarif(validation, manifestPath));
+        assert.deepStrictEqual(sarif.runs[0].results[0].message, {
+          text: "Unable to validate the manifest: The manifest file does not exist.",
+        });
+        assert.ok(
+          formatValidationAsJUnit(validation, manifestPath).includes(
+            `<failure type="error" message="Unable to validate the manifest: The manifest file does not exist.">`
+          )
+        );
+      });
+    });
+  });
+  describe("diff.ts", function () {
+    describe("diffManifests()", function () {
+      it("should not find differences for the same manifest", async function () {
+        const differences = await diffManifests("test/manifests/TaskPane.manifest.xml", "test/manifests/TaskPane.manifest.xml");
+        assert.deepStrictEqual(differences, []);
+        assert.strictEqual(formatManifestDifferencesAsText(differences), "The manifests do not have any differences.");
+      });
+      it("should find semantic differences", async function () {
+        const first = await OfficeAddinManifest.readManifestDocument("test/manifests/TaskPane.Outlook.manifest.xml");
+        const second = await OfficeAddinManifest.readManifestDocument("test/manifests/TaskPane.Outlook.manifest.xml");
+        second.version = "1.1.0.0";
+        second.hosts = ["Mailbox", "Workbook"];
+        second.permissions = ["ReadWriteMailbox"];
+        second.requirementSets = [{ name: "Mailbox", minVersion: "1.5" }];
+        second.updateCommand("ActionButton", { label: "Run" });
+        second.removeCommand("msgReadOpenPaneButton");
+
+        const differences = diffManifestDocuments(first, second);
+        assert.strictEqual(
+          formatManifestDifferencesAsText(differences),
+          [
+            "~ version: 1.0.0.0 -> 1.1.0.0",
+            "+ host: Workbook",
+            "- permission: ReadWriteItem",
+            "+ permission: ReadWriteMailbox",
+            "~ requirement set Mailbox minimum version: 1.1 -> 1.5",
+            "- command: msgReadOpenPaneButton",
+            "~ command ActionButton label: Perform an action -> Run",
+          ].join("\n")
+        );
+        assert.deepStrictEqual(differences[0], {
+          kind: ManifestDifferenceKind.Changed,
+          category: "version",
+          name: "version",
+          before: "1.0.0.0",
+          after: "1.1.0.0",
+        });
+      });
+      it("should compare manifests with different formats", async function () {
+        const xml = await OfficeAddinManifest.readManifestDocument("test/manifests/TaskPane.Outlook.manifest.xml");
+        const json = await OfficeAddinManifest.readManifestDocument("test/manifests/manifest.json");
+        xml.id = json.id;
+        xml.permissions = ["ReadItem"];
+        xml.requirementSets = json.requirementSets;
+
+        assert.deepStrictEqual(diffManifestDocuments(xml, json), []);
+      });
+    });
   });
   describe("export.ts", function () {
     describe("exportMetadataPackage()", function () {
@@ -0,0 +1,116 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { ObjectData } from "./objectData";
+
+/**
+ * A call to a mock object, in the order it was made.
+ */
+export interface RecordedCall {
+  type: "load" | "sync" | "write" | "call";
+  /**
+   * Path of the method, such as "context.workbook.getSelectedRange", or of the property which was
+   * written, such as "context.workbook.getSelectedRange().format.fill.color".
+   */
+  path: string;
+  /** The arguments of a load, sync or method call. */
+  args?: unknown[];
+  /** The value of a write. */
+  value?: unknown;
+}
+
+/**
+ * A write to a property of a mock object.
+ */
+export interface RecordedWrite {
+  path: string;
+  value: unknown;
+}
+
+/**
+ * Returns the path of a property or method of the object at the path.
+ */
+export function joinPath(path: string, name: string): string {
+  return path ? `${path}.${name}` : name;
+}
+
+/**
+ * Returns the path of the object returned by a method, such as `getItem("Sheet1")`.
+ */
+export function getResultPath(methodPath: string, args: unknown[]): string {
+  const formattedArgs = args.map((arg) => {
+    try {
+      return JSON.stringify(arg) ?? String(arg);
+    } catch {
+      return String(arg);
+    }
+  });
+  return `${methodPath}(${formattedArgs.join(", ")})`;
+}
+
+/**
+ * Returns the paths of the properties loaded by the argument of a load call, relative to the object.
+ * An empty path means all the properties of the object.
+ */
+function getLoadedProperties(propertyArgument: unknown): string[] {
+  if (propertyArgument === undefined || propertyArgument === "*") {
+    return [""];
+  } else if (typeof propertyArgument === "string") {
+    return propertyArgument.split(",").map((property) => property.trim().replace(/\//g, "."));
+  } else if (Array.isArray(propertyArgument)) {
+    return ([] as string[]).concat(...propertyArgument.map(getLoadedProperties));
+  } else if (typeof propertyArgument === "object" && propertyArgument !== null) {
+    const properties: string[] = [];
+    Object.keys(propertyArgument as ObjectData).forEach((name) => {
+      const value = (propertyArgument as ObjectData)[name];
+      if (typeof value === "object" && value !== null) {
+        getLoadedProperties(value).forEach((property) => properties.push(joinPath(name, property)));
+      } else if (value) {
+        properties.push(name);
+      }
+    });
+    return properties;
+  }
+  return [];
+}
+
+/**
+ * Records the loads, syncs, writes and method calls made to a mock object and the objects it has.
+ */
+export class CallRecorder {
+  record(call: RecordedCall) {
+    this.calls.push(call);
+  }
+
+  getCalls(): RecordedCall[] {
+    return [...this.calls];
+  }
+
+  getSyncCount(): number {
+    return this.calls.filter((call) => call.type === "sync").length;
+  }
+
+  getWrites(): RecordedWrite[] {
+    return this.calls
+      .filter((call) => call.type === "write")
+      .map((call) => ({ path: call.path, value: call.value }));
+  }
+
+  /**
+   * Returns true if a load call loaded the property at the path, or an object which has it.
+   */
+  isLoaded(path: string): boolean {
+    return this.calls.some((call) => {
+      if (call.type !== "load") {
+        return false;
+      }
+      const objectPath = call.path.replace(/\.?load$/, "");
+      return getLoadedProperties(call.args?.[0]).some((property) => {
+        const loadedPath = joinPath(objectPath, property);
+        return loadedPath === "" || path === loadedPath || path.startsWith(`${loadedPath}.`);
+      });
+    });
+  }
+
+  private calls: RecordedCall[] = [];
+}
@@ -0,0 +1,38 @@
+#!/usr/bin/env node
+
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { Command } from "commander";
+import { logErrorMessage } from "office-addin-usage-data";
+import * as commands from "./commands";
+
+/* global process */
+
+const commander = new Command();
+
+commander.name("office-addin-mock");
+commander.version(process.env.npm_package_version || "(version not available)");
+
+commander
+  .command("fixture <sheet-path>")
+  .option(
+    "-o, --output <output-path>",
+    "Specify the path of the fixture file. Default is the path of the sheet with the .json extension."
+  )
+  .option("-s, --sheet <name>", "Specify the worksheet to use. Default is all the worksheets.")
+  .description("Create an Excel mock fixture from the cells of a CSV or XLSX file.")
+  .action(commands.fixture);
+
+// if the command is not known, display an error
+commander.on("command:*", function () {
+  logErrorMessage(`The command syntax is not valid.\n`);
+  process.exitCode = 1;
+  commander.help();
+});
+
+if (process.argv.length > 2) {
+  commander.parse(process.argv);
+} else {
+  commander.help();
+}
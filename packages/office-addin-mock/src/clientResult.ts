@@ -0,0 +1,36 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { ErrorCodes, OfficeExtensionError } from "./officeExtensionError";
+
+/**
+ * Mock of OfficeExtension.ClientResult, the value returned by a method of the Office.js APIs.
+ * @param value The value of the result
+ * @param loaded False if the value is not available until context.sync() is called (Optional)
+ */
+export class ClientResult<T = any> {
+  constructor(value: T, loaded: boolean = true) {
+    this._value = value;
+    this._loaded = loaded;
+  }
+
+  get value(): T {
+    if (!this._loaded) {
+      throw new OfficeExtensionError(
+        ErrorCodes.valueNotLoaded,
+        'The value of the result object has not been loaded yet. Before reading the value property, call "context.sync()" on the associated request context.'
+      );
+    }
+    return this._value;
+  }
+
+  /**
+   * Makes the value available, as context.sync() does.
+   */
+  setLoaded() {
+    this._loaded = true;
+  }
+
+  private _value: T;
+  private _loaded: boolean;
+}
@@ -0,0 +1,29 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { OptionValues } from "commander";
+import { logErrorMessage } from "office-addin-usage-data";
+import path from "path";
+import { usageDataObject } from "./defaults";
+import { writeFixture } from "./fixtures";
+import { createExcelFixtureFromFile } from "./sheetFixture";
+
+/* global console */
+
+export async function fixture(sheetPath: string, options: OptionValues) {
+  try {
+    const outputPath: string =
+      options.output ??
+      path.join(
+        path.dirname(sheetPath),
+        `${path.basename(sheetPath, path.extname(sheetPath))}.json`
+      );
+
+    writeFixture(outputPath, await createExcelFixtureFromFile(sheetPath, options.sheet));
+    console.log(`The Excel mock fixture was written to ${outputPath}.`);
+    usageDataObject.reportSuccess("fixture");
+  } catch (err: any) {
+    usageDataObject.reportException("fixture", err);
+    logErrorMessage(err);
+  }
+}
@@ -0,0 +1,71 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { ErrorCodes, OfficeExtensionError } from "./officeExtensionError";
+
+/**
+ * An error thrown by a property or method of a mock object.
+ */
+export interface OfficeMockFault {
+  /**
+   * Path of the property or method, such as "context.workbook.worksheets.getItem" or "context.sync".
+   * Objects returned by methods are in the path with the arguments, such as
+   * `context.workbook.worksheets.getItem("Sheet1").name`.
+   */
+  path: string;
+  /** The error code, such as "ItemNotFound". */
+  code: ErrorCodes | string;
+  /** The error message. Default is the message of Office.js for the code. (Optional) */
+  message?: string;
+  /** The call which throws the error, counting from 1. Default is every call. (Optional) */
+  onCall?: number;
+}
+
+const defaultMessages: { [code: string]: string } = {
+  [ErrorCodes.accessDenied]: "You cannot perform the requested operation.",
+  [ErrorCodes.activityLimitReached]: "Activity limit has been reached.",
+  [ErrorCodes.generalException]: "There was an internal error while processing the request.",
+  [ErrorCodes.invalidArgument]: "The argument is invalid or missing or has an incorrect format.",
+  [ErrorCodes.itemNotFound]: "The requested resource doesn't exist.",
+  [ErrorCodes.notImplemented]: "The requested feature isn't implemented.",
+};
+
+/**
+ * Throws the errors declared for the properties and methods of a mock object and the objects it has.
+ */
+export class FaultInjector {
+  add(fault: OfficeMockFault) {
+    if (fault.onCall !== undefined && (!Number.isInteger(fault.onCall) || fault.onCall < 1)) {
+      throw new Error(`The call of the fault for ${fault.path} must be a number from 1.`);
+    }
+    this.faults.push(fault);
+  }
+
+  /**
+   * Counts a call to the property or method at the path, and returns the error it throws, if any.
+   * @param path Path of the property or method
+   */
+  getError(path: string): OfficeExtensionError | undefined {
+    const faults = this.faults.filter((fault) => fault.path === path);
+    if (faults.length === 0) {
+      return undefined;
+    }
+
+    const call = (this.callCounts.get(path) ?? 0) + 1;
+    this.callCounts.set(path, call);
+    const fault = faults.find((fault) => fault.onCall === undefined || fault.onCall === call);
+    if (!fault) {
+      return undefined;
+    }
+    const message =
+      fault.message ??
+      defaultMessages[fault.code] ??
+      `The operation failed with the error code ${fault.code}.`;
+    const error = new OfficeExtensionError(fault.code, message);
+    error.debugInfo.errorLocation = path;
+    return error;
+  }
+
+  private faults: OfficeMockFault[] = [];
+  private callCounts = new Map<string, number>();
+}
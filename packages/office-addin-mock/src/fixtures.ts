@@ -0,0 +1,169 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import fs from "fs";
+import path from "path";
+import { ObjectData } from "./objectData";
+import { OfficeMockObject } from "./officeMockObject";
+
+/* global process */
+
+/**
+ * Dates are saved in fixtures as { "$date": "2022-06-29T11:32:11.447Z" }.
+ */
+const dateKey = "$date";
+
+/**
+ * Returns the fixture as json. Dates are saved as objects, so that they are dates when the fixture is read.
+ * @param data The object data, or the mock object whose current values are saved
+ */
+export function serializeFixture(data: ObjectData | OfficeMockObject): string {
+  const objectData = data instanceof OfficeMockObject ? data.toObjectData() : data;
+  return `${JSON.stringify(
+    objectData,
+    function (this: any, key: string, value: unknown) {
+      const original = this[key];
+      return original instanceof Date ? { [dateKey]: original.toISOString() } : value;
+    },
+    2
+  )}\n`;
+}
+
+/**
+ * Returns the object data in the fixture json.
+ * @param json The content of the fixture
+ */
+export function parseFixture(json: string): ObjectData {
+  return JSON.parse(json, (key: string, value: any) => {
+    const isDate =
+      typeof value === "object" &&
+      value !== null &&
+      Object.keys(value).length === 1 &&
+      typeof value[dateKey] === "string";
+    return isDate ? new Date(value[dateKey]) : value;
+  });
+}
+
+/**
+ * Reads a fixture, which provides the initial values for a mock object, such as
+ * new OfficeMockObject(readFixture("./test/fixtures/workbook.json")).
+ * @param fixturePath Path to the fixture json file
+ */
+export function readFixture(fixturePath: string): ObjectData {
+  return parseFixture(fs.readFileSync(fixturePath, "utf8"));
+}
+
+/**
+ * Writes a fixture.
+ * @param fixturePath Path to the fixture json file
+ * @param data The object data, or the mock object whose current values are saved
+ */
+export function writeFixture(fixturePath: string, data: ObjectData | OfficeMockObject) {
+  fs.mkdirSync(path.dirname(fixturePath), { recursive: true });
+  fs.writeFileSync(fixturePath, serializeFixture(data));
+}
+
+function formatValue(value: unknown): string {
+  return JSON.stringify(value) ?? String(value);
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Returns the differences between two values of a fixture, such as
+ * `context.workbook.name: expected "Book1" but was "Book2"`.
+ */
+function getDifferences(expected: unknown, actual: unknown, valuePath: string): string[] {
+  const location = valuePath || "(root)";
+
+  if (isObject(expected) && isObject(actual)) {
+    const keys = [...new Set([...Object.keys(expected), ...Object.keys(actual)])];
+    return ([] as string[]).concat(
+      ...keys.map((key) => {
+        const keyPath = valuePath ? `${valuePath}.${key}` : key;
+        if (!(key in actual)) {
+          return [`${keyPath}: expected ${formatValue(expected[key])} but was missing`];
+        } else if (!(key in expected)) {
+          return [`${keyPath}: was not expected but was ${formatValue(actual[key])}`];
+        }
+        return getDifferences(expected[key], actual[key], keyPath);
+      })
+    );
+  } else if (Array.isArray(expected) && Array.isArray(actual)) {
+    if (expected.length !== actual.length) {
+      return [
+        `${location}: expected ${expected.length} items but was ${actual.length} items, ${formatValue(
+          actual
+        )}`,
+      ];
+    }
+    return ([] as string[]).concat(
+      ...expected.map((item, index) =>
+        getDifferences(item, actual[index], `${valuePath}[${index}]`)
+      )
+    );
+  } else if (formatValue(expected) !== formatValue(actual)) {
+    return [`${location}: expected ${formatValue(expected)} but was ${formatValue(actual)}`];
+  }
+
+  return [];
+}
+
+/**
+ * Returns the differences between the expected and actual fixtures, such as
+ * `context.workbook.name: expected "Book1" but was "Book2"`. Dates are compared by their value.
+ * @param expected The expected object data
+ * @param actual The actual object data, or the mock object whose current values are compared
+ */
+export function compareFixtures(
+  expected: ObjectData | OfficeMockObject,
+  actual: ObjectData | OfficeMockObject
+): string[] {
+  return getDifferences(
+    JSON.parse(serializeFixture(expected)),
+    JSON.parse(serializeFixture(actual)),
+    ""
+  );
+}
+
+/**
+ * The environment variable which specifies that snapshot files are written instead of compared.
+ */
+export const updateSnapshotsEnvironmentVariable = "OFFICE_ADDIN_MOCK_UPDATE_SNAPSHOTS";
+
+/**
+ * Compares the current values of a mock object with a golden snapshot file, and throws an error which lists
+ * the differences if they don't match. If the snapshot file does not exist, an error is thrown, unless the
+ * snapshots are updated.
+ * @param actual The mock object, or the object data, to compare
+ * @param snapshotPath Path to the snapshot json file
+ * @param update Writes the snapshot file instead of comparing it (Optional). Default: whether the
+ * OFFICE_ADDIN_MOCK_UPDATE_SNAPSHOTS environment variable is set.
+ */
+export function matchSnapshot(
+  actual: ObjectData | OfficeMockObject,
+  snapshotPath: string,
+  update: boolean = !!process.env[updateSnapshotsEnvironmentVariable]
+) {
+  if (update) {
+    writeFixture(snapshotPath, actual);
+    return;
+  }
+
+  if (!fs.existsSync(snapshotPath)) {
+    throw new Error(
+      `The snapshot ${snapshotPath} does not exist. To write it, set the ${updateSnapshotsEnvironmentVariable} environment variable or pass true for update.`
+    );
+  }
+
+  const differences = compareFixtures(readFixture(snapshotPath), actual);
+  if (differences.length > 0) {
+    throw new Error(
+      `The mock object does not match the snapshot ${snapshotPath}:\n${differences
+        .map((difference) => `  ${difference}`)
+        .join("\n")}`
+    );
+  }
+}
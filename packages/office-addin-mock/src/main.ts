@@ -1,4 +1,12 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT license.
 
+export { RecordedCall, RecordedWrite } from "./callRecorder";
+export * from "./clientResult";
+export { OfficeMockFault } from "./faultInjector";
+export * from "./fixtures";
+export * from "./mockFactories";
+export * from "./officeExtensionError";
 export * from "./officeMockObject";
+export * from "./outlookSimulator";
+export * from "./sheetFixture";
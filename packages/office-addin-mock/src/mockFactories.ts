@@ -0,0 +1,445 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { OfficeApp } from "office-addin-manifest";
+import { ClientResult } from "./clientResult";
+import { ObjectData } from "./objectData";
+import { OfficeMockObject, OfficeMockObjectOptions } from "./officeMockObject";
+import { OfficeMemberType, OfficeTypes, readOfficeTypes } from "./officeTypes";
+import {
+  createOutlookItemData,
+  createOutlookUiData,
+  OutlookDialogData,
+  OutlookItemData,
+  OutlookMode,
+  outlookEnums,
+} from "./outlookSimulator";
+
+/**
+ * Options for the mocks created from the Office.js type declarations.
+ */
+export interface OfficeMockOptions extends OfficeMockObjectOptions {
+  /** Path to the Office.js type declarations. Default is the index.d.ts file in the @types/office-js package. */
+  typesPath?: string;
+  /**
+   * How many levels of object properties are created below the context, or below an object returned by a method.
+   * Objects returned by methods are created when the method is called, so they are not limited. Default is 3.
+   */
+  maxDepth?: number;
+}
+
+interface OfficeMembers {
+  clientObject: boolean;
+  itemType?: string;
+  properties: { [name: string]: OfficeMemberType };
+  methods: { [name: string]: OfficeMemberType };
+}
+
+const defaultMaxDepth: number = 3;
+
+/**
+ * The properties which identify the items of a collection, in the order they are used.
+ */
+const itemKeyProperties: string[] = ["name", "id", "key"];
+
+function isPlainObject(value: unknown): value is ObjectData {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !(value instanceof OfficeMockObject)
+  );
+}
+
+function getDefaultValue(value: unknown): unknown {
+  // each mock has its own arrays and dates, so that changes are not shared
+  if (Array.isArray(value)) {
+    return [];
+  } else if (value instanceof Date) {
+    return new Date(value.getTime());
+  }
+  return value;
+}
+
+/**
+ * Creates the object data for OfficeMockObject from the Office.js types.
+ */
+class OfficeMockBuilder {
+  constructor(
+    private officeTypes: OfficeTypes,
+    private host: OfficeApp,
+    private maxDepth: number
+  ) {}
+
+  /**
+   * Returns the object data for an object with the members of the types.
+   * @param types The qualified names of the types.
+   * @param overrides Values which replace the default values.
+   * @param ancestors The types of the objects which have the object, which are not created again to avoid cycles.
+   * @param depth The number of object properties above the object.
+   */
+  buildObjectData(
+    types: string[],
+    overrides: ObjectData = {},
+    ancestors: string[] = [],
+    depth: number = 0
+  ): ObjectData {
+    const members = this.getMembers(types);
+    const data: ObjectData = {};
+
+    if (members.clientObject) {
+      data.isNullObject = overrides.isNullObject ?? false;
+    }
+
+    Object.keys(members.properties).forEach((name) => {
+      const memberType = members.properties[name];
+      const override = overrides[name];
+
+      if (name === "items" && members.itemType) {
+        // added with the collection methods
+      } else if (memberType.kind === "object") {
+        const isCycle = memberType.types.some((type) => ancestors.includes(type));
+        if (
+          isPlainObject(override) ||
+          (!(name in overrides) && depth < this.maxDepth && !isCycle)
+        ) {
+          data[name] = this.buildObjectData(
+            memberType.types,
+            isPlainObject(override) ? override : {},
+            [...ancestors, ...types],
+            depth + 1
+          );
+        } else if (name in overrides) {
+          data[name] = override;
+        }
+      } else {
+        data[name] = name in overrides ? override : getDefaultValue(memberType.value);
+      }
+    });
+
+    Object.keys(members.methods).forEach((name) => {
+      const override = overrides[name];
+      data[name] =
+        typeof override === "function"
+          ? override
+          : this.createMethod(members.methods[name], isPlainObject(override) ? override : {});
+    });
+
+    if (members.itemType) {
+      this.addCollectionMembers(data, members.itemType, overrides);
+    }
+
+    // values which are not in the types, such as objects which are not created because of the depth
+    Object.keys(overrides).forEach((name) => {
+      if (!(name in data)) {
+        data[name] = overrides[name];
+      }
+    });
+
+    return data;
+  }
+
+  /**
+   * Returns the object data for the context and the methods of the Office.js namespace of the host.
+   * @param contextType The qualified name of the type of the context.
+   * @param overrides Values which replace the default values.
+   */
+  buildNamespaceData(contextType: string, overrides: ObjectData): ObjectData {
+    const context = this.buildObjectData(
+      [contextType],
+      isPlainObject(overrides.context) ? overrides.context : {}
+    );
+    const builder = this;
+
+    if (typeof context.sync !== "function") {
+      context.sync = async function (this: OfficeMockObject) {
+        await OfficeMockObject.prototype.sync.call(this);
+        // the objects returned by methods aren't properties of the context, so they are synced separately
+        for (const createdObject of builder.createdObjects) {
+          await createdObject.sync();
+        }
+      };
+    }
+
+    return {
+      ...overrides,
+      context,
+      run:
+        overrides.run ??
+        async function (this: OfficeMockObject, ...args: any[]) {
+          // the batch function is the last argument
+          return args[args.length - 1](this.context);
+        },
+    };
+  }
+
+  /**
+   * Returns the members of the types and the types they extend.
+   */
+  private getMembers(types: string[]): OfficeMembers {
+    const members: OfficeMembers = { clientObject: false, properties: {}, methods: {} };
+    const visited = new Set<string>();
+    const addMembers = (typeName: string) => {
+      const officeType = this.officeTypes.get(typeName);
+      if (!officeType || visited.has(typeName)) {
+        return;
+      }
+      visited.add(typeName);
+
+      members.clientObject = members.clientObject || officeType.clientObject;
+      members.itemType = members.itemType ?? officeType.itemType;
+      Object.keys(officeType.properties).forEach((name) => {
+        members.properties[name] = members.properties[name] ?? officeType.properties[name];
+      });
+      Object.keys(officeType.methods).forEach((name) => {
+        members.methods[name] = members.methods[name] ?? officeType.methods[name];
+      });
+      officeType.baseTypes.forEach(addMembers);
+    };
+
+    types.forEach(addMembers);
+    return members;
+  }
+
+  private createObject(types: string[], overrides: ObjectData = {}): OfficeMockObject {
+    const officeMockObject = new OfficeMockObject(
+      this.buildObjectData(types, overrides),
+      this.host
+    );
+    this.createdObjects.push(officeMockObject);
+    return officeMockObject;
+  }
+
+  /**
+   * Returns a mock method. A method which returns an object returns the same object each time it is
+   * called with the same arguments.
+   * @param returnType The type of the value returned by the method.
+   * @param resultOverrides Values which replace the default values of the object returned by the method.
+   */
+  private createMethod(returnType: OfficeMemberType, resultOverrides: ObjectData) {
+    if (returnType.kind === "object") {
+      const results = new Map<string, OfficeMockObject>();
+      return (...args: unknown[]) => {
+        const key = JSON.stringify(args);
+        let result = results.get(key);
+        if (!result) {
+          result = this.createObject(returnType.types, resultOverrides);
+          results.set(key, result);
+        }
+        return result;
+      };
+    } else if (returnType.kind === "clientResult") {
+      return () => new ClientResult(getDefaultValue(returnType.value));
+    } else {
+      return () => getDefaultValue(returnType.value);
+    }
+  }
+
+  /**
+   * Adds the items of a collection, and the collection methods which get and add items.
+   */
+  private addCollectionMembers(data: ObjectData, itemType: string, overrides: ObjectData) {
+    const items: OfficeMockObject[] = [];
+    const itemKeys: string[] = [];
+    const nullObjects = new Map<string, OfficeMockObject>();
+    const keyProperty = itemKeyProperties.find(
+      (property) => property in this.getMembers([itemType]).properties
+    );
+
+    const addItem = (itemOverrides: ObjectData) => {
+      const item = this.createObject([itemType], itemOverrides);
+      items.push(item);
+      itemKeys.push(keyProperty ? String(itemOverrides[keyProperty] ?? "").toLowerCase() : "");
+      return item;
+    };
+    const findItem = (key: unknown) => items[itemKeys.indexOf(String(key).toLowerCase())];
+    const getNullObject = (key: string) => {
+      let nullObject = nullObjects.get(key);
+      if (!nullObject) {
+        nullObject = this.createObject([itemType], { isNullObject: true });
+        nullObjects.set(key, nullObject);
+      }
+      return nullObject;
+    };
+    const newItemOverrides = (key: unknown) =>
+      keyProperty && typeof key === "string" ? { [keyProperty]: key } : {};
+
+    if (Array.isArray(overrides.items)) {
+      overrides.items.forEach((item: unknown) => addItem(isPlainObject(item) ? item : {}));
+    }
+
+    const collectionMethods: { [name: string]: (...args: any[]) => unknown } = {
+      add: (key?: unknown) => addItem(newItemOverrides(key)),
+      getCount: () => new ClientResult(items.length),
+      getFirst: () => items[0] ?? addItem({}),
+      getFirstOrNullObject: () => items[0] ?? getNullObject("first"),
+      getItem: (key: unknown) => findItem(key) ?? addItem(newItemOverrides(key)),
+      getItemAt: (index: number) => items[index],
+      getItemOrNullObject: (key: unknown) => findItem(key) ?? getNullObject(`item:${key}`),
+      getLast: () => items[items.length - 1] ?? addItem({}),
+      getLastOrNullObject: () => items[items.length - 1] ?? getNullObject("last"),
+    };
+    Object.keys(collectionMethods).forEach((name) => {
+      if (name in data && typeof overrides[name] !== "function") {
+        data[name] = collectionMethods[name];
+      }
+    });
+
+    data.items = items;
+    data.load = function (
+      this: OfficeMockObject,
+      propertyArgument?: string | string[] | ObjectData
+    ) {
+      // loading the items of a collection loads the properties of each item
+      if (isPlainObject(propertyArgument)) {
+        const { items: itemsArgument, ...otherProperties } = propertyArgument as ObjectData;
+        if (itemsArgument) {
+          items.forEach((item) => item.load(itemsArgument === true ? undefined : itemsArgument));
+          otherProperties.items = true;
+        }
+        return OfficeMockObject.prototype.load.call(this, otherProperties);
+      }
+
+      const properties: string[] = (
+        propertyArgument === undefined
+          ? ["*"]
+          : typeof propertyArgument === "string"
+            ? propertyArgument.split(",")
+            : propertyArgument
+      ).map((property) => property.trim());
+      const itemProperties: string[] = properties
+        .filter(
+          (property) => property === "*" || property === "items" || property.startsWith("items/")
+        )
+        .map((property) =>
+          property.startsWith("items/") ? property.substring("items/".length) : "*"
+        );
+      const otherProperties: string[] = properties.filter(
+        (property) => property === "*" || !(property === "items" || property.startsWith("items/"))
+      );
+
+      if (itemProperties.length > 0) {
+        items.forEach((item) => item.load(itemProperties));
+        otherProperties.push("items");
+      }
+      return OfficeMockObject.prototype.load.call(this, otherProperties);
+    };
+  }
+
+  /** The objects created by methods, which are synced when the context is synced. */
+  createdObjects: OfficeMockObject[] = [];
+}
+
+function createNamespaceMock(
+  host: OfficeApp,
+  contextType: string,
+  overrides: ObjectData,
+  options: OfficeMockOptions
+): OfficeMockObject {
+  const builder = new OfficeMockBuilder(
+    readOfficeTypes(options.typesPath),
+    host,
+    options.maxDepth ?? defaultMaxDepth
+  );
+  return new OfficeMockObject(builder.buildNamespaceData(contextType, overrides), host, {
+    record: options.record,
+    strict: options.strict,
+    faults: options.faults,
+  });
+}
+
+/**
+ * Creates a mock of the Excel namespace from the Office.js type declarations, with a context which has
+ * the Excel object model and default values, and a run method which calls the batch function with the context.
+ * Collections have the items in the overrides, and getItem adds an item if there isn't an item with the key.
+ * @param overrides Values which replace the default values, such as { context: { workbook: { name: "Book1" } } }.
+ * Overrides for a method which returns an object are used for the returned object.
+ * @param options Options for the mock.
+ */
+export function createExcelMock(
+  overrides: ObjectData = {},
+  options: OfficeMockOptions = {}
+): OfficeMockObject {
+  return createNamespaceMock(OfficeApp.Excel, "Excel.RequestContext", overrides, options);
+}
+
+/**
+ * Creates a mock of the PowerPoint namespace from the Office.js type declarations, with a context
+ * which has the PowerPoint object model and default values, and a run method which calls the batch
+ * function with the context.
+ * @param overrides Values which replace the default values, such as { context: { presentation: { title: "Deck" } } }.
+ * @param options Options for the mock.
+ */
+export function createPowerPointMock(
+  overrides: ObjectData = {},
+  options: OfficeMockOptions = {}
+): OfficeMockObject {
+  return createNamespaceMock(OfficeApp.PowerPoint, "PowerPoint.RequestContext", overrides, options);
+}
+
+/**
+ * Creates a mock of the Word namespace from the Office.js type declarations, with a context which has
+ * the Word object model and default values, and a run method which calls the batch function with the context.
+ * @param overrides Values which replace the default values, such as { context: { document: { body: { text: "Hello" } } } }.
+ * @param options Options for the mock.
+ */
+export function createWordMock(
+  overrides: ObjectData = {},
+  options: OfficeMockOptions = {}
+): OfficeMockObject {
+  return createNamespaceMock(OfficeApp.Word, "Word.RequestContext", overrides, options);
+}
+
+/**
+ * Options for the Outlook mock.
+ */
+export interface OutlookMockOptions extends OfficeMockOptions {
+  /** Read or compose mode. Default is read. */
+  mode?: OutlookMode | string;
+  /** The state of the item, which is updated by the set methods of the item. */
+  item?: OutlookItemData;
+  /** The state of the dialog opened by Office.context.ui.displayDialogAsync. */
+  dialog?: OutlookDialogData;
+}
+
+/**
+ * Creates a mock of the Office namespace for Outlook from the Office.js type declarations, with
+ * Office.context.mailbox and default values. The mailbox item simulates a message or an appointment in read or
+ * compose mode, whose async methods call the callback with an AsyncResult, and Office.context.ui.displayDialogAsync
+ * simulates a dialog.
+ * @param overrides Values which replace the default values, such as { context: { mailbox: { userProfile: { displayName: "User" } } } }.
+ * @param options Options for the mock, such as the mode and the item.
+ */
+export function createOutlookMock(
+  overrides: ObjectData = {},
+  options: OutlookMockOptions = {}
+): OfficeMockObject {
+  const builder = new OfficeMockBuilder(
+    readOfficeTypes(options.typesPath),
+    OfficeApp.Outlook,
+    options.maxDepth ?? defaultMaxDepth
+  );
+  const contextOverrides: ObjectData = isPlainObject(overrides.context) ? overrides.context : {};
+  const mailboxOverrides: ObjectData = isPlainObject(contextOverrides.mailbox)
+    ? contextOverrides.mailbox
+    : {};
+  const item = createOutlookItemData(
+    options.item ?? {},
+    options.mode === OutlookMode.compose ? OutlookMode.compose : OutlookMode.read
+  );
+  const { item: itemOverrides, ...otherMailboxOverrides } = mailboxOverrides;
+  const mailbox = builder.buildObjectData(["Office.Mailbox"], otherMailboxOverrides);
+  // the item only has the members of the mode, so it is not created from the types
+  mailbox.item = isPlainObject(itemOverrides) ? { ...item, ...itemOverrides } : item;
+  const ui = {
+    ...createOutlookUiData(options.dialog ?? {}),
+    ...(isPlainObject(contextOverrides.ui) ? contextOverrides.ui : {}),
+  };
+
+  return new OfficeMockObject(
+    { ...outlookEnums, ...overrides, context: { ...contextOverrides, mailbox, ui } },
+    OfficeApp.Outlook,
+    { record: options.record, strict: options.strict, faults: options.faults }
+  );
+}
@@ -0,0 +1,34 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+/**
+ * The codes of the errors thrown by the Office.js APIs, as in OfficeExtension.ErrorCodes.
+ */
+export enum ErrorCodes {
+  accessDenied = "AccessDenied",
+  /** The request was throttled. */
+  activityLimitReached = "ActivityLimitReached",
+  generalException = "GeneralException",
+  invalidArgument = "InvalidArgument",
+  itemNotFound = "ItemNotFound",
+  notImplemented = "NotImplemented",
+  propertyNotLoaded = "PropertyNotLoaded",
+  valueNotLoaded = "ValueNotLoaded",
+}
+
+/**
+ * Mock of OfficeExtension.Error, the error thrown by the Office.js APIs.
+ * @param code The error code, such as "ItemNotFound"
+ * @param message The error message
+ */
+export class OfficeExtensionError extends Error {
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = "RichApi.Error";
+    this.code = code;
+    this.debugInfo = { code, message };
+  }
+
+  code: string;
+  debugInfo: { code: string; message: string; errorLocation?: string };
+}
@@ -1,15 +1,75 @@
 import { OfficeApp } from "office-addin-manifest";
+import { CallRecorder, getResultPath, joinPath, RecordedCall, RecordedWrite } from "./callRecorder";
+import { ClientResult } from "./clientResult";
+import { FaultInjector, OfficeMockFault } from "./faultInjector";
 import { getHostType } from "./host";
+import { ErrorCodes, OfficeExtensionError } from "./officeExtensionError";
 import { isValidError, PossibleErrors } from "./possibleErrors";
 import { ObjectData } from "./objectData";
 
+/**
+ * Options for an office-js mockable object
+ */
+export interface OfficeMockObjectOptions {
+  /**
+   * Records the loads, syncs, property writes and method calls made to the object and the objects it has,
+   * in the order they are made.
+   */
+  record?: boolean;
+  /**
+   * Behaves like the Office.js APIs: property writes are applied and method results are available
+   * when sync is called, and reading a property which was not loaded throws a PropertyNotLoaded error.
+   * It has no effect on Outlook, whose APIs don't use load and sync.
+   */
+  strict?: boolean;
+  /**
+   * Errors thrown by properties and methods of the object and the objects it has, such as an ItemNotFound
+   * error thrown by "context.workbook.worksheets.getItem". More faults can be added with injectFault.
+   */
+  faults?: OfficeMockFault[];
+}
+
+/**
+ * The state shared by the proxies of a mock object and the objects it has.
+ */
+interface MockProxyState {
+  /** Records the calls, for the record option. */
+  recorder?: CallRecorder;
+  /** The errors thrown by properties and methods. */
+  faults: FaultInjector;
+  /**
+   * The writes which are applied when context.sync() is called, and the errors of the calls made before
+   * it, for the strict option.
+   */
+  pendingWrites?: Array<() => void>;
+  /** The method results which are available when context.sync() is called, for the strict option. */
+  pendingResults?: ClientResult[];
+  /** The objects whose methods are running, which can read their properties without load. */
+  methodObjects: object[];
+  proxies: WeakMap<object, any>;
+  proxySet: WeakSet<object>;
+}
+
+function getCallType(name: string): RecordedCall["type"] {
+  return name === "load" || name === "sync" ? name : "call";
+}
+
+function isStrict(state: MockProxyState): boolean {
+  return state.pendingWrites !== undefined;
+}
+
 /**
  * Creates an office-js mockable object
  * @param object Object structure to provide initial values for the mock object (Optional)
  * @param host Host tested by the object (Optional)
+ * @param options Options for the object, such as recording the calls (Optional)
  */
 export class OfficeMockObject {
-  constructor(object?: ObjectData, host?: OfficeApp | undefined) {
+  constructor(
+    object?: ObjectData,
+    host?: OfficeApp | undefined,
+    options?: OfficeMockObjectOptions
+  ) {
     this._properties = new Map<string, OfficeMockObject>();
     this._loaded = false;
     if (host) {
@@ -21,6 +81,68 @@ export class OfficeMockObject {
     if (object) {
       this.populate(object);
     }
+    const strict = options?.strict && this._host !== OfficeApp.Outlook;
+    if (options?.record || strict || options?.faults) {
+      this._recorder = options?.record ? new CallRecorder() : undefined;
+      this._faults = new FaultInjector();
+      options?.faults?.forEach((fault) => this._faults?.add(fault));
+      return OfficeMockObject.createProxy(this, "", {
+        recorder: this._recorder,
+        faults: this._faults,
+        pendingWrites: strict ? [] : undefined,
+        pendingResults: strict ? [] : undefined,
+        methodObjects: [],
+        proxies: new WeakMap<object, any>(),
+        proxySet: new WeakSet<object>(),
+      });
+    }
+  }
+
+  /**
+   * Throws an error if a load call did not load the property, or an object which has it.
+   * Requires the object to be created with the record option.
+   * @param path Path of the property, such as "context.workbook.range.address"
+   */
+  expectLoaded(path: string) {
+    if (!this.getRecorder().isLoaded(path)) {
+      throw new Error(`Expected ${path} to be loaded.`);
+    }
+  }
+
+  /**
+   * Declares an error thrown by a property or method of the object or the objects it has. Requires the
+   * object to be created with the faults option.
+   * @param fault The path of the property or method, the error code, and the call which throws the error
+   */
+  injectFault(fault: OfficeMockFault) {
+    if (!this._faults) {
+      throw new Error("Faults can't be injected. Create the mock object with the faults option.");
+    }
+    this._faults.add(fault);
+  }
+
+  /**
+   * Returns the loads, syncs, property writes and method calls, in the order they were made.
+   * Requires the object to be created with the record option.
+   */
+  getCalls(): RecordedCall[] {
+    return this.getRecorder().getCalls();
+  }
+
+  /**
+   * Returns the number of sync calls.
+   * Requires the object to be created with the record option.
+   */
+  getSyncCount(): number {
+    return this.getRecorder().getSyncCount();
+  }
+
+  /**
+   * Returns the property writes, in the order they were made.
+   * Requires the object to be created with the record option.
+   */
+  getWrites(): RecordedWrite[] {
+    return this.getRecorder().getWrites();
   }
 
   /**
@@ -55,15 +177,46 @@ export class OfficeMockObject {
    * Mock replacement for the sync method in the Office.js API
    */
   async sync() {
-    this._properties.forEach(async (property: OfficeMockObject, key: string) => {
+    for (const [key, property] of this._properties) {
       await property.sync();
       this.updatePropertyCall(key);
-    });
+    }
     if (this._loaded) {
       this._value = this._valueBeforeLoaded;
     }
   }
 
+  /**
+   * Returns the current values of the properties of the object and the objects it has, including the
+   * values which were written or not loaded, so that they can be saved as a fixture. Functions are not included.
+   */
+  toObjectData(): ObjectData {
+    const objectData: ObjectData = {};
+    const toValue = (value: unknown): unknown => {
+      if (value instanceof OfficeMockObject) {
+        return value.toObjectData();
+      } else if (Array.isArray(value)) {
+        return value.map(toValue);
+      }
+      return value;
+    };
+
+    Object.keys(this).forEach((propertyName: string) => {
+      const property: OfficeMockObject | undefined = this._properties.get(propertyName);
+      const value = this[propertyName];
+
+      if (propertyName.startsWith("_") || typeof value === "function") {
+        // not a property of the mocked object
+      } else if (property && !property._isObject && isValidError(value)) {
+        objectData[propertyName] = toValue(property._valueBeforeLoaded);
+      } else {
+        objectData[propertyName] = toValue(value);
+      }
+    });
+
+    return objectData;
+  }
+
   /**
    * addMock(name) will add a property named “name”, with a new OfficeMockObject as its value, to the object
    * @param objectName Object name of the object to be added
@@ -79,6 +232,152 @@ export class OfficeMockObject {
     this[objectName] = this._properties.get(objectName);
   }
 
+  /**
+   * Returns a proxy which records the calls to the mock object, applies the strict option and throws the
+   * injected faults, and returns proxies for the objects it has.
+   * @param target The mock object
+   * @param path Path of the object, such as "context.workbook"
+   * @param state The state shared by the proxies
+   */
+  private static createProxy(target: OfficeMockObject, path: string, state: MockProxyState): any {
+    if (state.proxySet.has(target)) {
+      return target;
+    }
+    let proxy = state.proxies.get(target);
+    if (proxy) {
+      return proxy;
+    }
+
+    const wrap = (value: unknown, valuePath: string): unknown => {
+      if (value instanceof OfficeMockObject) {
+        return OfficeMockObject.createProxy(value, valuePath, state);
+      } else if (Array.isArray(value) && value.some((item) => item instanceof OfficeMockObject)) {
+        return value.map((item, index) => wrap(item, `${valuePath}[${index}]`));
+      }
+      return value;
+    };
+    const wrapResult = (value: unknown, valuePath: string): unknown => {
+      if (
+        !isStrict(state) ||
+        value === undefined ||
+        value instanceof OfficeMockObject ||
+        value instanceof Promise
+      ) {
+        return wrap(value, valuePath);
+      }
+      // the value is returned by the host when context.sync() is called
+      const result = new ClientResult(value instanceof ClientResult ? value.value : value, false);
+      state.pendingResults?.push(result);
+      return result;
+    };
+    // a call which fails throws its error, or in strict mode, context.sync() throws it
+    const failCall = (callPath: string) => {
+      const error = state.faults.getError(callPath);
+      if (error && state.pendingWrites) {
+        state.pendingWrites.push(() => {
+          throw error;
+        });
+      } else if (error) {
+        throw error;
+      }
+    };
+    const sync = async (syncPath: string, syncCall: () => Promise<unknown>) => {
+      // the results of a batch which fails are not available
+      const pendingResults = state.pendingResults?.splice(0) ?? [];
+      const pendingWrites = state.pendingWrites?.splice(0) ?? [];
+      const error = state.faults.getError(syncPath);
+      if (error) {
+        throw error;
+      }
+      pendingWrites.forEach((write) => write());
+      await syncCall();
+      pendingResults.forEach((result) => result.setLoaded());
+    };
+
+    proxy = new Proxy(target, {
+      get(object: OfficeMockObject, key: string | symbol) {
+        const value = object[key as string];
+        if (typeof key === "symbol" || key.startsWith("_")) {
+          return value;
+        }
+
+        const memberPath = joinPath(path, key);
+        if (typeof value !== "function") {
+          const error = state.faults.getError(memberPath);
+          if (error) {
+            throw error;
+          }
+          if (isStrict(state) && isValidError(value)) {
+            if (state.methodObjects.includes(object)) {
+              return object._properties.get(key)?._valueBeforeLoaded;
+            }
+            throw new OfficeExtensionError(
+              ErrorCodes.propertyNotLoaded,
+              `The property '${key}' is not available. Before reading the property's value, call the load method on the containing object and call "context.sync()" on the associated request context.`
+            );
+          }
+          return wrap(value, memberPath);
+        } else if (!Object.prototype.hasOwnProperty.call(object, key)) {
+          // methods of the class use the mock object, so that internal changes aren't recorded
+          if (key === "load") {
+            return (...args: unknown[]) => {
+              state.recorder?.record({ type: key, path: memberPath, args });
+              failCall(memberPath);
+              value.apply(object, args);
+              return proxy;
+            };
+          } else if (key === "sync") {
+            return (...args: unknown[]) => {
+              state.recorder?.record({ type: key, path: memberPath, args });
+              return sync(memberPath, () => value.apply(object, args));
+            };
+          }
+          return key === "constructor" ? value : value.bind(object);
+        }
+
+        return (...args: unknown[]) => {
+          state.recorder?.record({ type: getCallType(key), path: memberPath, args });
+          if (key === "sync") {
+            return sync(memberPath, () => value.apply(proxy, args));
+          }
+          failCall(memberPath);
+          state.methodObjects.push(object);
+          try {
+            return wrapResult(value.apply(proxy, args), getResultPath(memberPath, args));
+          } finally {
+            state.methodObjects.pop();
+          }
+        };
+      },
+      set(object: OfficeMockObject, key: string | symbol, value: unknown) {
+        if (typeof key === "symbol" || key.startsWith("_")) {
+          object[key as string] = value;
+          return true;
+        }
+
+        const writePath = joinPath(path, key);
+        state.recorder?.record({ type: "write", path: writePath, value });
+        failCall(writePath);
+        if (state.pendingWrites) {
+          state.pendingWrites.push(() => object.writeValue(key, value));
+        } else {
+          object[key] = value;
+        }
+        return true;
+      },
+    });
+    state.proxies.set(target, proxy);
+    state.proxySet.add(proxy);
+    return proxy;
+  }
+
+  private getRecorder(): CallRecorder {
+    if (!this._recorder) {
+      throw new Error("Calls are not recorded. Create the mock object with the record option.");
+    }
+    return this._recorder;
+  }
+
   private loadAllProperties() {
     this._properties.forEach((property, propertyName: string) => {
       property.loadCalled();
@@ -216,6 +515,21 @@ export class OfficeMockObject {
     }
   }
 
+  /**
+   * Writes a property, as the host does when context.sync() is called, so that the value can be read
+   * @param propertyName Property name of the property to be written
+   * @param value Value of the property
+   */
+  private writeValue(propertyName: string, value: unknown) {
+    const property = this._properties.get(propertyName);
+    if (property && !property._isObject) {
+      property._valueBeforeLoaded = value;
+      property._value = value;
+      property._loaded = true;
+    }
+    this[propertyName] = value;
+  }
+
   private updatePropertyCall(propertyName: string) {
     if (this._properties.get(propertyName)?._isObject) {
       this[propertyName] = this._properties.get(propertyName);
@@ -231,6 +545,8 @@ export class OfficeMockObject {
   private _valueBeforeLoaded: unknown;
   private _isObject: boolean | undefined;
   private _host: OfficeApp | undefined;
+  private _recorder: CallRecorder | undefined;
+  private _faults: FaultInjector | undefined;
 
   [key: string]: any;
 }
@@ -0,0 +1,320 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import fs from "fs";
+import ts from "typescript";
+
+/* global __dirname process require */
+
+/**
+ * The namespaces in the Office.js type declarations which are read.
+ */
+const officeNamespaces: string[] = ["Excel", "Office", "PowerPoint", "Word"];
+
+/**
+ * Members of the Office.js objects which are not mocked.
+ */
+const skippedMembers: string[] = ["context", "load", "set", "toJSON", "track", "untrack"];
+
+/**
+ * The type of a property, or of the value returned by a method.
+ */
+export type OfficeMemberType =
+  /** An Office.js object, with the members of all the types. */
+  | { kind: "object"; types: string[] }
+  /** An OfficeExtension.ClientResult with the default value. */
+  | { kind: "clientResult"; value: unknown }
+  /** A scalar with the default value. */
+  | { kind: "scalar"; value: unknown };
+
+/**
+ * The members of a class or interface in the Office.js type declarations.
+ */
+export interface OfficeType {
+  /** The qualified name, such as "Excel.Range". */
+  name: string;
+  /** The qualified names of the types it extends, in the same namespaces. */
+  baseTypes: string[];
+  /** True if the type is an OfficeExtension.ClientObject, which has an isNullObject property. */
+  clientObject: boolean;
+  properties: { [name: string]: OfficeMemberType };
+  /** The type of the value returned by each method. */
+  methods: { [name: string]: OfficeMemberType };
+  /** The qualified name of the type of the items, for collections. */
+  itemType?: string;
+}
+
+/**
+ * The classes and interfaces in the Office.js type declarations, by qualified name.
+ */
+export type OfficeTypes = Map<string, OfficeType>;
+
+const officeTypesCache = new Map<string, OfficeTypes>();
+
+/**
+ * Returns the path to the Office.js type declarations in the @types/office-js package.
+ * @throws Error if the package is not installed.
+ */
+export function getOfficeTypesPath(): string {
+  try {
+    return require.resolve("@types/office-js/index.d.ts", { paths: [process.cwd(), __dirname] });
+  } catch {
+    throw new Error(
+      "The Office.js type declarations were not found. Install the @types/office-js package or specify the path to the type declarations."
+    );
+  }
+}
+
+function getEntityName(name: ts.EntityName): string {
+  return ts.isIdentifier(name) ? name.text : `${getEntityName(name.left)}.${name.right.text}`;
+}
+
+function getMemberName(name: ts.PropertyName): string | undefined {
+  return ts.isIdentifier(name) || ts.isStringLiteral(name) ? name.text : undefined;
+}
+
+function isStatic(member: ts.ClassElement | ts.TypeElement): boolean {
+  return (ts.getCombinedModifierFlags(member as ts.Declaration) & ts.ModifierFlags.Static) !== 0;
+}
+
+class OfficeTypesReader {
+  constructor(private sourceFile: ts.SourceFile) {
+    this.sourceFile.statements.forEach((statement) => {
+      if (ts.isModuleDeclaration(statement) && officeNamespaces.includes(statement.name.text)) {
+        this.namespaces.push(statement);
+        this.collectNames(statement);
+      }
+    });
+  }
+
+  read(): OfficeTypes {
+    this.namespaces.forEach((namespace) => {
+      const body = namespace.body;
+      if (body && ts.isModuleBlock(body)) {
+        body.statements.forEach((statement) => {
+          if (ts.isClassDeclaration(statement) || ts.isInterfaceDeclaration(statement)) {
+            this.readType(namespace.name.text, statement);
+          }
+        });
+      }
+    });
+    return this.types;
+  }
+
+  /**
+   * Collects the names of the types and the first value of the enums, so that types can be resolved
+   * before they are read.
+   */
+  private collectNames(namespace: ts.ModuleDeclaration) {
+    const body = namespace.body;
+    if (body && ts.isModuleBlock(body)) {
+      body.statements.forEach((statement) => {
+        if (
+          (ts.isClassDeclaration(statement) || ts.isInterfaceDeclaration(statement)) &&
+          statement.name
+        ) {
+          this.typeNames.add(`${namespace.name.text}.${statement.name.text}`);
+        } else if (ts.isEnumDeclaration(statement)) {
+          const initializer = statement.members[0]?.initializer;
+          this.enumValues.set(
+            `${namespace.name.text}.${statement.name.text}`,
+            initializer && ts.isStringLiteral(initializer) ? initializer.text : 0
+          );
+        }
+      });
+    }
+  }
+
+  private readType(namespace: string, declaration: ts.ClassDeclaration | ts.InterfaceDeclaration) {
+    if (!declaration.name) {
+      return;
+    }
+
+    const name = `${namespace}.${declaration.name.text}`;
+    let officeType = this.types.get(name);
+    if (!officeType) {
+      officeType = { name, baseTypes: [], clientObject: false, properties: {}, methods: {} };
+      this.types.set(name, officeType);
+    }
+
+    (declaration.heritageClauses ?? []).forEach((clause) => {
+      clause.types.forEach((baseType) => {
+        const baseName = baseType.expression.getText(this.sourceFile);
+        const qualifiedName = this.resolveTypeName(namespace, baseName);
+        if (baseName === "OfficeExtension.ClientObject") {
+          (officeType as OfficeType).clientObject = true;
+        } else if (qualifiedName) {
+          (officeType as OfficeType).baseTypes.push(qualifiedName);
+        }
+      });
+    });
+
+    const members: ReadonlyArray<ts.ClassElement | ts.TypeElement> = declaration.members;
+    members.forEach((member) => {
+      const memberName = member.name ? getMemberName(member.name) : undefined;
+      if (!memberName || skippedMembers.includes(memberName) || isStatic(member)) {
+        return;
+      }
+
+      if (ts.isPropertyDeclaration(member) || ts.isPropertySignature(member)) {
+        if (memberName === "items" && member.type && ts.isArrayTypeNode(member.type)) {
+          const elementType = member.type.elementType;
+          if (ts.isTypeReferenceNode(elementType)) {
+            (officeType as OfficeType).itemType = this.resolveTypeName(
+              namespace,
+              getEntityName(elementType.typeName)
+            );
+          }
+        }
+
+        const memberType = this.getMemberType(namespace, member.type);
+        if (memberType && !(memberName in (officeType as OfficeType).properties)) {
+          (officeType as OfficeType).properties[memberName] = memberType;
+        }
+      } else if (ts.isMethodDeclaration(member) || ts.isMethodSignature(member)) {
+        // overloads have the same return type, so the first one is used
+        if (!(memberName in (officeType as OfficeType).methods)) {
+          (officeType as OfficeType).methods[memberName] = this.getMemberType(
+            namespace,
+            member.type
+          ) ?? {
+            kind: "scalar",
+            value: undefined,
+          };
+        }
+      }
+    });
+  }
+
+  /**
+   * Returns the qualified name of the type if it is a class or interface which is read.
+   */
+  private resolveTypeName(namespace: string, name: string): string | undefined {
+    const qualifiedName = name.includes(".") ? name : `${namespace}.${name}`;
+    return this.typeNames.has(qualifiedName) ? qualifiedName : undefined;
+  }
+
+  /**
+   * Returns the type of a member, or undefined if the member should not be mocked, such as events.
+   */
+  private getMemberType(
+    namespace: string,
+    typeNode: ts.TypeNode | undefined
+  ): OfficeMemberType | undefined {
+    if (!typeNode) {
+      return { kind: "scalar", value: undefined };
+    }
+
+    switch (typeNode.kind) {
+      case ts.SyntaxKind.StringKeyword:
+        return { kind: "scalar", value: "" };
+      case ts.SyntaxKind.NumberKeyword:
+        return { kind: "scalar", value: 0 };
+      case ts.SyntaxKind.BooleanKeyword:
+        return { kind: "scalar", value: false };
+      case ts.SyntaxKind.ArrayType:
+      case ts.SyntaxKind.TupleType:
+        return { kind: "scalar", value: [] };
+    }
+
+    if (ts.isParenthesizedTypeNode(typeNode)) {
+      return this.getMemberType(namespace, typeNode.type);
+    }
+
+    if (ts.isLiteralTypeNode(typeNode)) {
+      const literal = typeNode.literal;
+      if (ts.isStringLiteral(literal)) {
+        return { kind: "scalar", value: literal.text };
+      } else if (ts.isNumericLiteral(literal)) {
+        return { kind: "scalar", value: Number(literal.text) };
+      } else if (literal.kind === ts.SyntaxKind.TrueKeyword) {
+        return { kind: "scalar", value: true };
+      } else if (literal.kind === ts.SyntaxKind.FalseKeyword) {
+        return { kind: "scalar", value: false };
+      }
+      return { kind: "scalar", value: undefined };
+    }
+
+    if (ts.isUnionTypeNode(typeNode)) {
+      // enums are declared as the enum and its string values, so the first string value is used
+      const stringLiteral = typeNode.types.find(
+        (type) => ts.isLiteralTypeNode(type) && ts.isStringLiteral(type.literal)
+      );
+      const type =
+        stringLiteral ??
+        typeNode.types.find(
+          (type) =>
+            !ts.isLiteralTypeNode(type) ||
+            (type.literal.kind !== ts.SyntaxKind.NullKeyword &&
+              type.literal.kind !== ts.SyntaxKind.UndefinedKeyword)
+        );
+      return type ? this.getMemberType(namespace, type) : { kind: "scalar", value: undefined };
+    }
+
+    if (ts.isIntersectionTypeNode(typeNode)) {
+      const types: string[] = [];
+      typeNode.types.forEach((type) => {
+        const memberType = this.getMemberType(namespace, type);
+        if (memberType?.kind === "object") {
+          types.push(...memberType.types);
+        }
+      });
+      return types.length > 0 ? { kind: "object", types } : { kind: "scalar", value: undefined };
+    }
+
+    if (ts.isTypeReferenceNode(typeNode)) {
+      const typeName = getEntityName(typeNode.typeName);
+      const typeArgument = typeNode.typeArguments?.[0];
+
+      if (typeName === "OfficeExtension.EventHandlers") {
+        return undefined;
+      } else if (typeName === "OfficeExtension.ClientResult") {
+        const valueType = this.getMemberType(namespace, typeArgument);
+        return {
+          kind: "clientResult",
+          value: valueType?.kind === "scalar" ? valueType.value : undefined,
+        };
+      } else if (typeName === "Array") {
+        return { kind: "scalar", value: [] };
+      } else if (typeName === "Date") {
+        return { kind: "scalar", value: new Date(0) };
+      }
+
+      const qualifiedName = typeName.includes(".") ? typeName : `${namespace}.${typeName}`;
+      if (this.enumValues.has(qualifiedName)) {
+        return { kind: "scalar", value: this.enumValues.get(qualifiedName) };
+      }
+
+      const resolvedName = this.resolveTypeName(namespace, typeName);
+      if (resolvedName) {
+        return { kind: "object", types: [resolvedName] };
+      }
+    }
+
+    return { kind: "scalar", value: undefined };
+  }
+
+  private namespaces: ts.ModuleDeclaration[] = [];
+  private typeNames = new Set<string>();
+  private enumValues = new Map<string, unknown>();
+  private types: OfficeTypes = new Map<string, OfficeType>();
+}
+
+/**
+ * Reads the classes and interfaces of the Excel, Word, PowerPoint and Outlook APIs in the Office.js
+ * type declarations. The result is cached, since the type declarations are large.
+ * @param typesPath Path to the Office.js type declarations. Default is the index.d.ts file in the @types/office-js package.
+ */
+export function readOfficeTypes(typesPath: string = getOfficeTypesPath()): OfficeTypes {
+  let officeTypes = officeTypesCache.get(typesPath);
+  if (!officeTypes) {
+    const sourceFile = ts.createSourceFile(
+      typesPath,
+      fs.readFileSync(typesPath, "utf8"),
+      ts.ScriptTarget.Latest
+    );
+    officeTypes = new OfficeTypesReader(sourceFile).read();
+    officeTypesCache.set(typesPath, officeTypes);
+  }
+  return officeTypes;
+}
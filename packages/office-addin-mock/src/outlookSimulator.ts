@@ -0,0 +1,417 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { ObjectData } from "./objectData";
+
+/* global setTimeout URL */
+
+/**
+ * The mode of the Outlook item: read for a received message or an appointment, compose for a new
+ * message or appointment.
+ */
+export enum OutlookMode {
+  compose = "compose",
+  read = "read",
+}
+
+/**
+ * A recipient of an Outlook item, as in Office.EmailAddressDetails.
+ */
+export interface OutlookRecipient {
+  emailAddress: string;
+  displayName?: string;
+}
+
+/**
+ * The state of the simulated Outlook item. The set methods of the item update it, so that tests can check it.
+ */
+export interface OutlookItemData {
+  /** "message" or "appointment". Default is "message". */
+  itemType?: string;
+  itemId?: string;
+  subject?: string;
+  /** The content of the body. */
+  body?: string;
+  /** The type of the content of the body, "html" or "text". Default is "html". */
+  bodyType?: string;
+  from?: OutlookRecipient;
+  /** The recipients of a message. */
+  to?: OutlookRecipient[];
+  cc?: OutlookRecipient[];
+  /** The attendees of an appointment. */
+  requiredAttendees?: OutlookRecipient[];
+  optionalAttendees?: OutlookRecipient[];
+  /** The custom properties saved with saveAsync. */
+  customProperties?: { [name: string]: unknown };
+}
+
+/**
+ * The state of the simulated dialog opened by Office.context.ui.displayDialogAsync.
+ */
+export interface OutlookDialogData {
+  /** The messages the dialog sends to the add-in with messageParent, after it is opened. */
+  messages?: string[];
+  /** True if the user closes the dialog after sending the messages. */
+  closedByUser?: boolean;
+  /** Set to the URL of the dialog when it is opened. */
+  url?: string;
+  /** Set to the messages the add-in sends to the dialog with messageChild. */
+  childMessages?: string[];
+  /** Set to true when the dialog is closed. */
+  closed?: boolean;
+}
+
+/**
+ * An error of an AsyncResult, as in Office.Error.
+ */
+export interface OutlookError {
+  code: number;
+  name: string;
+  message: string;
+}
+
+/**
+ * The error codes of the AsyncResult errors.
+ */
+export enum OutlookErrorCodes {
+  invalidCoercion = 1000,
+  dialogHttpsRequired = 12005,
+  dialogClosedByUser = 12006,
+  dialogAlreadyOpened = 12007,
+}
+
+/**
+ * Mock of Office.AsyncResult, the result passed to the callback of an async method.
+ */
+export class AsyncResult<T = any> {
+  constructor(value: T, asyncContext?: unknown, error?: OutlookError) {
+    this.value = value;
+    this.asyncContext = asyncContext;
+    this.status = error ? "failed" : "succeeded";
+    this.error = error;
+  }
+
+  value: T;
+  asyncContext: unknown;
+  /** "succeeded" or "failed", as in Office.AsyncResultStatus. */
+  status: string;
+  error: OutlookError | undefined;
+}
+
+/**
+ * The enums of the Office namespace which are used with the Outlook APIs.
+ */
+export const outlookEnums: ObjectData = {
+  AsyncResultStatus: { Failed: "failed", Succeeded: "succeeded" },
+  CoercionType: { Html: "html", Text: "text" },
+  EventType: {
+    DialogEventReceived: "dialogEventReceived",
+    DialogMessageReceived: "dialogMessageReceived",
+  },
+  MailboxEnums: {
+    ItemType: { Appointment: "appointment", Message: "message" },
+  },
+};
+
+type AsyncCallback = (result: AsyncResult) => void;
+
+/**
+ * Returns the options and the callback of an async method, whose options are optional.
+ */
+function getAsyncArgs(args: unknown[]): { options: any; callback?: AsyncCallback } {
+  const callback = args.find((arg) => typeof arg === "function") as AsyncCallback | undefined;
+  const options = args.find((arg) => typeof arg === "object" && arg !== null) ?? {};
+  return { options, callback };
+}
+
+/**
+ * Calls the callback asynchronously, as Outlook does.
+ */
+function complete(callback: AsyncCallback | undefined, result: AsyncResult) {
+  if (callback) {
+    Promise.resolve().then(() => callback(result));
+  }
+}
+
+function toRecipient(recipient: string | OutlookRecipient): OutlookRecipient {
+  return typeof recipient === "string"
+    ? { emailAddress: recipient, displayName: recipient }
+    : {
+        emailAddress: recipient.emailAddress,
+        displayName: recipient.displayName ?? recipient.emailAddress,
+      };
+}
+
+function copyRecipients(recipients: OutlookRecipient[] | undefined): OutlookRecipient[] {
+  return (recipients ?? []).map(toRecipient);
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div)>/gi, "\n")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+function textToHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\r?\n/g, "<br>");
+}
+
+function invalidCoercion(coercionType: unknown): OutlookError {
+  return {
+    code: OutlookErrorCodes.invalidCoercion,
+    name: "Invalid coercion type",
+    message: `The coercion type ${coercionType} is not supported.`,
+  };
+}
+
+function createBodyData(item: OutlookItemData, mode: OutlookMode): ObjectData {
+  const getBodyType = () => item.bodyType ?? "html";
+  const getBody = (coercionType: unknown): string | undefined => {
+    const body = item.body ?? "";
+    if (coercionType === getBodyType()) {
+      return body;
+    } else if (coercionType === "text") {
+      return htmlToText(body);
+    } else if (coercionType === "html") {
+      return textToHtml(body);
+    }
+    return undefined;
+  };
+  const toBodyType = (data: string, coercionType: unknown) =>
+    coercionType === getBodyType()
+      ? data
+      : coercionType === "text"
+        ? textToHtml(data)
+        : htmlToText(data);
+
+  const body: ObjectData = {
+    getAsync: (coercionType: unknown, ...args: unknown[]) => {
+      const { options, callback } = getAsyncArgs(args);
+      const content = getBody(coercionType);
+      complete(
+        callback,
+        content === undefined
+          ? new AsyncResult(undefined, options.asyncContext, invalidCoercion(coercionType))
+          : new AsyncResult(content, options.asyncContext)
+      );
+    },
+  };
+
+  if (mode === OutlookMode.compose) {
+    const writeBody = (data: string, args: unknown[], write: (content: string) => string) => {
+      const { options, callback } = getAsyncArgs(args);
+      const coercionType = options.coercionType ?? "text";
+      if (coercionType !== "text" && coercionType !== "html") {
+        complete(
+          callback,
+          new AsyncResult(undefined, options.asyncContext, invalidCoercion(coercionType))
+        );
+        return;
+      }
+      item.body = write(toBodyType(data, coercionType));
+      complete(callback, new AsyncResult(undefined, options.asyncContext));
+    };
+
+    body.getTypeAsync = (...args: unknown[]) => {
+      const { options, callback } = getAsyncArgs(args);
+      complete(callback, new AsyncResult(getBodyType(), options.asyncContext));
+    };
+    body.prependAsync = (data: string, ...args: unknown[]) =>
+      writeBody(data, args, (content) => content + (item.body ?? ""));
+    body.setAsync = (data: string, ...args: unknown[]) =>
+      writeBody(data, args, (content) => content);
+  }
+
+  return body;
+}
+
+function createRecipientsData(
+  item: OutlookItemData,
+  field: "to" | "cc" | "requiredAttendees" | "optionalAttendees"
+): ObjectData {
+  const setRecipients = (
+    recipients: Array<string | OutlookRecipient>,
+    args: unknown[],
+    existing: OutlookRecipient[]
+  ) => {
+    const { options, callback } = getAsyncArgs(args);
+    item[field] = [...existing, ...recipients.map(toRecipient)];
+    complete(callback, new AsyncResult(undefined, options.asyncContext));
+  };
+
+  return {
+    addAsync: (recipients: Array<string | OutlookRecipient>, ...args: unknown[]) =>
+      setRecipients(recipients, args, copyRecipients(item[field])),
+    getAsync: (...args: unknown[]) => {
+      const { options, callback } = getAsyncArgs(args);
+      complete(callback, new AsyncResult(copyRecipients(item[field]), options.asyncContext));
+    },
+    setAsync: (recipients: Array<string | OutlookRecipient>, ...args: unknown[]) =>
+      setRecipients(recipients, args, []),
+  };
+}
+
+function createCustomProperties(item: OutlookItemData): ObjectData {
+  const properties: { [name: string]: unknown } = { ...item.customProperties };
+  return {
+    get: (name: string) => properties[name],
+    getAll: () => ({ ...properties }),
+    remove: (name: string) => {
+      delete properties[name];
+    },
+    saveAsync: (callback?: AsyncCallback, asyncContext?: unknown) => {
+      item.customProperties = { ...properties };
+      complete(callback, new AsyncResult(undefined, asyncContext));
+    },
+    set: (name: string, value: unknown) => {
+      properties[name] = value;
+    },
+  };
+}
+
+/**
+ * Returns the object data for Office.context.mailbox.item, which simulates the Outlook item.
+ * @param item The state of the item, which is updated by the set methods
+ * @param mode Read or compose mode
+ */
+export function createOutlookItemData(item: OutlookItemData, mode: OutlookMode): ObjectData {
+  const itemType = item.itemType ?? "message";
+  const recipientFields: Array<"to" | "cc" | "requiredAttendees" | "optionalAttendees"> =
+    itemType === "appointment" ? ["requiredAttendees", "optionalAttendees"] : ["to", "cc"];
+  const from = toRecipient(item.from ?? { emailAddress: "" });
+  const data: ObjectData = {
+    body: createBodyData(item, mode),
+    itemType,
+    loadCustomPropertiesAsync: (callback: AsyncCallback, asyncContext?: unknown) => {
+      complete(callback, new AsyncResult(createCustomProperties(item), asyncContext));
+    },
+  };
+
+  if (mode === OutlookMode.read) {
+    data.itemId = item.itemId ?? "";
+    data.subject = item.subject ?? "";
+    data.from = from;
+    recipientFields.forEach((field) => (data[field] = copyRecipients(item[field])));
+  } else {
+    data.from = {
+      getAsync: (...args: unknown[]) => {
+        const { options, callback } = getAsyncArgs(args);
+        complete(callback, new AsyncResult(from, options.asyncContext));
+      },
+    };
+    data.subject = {
+      getAsync: (...args: unknown[]) => {
+        const { options, callback } = getAsyncArgs(args);
+        complete(callback, new AsyncResult(item.subject ?? "", options.asyncContext));
+      },
+      setAsync: (subject: string, ...args: unknown[]) => {
+        const { options, callback } = getAsyncArgs(args);
+        item.subject = subject;
+        complete(callback, new AsyncResult(undefined, options.asyncContext));
+      },
+    };
+    data.saveAsync = (...args: unknown[]) => {
+      const { options, callback } = getAsyncArgs(args);
+      item.itemId = item.itemId || `AAMkAD${Date.now().toString(36)}`;
+      complete(callback, new AsyncResult(item.itemId, options.asyncContext));
+    };
+    recipientFields.forEach((field) => (data[field] = createRecipientsData(item, field)));
+  }
+
+  return data;
+}
+
+/**
+ * Returns the object data for Office.context.ui, whose displayDialogAsync simulates a dialog.
+ * @param dialog The state of the dialog, which is updated when the dialog is opened, sent messages and closed
+ */
+export function createOutlookUiData(dialog: OutlookDialogData): ObjectData {
+  let opened = false;
+
+  return {
+    displayDialogAsync: (startAddress: string, ...args: unknown[]) => {
+      const { options, callback } = getAsyncArgs(args);
+      const fail = (code: OutlookErrorCodes, message: string) =>
+        complete(
+          callback,
+          new AsyncResult(undefined, options.asyncContext, {
+            code,
+            name: "Display Dialog Error",
+            message,
+          })
+        );
+
+      if (!/^https:\/\//i.test(startAddress)) {
+        fail(
+          OutlookErrorCodes.dialogHttpsRequired,
+          "The URL of the dialog box must use the HTTPS protocol."
+        );
+        return;
+      } else if (opened) {
+        fail(
+          OutlookErrorCodes.dialogAlreadyOpened,
+          "A dialog box is already opened from this host window."
+        );
+        return;
+      }
+
+      const handlers = new Map<string, Array<(arg: unknown) => void>>();
+      const raise = (eventType: string, arg: ObjectData) =>
+        (handlers.get(eventType) ?? []).forEach((handler) => handler({ ...arg, type: eventType }));
+      const close = () => {
+        opened = false;
+        dialog.closed = true;
+      };
+
+      opened = true;
+      dialog.url = startAddress;
+      dialog.closed = false;
+      dialog.childMessages = [];
+
+      complete(
+        callback,
+        new AsyncResult(
+          {
+            addEventHandler: (
+              eventType: string,
+              handler: (arg: unknown) => void,
+              ...handlerArgs: unknown[]
+            ) => {
+              handlers.set(eventType, [...(handlers.get(eventType) ?? []), handler]);
+              complete(getAsyncArgs(handlerArgs).callback, new AsyncResult(undefined));
+            },
+            close,
+            messageChild: (message: string) => {
+              dialog.childMessages?.push(message);
+            },
+          },
+          options.asyncContext
+        )
+      );
+
+      // the dialog sends its messages after the add-in handles the result
+      setTimeout(() => {
+        (dialog.messages ?? []).forEach((message) => {
+          if (opened) {
+            raise("dialogMessageReceived", { message, origin: new URL(startAddress).origin });
+          }
+        });
+        if (dialog.closedByUser && opened) {
+          close();
+          raise("dialogEventReceived", { error: OutlookErrorCodes.dialogClosedByUser });
+        }
+      }, 0);
+    },
+  };
+}
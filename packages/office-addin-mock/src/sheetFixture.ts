@@ -0,0 +1,328 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import AdmZip from "adm-zip";
+import fs from "fs";
+import { ExpectedError } from "office-addin-usage-data";
+import path from "path";
+import xml2js from "xml2js";
+import { ObjectData } from "./objectData";
+
+/**
+ * The cells of a worksheet, from the first to the last cell which is used.
+ */
+export interface SheetData {
+  name: string;
+  /** The index of the first row which is used. */
+  firstRow: number;
+  /** The index of the first column which is used. */
+  firstColumn: number;
+  values: unknown[][];
+  /** The formulas, or the values of the cells which don't have a formula. */
+  formulas: unknown[][];
+}
+
+interface SheetCell {
+  row: number;
+  column: number;
+  value: unknown;
+  formula: unknown;
+}
+
+/**
+ * Returns the name of a column, such as "A" or "AB".
+ * @param column The index of the column
+ */
+export function getColumnName(column: number): string {
+  let name = "";
+  for (let index = column + 1; index > 0; index = Math.floor((index - 1) / 26)) {
+    name = String.fromCharCode("A".charCodeAt(0) + ((index - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Returns the indexes of the row and column of a cell reference, such as "B3".
+ */
+function parseCellReference(reference: string): { row: number; column: number } | undefined {
+  const match = /^([A-Z]+)(\d+)$/i.exec(reference);
+  if (!match) {
+    return undefined;
+  }
+  const column = match[1]
+    .toUpperCase()
+    .split("")
+    .reduce((index, letter) => index * 26 + letter.charCodeAt(0) - "A".charCodeAt(0) + 1, 0);
+  return { row: Number(match[2]) - 1, column: column - 1 };
+}
+
+function getSheetAddress(sheet: SheetData): string {
+  const sheetName = /^[A-Za-z_][A-Za-z0-9_.]*$/.test(sheet.name)
+    ? sheet.name
+    : `'${sheet.name.replace(/'/g, "''")}'`;
+  const rowCount = Math.max(sheet.values.length, 1);
+  const columnCount = Math.max(sheet.values[0]?.length ?? 0, 1);
+  const firstCell = `${getColumnName(sheet.firstColumn)}${sheet.firstRow + 1}`;
+  const lastCell = `${getColumnName(sheet.firstColumn + columnCount - 1)}${
+    sheet.firstRow + rowCount
+  }`;
+  return `${sheetName}!${firstCell === lastCell ? firstCell : `${firstCell}:${lastCell}`}`;
+}
+
+function createSheetData(name: string, cells: SheetCell[]): SheetData {
+  const usedCells = cells.filter((cell) => cell.value !== "" || cell.formula !== "");
+  if (usedCells.length === 0) {
+    return { name, firstRow: 0, firstColumn: 0, values: [[""]], formulas: [[""]] };
+  }
+
+  const firstRow = Math.min(...usedCells.map((cell) => cell.row));
+  const firstColumn = Math.min(...usedCells.map((cell) => cell.column));
+  const rowCount = Math.max(...usedCells.map((cell) => cell.row)) - firstRow + 1;
+  const columnCount = Math.max(...usedCells.map((cell) => cell.column)) - firstColumn + 1;
+  const createRows = () =>
+    Array.from({ length: rowCount }, () =>
+      Array.from({ length: columnCount }, () => "" as unknown)
+    );
+  const values = createRows();
+  const formulas = createRows();
+
+  usedCells.forEach((cell) => {
+    values[cell.row - firstRow][cell.column - firstColumn] = cell.value;
+    formulas[cell.row - firstRow][cell.column - firstColumn] = cell.formula;
+  });
+
+  return { name, firstRow, firstColumn, values, formulas };
+}
+
+/**
+ * Returns the rows of a CSV file. Quoted fields can have commas, quotes and line breaks.
+ * @param content The content of the CSV file
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content.charAt(index);
+    if (quoted) {
+      if (char === '"' && content.charAt(index + 1) === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content.charAt(index + 1) === "\n") {
+        index++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Returns the value of a CSV field, as Excel reads it: numbers and booleans are converted, and formulas are not calculated.
+ */
+function getCsvCell(field: string, row: number, column: number): SheetCell {
+  if (field.startsWith("=")) {
+    return { row, column, value: "", formula: field };
+  }
+
+  let value: unknown = field;
+  if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(field.trim())) {
+    value = Number(field);
+  } else if (/^(true|false)$/i.test(field.trim())) {
+    value = field.trim().toLowerCase() === "true";
+  }
+  return { row, column, value, formula: value };
+}
+
+/**
+ * Reads a CSV file as a worksheet named after the file, as Excel does.
+ * @param filePath Path to the CSV file
+ */
+export function readCsvSheet(filePath: string): SheetData {
+  const content = fs.readFileSync(filePath, "utf8").replace(/^\uFEFF/, "");
+  const cells: SheetCell[] = [];
+  parseCsv(content).forEach((fields, row) => {
+    fields.forEach((field, column) => cells.push(getCsvCell(field, row, column)));
+  });
+  return createSheetData(path.basename(filePath, path.extname(filePath)), cells);
+}
+
+function getXmlText(node: any): string {
+  if (node === undefined) {
+    return "";
+  }
+  return typeof node === "string" ? node : (node._ ?? "");
+}
+
+/**
+ * Returns the text of a shared string or an inline string, which can be rich text.
+ */
+function getStringItemText(item: any): string {
+  if (item?.t) {
+    return getXmlText(item.t[0]);
+  }
+  return (item?.r ?? []).map((run: any) => getXmlText(run.t?.[0])).join("");
+}
+
+function getXlsxCell(cell: any, row: number, column: number, sharedStrings: string[]): SheetCell {
+  const type: string = cell.$?.t ?? "n";
+  const text = getXmlText(cell.v?.[0]);
+  let value: unknown;
+
+  switch (type) {
+    case "s":
+      value = sharedStrings[Number(text)] ?? "";
+      break;
+    case "inlineStr":
+      value = getStringItemText(cell.is?.[0]);
+      break;
+    case "b":
+      value = text === "1";
+      break;
+    case "str":
+    case "e":
+      value = text;
+      break;
+    default:
+      value = text === "" ? "" : Number(text);
+  }
+
+  // shared formulas are only in the first cell, so the other cells use the value
+  const formula = getXmlText(cell.f?.[0]);
+  return { row, column, value, formula: formula ? `=${formula}` : value };
+}
+
+/**
+ * Reads the worksheets of an XLSX file. Formulas are not calculated; the values saved in the file are used.
+ * @param filePath Path to the XLSX file
+ */
+export async function readXlsxSheets(filePath: string): Promise<SheetData[]> {
+  const zip = new AdmZip(filePath);
+  const readXml = async (entryName: string): Promise<any> => {
+    const entry = zip.getEntry(entryName);
+    return entry ? xml2js.parseStringPromise(entry.getData().toString("utf8")) : undefined;
+  };
+
+  const workbook = await readXml("xl/workbook.xml");
+  if (!workbook) {
+    throw new ExpectedError(`The file ${filePath} is not an Excel workbook.`);
+  }
+  const relationships = await readXml("xl/_rels/workbook.xml.rels");
+  const targets = new Map<string, string>(
+    (relationships?.Relationships?.Relationship ?? []).map((relationship: any) => [
+      relationship.$.Id,
+      relationship.$.Target,
+    ])
+  );
+  const sharedStrings: string[] = ((await readXml("xl/sharedStrings.xml"))?.sst?.si ?? []).map(
+    getStringItemText
+  );
+
+  const sheets: SheetData[] = [];
+  for (const sheet of workbook.workbook.sheets?.[0]?.sheet ?? []) {
+    const target = targets.get(sheet.$["r:id"]) ?? "";
+    const worksheet = await readXml(target.startsWith("/") ? target.substring(1) : `xl/${target}`);
+    const cells: SheetCell[] = [];
+
+    (worksheet?.worksheet?.sheetData?.[0]?.row ?? []).forEach((row: any, rowIndex: number) => {
+      const rowNumber = row.$?.r ? Number(row.$.r) - 1 : rowIndex;
+      (row.c ?? []).forEach((cell: any, columnIndex: number) => {
+        const reference = cell.$?.r ? parseCellReference(cell.$.r) : undefined;
+        cells.push(
+          getXlsxCell(
+            cell,
+            reference?.row ?? rowNumber,
+            reference?.column ?? columnIndex,
+            sharedStrings
+          )
+        );
+      });
+    });
+    sheets.push(createSheetData(sheet.$.name, cells));
+  }
+  return sheets;
+}
+
+/**
+ * Returns a fixture for createExcelMock() with the worksheets. The used range of each worksheet has
+ * the values and formulas of the cells.
+ * @param sheets The worksheets
+ */
+export function createExcelFixture(sheets: SheetData[]): ObjectData {
+  return {
+    context: {
+      workbook: {
+        worksheets: {
+          items: sheets.map((sheet, position) => ({
+            name: sheet.name,
+            position,
+            getUsedRange: {
+              address: getSheetAddress(sheet),
+              rowCount: sheet.values.length,
+              columnCount: sheet.values[0]?.length ?? 0,
+              values: sheet.values,
+              formulas: sheet.formulas,
+            },
+          })),
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Returns a fixture for createExcelMock() with the worksheets of a CSV or XLSX file.
+ * @param filePath Path to the CSV or XLSX file
+ * @param sheetName The name of the worksheet to use, for XLSX files. Default is all the worksheets. (Optional)
+ */
+export async function createExcelFixtureFromFile(
+  filePath: string,
+  sheetName?: string
+): Promise<ObjectData> {
+  if (!fs.existsSync(filePath)) {
+    throw new ExpectedError(`The file ${filePath} does not exist.`);
+  }
+
+  let sheets: SheetData[];
+  switch (path.extname(filePath).toLowerCase()) {
+    case ".csv":
+      sheets = [readCsvSheet(filePath)];
+      break;
+    case ".xlsx":
+      sheets = await readXlsxSheets(filePath);
+      break;
+    default:
+      throw new ExpectedError(`The file ${filePath} is not a CSV or XLSX file.`);
+  }
+
+  if (sheetName !== undefined) {
+    sheets = sheets.filter((sheet) => sheet.name.toLowerCase() === sheetName.toLowerCase());
+    if (sheets.length === 0) {
+      throw new ExpectedError(`The worksheet ${sheetName} was not found in ${filePath}.`);
+    }
+  }
+  return createExcelFixture(sheets);
+}
@@ -0,0 +1,252 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import AdmZip from "adm-zip";
+import assert from "assert";
+import fs from "fs";
+import { after, before, describe, it } from "mocha";
+import os from "os";
+import path from "path";
+import {
+  compareFixtures,
+  createExcelFixtureFromFile,
+  createExcelMock,
+  getColumnName,
+  matchSnapshot,
+  OfficeMockObject,
+  parseCsv,
+  readFixture,
+  writeFixture,
+} from "../src/main";
+
+const workbookData = {
+  workbook: {
+    name: "Book1",
+    range: {
+      address: "C2",
+      values: [[1, "A"]],
+      format: {
+        fill: {
+          color: "green",
+        },
+      },
+    },
+    created: new Date("2022-06-29T11:32:11.447Z"),
+    getSelectedRange: function () {
+      return this.range;
+    },
+  },
+};
+
+function createXlsx(xlsxPath: string) {
+  const zip = new AdmZip();
+  zip.addFile(
+    "xl/workbook.xml",
+    Buffer.from(
+      `<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+        <sheets><sheet name="Data" sheetId="1" r:id="rId1"/><sheet name="My Sheet" sheetId="2" r:id="rId2"/></sheets>
+      </workbook>`
+    )
+  );
+  zip.addFile(
+    "xl/_rels/workbook.xml.rels",
+    Buffer.from(
+      `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+        <Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/>
+        <Relationship Id="rId2" Type="worksheet" Target="/xl/worksheets/sheet2.xml"/>
+      </Relationships>`
+    )
+  );
+  zip.addFile(
+    "xl/sharedStrings.xml",
+    Buffer.from(
+      `<sst><si><t>Name</t></si><si><r><t>Rich </t></r><r><t>text</t></r></si></sst>`
+    )
+  );
+  zip.addFile(
+    "xl/worksheets/sheet1.xml",
+    Buffer.from(
+      `<worksheet><sheetData>
+        <row r="2"><c r="B2" t="s"><v>0</v></c><c r="C2" t="s"><v>1</v></c></row>
+        <row r="3"><c r="B3"><v>1.5</v></c><c r="C3"><f>B3*2</f><v>3</v></c><c r="D3" t="b"><v>1</v></c></row>
+      </sheetData></worksheet>`
+    )
+  );
+  zip.addFile(
+    "xl/worksheets/sheet2.xml",
+    Buffer.from(
+      `<worksheet><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>Inline</t></is></c></row></sheetData></worksheet>`
+    )
+  );
+  zip.writeZip(xlsxPath);
+}
+
+describe("Test fixtures", function () {
+  let tempDir: string;
+
+  before(function () {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "office-addin-mock-"));
+  });
+  after(function () {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe("Fixtures", function () {
+    it("Writes and reads a fixture", async function () {
+      const fixturePath = path.join(tempDir, "fixtures", "workbook.json");
+      writeFixture(fixturePath, workbookData);
+
+      const fixture = readFixture(fixturePath);
+      assert.strictEqual(fixture.workbook.getSelectedRange, undefined);
+      assert.strictEqual(fixture.workbook.created.getTime(), workbookData.workbook.created.getTime());
+
+      const officeMock = new OfficeMockObject(fixture);
+      officeMock.workbook.range.load("values");
+      await officeMock.sync();
+      assert.deepStrictEqual(officeMock.workbook.range.values, [[1, "A"]]);
+    });
+    it("Saves the current values of a mock object", async function () {
+      const officeMock = new OfficeMockObject(workbookData);
+      officeMock.workbook.range.format.fill.color = "yellow";
+      officeMock.workbook.load("name");
+      await officeMock.sync();
+
+      const objectData = officeMock.toObjectData();
+      assert.strictEqual(objectData.workbook.name, "Book1");
+      assert.strictEqual(objectData.workbook.range.address, "C2");
+      assert.strictEqual(objectData.workbook.range.format.fill.color, "yellow");
+      assert.strictEqual(objectData.workbook.getSelectedRange, undefined);
+    });
+    it("Compares fixtures", async function () {
+      const officeMock = new OfficeMockObject(workbookData);
+      officeMock.workbook.name = "Book2";
+      officeMock.workbook.range.values = [[1, "B"]];
+
+      assert.deepStrictEqual(compareFixtures(workbookData, officeMock), [
+        'workbook.name: expected "Book1" but was "Book2"',
+        'workbook.range.values[0][1]: expected "A" but was "B"',
+      ]);
+      assert.deepStrictEqual(compareFixtures(workbookData, new OfficeMockObject(workbookData)), []);
+    });
+    it("Matches a snapshot", async function () {
+      const snapshotPath = path.join(tempDir, "snapshots", "workbook.json");
+      const officeMock = new OfficeMockObject(workbookData);
+
+      assert.throws(() => matchSnapshot(officeMock, snapshotPath), {
+        message: `The snapshot ${snapshotPath} does not exist. To write it, set the OFFICE_ADDIN_MOCK_UPDATE_SNAPSHOTS environment variable or pass true for update.`,
+      });
+      assert.ok(!fs.existsSync(snapshotPath));
+      matchSnapshot(officeMock, snapshotPath, true /* update */);
+      assert.ok(fs.existsSync(snapshotPath));
+      matchSnapshot(officeMock, snapshotPath);
+
+      officeMock.workbook.range.format.fill.color = "yellow";
+      assert.throws(() => matchSnapshot(officeMock, snapshotPath), {
+        message: `The mock object does not match the snapshot ${snapshotPath}:\n  workbook.range.format.fill.color: expected "green" but was "yellow"`,
+      });
+      matchSnapshot(officeMock, snapshotPath, true /* update */);
+      matchSnapshot(officeMock, snapshotPath);
+    });
+  });
+
+  describe("Sheet fixtures", function () {
+    it("Names columns", async function () {
+      assert.strictEqual(getColumnName(0), "A");
+      assert.strictEqual(getColumnName(25), "Z");
+      assert.strictEqual(getColumnName(26), "AA");
+      assert.strictEqual(getColumnName(701), "ZZ");
+      assert.strictEqual(getColumnName(702), "AAA");
+    });
+    it("Parses CSV", async function () {
+      assert.deepStrictEqual(parseCsv('a,"b,c"\r\n"d ""e""",\n"f\ng"'), [
+        ["a", "b,c"],
+        ['d "e"', ""],
+        ["f\ng"],
+      ]);
+    });
+    it("Creates a fixture from a CSV file", async function () {
+      const csvPath = path.join(tempDir, "sales.csv");
+      fs.writeFileSync(csvPath, "Region,Amount,Paid\nNorth,1200.5,TRUE\nSouth,-3,false\nTotal,=SUM(B2:B3),\n");
+
+      const fixture = await createExcelFixtureFromFile(csvPath);
+      assert.deepStrictEqual(fixture.context.workbook.worksheets.items, [
+        {
+          name: "sales",
+          position: 0,
+          getUsedRange: {
+            address: "sales!A1:C4",
+            rowCount: 4,
+            columnCount: 3,
+            values: [
+              ["Region", "Amount", "Paid"],
+              ["North", 1200.5, true],
+              ["South", -3, false],
+              ["Total", "", ""],
+            ],
+            formulas: [
+              ["Region", "Amount", "Paid"],
+              ["North", 1200.5, true],
+              ["South", -3, false],
+              ["Total", "=SUM(B2:B3)", ""],
+            ],
+          },
+        },
+      ]);
+    });
+    it("Creates a fixture from an XLSX file", async function () {
+      const xlsxPath = path.join(tempDir, "book.xlsx");
+      createXlsx(xlsxPath);
+
+      const fixture = await createExcelFixtureFromFile(xlsxPath);
+      const [data, mySheet] = fixture.context.workbook.worksheets.items;
+      assert.deepStrictEqual(data.getUsedRange, {
+        address: "Data!B2:D3",
+        rowCount: 2,
+        columnCount: 3,
+        values: [
+          ["Name", "Rich text", ""],
+          [1.5, 3, true],
+        ],
+        formulas: [
+          ["Name", "Rich text", ""],
+          [1.5, "=B3*2", true],
+        ],
+      });
+      assert.strictEqual(mySheet.name, "My Sheet");
+      assert.strictEqual(mySheet.position, 1);
+      assert.strictEqual(mySheet.getUsedRange.address, "'My Sheet'!A1");
+      assert.deepStrictEqual(mySheet.getUsedRange.values, [["Inline"]]);
+
+      const dataFixture = await createExcelFixtureFromFile(xlsxPath, "data");
+      assert.deepStrictEqual(dataFixture.context.workbook.worksheets.items, [data]);
+      await assert.rejects(createExcelFixtureFromFile(xlsxPath, "Missing"), {
+        message: `The worksheet Missing was not found in ${xlsxPath}.`,
+      });
+    });
+    it("Seeds an Excel mock", async function () {
+      this.timeout(60000);
+      const csvPath = path.join(tempDir, "prices.csv");
+      fs.writeFileSync(csvPath, "Item,Price\nApple,2\n");
+      const excelMock = createExcelMock(await createExcelFixtureFromFile(csvPath));
+
+      await excelMock.run(async (context: any) => {
+        const range = context.workbook.worksheets.getItem("prices").getUsedRange();
+        range.load("address, values");
+        await context.sync();
+
+        assert.strictEqual(range.address, "prices!A1:B2");
+        assert.deepStrictEqual(range.values, [
+          ["Item", "Price"],
+          ["Apple", 2],
+        ]);
+      });
+    });
+    it("Rejects other files", async function () {
+      const textPath = path.join(tempDir, "notes.txt");
+      fs.writeFileSync(textPath, "notes");
+      await assert.rejects(createExcelFixtureFromFile(textPath), {
+        message: `The file ${textPath} is not a CSV or XLSX file.`,
+      });
+    });
+  });
+});
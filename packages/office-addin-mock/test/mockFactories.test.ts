@@ -0,0 +1,212 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import assert from "assert";
+import { before, describe, it } from "mocha";
+import {
+  createExcelMock,
+  createOutlookMock,
+  createPowerPointMock,
+  createWordMock,
+} from "../src/main";
+import { readOfficeTypes } from "../src/officeTypes";
+
+describe("Test mock factories", function() {
+  before(function() {
+    // the Office.js type declarations are read once
+    this.timeout(60000);
+    readOfficeTypes();
+  });
+
+  describe("readOfficeTypes", function() {
+    it("Reads classes, collections and defaults", async function() {
+      const officeTypes = readOfficeTypes();
+      const range = officeTypes.get("Excel.Range");
+      assert.deepStrictEqual(range?.properties.format, { kind: "object", types: ["Excel.RangeFormat"] });
+      assert.deepStrictEqual(range?.properties.address, { kind: "scalar", value: "" });
+      assert.deepStrictEqual(range?.methods.replaceAll, { kind: "clientResult", value: 0 });
+      assert.strictEqual(officeTypes.get("Excel.WorksheetCollection")?.itemType, "Excel.Worksheet");
+      assert.strictEqual(range?.properties.onChanged, undefined);
+    });
+    it("Throws when the type declarations do not exist", async function() {
+      assert.throws(() => readOfficeTypes("./test/notAFile.d.ts"));
+    });
+  });
+  describe("createExcelMock", function() {
+    it("Creates the object model with default values", async function() {
+      const excelMock = createExcelMock();
+
+      await excelMock.run(async (context: any) => {
+        const range = context.workbook.getSelectedRange();
+        range.load("address, values");
+        range.format.fill.color = "yellow";
+        await context.sync();
+
+        assert.strictEqual(range.address, "");
+        assert.deepStrictEqual(range.values, []);
+        assert.strictEqual(range.format.fill.color, "yellow");
+        assert.strictEqual(context.workbook.getSelectedRange(), range);
+      });
+    });
+    it("Uses the overrides", async function() {
+      const excelMock = createExcelMock({
+        context: {
+          workbook: {
+            name: "Book1",
+            getSelectedRange: { address: "Sheet1!C2" },
+          },
+        },
+      });
+
+      const context = excelMock.context;
+      const range = context.workbook.getSelectedRange();
+      range.load("address");
+      context.workbook.load("name");
+      await context.sync();
+
+      assert.strictEqual(range.address, "Sheet1!C2");
+      assert.strictEqual(context.workbook.name, "Book1");
+    });
+    it("Requires load and sync", async function() {
+      const excelMock = createExcelMock();
+      const range = excelMock.context.workbook.getSelectedRange();
+      assert.strictEqual(range.address, "Error, property was not loaded");
+      range.load("address");
+      assert.strictEqual(range.address, "Error, context.sync() was not called");
+    });
+    it("Gets collection items", async function() {
+      const excelMock = createExcelMock({
+        context: {
+          workbook: { worksheets: { items: [{ name: "Sheet1" }, { name: "Data", position: 1 }] } },
+        },
+      });
+
+      await excelMock.run(async (context: any) => {
+        const worksheets = context.workbook.worksheets;
+        const data = worksheets.getItem("data");
+        const missing = worksheets.getItemOrNullObject("Missing");
+        const count = worksheets.getCount();
+        worksheets.load("items/name");
+        data.load("position");
+        missing.load("isNullObject");
+        await context.sync();
+
+        assert.deepStrictEqual(
+          worksheets.items.map((worksheet: any) => worksheet.name),
+          ["Sheet1", "Data"]
+        );
+        assert.strictEqual(data.position, 1);
+        assert.strictEqual(missing.isNullObject, true);
+        assert.strictEqual(count.value, 2);
+      });
+    });
+    it("Adds collection items", async function() {
+      const excelMock = createExcelMock();
+
+      await excelMock.run(async (context: any) => {
+        const worksheets = context.workbook.worksheets;
+        const added = worksheets.add("Summary");
+        worksheets.load("items/name");
+        await context.sync();
+
+        assert.strictEqual(worksheets.getItem("Summary"), added);
+        assert.deepStrictEqual(
+          worksheets.items.map((worksheet: any) => worksheet.name),
+          ["Summary"]
+        );
+      });
+    });
+    it("Records the calls", async function() {
+      const excelMock = createExcelMock({}, { record: true });
+
+      await excelMock.run(async (context: any) => {
+        const range = context.workbook.worksheets.getItem("Sheet1").getRange("A1");
+        range.load("values");
+        range.format.fill.color = "yellow";
+        await context.sync();
+      });
+
+      excelMock.expectLoaded('context.workbook.worksheets.getItem("Sheet1").getRange("A1").values');
+      assert.strictEqual(excelMock.getSyncCount(), 1);
+      assert.deepStrictEqual(excelMock.getWrites(), [
+        {
+          path: 'context.workbook.worksheets.getItem("Sheet1").getRange("A1").format.fill.color',
+          value: "yellow",
+        },
+      ]);
+    });
+    it("Uses the strict option", async function() {
+      const excelMock = createExcelMock(
+        { context: { workbook: { worksheets: { items: [{ name: "Sheet1" }] } } } },
+        { strict: true }
+      );
+
+      await excelMock.run(async (context: any) => {
+        const count = context.workbook.worksheets.getCount();
+        const range = context.workbook.getSelectedRange();
+        range.values = [[1]];
+        assert.throws(() => count.value, { code: "ValueNotLoaded" });
+        assert.throws(() => range.values, { code: "PropertyNotLoaded" });
+        await context.sync();
+
+        assert.strictEqual(count.value, 1);
+        assert.deepStrictEqual(range.values, [[1]]);
+      });
+    });
+    it("Injects faults", async function() {
+      const excelMock = createExcelMock(
+        { context: { workbook: { worksheets: { items: [{ name: "Sheet1" }] } } } },
+        {
+          strict: true,
+          faults: [
+            { path: 'context.workbook.worksheets.getItem("Missing").name', code: "ItemNotFound" },
+          ],
+        }
+      );
+
+      await excelMock.run(async (context: any) => {
+        const worksheet = context.workbook.worksheets.getItem("Missing");
+        worksheet.name = "Data";
+        await assert.rejects(context.sync(), { code: "ItemNotFound" });
+      });
+    });
+    it("Limits the depth of the object properties", async function() {
+      const excelMock = createExcelMock({}, { maxDepth: 1 });
+      assert.notStrictEqual(excelMock.context.workbook, undefined);
+      assert.strictEqual(excelMock.context.workbook.application, undefined);
+    });
+  });
+  describe("createWordMock", function() {
+    it("Creates the document", async function() {
+      const wordMock = createWordMock({ context: { document: { body: { text: "Hello" } } } });
+
+      await wordMock.run(async (context: any) => {
+        const body = context.document.body;
+        body.load("text");
+        await context.sync();
+        assert.strictEqual(body.text, "Hello");
+      });
+    });
+  });
+  describe("createPowerPointMock", function() {
+    it("Creates the presentation", async function() {
+      const powerPointMock = createPowerPointMock({ context: { presentation: { title: "Deck" } } });
+
+      await powerPointMock.run(async (context: any) => {
+        const presentation = context.presentation;
+        presentation.load("title");
+        await context.sync();
+        assert.strictEqual(presentation.title, "Deck");
+      });
+    });
+  });
+  describe("createOutlookMock", function() {
+    it("Creates the mailbox without load", async function() {
+      const outlookMock = createOutlookMock({
+        context: { mailbox: { userProfile: { emailAddress: "user@contoso.com" } } },
+      });
+      assert.strictEqual(outlookMock.context.mailbox.userProfile.emailAddress, "user@contoso.com");
+      assert.strictEqual(outlookMock.context.mailbox.userProfile.displayName, "");
+    });
+  });
+});
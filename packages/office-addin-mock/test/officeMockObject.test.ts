@@ -3,7 +3,7 @@
 
 import assert from "assert";
 import { describe, it } from "mocha";
-import { OfficeMockObject } from "../src/main";
+import { ClientResult, ErrorCodes, OfficeMockObject } from "../src/main";
 
 const testObject = {
   range: {
@@ -255,6 +255,208 @@ describe("Test OfficeMockObject class", function() {
     });
   });
 
+  describe("Record calls", function() {
+    it("Records loads, syncs, writes and method calls in order", async function() {
+      const officeMock = new OfficeMockObject({ workbook: contextMockData.workbook }, undefined, {
+        record: true,
+      });
+
+      const range = officeMock.workbook.getSelectedRange();
+      range.load("address");
+      range.format.fill.color = "yellow";
+      await officeMock.sync();
+
+      assert.strictEqual(range.address, "C2");
+      assert.deepStrictEqual(officeMock.getCalls(), [
+        { type: "call", path: "workbook.getSelectedRange", args: [] },
+        { type: "load", path: "workbook.range.load", args: ["address"] },
+        { type: "write", path: "workbook.range.format.fill.color", value: "yellow" },
+        { type: "sync", path: "sync", args: [] },
+      ]);
+    });
+    it("Counts syncs and writes", async function() {
+      const officeMock = new OfficeMockObject(testObject, undefined, { record: true });
+
+      officeMock.range.color = "red";
+      await officeMock.sync();
+      officeMock.range.font.size = 14;
+      await officeMock.sync();
+
+      assert.strictEqual(officeMock.getSyncCount(), 2);
+      assert.deepStrictEqual(officeMock.getWrites(), [
+        { path: "range.color", value: "red" },
+        { path: "range.font.size", value: 14 },
+      ]);
+    });
+    it("Checks loaded properties", async function() {
+      const officeMock = new OfficeMockObject(testObject, undefined, { record: true });
+
+      officeMock.range.load("color, font/size");
+      officeMock.load({ range: { font: { type: true } } });
+
+      officeMock.expectLoaded("range.color");
+      officeMock.expectLoaded("range.font.size");
+      officeMock.expectLoaded("range.font.type");
+      assert.throws(() => officeMock.expectLoaded("range.font"), {
+        message: "Expected range.font to be loaded.",
+      });
+    });
+    it("Loading an object loads its properties", async function() {
+      const officeMock = new OfficeMockObject(testObject, undefined, { record: true });
+
+      officeMock.range.load("font");
+
+      officeMock.expectLoaded("range.font.size");
+      assert.throws(() => officeMock.expectLoaded("range.color"));
+    });
+    it("Calls are not recorded by default", async function() {
+      const officeMock = new OfficeMockObject(testObject);
+      assert.throws(() => officeMock.getSyncCount(), {
+        message: "Calls are not recorded. Create the mock object with the record option.",
+      });
+    });
+  });
+
+  describe("Strict mode", function() {
+    it("Throws when a property was not loaded", async function() {
+      const officeMock = new OfficeMockObject(testObject, undefined, { strict: true });
+
+      assert.throws(() => officeMock.range.color, { code: "PropertyNotLoaded" });
+      officeMock.range.load("color");
+      assert.throws(() => officeMock.range.color, { code: "PropertyNotLoaded" });
+      await officeMock.sync();
+      assert.strictEqual(officeMock.range.color, "blue");
+    });
+    it("Applies writes when sync is called", async function() {
+      const officeMock = new OfficeMockObject(testObject, undefined, { strict: true });
+      officeMock.range.load("color");
+      await officeMock.sync();
+
+      officeMock.range.color = "red";
+      officeMock.range.font.size = 14;
+      assert.strictEqual(officeMock.range.color, "blue");
+      assert.throws(() => officeMock.range.font.size, { code: "PropertyNotLoaded" });
+      await officeMock.sync();
+
+      assert.strictEqual(officeMock.range.color, "red");
+      assert.strictEqual(officeMock.range.font.size, 14);
+    });
+    it("Returns method results when sync is called", async function() {
+      const officeMock = new OfficeMockObject(testObject, undefined, { strict: true });
+
+      const color = officeMock.range.getColor();
+      assert.ok(color instanceof ClientResult);
+      assert.throws(() => color.value, { code: "ValueNotLoaded" });
+      await officeMock.sync();
+      assert.strictEqual(color.value, "blue");
+    });
+    it("Returns objects from methods", async function() {
+      const officeMock = new OfficeMockObject(contextMockData, undefined, { strict: true });
+
+      const range = officeMock.workbook.getSelectedRange();
+      range.load("address");
+      await officeMock.sync();
+
+      assert.strictEqual(range, officeMock.workbook.range);
+      assert.strictEqual(range.address, "C2");
+    });
+    it("Queues writes in methods", async function() {
+      const officeMock = new OfficeMockObject(
+        {
+          range: {
+            color: "blue",
+            clear: function() {
+              this.color = "white";
+            },
+          },
+        },
+        undefined,
+        { strict: true }
+      );
+
+      officeMock.range.clear();
+      officeMock.range.load("color");
+      assert.throws(() => officeMock.range.color, { code: "PropertyNotLoaded" });
+      await officeMock.sync();
+      assert.strictEqual(officeMock.range.color, "white");
+    });
+    it("Has no effect on Outlook", async function() {
+      const officeMock = new OfficeMockObject(testObjectOutlook, undefined, { strict: true });
+      assert.strictEqual(officeMock.range.color, "blue");
+      assert.strictEqual(officeMock.range.getColor(), "blue");
+    });
+  });
+
+  describe("Inject faults", function() {
+    it("Throws from a method on the call", async function() {
+      const officeMock = new OfficeMockObject(contextMockData, undefined, {
+        faults: [{ path: "workbook.getSelectedRange", code: ErrorCodes.itemNotFound, onCall: 2 }],
+      });
+
+      assert.strictEqual(officeMock.workbook.getSelectedRange(), officeMock.workbook.range);
+      assert.throws(() => officeMock.workbook.getSelectedRange(), {
+        name: "RichApi.Error",
+        code: "ItemNotFound",
+        message: "The requested resource doesn't exist.",
+      });
+      assert.strictEqual(officeMock.workbook.getSelectedRange(), officeMock.workbook.range);
+    });
+    it("Throws from properties", async function() {
+      const officeMock = new OfficeMockObject(testObject, undefined, { faults: [] });
+      officeMock.injectFault({ path: "range.font.size", code: ErrorCodes.accessDenied });
+      officeMock.injectFault({
+        path: "range.color",
+        code: ErrorCodes.invalidArgument,
+        message: "The color is invalid.",
+      });
+
+      assert.throws(() => officeMock.range.font.size, { code: "AccessDenied" });
+      assert.throws(() => (officeMock.range.color = "red"), {
+        code: "InvalidArgument",
+        message: "The color is invalid.",
+      });
+      assert.strictEqual(officeMock.range.font.type, "Error, property was not loaded");
+    });
+    it("Rejects sync", async function() {
+      const officeMock = new OfficeMockObject(testObject, undefined, {
+        faults: [{ path: "sync", code: ErrorCodes.activityLimitReached, onCall: 1 }],
+      });
+      officeMock.range.load("color");
+
+      await assert.rejects(officeMock.sync(), { code: "ActivityLimitReached" });
+      await officeMock.sync();
+      assert.strictEqual(officeMock.range.color, "blue");
+    });
+    it("Rejects sync in strict mode", async function() {
+      const officeMock = new OfficeMockObject(contextMockData, undefined, {
+        strict: true,
+        faults: [{ path: "workbook.range.format.fill.color", code: "GeneralException" }],
+      });
+
+      officeMock.workbook.range.address = "D4";
+      officeMock.workbook.range.format.fill.color = "red";
+      officeMock.workbook.range.load("address");
+      await assert.rejects(officeMock.sync(), {
+        code: "GeneralException",
+        debugInfo: {
+          code: "GeneralException",
+          message: "There was an internal error while processing the request.",
+          errorLocation: "workbook.range.format.fill.color",
+        },
+      });
+      // the writes before the call which failed are applied
+      await officeMock.sync();
+      assert.strictEqual(officeMock.workbook.range.address, "D4");
+    });
+    it("Requires the faults option", async function() {
+      const officeMock = new OfficeMockObject(testObject);
+      assert.throws(
+        () => officeMock.injectFault({ path: "range.color", code: ErrorCodes.itemNotFound }),
+        { message: "Faults can't be injected. Create the mock object with the faults option." }
+      );
+    });
+  });
+
   describe("Works on Outlook", function() {
     it("Object construction", async function() {
       const officeMock = new OfficeMockObject(testObjectOutlook);
@@ -0,0 +1,182 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import assert from "assert";
+import { before, describe, it } from "mocha";
+import {
+  AsyncResult,
+  createOutlookMock,
+  OutlookDialogData,
+  OutlookItemData,
+  OutlookMode,
+} from "../src/main";
+import { readOfficeTypes } from "../src/officeTypes";
+
+function callAsync(method: (...args: any[]) => void, ...args: any[]): Promise<AsyncResult> {
+  return new Promise((resolve) => method(...args, resolve));
+}
+
+function waitForDialog(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 10));
+}
+
+describe("Test Outlook simulator", function () {
+  before(function () {
+    // the Office.js type declarations are read once
+    this.timeout(60000);
+    readOfficeTypes();
+  });
+
+  describe("Read mode", function () {
+    it("Has the values of the item", async function () {
+      const officeMock = createOutlookMock(
+        {},
+        {
+          item: {
+            subject: "Hello",
+            from: { emailAddress: "sender@contoso.com", displayName: "Sender" },
+            to: [{ emailAddress: "user@contoso.com" }],
+            body: "<p>Hello &amp; welcome</p>",
+          },
+        }
+      );
+      const item = officeMock.context.mailbox.item;
+
+      assert.strictEqual(item.itemType, officeMock.MailboxEnums.ItemType.Message);
+      assert.strictEqual(item.subject, "Hello");
+      assert.strictEqual(item.from.displayName, "Sender");
+      assert.deepStrictEqual(item.to, [
+        { emailAddress: "user@contoso.com", displayName: "user@contoso.com" },
+      ]);
+      assert.strictEqual(item.body.setAsync, undefined);
+
+      const result = await callAsync(item.body.getAsync, officeMock.CoercionType.Text);
+      assert.strictEqual(result.status, officeMock.AsyncResultStatus.Succeeded);
+      assert.strictEqual(result.value, "Hello & welcome");
+    });
+    it("Fails for an invalid coercion type", async function () {
+      const officeMock = createOutlookMock();
+
+      const result = await callAsync(
+        officeMock.context.mailbox.item.body.getAsync,
+        "matrix",
+        { asyncContext: "context" }
+      );
+      assert.strictEqual(result.status, "failed");
+      assert.strictEqual(result.error?.code, 1000);
+      assert.strictEqual(result.asyncContext, "context");
+    });
+    it("Saves custom properties", async function () {
+      const itemData: OutlookItemData = { customProperties: { color: "red" } };
+      const officeMock = createOutlookMock({}, { item: itemData });
+
+      const result = await callAsync(officeMock.context.mailbox.item.loadCustomPropertiesAsync);
+      const customProperties = result.value;
+      assert.strictEqual(customProperties.get("color"), "red");
+      customProperties.set("size", 2);
+      customProperties.remove("color");
+      assert.deepStrictEqual(itemData.customProperties, { color: "red" });
+
+      await callAsync(customProperties.saveAsync);
+      assert.deepStrictEqual(itemData.customProperties, { size: 2 });
+    });
+    it("Uses the overrides", async function () {
+      const officeMock = createOutlookMock({
+        context: { mailbox: { item: { subject: "Override" } } },
+      });
+      assert.strictEqual(officeMock.context.mailbox.item.subject, "Override");
+    });
+  });
+
+  describe("Compose mode", function () {
+    it("Sets the subject and the body", async function () {
+      const itemData: OutlookItemData = { subject: "Draft", body: "Hi", bodyType: "text" };
+      const officeMock = createOutlookMock({}, { mode: OutlookMode.compose, item: itemData });
+      const item = officeMock.context.mailbox.item;
+
+      assert.strictEqual((await callAsync(item.subject.getAsync)).value, "Draft");
+      await callAsync(item.subject.setAsync, "Final");
+      await callAsync(item.body.setAsync, "<b>Bye</b>", { coercionType: "html" });
+      await callAsync(item.body.prependAsync, "Hello\n");
+
+      assert.strictEqual(itemData.subject, "Final");
+      assert.strictEqual(itemData.body, "Hello\nBye");
+      assert.strictEqual((await callAsync(item.body.getAsync, "html")).value, "Hello<br>Bye");
+    });
+    it("Sets the recipients", async function () {
+      const itemData: OutlookItemData = { to: [{ emailAddress: "a@contoso.com" }] };
+      const officeMock = createOutlookMock({}, { mode: "compose", item: itemData });
+      const item = officeMock.context.mailbox.item;
+
+      await callAsync(item.to.addAsync, ["b@contoso.com"]);
+      await callAsync(item.cc.setAsync, [{ emailAddress: "c@contoso.com", displayName: "C" }]);
+
+      assert.deepStrictEqual(
+        (await callAsync(item.to.getAsync)).value.map((recipient: any) => recipient.emailAddress),
+        ["a@contoso.com", "b@contoso.com"]
+      );
+      assert.deepStrictEqual(itemData.cc, [{ emailAddress: "c@contoso.com", displayName: "C" }]);
+    });
+    it("Has the attendees of an appointment", async function () {
+      const officeMock = createOutlookMock(
+        {},
+        { mode: "compose", item: { itemType: "appointment", requiredAttendees: [] } }
+      );
+      const item = officeMock.context.mailbox.item;
+
+      assert.strictEqual(item.to, undefined);
+      await callAsync(item.requiredAttendees.addAsync, ["a@contoso.com"]);
+      assert.strictEqual((await callAsync(item.requiredAttendees.getAsync)).value.length, 1);
+    });
+  });
+
+  describe("Dialog", function () {
+    it("Receives messages from the dialog", async function () {
+      const dialogData: OutlookDialogData = { messages: ["token"], closedByUser: true };
+      const officeMock = createOutlookMock({}, { dialog: dialogData });
+      const events: any[] = [];
+
+      const result = await callAsync(
+        officeMock.context.ui.displayDialogAsync,
+        "https://localhost:3000/dialog.html",
+        { height: 50 }
+      );
+      const dialog = result.value;
+      dialog.addEventHandler(officeMock.EventType.DialogMessageReceived, (arg: any) => {
+        events.push(arg);
+        dialog.messageChild("received");
+      });
+      dialog.addEventHandler(officeMock.EventType.DialogEventReceived, (arg: any) =>
+        events.push(arg)
+      );
+      await waitForDialog();
+
+      assert.deepStrictEqual(events, [
+        { message: "token", origin: "https://localhost:3000", type: "dialogMessageReceived" },
+        { error: 12006, type: "dialogEventReceived" },
+      ]);
+      assert.strictEqual(dialogData.url, "https://localhost:3000/dialog.html");
+      assert.deepStrictEqual(dialogData.childMessages, ["received"]);
+      assert.strictEqual(dialogData.closed, true);
+    });
+    it("Fails for an HTTP URL", async function () {
+      const officeMock = createOutlookMock();
+      const result = await callAsync(
+        officeMock.context.ui.displayDialogAsync,
+        "http://localhost:3000/dialog.html"
+      );
+      assert.strictEqual(result.status, "failed");
+      assert.strictEqual(result.error?.code, 12005);
+    });
+    it("Fails when a dialog is already opened", async function () {
+      const officeMock = createOutlookMock();
+      const first = await callAsync(officeMock.context.ui.displayDialogAsync, "https://localhost");
+      const second = await callAsync(officeMock.context.ui.displayDialogAsync, "https://localhost");
+      assert.strictEqual(second.error?.code, 12007);
+
+      first.value.close();
+      const third = await callAsync(officeMock.context.ui.displayDialogAsync, "https://localhost");
+      assert.strictEqual(third.status, "succeeded");
+    });
+  });
+});
@@ -0,0 +1,216 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import AdmZip from "adm-zip";
+import crypto from "crypto";
+import fs from "fs";
+import fsExtra from "fs-extra";
+import path from "path";
+import { ExpectedError } from "office-addin-usage-data";
+
+/* global Buffer console */
+
+const skipBackup: string[] = [".git", "node_modules"];
+
+/**
+ * The zip entry which records the project files after the conversion.
+ */
+const convertedProjectEntryName: string = ".office-addin-project.json";
+
+interface ConvertedProject {
+  /** The hash of each file in the backup or created by the conversion, by the path relative to the project root. */
+  files: { [file: string]: string };
+}
+
+/**
+ * Creates a zip file with the files in the project, except for .git and node_modules.
+ * @param backupPath Path to the zip file.
+ * @param rootDir The root directory of the project. Default is the current directory.
+ */
+export async function backupProject(backupPath: string, rootDir: string = path.resolve()) {
+  const zip: AdmZip = new AdmZip();
+  const outputPath: string = path.resolve(backupPath);
+
+  const files: string[] = fs.readdirSync(rootDir);
+  files.forEach((entry) => {
+    const fullPath = path.join(rootDir, entry);
+    const entryStats = fs.lstatSync(fullPath);
+
+    if (skipBackup.includes(entry)) {
+      // Don't add it to the backup
+    } else if (entryStats.isDirectory()) {
+      zip.addLocalFolder(fullPath, entry);
+    } else {
+      zip.addLocalFile(fullPath);
+    }
+  });
+
+  fsExtra.ensureDirSync(path.dirname(outputPath));
+  if (await zip.writeZipPromise(outputPath)) {
+    console.log(`A backup of your project was created to ${outputPath}`);
+  } else {
+    throw new Error(`Error writting zip file to ${outputPath}`);
+  }
+}
+
+/**
+ * Extracts the files in the backup to the project, overwriting the files in the project.
+ * @param backupPath Path to the zip file.
+ * @param rootDir The root directory of the project. Default is the current directory.
+ */
+export async function restoreBackup(backupPath: string, rootDir: string = path.resolve()) {
+  var zip = new AdmZip(backupPath); // reading archives
+  zip.deleteFile(convertedProjectEntryName);
+  zip.extractAllTo(rootDir, true); // overwrite
+}
+
+/**
+ * Returns the files in the backup, by the path relative to the project root.
+ */
+function getBackupFiles(zip: AdmZip): string[] {
+  return zip
+    .getEntries()
+    .filter((entry) => !entry.isDirectory && entry.entryName !== convertedProjectEntryName)
+    .map((entry) => entry.entryName);
+}
+
+/**
+ * Returns the files in the project, except for .git, node_modules and the backup.
+ */
+function getProjectFiles(rootDir: string, backupPath: string): string[] {
+  const files: string[] = [];
+  const backupFile: string = path.resolve(backupPath);
+
+  const addFiles = (dir: string, relativeDir: string) => {
+    fs.readdirSync(dir).forEach((entry) => {
+      const fullPath = path.join(dir, entry);
+      const relativePath = relativeDir ? `${relativeDir}/${entry}` : entry;
+
+      if (
+        entry === ".git" ||
+        (!relativeDir && skipBackup.includes(entry)) ||
+        fullPath === backupFile
+      ) {
+        // Not in the backup
+      } else if (fs.lstatSync(fullPath).isDirectory()) {
+        addFiles(fullPath, relativePath);
+      } else {
+        files.push(relativePath);
+      }
+    });
+  };
+
+  addFiles(rootDir, "");
+  return files;
+}
+
+/**
+ * Returns the hash of each of the files which exists in the project.
+ */
+function getFileHashes(rootDir: string, files: string[]): { [file: string]: string } {
+  const hashes: { [file: string]: string } = {};
+  files.forEach((file) => {
+    const fullPath = path.join(rootDir, file);
+    if (fs.existsSync(fullPath) && fs.lstatSync(fullPath).isFile()) {
+      hashes[file] = crypto.createHash("sha256").update(fs.readFileSync(fullPath)).digest("hex");
+    }
+  });
+  return hashes;
+}
+
+/**
+ * Records the files in the backup and the files created by the conversion, after the conversion,
+ * so that they can be checked for changes before the backup is restored.
+ * @param backupPath Path to the zip file created by backupProject().
+ * @param rootDir The root directory of the project. Default is the current directory.
+ */
+export async function recordConvertedProject(backupPath: string, rootDir: string = path.resolve()) {
+  const zip: AdmZip = new AdmZip(backupPath);
+  const backupFiles: string[] = getBackupFiles(zip);
+  const createdFiles: string[] = getProjectFiles(rootDir, backupPath).filter(
+    (file) => !backupFiles.includes(file)
+  );
+  const convertedProject: ConvertedProject = {
+    files: getFileHashes(rootDir, [...backupFiles, ...createdFiles]),
+  };
+
+  zip.deleteFile(convertedProjectEntryName);
+  zip.addFile(convertedProjectEntryName, Buffer.from(JSON.stringify(convertedProject, null, 2)));
+  if (!(await zip.writeZipPromise(path.resolve(backupPath)))) {
+    throw new Error(`Error writting zip file to ${path.resolve(backupPath)}`);
+  }
+}
+
+/**
+ * Returns the files which were changed, added or removed since the project was converted.
+ */
+function getChangedFiles(
+  convertedFiles: { [file: string]: string },
+  currentFiles: { [file: string]: string }
+): string[] {
+  const changedFiles: string[] = Object.keys(convertedFiles).filter(
+    (file) => convertedFiles[file] !== currentFiles[file]
+  );
+  Object.keys(currentFiles).forEach((file) => {
+    if (convertedFiles[file] === undefined) {
+      changedFiles.push(file);
+    }
+  });
+  return changedFiles.sort();
+}
+
+/**
+ * Restores the project from the backup created when the project was converted. The files which were
+ * created by the conversion are removed.
+ * @param backupPath Path to the zip file created when the project was converted.
+ * @param force Restore the backup even if the project has changed since it was converted.
+ * @param rootDir The root directory of the project. Default is the current directory.
+ * @throws ExpectedError if the project has changed since it was converted, unless force is specified.
+ */
+export async function revertProject(
+  backupPath: string = "./backup.zip",
+  force: boolean = false,
+  rootDir: string = path.resolve()
+) {
+  if (!fs.existsSync(backupPath)) {
+    throw new ExpectedError(`The backup file '${backupPath}' does not exist`);
+  }
+
+  const zip: AdmZip = new AdmZip(backupPath);
+  const entry = zip.getEntry(convertedProjectEntryName);
+  if (!entry && !force) {
+    throw new ExpectedError(
+      `The backup file '${backupPath}' does not record the converted project, so the project can't be checked for changes. Use --force to restore the backup anyway.`
+    );
+  }
+
+  const convertedProject: ConvertedProject = entry
+    ? JSON.parse(entry.getData().toString("utf8"))
+    : { files: {} };
+
+  if (!force) {
+    // only the files which the revert overwrites or removes are checked
+    const changedFiles = getChangedFiles(
+      convertedProject.files,
+      getFileHashes(rootDir, [
+        ...new Set([...Object.keys(convertedProject.files), ...getBackupFiles(zip)]),
+      ])
+    );
+    if (changedFiles.length > 0) {
+      throw new ExpectedError(
+        `The project has changed since it was converted:\n${changedFiles.map((file) => `  ${file}`).join("\n")}\nUse --force to restore the backup anyway, which discards these changes.`
+      );
+    }
+  }
+
+  // remove the files created by the conversion
+  Object.keys(convertedProject.files).forEach((file) => {
+    const fullPath = path.join(rootDir, file);
+    if (!zip.getEntry(file) && fs.existsSync(fullPath)) {
+      fs.unlinkSync(fullPath);
+    }
+  });
+
+  await restoreBackup(backupPath, rootDir);
+  console.log(`The project was restored from ${path.resolve(backupPath)}`);
+}
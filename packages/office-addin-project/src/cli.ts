@@ -40,8 +40,22 @@ commander
     "Use the devPreview version of the json schema in the manifest output"
   )
   .option("--confirm", "Confirmes the conversion")
+  .option(
+    "--no-install",
+    "Only update the package versions in package.json without installing them"
+  )
+  .option("--dry-run", "Show the changes the conversion would make without changing the project")
   .action(commands.convert);
 
+commander
+  .command("revert")
+  .option(
+    "-b, --backup <backup-path>",
+    "Specify the location of the backup file created by the convert command.  Default is './backup.zip'"
+  )
+  .option("--force", "Restore the backup even if the project has changed since it was converted")
+  .action(commands.revert);
+
 if (process.argv.length > 2) {
   commander.parse(process.argv);
 } else {
@@ -4,8 +4,18 @@
 import { OptionValues } from "commander";
 import inquirer from "inquirer";
 import { logErrorMessage } from "office-addin-usage-data";
+import path from "path";
 import { usageDataObject } from "./defaults";
-import { convertProject } from "./convert";
+import { revertProject } from "./backup";
+import {
+  convertProject,
+  formatNotChangedReferences,
+  formatProjectChangesAsDiff,
+  getProjectConversionChanges,
+} from "./convert";
+import { detectPackageManager, getInstallCommand } from "./packages";
+
+/* global console process */
 
 export async function convert(options: OptionValues) {
   try {
@@ -13,10 +23,28 @@ export async function convert(options: OptionValues) {
     const backupPath: string = options.backup ?? "./backup.zip";
     const projectPath: string = options.project ?? "";
     const devPreview: boolean = options.preview ?? false;
+    const install: boolean = options.install ?? true;
+
+    if (options.dryRun) {
+      const changes = await getProjectConversionChanges(manifestPath, projectPath, devPreview);
+      console.log(formatProjectChangesAsDiff(changes.files));
+      if (changes.notChanged.length > 0) {
+        console.log(formatNotChangedReferences(changes.notChanged));
+      }
+      if (install) {
+        const command = getInstallCommand(
+          detectPackageManager(projectPath || path.dirname(manifestPath))
+        );
+        console.log(`The packages would be installed with "${command}".`);
+      }
+      usageDataObject.reportSuccess("convert", { result: "Dry run" });
+      return;
+    }
+
     const shouldContinue = options.confirm ?? (await asksForUserConfirmation());
 
     if (shouldContinue) {
-      await convertProject(manifestPath, backupPath, projectPath, devPreview);
+      await convertProject(manifestPath, backupPath, projectPath, devPreview, install);
       usageDataObject.reportSuccess("convert", { result: "Project converted" });
     } else {
       usageDataObject.reportSuccess("convert", {
@@ -29,6 +57,20 @@ export async function convert(options: OptionValues) {
   }
 }
 
+export async function revert(options: OptionValues) {
+  try {
+    const backupPath: string = options.backup ?? "./backup.zip";
+    const force: boolean = options.force ?? false;
+
+    await revertProject(backupPath, force);
+    usageDataObject.reportSuccess("revert", { result: "Project reverted" });
+  } catch (err: any) {
+    usageDataObject.reportException("revert", err);
+    logErrorMessage(err);
+    process.exitCode = 1;
+  }
+}
+
 async function asksForUserConfirmation(): Promise<boolean> {
   const question = {
     message: `This command will convert your current xml manifest to a json manifest and then proceed to upgrade your project dependencies to ensure compatibility with the new project structure.\nHowever, in order for this newly updated project to function correctly you must be using a compatible version of Outlook.\nWould you like to continue?`,
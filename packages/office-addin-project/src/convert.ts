@@ -1,152 +1,265 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT license.
 
-import AdmZip from "adm-zip";
 import fs from "fs";
 import fsExtra from "fs-extra";
+import os from "os";
 import path from "path";
 import util from "util";
 import { exec } from "child_process";
+import { createTwoFilesPatch } from "diff";
 import { convert } from "office-addin-manifest-converter";
 import { ExpectedError } from "office-addin-usage-data";
+import { backupProject, recordConvertedProject, restoreBackup } from "./backup";
+import {
+  updatePackageJsonManifestReferences,
+  updateWebpackConfigManifestReferences,
+} from "./manifestReferences";
+import {
+  detectPackageManager,
+  formatPackageVersionUpdates,
+  getInstallCommand,
+  PackageVersionUpdate,
+  updatePackageVersions,
+} from "./packages";
 
 /* global console process */
 
 const execAsync = util.promisify(exec);
-const skipBackup: string[] = ["node_modules"];
+const readFileAsync = util.promisify(fs.readFile);
+const writeFileAsync = util.promisify(fs.writeFile);
+const devPreviewSchema: string =
+  "https://developer.microsoft.com/json-schemas/teams/vDevPreview/MicrosoftTeams.schema.json";
+const webpackConfigFiles: string[] = [
+  "webpack.config.js",
+  "webpack.config.ts",
+  "webpack.config.mjs",
+  "webpack.config.cjs",
+];
+
+/**
+ * A file which the conversion changes.
+ */
+export interface ProjectFileChange {
+  /** The path of the file, relative to the project directory. */
+  path: string;
+  /** The content before the conversion, or undefined if the conversion creates the file. */
+  before?: string;
+  /** The content after the conversion, or undefined if the conversion deletes the file. */
+  after?: string;
+}
+
+/**
+ * The changes the conversion makes to the project files.
+ */
+export interface ProjectConversionChanges {
+  files: ProjectFileChange[];
+  /** The references to xml manifests which could not be changed and should be checked manually. */
+  notChanged: string[];
+  /** The changes to the package versions in package.json. */
+  packageUpdates: PackageVersionUpdate[];
+}
 
 export async function convertProject(
   manifestPath: string = "./manifest.xml",
   backupPath: string = "./backup.zip",
   projectDir: string = "",
-  devPreview: boolean = false
+  devPreview: boolean = false,
+  install: boolean = true
 ) {
-  if (manifestPath.endsWith(".json")) {
-    throw new ExpectedError(`The convert command only works on xml manifest based projects`);
-  }
+  validateManifestPath(manifestPath);
 
-  if (!fs.existsSync(manifestPath)) {
-    throw new ExpectedError(`The manifest file '${manifestPath}' does not exist`);
-  }
-
-  const outputPath: string = path.dirname(manifestPath);
+  const manifestFile: string = path.resolve(manifestPath);
+  const outputPath: string = path.dirname(manifestFile);
   const currentDir: string = process.cwd();
+  const backupFile: string = path.resolve(backupPath);
+  // assume project dir is the same as manifest dir if not specified
+  const projectPath: string = projectDir === "" ? outputPath : path.resolve(projectDir);
 
-  await backupProject(backupPath);
+  await backupProject(backupFile);
   try {
-    // assume project dir is the same as manifest dir if not specified
-    projectDir = projectDir === "" ? outputPath : projectDir;
-    process.chdir(projectDir);
+    process.chdir(projectPath);
 
-    if (!devPreview) {
-      await convert(manifestPath, outputPath, false /* imageDownload */);
-    } else {
-      // override the schema used in the json manifest to use the devPreview schema
-      await convert(
-        manifestPath,
-        outputPath,
-        false /* imageDownload */,
-        "https://developer.microsoft.com/json-schemas/teams/vDevPreview/MicrosoftTeams.schema.json",
-        "devPreview"
-      );
+    await convertManifest(manifestFile, outputPath, devPreview);
+    await updateProjectFiles(projectPath, manifestFile);
+    if (install) {
+      await installPackages(projectPath);
     }
-    await updatePackages();
-    await updateManifestXmlReferences();
-    fs.unlinkSync(manifestPath);
+    fs.unlinkSync(manifestFile);
   } catch (err: any) {
     console.log(`Error in conversion. Restoring project initial state.`);
-    await restoreBackup(backupPath);
+    await restoreBackup(backupFile, currentDir);
     throw err;
   } finally {
     process.chdir(currentDir);
   }
+  await recordConvertedProject(backupFile, currentDir);
 }
 
-async function backupProject(backupPath: string) {
-  const zip: AdmZip = new AdmZip();
-  const outputPath: string = path.resolve(backupPath);
-  const rootDir: string = path.resolve();
-
-  const files: string[] = fs.readdirSync(rootDir);
-  files.forEach((entry) => {
-    const fullPath = path.resolve(entry);
-    const entryStats = fs.lstatSync(fullPath);
+/**
+ * Returns the files which the conversion would change, without changing anything.
+ * The changes the package manager makes when it installs the packages are not included.
+ * @param manifestPath Path to the xml manifest file.
+ * @param projectDir The root directory of the project. Default is the directory of the manifest file.
+ * @param devPreview Use the devPreview version of the json schema in the manifest.
+ */
+export async function getProjectConversionChanges(
+  manifestPath: string = "./manifest.xml",
+  projectDir: string = "",
+  devPreview: boolean = false
+): Promise<ProjectConversionChanges> {
+  validateManifestPath(manifestPath);
 
-    if (skipBackup.includes(entry)) {
-      // Don't add it to the backup
-    } else if (entryStats.isDirectory()) {
-      zip.addLocalFolder(entry, entry);
-    } else {
-      zip.addLocalFile(entry);
+  const outputPath: string = path.resolve(path.dirname(manifestPath));
+  const projectPath: string = projectDir === "" ? outputPath : path.resolve(projectDir);
+  const tempPath: string = fs.mkdtempSync(path.join(os.tmpdir(), "office-addin-project-"));
+  const changes: ProjectFileChange[] = [];
+  const addChange = async (file: string, getContent: (before?: string) => string | undefined) => {
+    const before = fs.existsSync(file) ? await readFileAsync(file, "utf8") : undefined;
+    const after = getContent(before);
+    if (before !== after) {
+      changes.push({ path: path.relative(projectPath, file).replace(/\\/g, "/"), before, after });
     }
-  });
+  };
 
-  fsExtra.ensureDirSync(path.dirname(outputPath));
-  if (await zip.writeZipPromise(outputPath)) {
-    console.log(`A backup of your project was created to ${outputPath}`);
-  } else {
-    throw new Error(`Error writting zip file to ${outputPath}`);
+  try {
+    await convertManifest(manifestPath, tempPath, devPreview);
+    for (const file of getFiles(tempPath)) {
+      const after = await readFileAsync(path.join(tempPath, file), "utf8");
+      await addChange(path.join(outputPath, file), () => after);
+    }
+  } finally {
+    fsExtra.removeSync(tempPath);
   }
+
+  await addChange(path.resolve(manifestPath), () => undefined);
+
+  const projectChanges = await getProjectFileChanges(projectPath, manifestPath);
+  return { ...projectChanges, files: [...changes, ...projectChanges.files] };
 }
 
-async function restoreBackup(backupPath: string) {
-  var zip = new AdmZip(backupPath); // reading archives
-  zip.extractAllTo("./", true); // overwrite
+/**
+ * Returns a unified diff of the changes.
+ * @param changes The files which are changed.
+ */
+export function formatProjectChangesAsDiff(changes: ProjectFileChange[]): string {
+  return changes
+    .map((change) =>
+      createTwoFilesPatch(
+        change.before !== undefined ? `a/${change.path}` : "/dev/null",
+        change.after !== undefined ? `b/${change.path}` : "/dev/null",
+        change.before ?? "",
+        change.after ?? ""
+      )
+    )
+    .join("");
 }
 
-async function updatePackages(): Promise<void> {
-  // Contains name of the package and minimum version
-  const depedentPackages: string[] = ["office-addin-debugging", "office-addin-manifest"];
-  let command: string = "npm install";
-  let messageToBePrinted: string = "Installing latest versions of";
+/**
+ * Returns a message which lists the references to xml manifests which could not be changed.
+ * @param notChanged The references which could not be changed.
+ */
+export function formatNotChangedReferences(notChanged: string[]): string {
+  return `The following references to xml manifests could not be updated automatically. Update them manually:\n${notChanged.map((reference) => `  ${reference}`).join("\n")}`;
+}
 
-  for (let i = 0; i < depedentPackages.length; i++) {
-    const depedentPackage = depedentPackages[i];
-    command += ` ${depedentPackage}@latest`;
-    messageToBePrinted += ` ${depedentPackage}`;
+function validateManifestPath(manifestPath: string) {
+  if (path.extname(manifestPath).toLowerCase() === ".json") {
+    throw new ExpectedError(`The convert command only works on xml manifest based projects`);
+  }
 
-    if (i === depedentPackages.length - 2) {
-      messageToBePrinted += " and";
-    } else {
-      messageToBePrinted += ",";
-    }
+  if (!fs.existsSync(manifestPath)) {
+    throw new ExpectedError(`The manifest file '${manifestPath}' does not exist`);
   }
+}
 
-  command += ` --save-dev`;
-  console.log(messageToBePrinted.slice(0, -1));
-  await execAsync(command);
+async function convertManifest(manifestPath: string, outputPath: string, devPreview: boolean) {
+  if (!devPreview) {
+    await convert(manifestPath, outputPath, false /* imageDownload */);
+  } else {
+    // override the schema used in the json manifest to use the devPreview schema
+    await convert(
+      manifestPath,
+      outputPath,
+      false /* imageDownload */,
+      devPreviewSchema,
+      "devPreview"
+    );
+  }
 }
 
-async function updateManifestXmlReferences(): Promise<void> {
-  await updatePackageJson();
-  await updateWebpackConfig();
+/**
+ * Returns the paths of the files in the directory and its subdirectories, relative to the directory.
+ */
+function getFiles(dir: string, relativeDir: string = ""): string[] {
+  const files: string[] = [];
+  fs.readdirSync(path.join(dir, relativeDir)).forEach((entry) => {
+    const relativePath = path.join(relativeDir, entry);
+    if (fs.lstatSync(path.join(dir, relativePath)).isDirectory()) {
+      files.push(...getFiles(dir, relativePath));
+    } else {
+      files.push(relativePath);
+    }
+  });
+  return files;
 }
 
-async function updatePackageJson(): Promise<void> {
-  const packageJson = `./package.json`;
-  const readFileAsync = util.promisify(fs.readFile);
-  const data = await readFileAsync(packageJson, "utf8");
-  let content = JSON.parse(data);
+/**
+ * Returns the changes to the package.json and webpack config files, which change the references
+ * from the xml manifest to the json manifest and the package versions.
+ */
+async function getProjectFileChanges(
+  projectPath: string,
+  manifestPath: string
+): Promise<ProjectConversionChanges> {
+  const xmlManifest: string = path.relative(projectPath, path.resolve(manifestPath));
+  const jsonManifest: string = path.join(path.dirname(xmlManifest), "manifest.json");
+  const files: ProjectFileChange[] = [];
+  const notChanged: string[] = [];
+  let packageUpdates: PackageVersionUpdate[] = [];
+  const fileNames: string[] = ["package.json", ...webpackConfigFiles].filter((fileName) =>
+    fs.existsSync(path.join(projectPath, fileName))
+  );
 
-  // Change .xml references to .json
-  Object.keys(content.scripts).forEach(function (key) {
-    content.scripts[key] = content.scripts[key].replace(/manifest.xml/gi, `manifest.json`);
-  });
+  for (const fileName of fileNames) {
+    const before = await readFileAsync(path.join(projectPath, fileName), "utf8");
+    let update;
+    if (fileName === "package.json") {
+      const versionUpdate = updatePackageVersions(before);
+      packageUpdates = versionUpdate.updates;
+      update = updatePackageJsonManifestReferences(
+        versionUpdate.content,
+        xmlManifest,
+        jsonManifest
+      );
+    } else {
+      update = updateWebpackConfigManifestReferences(before, fileName, xmlManifest, jsonManifest);
+    }
+
+    if (update.content !== before) {
+      files.push({ path: fileName, before, after: update.content });
+    }
+    notChanged.push(...update.notChanged);
+  }
 
-  // write updated json to file
-  const writeFileAsync = util.promisify(fs.writeFile);
-  await writeFileAsync(packageJson, JSON.stringify(content, null, 2));
+  return { files, notChanged, packageUpdates };
 }
 
-async function updateWebpackConfig(): Promise<void> {
-  const weppackConfig = `./webpack.config.js`;
-  const readFileAsync = util.promisify(fs.readFile);
-  const data = await readFileAsync(weppackConfig, "utf8");
+async function updateProjectFiles(projectPath: string, manifestPath: string) {
+  const projectChanges = await getProjectFileChanges(projectPath, manifestPath);
+
+  for (const file of projectChanges.files) {
+    await writeFileAsync(path.join(projectPath, file.path), file.after as string);
+  }
 
-  // switching to json extension is the easy fix.
-  // TODO: update to remove the manifest copy plugin since it's not needed in webpack
-  let content = data.replace(/"(manifest\*\.)xml"/gi, '"$1json"');
+  console.log(formatPackageVersionUpdates(projectChanges.packageUpdates));
+  if (projectChanges.notChanged.length > 0) {
+    console.log(formatNotChangedReferences(projectChanges.notChanged));
+  }
+}
 
-  const writeFileAsync = util.promisify(fs.writeFile);
-  await writeFileAsync(weppackConfig, content);
+async function installPackages(projectPath: string) {
+  const command: string = getInstallCommand(detectPackageManager(projectPath));
+  console.log(`Installing packages with "${command}"`);
+  await execAsync(command, { cwd: projectPath });
 }
@@ -1,4 +1,7 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT license.
 
+export * from "./backup";
 export * from "./convert";
+export * from "./manifestReferences";
+export * from "./packages";
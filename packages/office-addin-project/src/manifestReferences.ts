@@ -0,0 +1,269 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import path from "path";
+import ts from "typescript";
+import { formatPackageJson } from "./packages";
+
+/**
+ * The result of changing the references to the xml manifest in a project file.
+ */
+export interface ManifestReferenceUpdate {
+  /** The content of the file with the references changed. */
+  content: string;
+  /** The references which were changed, such as `webpack.config.js:12: "manifest*.xml" -> "manifest*.json"`. */
+  changed: string[];
+  /** The references to xml manifests which could not be changed and should be checked manually. */
+  notChanged: string[];
+}
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface ScriptToken {
+  value: string;
+  /** The position of the value in the script, which excludes the quotes. */
+  start: number;
+  end: number;
+  operator: boolean;
+}
+
+function applyEdits(content: string, edits: TextEdit[]): string {
+  return edits
+    .sort((first, second) => second.start - first.start)
+    .reduce(
+      (text, edit) => text.substring(0, edit.start) + edit.text + text.substring(edit.end),
+      content
+    );
+}
+
+function normalizePath(value: string): string {
+  return path.posix.normalize(value.replace(/\\/g, "/")).toLowerCase();
+}
+
+function globToRegExp(glob: string): RegExp {
+  const pattern = normalizePath(glob)
+    .split(/(\*\*\/|\*\*|\*|\?)/)
+    .map((part) => {
+      switch (part) {
+        case "**/":
+          return "(?:.*/)?";
+        case "**":
+          return ".*";
+        case "*":
+          return "[^/]*";
+        case "?":
+          return "[^/]";
+        default:
+          return part.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+      }
+    })
+    .join("");
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Returns the value which refers to the json manifest instead of the xml manifest, or undefined
+ * if the value does not refer to the xml manifest.
+ * @param value A file path or glob pattern, relative to the project directory.
+ * @param xmlManifest Path to the xml manifest, relative to the project directory.
+ * @param jsonManifest Path to the json manifest, relative to the project directory.
+ */
+function getJsonManifestReference(
+  value: string,
+  xmlManifest: string,
+  jsonManifest: string
+): string | undefined {
+  if (normalizePath(value) === normalizePath(xmlManifest)) {
+    const fileNameStart = Math.max(value.lastIndexOf("/"), value.lastIndexOf("\\")) + 1;
+    return value.substring(0, fileNameStart) + path.basename(jsonManifest);
+  }
+
+  if (
+    /[*?]/.test(value) &&
+    /\.xml$/i.test(value) &&
+    globToRegExp(value).test(normalizePath(xmlManifest))
+  ) {
+    const jsonGlob = value.substring(0, value.length - ".xml".length) + ".json";
+    return globToRegExp(jsonGlob).test(normalizePath(jsonManifest)) ? jsonGlob : undefined;
+  }
+
+  return undefined;
+}
+
+function isXmlManifestReference(text: string, xmlManifest: string): boolean {
+  const manifestName = path.basename(xmlManifest, path.extname(xmlManifest)).toLowerCase();
+  return (
+    /\.xml/i.test(text) && (/manifest/i.test(text) || text.toLowerCase().includes(manifestName))
+  );
+}
+
+/**
+ * Changes the references to the xml manifest in a webpack config to the json manifest, such as the
+ * CopyWebpackPlugin patterns which copy the manifest. The config is parsed, so JavaScript, ESM and
+ * TypeScript configs are supported, and the rest of the config is not changed.
+ * @param content The content of the webpack config.
+ * @param fileName The file name of the webpack config, such as "webpack.config.ts".
+ * @param xmlManifest Path to the xml manifest, relative to the project directory.
+ * @param jsonManifest Path to the json manifest, relative to the project directory.
+ */
+export function updateWebpackConfigManifestReferences(
+  content: string,
+  fileName: string,
+  xmlManifest: string,
+  jsonManifest: string
+): ManifestReferenceUpdate {
+  const scriptKind = /\.[cm]?ts$/i.test(fileName) ? ts.ScriptKind.TS : ts.ScriptKind.JS;
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    content,
+    ts.ScriptTarget.Latest,
+    true /* setParentNodes */,
+    scriptKind
+  );
+  const edits: TextEdit[] = [];
+  const changed: string[] = [];
+  const notChanged: string[] = [];
+  const getLocation = (node: ts.Node) =>
+    `${fileName}:${sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1}`;
+
+  const visit = (node: ts.Node) => {
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+      const literal = node.getText(sourceFile);
+      const jsonReference = getJsonManifestReference(node.text, xmlManifest, jsonManifest);
+
+      if (jsonReference !== undefined) {
+        const quote = literal.charAt(0);
+        const newLiteral = `${quote}${jsonReference.replace(/\\/g, "\\\\")}${quote}`;
+        edits.push({ start: node.getStart(sourceFile), end: node.getEnd(), text: newLiteral });
+        changed.push(`${getLocation(node)}: ${literal} -> ${newLiteral}`);
+      } else if (isXmlManifestReference(node.text, xmlManifest)) {
+        notChanged.push(`${getLocation(node)}: ${literal}`);
+      }
+    } else if (ts.isTemplateExpression(node) || ts.isRegularExpressionLiteral(node)) {
+      // the value is not known until the config runs
+      const text = node.getText(sourceFile);
+      if (isXmlManifestReference(text, xmlManifest)) {
+        notChanged.push(`${getLocation(node)}: ${text}`);
+      }
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return { content: applyEdits(content, edits), changed, notChanged };
+}
+
+function getScriptTokens(script: string): ScriptToken[] {
+  const tokens: ScriptToken[] = [];
+  const tokenPattern = /"((?:[^"\\]|\\.)*)"|'([^']*)'|(&&|\|\||[;&|])|((?:[^\s"';&|\\]|\\.)+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(script)) !== null) {
+    const quoted = match[1] ?? match[2];
+    if (quoted !== undefined) {
+      tokens.push({
+        value: quoted,
+        start: match.index + 1,
+        end: match.index + match[0].length - 1,
+        operator: false,
+      });
+    } else {
+      tokens.push({
+        value: match[0],
+        start: match.index,
+        end: match.index + match[0].length,
+        operator: match[3] !== undefined,
+      });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Changes the references to the xml manifest in a package.json script.
+ */
+function updateScriptManifestReferences(
+  name: string,
+  script: string,
+  xmlManifest: string,
+  jsonManifest: string
+): ManifestReferenceUpdate {
+  const tokens = getScriptTokens(script);
+  const edits: TextEdit[] = [];
+  const changed: string[] = [];
+  const notChanged: string[] = [];
+
+  tokens.forEach((token, index) => {
+    const jsonReference = getJsonManifestReference(token.value, xmlManifest, jsonManifest);
+    const command = tokens[index - 2];
+    const isDebuggingManifestArg =
+      command !== undefined &&
+      !command.operator &&
+      !tokens[index - 1].operator &&
+      path.basename(command.value) === "office-addin-debugging" &&
+      !token.value.startsWith("-");
+
+    if (token.operator) {
+      // not an argument
+    } else if (jsonReference !== undefined) {
+      edits.push({ start: token.start, end: token.end, text: jsonReference });
+      changed.push(`scripts.${name}: ${token.value} -> ${jsonReference}`);
+    } else if (
+      /\.xml$/i.test(token.value) ||
+      (isDebuggingManifestArg && /[$%]/.test(token.value))
+    ) {
+      notChanged.push(`scripts.${name}: ${token.value}`);
+    }
+  });
+
+  return { content: applyEdits(script, edits), changed, notChanged };
+}
+
+/**
+ * Changes the references to the xml manifest in the package.json scripts, such as the manifest
+ * passed to office-addin-debugging, and in the manifest_location config. The rest of the file,
+ * including the indentation, is not changed.
+ * @param content The content of the package.json file.
+ * @param xmlManifest Path to the xml manifest, relative to the project directory.
+ * @param jsonManifest Path to the json manifest, relative to the project directory.
+ */
+export function updatePackageJsonManifestReferences(
+  content: string,
+  xmlManifest: string,
+  jsonManifest: string
+): ManifestReferenceUpdate {
+  const packageJson = JSON.parse(content);
+  const changed: string[] = [];
+  const notChanged: string[] = [];
+  const scripts: { [name: string]: string } = packageJson.scripts ?? {};
+
+  Object.keys(scripts).forEach((name) => {
+    const update = updateScriptManifestReferences(name, scripts[name], xmlManifest, jsonManifest);
+    scripts[name] = update.content;
+    changed.push(...update.changed);
+    notChanged.push(...update.notChanged);
+  });
+
+  const manifestLocation = packageJson.config?.manifest_location;
+  if (typeof manifestLocation === "string") {
+    const jsonReference = getJsonManifestReference(manifestLocation, xmlManifest, jsonManifest);
+    if (jsonReference !== undefined) {
+      packageJson.config.manifest_location = jsonReference;
+      changed.push(`config.manifest_location: ${manifestLocation} -> ${jsonReference}`);
+    } else if (/\.xml$/i.test(manifestLocation)) {
+      notChanged.push(`config.manifest_location: ${manifestLocation}`);
+    }
+  }
+
+  return {
+    content: changed.length > 0 ? formatPackageJson(packageJson, content) : content,
+    changed,
+    notChanged,
+  };
+}
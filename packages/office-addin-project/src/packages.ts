@@ -0,0 +1,143 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import fs from "fs";
+import path from "path";
+import semver from "semver";
+
+export enum PackageManager {
+  Npm = "npm",
+  Pnpm = "pnpm",
+  Yarn = "yarn",
+}
+
+/**
+ * The lock file of each package manager, in the order they are checked.
+ */
+const lockFiles: { [file: string]: PackageManager } = {
+  "pnpm-lock.yaml": PackageManager.Pnpm,
+  "yarn.lock": PackageManager.Yarn,
+  "package-lock.json": PackageManager.Npm,
+  "npm-shrinkwrap.json": PackageManager.Npm,
+};
+
+/**
+ * The packages a project with a json manifest needs, with the versions which are known to work with json manifests.
+ */
+export const jsonManifestPackages: { [name: string]: string } = {
+  "office-addin-debugging": "^6.0.3",
+  "office-addin-manifest": "^2.0.3",
+};
+
+/**
+ * A change to the version of a package in package.json.
+ */
+export interface PackageVersionUpdate {
+  name: string;
+  /** The version range before the change, or undefined if the package is added. */
+  before?: string;
+  after: string;
+}
+
+/**
+ * Returns the package manager used by the project, from the lock file in the project directory.
+ * If there isn't a lock file, npm is used.
+ * @param projectPath The root directory of the project.
+ */
+export function detectPackageManager(projectPath: string): PackageManager {
+  const lockFile = Object.keys(lockFiles).find((file) =>
+    fs.existsSync(path.join(projectPath, file))
+  );
+  return lockFile ? lockFiles[lockFile] : PackageManager.Npm;
+}
+
+/**
+ * Returns the command which installs the packages in package.json.
+ * @param packageManager The package manager.
+ */
+export function getInstallCommand(packageManager: PackageManager): string {
+  return `${packageManager} install`;
+}
+
+/**
+ * Returns true if the version range only allows versions which are at least the minimum version
+ * of the known range.
+ */
+function isCompatibleVersion(version: string, knownVersion: string): boolean {
+  try {
+    const minVersion = semver.minVersion(version);
+    const knownMinVersion = semver.minVersion(knownVersion);
+    return (
+      minVersion !== null && knownMinVersion !== null && semver.gte(minVersion, knownMinVersion)
+    );
+  } catch {
+    // not a version range, such as a tag, url or file path
+    return false;
+  }
+}
+
+/**
+ * Returns the package.json with the object converted to json, keeping the indentation, line endings
+ * and final new line of the original content.
+ * @param packageJson The package.json object.
+ * @param content The original content of the package.json file.
+ */
+export function formatPackageJson(packageJson: any, content: string): string {
+  const indent = /\n([ \t]+)"/.exec(content)?.[1] ?? 2;
+  const newLine = content.includes("\r\n") ? "\r\n" : "\n";
+  let newContent = JSON.stringify(packageJson, null, indent).replace(/\n/g, newLine);
+  if (/\n$/.test(content)) {
+    newContent += newLine;
+  }
+  return newContent;
+}
+
+/**
+ * Changes the version ranges of the packages a project with a json manifest needs to the versions
+ * which are known to work with json manifests. Version ranges which only allow newer versions are
+ * not changed. Packages which are missing are added to devDependencies.
+ * @param content The content of the package.json file.
+ */
+export function updatePackageVersions(content: string): {
+  content: string;
+  updates: PackageVersionUpdate[];
+} {
+  const packageJson = JSON.parse(content);
+  const updates: PackageVersionUpdate[] = [];
+
+  Object.keys(jsonManifestPackages).forEach((name) => {
+    const knownVersion = jsonManifestPackages[name];
+    let dependencies = ["dependencies", "devDependencies"]
+      .map((key) => packageJson[key])
+      .find((value) => value && value[name] !== undefined);
+    if (!dependencies) {
+      packageJson.devDependencies = packageJson.devDependencies ?? {};
+      dependencies = packageJson.devDependencies;
+    }
+    const version: string | undefined = dependencies[name];
+
+    if (version === undefined || !isCompatibleVersion(version, knownVersion)) {
+      dependencies[name] = knownVersion;
+      updates.push({ name, before: version, after: knownVersion });
+    }
+  });
+
+  return {
+    content: updates.length > 0 ? formatPackageJson(packageJson, content) : content,
+    updates,
+  };
+}
+
+/**
+ * Returns a message which lists the changes to the package versions.
+ * @param updates The changes to the package versions.
+ */
+export function formatPackageVersionUpdates(updates: PackageVersionUpdate[]): string {
+  if (updates.length === 0) {
+    return "The package versions already work with json manifests.";
+  }
+
+  return `Updated the package versions to work with json manifests:\n${updates
+    .map((update) => `  ${update.name}: ${update.before ?? "(none)"} -> ${update.after}`)
+    .join("\n")}`;
+}
@@ -3,9 +3,25 @@
 
 import assert from "assert";
 import fs from "fs";
+import fsExtra from "fs-extra";
 import { describe, it } from "mocha";
+import os from "os";
 import path from "path";
-import { convertProject } from "../src/convert";
+import { backupProject, recordConvertedProject, revertProject } from "../src/backup";
+import {
+  convertProject,
+  formatProjectChangesAsDiff,
+  getProjectConversionChanges,
+} from "../src/convert";
+import {
+  updatePackageJsonManifestReferences,
+  updateWebpackConfigManifestReferences,
+} from "../src/manifestReferences";
+import {
+  detectPackageManager,
+  PackageManager,
+  updatePackageVersions,
+} from "../src/packages";
 import { convert } from "office-addin-manifest-converter";
 
 describe("office-addin-project tests", function() {
@@ -24,6 +40,64 @@ describe("office-addin-project tests", function() {
         } catch (err: any) {}
       });
     });
+    describe("getProjectConversionChanges", function() {
+      let projectPath: string;
+      beforeEach(function() {
+        projectPath = fs.mkdtempSync(path.join(os.tmpdir(), "ConvertDryRunTest"));
+        fs.copyFileSync("./test/TaskPane.manifest.xml", path.join(projectPath, "manifest.xml"));
+        fs.copyFileSync("./test/package.json", path.join(projectPath, "package.json"));
+        fs.writeFileSync(
+          path.join(projectPath, "webpack.config.js"),
+          'new CopyWebpackPlugin({ patterns: [{ from: "manifest*.xml", to: "[name]" + "[ext]" }] });\n'
+        );
+      });
+      afterEach(function() {
+        fsExtra.removeSync(projectPath);
+      });
+      it("Returns the changes without changing the project", async function() {
+        this.timeout(6000);
+        const manifestPath = path.join(projectPath, "manifest.xml");
+        const packageJson = fs.readFileSync(path.join(projectPath, "package.json"), "utf8");
+        const {
+          files: changes,
+          notChanged,
+          packageUpdates,
+        } = await getProjectConversionChanges(manifestPath);
+
+        assert.deepStrictEqual(
+          changes.map((change) => change.path).sort(),
+          ["manifest.json", "manifest.xml", "package.json", "webpack.config.js"]
+        );
+        assert.strictEqual(changes.find((change) => change.path === "manifest.xml")?.after, undefined);
+        assert.strictEqual(changes.find((change) => change.path === "manifest.json")?.before, undefined);
+        assert.strictEqual(
+          JSON.parse(changes.find((change) => change.path === "package.json")?.after as string).scripts
+            .start,
+          "office-addin-debugging start manifest.json"
+        );
+        assert.deepStrictEqual(notChanged, ["scripts.start:desktop:outlook: manifest.outlook.xml"]);
+        assert.deepStrictEqual(packageUpdates, [
+          { name: "office-addin-debugging", before: "^6.0.1", after: "^6.0.3" },
+        ]);
+        assert.strictEqual(fs.existsSync(manifestPath), true);
+        assert.strictEqual(fs.existsSync(path.join(projectPath, "manifest.json")), false);
+        assert.strictEqual(fs.readFileSync(path.join(projectPath, "package.json"), "utf8"), packageJson);
+      });
+      it("Formats the changes as a unified diff", async function() {
+        const diff = formatProjectChangesAsDiff([
+          { path: "manifest.json", after: "{}\n" },
+          { path: "manifest.xml", before: "<OfficeApp/>\n" },
+          { path: "webpack.config.js", before: '"manifest*.xml"\n', after: '"manifest*.json"\n' },
+        ]);
+        assert.ok(diff.includes("--- /dev/null\n+++ b/manifest.json\n@@ -0,0 +1,1 @@\n+{}\n"));
+        assert.ok(diff.includes("--- a/manifest.xml\n+++ /dev/null\n@@ -1,1 +0,0 @@\n-<OfficeApp/>\n"));
+        assert.ok(
+          diff.includes(
+            '--- a/webpack.config.js\n+++ b/webpack.config.js\n@@ -1,1 +1,1 @@\n-"manifest*.xml"\n+"manifest*.json"\n'
+          )
+        );
+      });
+    });
     describe("convertManifest", function() {
       it("Converts test manifest", async function() {
         this.timeout(6000);
@@ -48,4 +122,208 @@ describe("office-addin-project tests", function() {
       });
     });
   });
+  describe("manifestReferences.ts", function() {
+    describe("updateWebpackConfigManifestReferences", function() {
+      it("Changes the CopyWebpackPlugin pattern in a TypeScript config with single quotes", function() {
+        const config = [
+          "import CopyWebpackPlugin from 'copy-webpack-plugin';",
+          "export default {",
+          "  plugins: [",
+          "    new CopyWebpackPlugin({",
+          "      patterns: [{ from: 'assets/*', to: 'assets/[name][ext]' }, { from: 'manifest*.xml', to: '[name][ext]' }],",
+          "    }),",
+          "  ],",
+          "};",
+          "",
+        ].join("\n");
+        const update = updateWebpackConfigManifestReferences(
+          config,
+          "webpack.config.ts",
+          "manifest.xml",
+          "manifest.json"
+        );
+        assert.strictEqual(update.content, config.replace("'manifest*.xml'", "'manifest*.json'"));
+        assert.deepStrictEqual(update.changed, [
+          "webpack.config.ts:5: 'manifest*.xml' -> 'manifest*.json'",
+        ]);
+        assert.deepStrictEqual(update.notChanged, []);
+      });
+      it("Changes manifest paths and reports references it can't change", function() {
+        const config = [
+          'import path from "path";',
+          'const manifest = path.resolve(__dirname, "./manifest.xml");',
+          "const outlookManifest = `manifest.${host}.xml`;",
+          'const other = "manifest.outlook.xml";',
+          "",
+        ].join("\n");
+        const update = updateWebpackConfigManifestReferences(
+          config,
+          "webpack.config.mjs",
+          "manifest.xml",
+          "manifest.json"
+        );
+        assert.strictEqual(update.content, config.replace('"./manifest.xml"', '"./manifest.json"'));
+        assert.deepStrictEqual(update.notChanged, [
+          "webpack.config.mjs:3: `manifest.${host}.xml`",
+          'webpack.config.mjs:4: "manifest.outlook.xml"',
+        ]);
+      });
+      it("Does not change patterns which don't match the manifest", function() {
+        const config = 'module.exports = { patterns: [{ from: "src/*.xml" }], test: /\\.xml$/ };\n';
+        const update = updateWebpackConfigManifestReferences(
+          config,
+          "webpack.config.js",
+          "manifest.xml",
+          "manifest.json"
+        );
+        assert.strictEqual(update.content, config);
+        assert.deepStrictEqual(update.changed, []);
+        assert.deepStrictEqual(update.notChanged, []);
+      });
+    });
+    describe("updatePackageJsonManifestReferences", function() {
+      it("Changes the manifest arguments and keeps the formatting", function() {
+        const packageJson =
+          '{\n    "scripts": {\n        "start": "office-addin-debugging start \'manifest.xml\' desktop",\n        "stop": "office-addin-debugging stop manifest.xml && echo done",\n        "validate": "office-addin-manifest validate ./manifest.xml"\n    }\n}\n';
+        const update = updatePackageJsonManifestReferences(packageJson, "manifest.xml", "manifest.json");
+        assert.strictEqual(update.content, packageJson.replace(/manifest\.xml/g, "manifest.json"));
+        assert.deepStrictEqual(update.changed, [
+          "scripts.start: manifest.xml -> manifest.json",
+          "scripts.stop: manifest.xml -> manifest.json",
+          "scripts.validate: ./manifest.xml -> ./manifest.json",
+        ]);
+      });
+      it("Reports manifest arguments it can't change", function() {
+        const packageJson = JSON.stringify({
+          config: { manifest_location: "manifest.${platform}.xml" },
+          scripts: {
+            start: "office-addin-debugging start $npm_package_config_manifest",
+            "start:outlook": "office-addin-debugging start manifest.outlook.xml",
+          },
+        });
+        const update = updatePackageJsonManifestReferences(packageJson, "manifest.xml", "manifest.json");
+        assert.strictEqual(update.content, packageJson);
+        assert.deepStrictEqual(update.notChanged, [
+          "scripts.start: $npm_package_config_manifest",
+          "scripts.start:outlook: manifest.outlook.xml",
+          "config.manifest_location: manifest.${platform}.xml",
+        ]);
+      });
+    });
+  });
+  describe("packages.ts", function() {
+    describe("detectPackageManager", function() {
+      let projectPath: string;
+      beforeEach(function() {
+        projectPath = fs.mkdtempSync(path.join(os.tmpdir(), "PackageManagerTest"));
+      });
+      afterEach(function() {
+        fsExtra.removeSync(projectPath);
+      });
+      it("Uses npm when there isn't a lock file", function() {
+        assert.strictEqual(detectPackageManager(projectPath), PackageManager.Npm);
+      });
+      it("Detects yarn", function() {
+        fs.writeFileSync(path.join(projectPath, "yarn.lock"), "");
+        assert.strictEqual(detectPackageManager(projectPath), PackageManager.Yarn);
+      });
+      it("Detects pnpm", function() {
+        fs.writeFileSync(path.join(projectPath, "pnpm-lock.yaml"), "");
+        assert.strictEqual(detectPackageManager(projectPath), PackageManager.Pnpm);
+      });
+    });
+    describe("updatePackageVersions", function() {
+      it("Changes old versions and adds missing packages", function() {
+        const packageJson = '{\n  "dependencies": {\n    "office-addin-debugging": "^5.0.0"\n  }\n}\n';
+        const update = updatePackageVersions(packageJson);
+        assert.deepStrictEqual(update.updates, [
+          { name: "office-addin-debugging", before: "^5.0.0", after: "^6.0.3" },
+          { name: "office-addin-manifest", before: undefined, after: "^2.0.3" },
+        ]);
+        assert.strictEqual(
+          update.content,
+          '{\n  "dependencies": {\n    "office-addin-debugging": "^6.0.3"\n  },\n  "devDependencies": {\n    "office-addin-manifest": "^2.0.3"\n  }\n}\n'
+        );
+      });
+      it("Does not change newer versions", function() {
+        const packageJson = JSON.stringify({
+          devDependencies: { "office-addin-debugging": "^6.1.0", "office-addin-manifest": "~2.0.3" },
+        });
+        const update = updatePackageVersions(packageJson);
+        assert.deepStrictEqual(update.updates, []);
+        assert.strictEqual(update.content, packageJson);
+      });
+      it("Changes versions which are not version ranges", function() {
+        const packageJson = JSON.stringify({
+          devDependencies: { "office-addin-debugging": "latest", "office-addin-manifest": "^2.0.3" },
+        });
+        const update = updatePackageVersions(packageJson);
+        assert.deepStrictEqual(update.updates, [
+          { name: "office-addin-debugging", before: "latest", after: "^6.0.3" },
+        ]);
+      });
+    });
+  });
+  describe("backup.ts", function() {
+    describe("revertProject", function() {
+      let projectPath: string;
+      let backupPath: string;
+      beforeEach(async function() {
+        projectPath = fs.mkdtempSync(path.join(os.tmpdir(), "RevertProjectTest"));
+        backupPath = path.join(projectPath, "backup.zip");
+        fs.writeFileSync(path.join(projectPath, "manifest.xml"), "<OfficeApp/>");
+        fs.mkdirSync(path.join(projectPath, "src"));
+        fs.writeFileSync(path.join(projectPath, "src", "taskpane.ts"), "// taskpane");
+        fs.mkdirSync(path.join(projectPath, ".git"));
+        fs.writeFileSync(path.join(projectPath, ".git", "config"), "[core]");
+        await backupProject(backupPath, projectPath);
+
+        // simulate the conversion
+        fs.unlinkSync(path.join(projectPath, "manifest.xml"));
+        fs.writeFileSync(path.join(projectPath, "manifest.json"), "{}");
+        await recordConvertedProject(backupPath, projectPath);
+      });
+      afterEach(function() {
+        fsExtra.removeSync(projectPath);
+      });
+      it("Restores the project and removes the files created by the conversion", async function() {
+        await revertProject(backupPath, false, projectPath);
+        assert.strictEqual(fs.readFileSync(path.join(projectPath, "manifest.xml"), "utf8"), "<OfficeApp/>");
+        assert.strictEqual(fs.existsSync(path.join(projectPath, "manifest.json")), false);
+        assert.strictEqual(fs.existsSync(path.join(projectPath, ".office-addin-project.json")), false);
+      });
+      it("Throws when the project has changed since the conversion", async function() {
+        fs.writeFileSync(path.join(projectPath, "src", "taskpane.ts"), "// changed");
+        fs.writeFileSync(path.join(projectPath, "manifest.xml"), "<OfficeApp/>\n");
+        await assert.rejects(revertProject(backupPath, false, projectPath), (err: Error) => {
+          assert.strictEqual(
+            err.message,
+            "The project has changed since it was converted:\n  manifest.xml\n  src/taskpane.ts\nUse --force to restore the backup anyway, which discards these changes."
+          );
+          return true;
+        });
+        assert.strictEqual(fs.readFileSync(path.join(projectPath, "manifest.xml"), "utf8"), "<OfficeApp/>\n");
+      });
+      it("Ignores files which are not in the backup or created by the conversion", async function() {
+        fs.writeFileSync(path.join(projectPath, ".git", "config"), "[core]\n\tbare = false");
+        fs.writeFileSync(path.join(projectPath, ".git", "HEAD"), "ref: refs/heads/main");
+        fs.mkdirSync(path.join(projectPath, "dist"));
+        fs.writeFileSync(path.join(projectPath, "dist", "taskpane.js"), "// output");
+        await revertProject(backupPath, false, projectPath);
+        assert.strictEqual(fs.readFileSync(path.join(projectPath, "manifest.xml"), "utf8"), "<OfficeApp/>");
+        assert.strictEqual(fs.existsSync(path.join(projectPath, "dist", "taskpane.js")), true);
+        assert.strictEqual(fs.readFileSync(path.join(projectPath, ".git", "config"), "utf8"), "[core]\n\tbare = false");
+        assert.strictEqual(fs.existsSync(path.join(projectPath, ".git", "HEAD")), true);
+      });
+      it("Restores the changed project with force", async function() {
+        fs.writeFileSync(path.join(projectPath, "src", "taskpane.ts"), "// changed");
+        await revertProject(backupPath, true, projectPath);
+        assert.strictEqual(fs.readFileSync(path.join(projectPath, "src", "taskpane.ts"), "utf8"), "// taskpane");
+        assert.strictEqual(fs.existsSync(path.join(projectPath, "manifest.json")), false);
+      });
+      it("Throws when the backup file does not exist", async function() {
+        await assert.rejects(revertProject(path.join(projectPath, "missing.zip"), false, projectPath));
+      });
+    });
+  });
 });